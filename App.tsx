@@ -5,27 +5,70 @@ import { WeatherCard } from './components/WeatherCard';
 import { EditInput } from './components/EditInput';
 import { LoadingScreen } from './components/LoadingScreen';
 import { FantasyCreator } from './components/FantasyCreator';
+import { PreferencesPanel } from './components/PreferencesPanel';
+import { CollectionSwitcher } from './components/CollectionSwitcher';
+import { CollectionOrganizer } from './components/CollectionOrganizer';
+import { CompareView } from './components/CompareView';
+import { BundleImportDialog } from './components/BundleImportDialog';
 import { generateWeatherScene, getCityNativeName, generateHomeBackground, generateFantasyScene, generateCreativeWeatherData, regenerateFantasyScene } from './services/geminiService';
-import { getWeatherData } from './services/weatherService';
-import { AppState, WeatherCardData, LocationData, FantasyConfig, ViewConfig, GeneratedImage } from './types';
-import { AlertCircle, Sparkles, Wand2, X } from 'lucide-react';
+import { isAbortError } from './services/generationQueue';
+import { getWeatherData, reverseGeocode } from './services/weatherService';
+import { describeWeatherError, NetworkError } from './services/weatherErrors';
+import { loadSavedCards, syncSavedCards } from './services/storageService';
+import { createRefreshScheduler, getRefreshInterval, setRefreshInterval, refreshCardWeather, applyCardRefresh, relocateCard } from './services/refreshService';
+import { locateDevice, watchSignificantMoves, SIGNIFICANT_MOVE_KM } from './services/geolocationService';
+import { distanceKm } from './services/coordinates';
+import { loadPreferences, savePreferences } from './services/preferencesService';
+import { deriveAlerts, topSeverity } from './services/alertsService';
+import { checkNotificationRules } from './services/notificationService';
+import { upsertVariant, pruneVariants } from './services/forecastScenes';
+import { pickTimelapseKeyframes, generateTimelapse } from './services/timelapseService';
+import { getImageHistory, applyImageHistory } from './services/imageHistory';
+import { getPresetStyle, getImageStyle } from './services/promptTemplates';
+import { getCardProfile, getImageProfile } from './services/outputProfiles';
+import { setLocale, t } from './services/i18n';
+import { MessageKey } from './locales/en';
+import { isOnline, subscribeToConnectivity, getQueuedRefreshes, queueOfflineRefresh, takeQueuedRefreshes, removeQueuedRefresh } from './services/offlineService';
+import { getCollectionCards, getCollectionId, getCollectionName, loadCollections, saveCollections, loadActiveCollectionId, saveActiveCollectionId, createCollection, moveCardToCollection, reorderCollection, releaseCollectionCards, DEFAULT_COLLECTION_ID } from './services/collectionsService';
+import { parseRoute, routePath, routeDepth, previewRoute, Route, RouteEntry } from './services/router';
+import { createBundle, downloadBundle, readBundleFile, findImportConflicts, importBundle, BundleError } from './services/bundleService';
+import { AppState, Collection, CardBundle, ImportConflictPolicy, WeatherCardData, LocationData, FantasyConfig, ViewConfig, GeneratedImage, GenerationProgress, UserPreferences, NotificationRule, SceneMoment, TimelapseProgress, ImageHistory, OutputProfile, SceneAspectRatio } from './types';
+import { useDialogFocus } from './services/a11y';
+import { AlertCircle, AlertTriangle, Sparkles, Wand2, X, SlidersHorizontal, FolderDown } from 'lucide-react';
 
 const SWIPE_THRESHOLD = 100;
 const DRAG_THRESHOLD = 5; // Pixels to move before considering it a drag
 
+// Stack card size per scene shape; wider scenes get more width so they don't shrink to a strip
+const STACK_CARD_FRAME: Record<SceneAspectRatio, string> = {
+  '9:16': 'w-[85vw] max-w-[340px] aspect-[9/16]',
+  '16:9': 'w-[92vw] max-w-[560px] aspect-video',
+  '1:1': 'w-[88vw] max-w-[400px] aspect-square',
+};
+
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>(AppState.IDLE);
   const [savedCards, setSavedCards] = useState<WeatherCardData[]>([]);
   const [homeBg, setHomeBg] = useState<string | null>(null);
+  const [hasHydrated, setHasHydrated] = useState(false); // True once saved cards are loaded from IndexedDB
+  const persistQueue = useRef<Promise<void>>(Promise.resolve());
   
   // --- INFINITE STACK STATE ---
   // Unbounded integer
   const [activeIndex, setActiveIndex] = useState(0);
+
+  // Collections: the stack shows the cards of the active one
+  const [collections, setCollections] = useState<Collection[]>(loadCollections);
+  const [activeCollectionId, setActiveCollectionId] = useState(() => loadActiveCollectionId(loadCollections()));
+  const [showOrganizer, setShowOrganizer] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ bundle: CardBundle | null; error?: MessageKey } | null>(null);
   
   // Gesture State
   const [dragX, setDragX] = useState(0);
   const [isDragging, setIsDragging] = useState(false);
   const dragStartX = useRef<number | null>(null);
+  const stackRef = useRef<HTMLDivElement>(null);
   
   // Layout Metrics (Dynamic)
   const [screenWidth, setScreenWidth] = useState(375);
@@ -35,11 +78,28 @@ const App: React.FC = () => {
   const [previewDragOffset, setPreviewDragOffset] = useState(0); // Track drag to animate search bar
   const [expandedCardId, setExpandedCardId] = useState<string | null>(null);
   const [refreshingCardId, setRefreshingCardId] = useState<string | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null); // Drives LoadingScreen status
+  const [timelapseProgress, setTimelapseProgress] = useState<TimelapseProgress & { cardId: string } | null>(null);
+  const [isOffline, setIsOffline] = useState(() => !isOnline());
+  const [queuedRefreshIds, setQueuedRefreshIds] = useState<string[]>(getQueuedRefreshes); // Refreshes waiting for the network
   
   const [showFantasy, setShowFantasy] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+  const [preferences, setPreferences] = useState<UserPreferences>(() => {
+      const stored = loadPreferences();
+      setLocale(stored.locale);
+      return stored;
+  });
+  const [refreshIntervalMin, setRefreshIntervalMin] = useState(getRefreshInterval);
   const [errorMsg, setErrorMsg] = useState<string>("");
   const [isScrolled, setIsScrolled] = useState(false);
 
+  // Routing: the URL mirrors the open overlays (see services/router.ts)
+  const [routeReady, setRouteReady] = useState(false); // True once the URL we were opened with has been applied
+  const [cardDetail, setCardDetail] = useState<{ cardId: string; metric: string } | null>(null); // Metric detail open on the expanded card
+  const expectedRoute = useRef<{ path: string; depth: number; modal: boolean } | null>(null); // Entry we're stepping back to ourselves
+  const dismissedPreview = useRef<WeatherCardData | null>(null); // Preview closed by Back, restored by Forward
+
   useEffect(() => {
     const updateWidth = () => setScreenWidth(window.innerWidth);
     updateWidth();
@@ -63,17 +123,160 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // --- PERSISTENCE ---
+  useEffect(() => {
+    loadSavedCards()
+        .then(cards => {
+            if (cards.length === 0) return;
+            // Keep cards created or imported while the store was loading, after the stored ones;
+            // a My Location card pinned meanwhile replaces the stored one, as it would have then
+            setSavedCards(prev => {
+                const added = prev.filter(p => !cards.some(c => c.weather.id === p.weather.id));
+                const pinned = added.find(c => c.pinned);
+                return pinned
+                    ? [pinned, ...cards.filter(c => !c.pinned), ...added.filter(c => c !== pinned)]
+                    : [...cards, ...added];
+            });
+        })
+        .catch(err => console.error("Failed to restore saved cards", err))
+        .finally(() => setHasHydrated(true));
+  }, []);
+
+  useEffect(() => {
+    // Don't write until the stored stack has been read, or we'd wipe it with the empty initial state
+    if (!hasHydrated) return;
+    // Chain writes so an older snapshot never lands after a newer one
+    persistQueue.current = persistQueue.current
+        .then(() => syncSavedCards(savedCards))
+        .then(evictedIds => {
+            if (evictedIds.length > 0) {
+                setSavedCards(prev => prev.filter(c => !evictedIds.includes(c.weather.id)));
+            }
+        })
+        .catch(err => console.error("Failed to persist saved cards", err));
+  }, [savedCards, hasHydrated]);
+
+  // --- BACKGROUND REFRESH ---
+  // Refs give the scheduler the latest state without restarting its timer on every change
+  const savedCardsRef = useRef(savedCards);
+  savedCardsRef.current = savedCards;
+  const refreshingCardIdRef = useRef(refreshingCardId);
+  refreshingCardIdRef.current = refreshingCardId;
+  const preferencesRef = useRef(preferences);
+  preferencesRef.current = preferences;
+  const schedulerRef = useRef<ReturnType<typeof createRefreshScheduler> | null>(null);
+  // Cards getting their post-import refresh; these run in the background, off the manual refresh slot
+  const importRefreshIdsRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!hasHydrated) return;
+    const scheduler = createRefreshScheduler({
+        intervalMin: refreshIntervalMin,
+        getCards: () => savedCardsRef.current,
+        isBusy: (id) => refreshingCardIdRef.current === id || importRefreshIdsRef.current.has(id),
+        onCardRefreshed: (id, refresh) => {
+            // Merged into the latest card: edits, rules or moves made during the refresh are kept
+            setSavedCards(prev => prev.map(c => c.weather.id === id ? applyCardRefresh(c, refresh) : c));
+            // Keep the ref current so onTick sees the refreshed forecast before React re-renders
+            savedCardsRef.current = savedCardsRef.current.map(c => c.weather.id === id ? applyCardRefresh(c, refresh) : c);
+        },
+        onTick: () => {
+            const { notifications, units } = preferencesRef.current;
+            checkNotificationRules(savedCardsRef.current, notifications, units);
+        }
+    });
+    scheduler.start();
+    schedulerRef.current = scheduler;
+    // Check once on load too, so rules don't wait a whole interval
+    checkNotificationRules(savedCardsRef.current, preferencesRef.current.notifications, preferencesRef.current.units);
+    return () => {
+        scheduler.stop();
+        if (schedulerRef.current === scheduler) schedulerRef.current = null;
+    };
+  }, [hasHydrated, refreshIntervalMin]);
+
+  // --- OFFLINE ---
+  // Saved cards keep showing their last known data (from IndexedDB) while offline. Refreshes
+  // requested in the meantime are queued and replayed one by one once we're back online.
+  useEffect(() => {
+    if (!hasHydrated) return;
+
+    const replayQueuedRefreshes = async () => {
+        const ids = takeQueuedRefreshes();
+        setQueuedRefreshIds([]);
+        for (const id of ids) {
+            const card = savedCardsRef.current.find(c => c.weather.id === id);
+            if (!card || refreshingCardIdRef.current === id || importRefreshIdsRef.current.has(id) || schedulerRef.current?.isRefreshing(id)) continue;
+            setRefreshingCardId(id);
+            try {
+                // Replayed like a background refresh: the scene is only redrawn if the sky changed.
+                // Only the refreshed fields are merged, so changes made during earlier replays are kept.
+                if (card.weather.isFictional) {
+                    const image = await regenerateFantasyScene(card.weather, { background: true }, getImageStyle(card.image), getCardProfile(card));
+                    updateCard(id, c => ({ ...c, image }));
+                } else {
+                    const refresh = await refreshCardWeather(card);
+                    updateCard(id, c => applyCardRefresh(c, refresh));
+                }
+            } catch (err) {
+                console.warn(`Queued refresh failed for ${card.weather.city}`, err);
+                // Connection dropped again mid-replay; keep it for the next attempt
+                if (!isOnline()) setQueuedRefreshIds(queueOfflineRefresh(id));
+            } finally {
+                setRefreshingCardId(current => current === id ? null : current);
+            }
+        }
+    };
+
+    // Flush anything left over from a previous offline session
+    if (isOnline()) replayQueuedRefreshes();
+
+    return subscribeToConnectivity(online => {
+        setIsOffline(!online);
+        if (online) replayQueuedRefreshes();
+    });
+  }, [hasHydrated]);
+
+  // --- MY LOCATION ---
+  // The pinned card follows the device: once it has moved far enough, the card is
+  // re-geocoded and redrawn for the new place. Restarts whenever the card itself moves.
+  const pinnedLocation = savedCards.find(c => c.pinned)?.weather.location;
+  const pinnedLat = pinnedLocation?.latitude;
+  const pinnedLon = pinnedLocation?.longitude;
+
+  useEffect(() => {
+    if (!hasHydrated || pinnedLat === undefined || pinnedLon === undefined) return;
+    return watchSignificantMoves({ latitude: pinnedLat, longitude: pinnedLon }, async (position) => {
+        const card = savedCardsRef.current.find(c => c.pinned);
+        const id = card?.weather.id;
+        if (!card || !id || refreshingCardIdRef.current === id || importRefreshIdsRef.current.has(id) || schedulerRef.current?.isRefreshing(id) || !isOnline()) return;
+        setRefreshingCardId(id);
+        try {
+            const location = await reverseGeocode(position.latitude, position.longitude);
+            const moved = await relocateCard(card, location);
+            // Collection, rules, profile and pin come from the latest card, not the one we started with
+            updateCard(id, c => ({ ...c, ...moved }));
+        } catch (err) {
+            console.warn("Couldn't move the My Location card", err);
+        } finally {
+            setRefreshingCardId(current => current === id ? null : current);
+        }
+    });
+  }, [hasHydrated, pinnedLat, pinnedLon]);
+
   // --- INFINITE DATA HELPERS ---
+  const stackCards = getCollectionCards(savedCards, activeCollectionId);
+
   const getCardData = (index: number) => {
-      if (savedCards.length === 0) return null;
+      if (stackCards.length === 0) return null;
       // Euclidean Modulo to handle negative indices correctly
-      const wrappedIndex = ((index % savedCards.length) + savedCards.length) % savedCards.length;
-      return savedCards[wrappedIndex];
+      const wrappedIndex = ((index % stackCards.length) + stackCards.length) % stackCards.length;
+      return stackCards[wrappedIndex];
   };
 
   // --- GESTURE HANDLERS ---
   const handleTouchStart = (e: React.TouchEvent | React.MouseEvent) => {
-    if (expandedCardId || previewCard || savedCards.length === 0) return;
+    if (expandedCardId || previewCard || stackCards.length === 0) return;
     const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
     dragStartX.current = clientX;
     // Do NOT set isDragging to true yet. Wait for movement.
@@ -116,6 +319,22 @@ const App: React.FC = () => {
     setIsDragging(false);
   };
 
+  // Keyboard equivalent of swiping: arrows move through the stack, Enter/Space opens the center card
+  const handleStackKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || expandedCardId || previewCard || stackCards.length === 0) return;
+    if (e.key === 'ArrowLeft') {
+        setActiveIndex(prev => prev - 1);
+    } else if (e.key === 'ArrowRight') {
+        setActiveIndex(prev => prev + 1);
+    } else if (e.key === 'Enter' || e.key === ' ') {
+        const card = getCardData(activeIndex);
+        if (card) setExpandedCardId(card.weather.id);
+    } else {
+        return;
+    }
+    e.preventDefault();
+  };
+
   // --- LAYOUT ENGINE (ASYMMETRICAL) ---
   const getCardStyle = (relativeOffset: number) => {
     const cardWidth = Math.min(340, screenWidth * 0.9);
@@ -181,7 +400,31 @@ const App: React.FC = () => {
 
   // --- ACTIONS ---
 
-  const handleSearch = async (location: LocationData) => {
+  // In-flight generations that the user can cancel (new card, manual refresh)
+  const generationController = useRef<AbortController | null>(null);
+  const refreshController = useRef<AbortController | null>(null);
+
+  const startGeneration = () => {
+    generationController.current?.abort();
+    const controller = new AbortController();
+    generationController.current = controller;
+    setGenerationProgress(null);
+    return controller.signal;
+  };
+
+  const handleCancelGeneration = () => {
+    generationController.current?.abort();
+    generationController.current = null;
+    setState(AppState.IDLE);
+  };
+
+  const cancelRefresh = () => {
+    refreshController.current?.abort();
+    refreshController.current = null;
+  };
+
+  // `date` (YYYY-MM-DD) opens the place on a past day instead of the live forecast
+  const handleSearch = async (location: LocationData, options: { pinned?: boolean; date?: string } = {}) => {
     // Always show loading state first for feedback
     setState(AppState.FETCHING_WEATHER);
     setErrorMsg("");
@@ -189,26 +432,30 @@ const App: React.FC = () => {
     setPreviewCard(null);
     setPreviewDragOffset(0);
 
-    // Check duplicates based on ID
-    const existingIndex = savedCards.findIndex(c => c.weather.location.id === location.id);
+    // Check duplicates in the active collection based on ID (and day, for archived cards). The pinned
+    // card isn't a searched place, so it neither counts as a duplicate nor gets replaced by one.
+    const existingIndex = options.pinned ? -1 : stackCards.findIndex(c =>
+        !c.pinned && c.weather.location.id === location.id && c.weather.historicalDate === options.date);
     if (existingIndex !== -1) {
       // Show loading for a moment then switch
       setTimeout(() => {
-        const currentMod = ((activeIndex % savedCards.length) + savedCards.length) % savedCards.length;
+        const currentMod = ((activeIndex % stackCards.length) + stackCards.length) % stackCards.length;
         const diff = existingIndex - currentMod;
         setActiveIndex(prev => prev + diff);
-        setExpandedCardId(savedCards[existingIndex].weather.id);
+        setExpandedCardId(stackCards[existingIndex].weather.id);
         setState(AppState.IDLE);
       }, 1000);
       return;
     }
 
+    const signal = startGeneration();
     try {
-      const weatherData = await getWeatherData(location);
+      const weatherData = await getWeatherData(location, options.date);
+      if (signal.aborted) return;
       setState(AppState.GENERATING_IMAGE);
       
       const [generatedImage, nativeName] = await Promise.all([
-        generateWeatherScene(weatherData),
+        generateWeatherScene(weatherData, { signal, onProgress: setGenerationProgress }, undefined, getPresetStyle(preferences.stylePresetId), preferences.outputProfile),
         getCityNativeName(weatherData.city, weatherData.country)
       ]);
       
@@ -216,79 +463,223 @@ const App: React.FC = () => {
       
       setPreviewCard({
           weather: completeWeatherData,
-          image: generatedImage
+          image: generatedImage,
+          pinned: options.pinned,
+          profile: preferences.outputProfile
       });
       setState(AppState.SUCCESS);
     } catch (err: any) {
+      if (isAbortError(err) || signal.aborted) return; // Cancelled from the loading screen
       console.error(err);
-      setErrorMsg(err.message || "Something went wrong.");
+      setErrorMsg(describeWeatherError(err));
       setState(AppState.ERROR);
     }
   };
 
+  // Date picker on a real card: the archived day (or the live forecast again) opens as its own card
+  const handleShowDate = (card: WeatherCardData, date: string | null) => {
+    setExpandedCardId(null);
+    setCardDetail(null);
+    handleSearch(card.weather.location, { date: date || undefined });
+  };
+
+  const handleUseMyLocation = async () => {
+    setState(AppState.FETCHING_WEATHER);
+    setErrorMsg("");
+    try {
+        const location = await locateDevice();
+        // Still near the pinned card: just open it instead of drawing a new one
+        const pinnedIndex = stackCards.findIndex(c => c.pinned);
+        if (pinnedIndex !== -1 && distanceKm(stackCards[pinnedIndex].weather.location, location) < SIGNIFICANT_MOVE_KM) {
+            const currentMod = ((activeIndex % stackCards.length) + stackCards.length) % stackCards.length;
+            setActiveIndex(prev => prev + pinnedIndex - currentMod);
+            setExpandedCardId(stackCards[pinnedIndex].weather.id);
+            setState(AppState.IDLE);
+            return;
+        }
+        await handleSearch(location, { pinned: true });
+    } catch (err) {
+        console.error(err);
+        setErrorMsg(describeWeatherError(err));
+        setState(AppState.ERROR);
+    }
+  };
+
   const handleFantasyCreate = async (config: FantasyConfig) => {
       setState(AppState.GENERATING_IMAGE);
       setErrorMsg("");
       setShowFantasy(false); // Close modal
       
+      const signal = startGeneration();
       try {
           // Generate Creative Weather Data (Async AI) + Image Parallel
           const [weatherData, image] = await Promise.all([
               generateCreativeWeatherData(config),
-              generateFantasyScene(config)
+              generateFantasyScene(config, { signal, onProgress: setGenerationProgress }, getPresetStyle(preferences.stylePresetId), preferences.outputProfile)
           ]);
+          if (signal.aborted) return;
           
           const newCard: WeatherCardData = {
               weather: weatherData,
-              image: image
+              image: image,
+              profile: preferences.outputProfile
           };
           
           setPreviewCard(newCard);
           setState(AppState.SUCCESS);
       } catch (err: any) {
+          if (isAbortError(err) || signal.aborted) return;
           console.error(err);
-          setErrorMsg("Failed to construct fantasy world. The simulation grid may be unstable.");
+          setErrorMsg(t('app.fantasyFailed'));
           setState(AppState.ERROR);
       }
   };
 
   const handleRefresh = async (card: WeatherCardData) => {
-    if (refreshingCardId) return;
+    // The background scheduler is already refreshing this card
+    if (refreshingCardId || importRefreshIdsRef.current.has(card.weather.id) || schedulerRef.current?.isRefreshing(card.weather.id)) return;
+    const isSaved = savedCards.some(c => c.weather.id === card.weather.id);
+    if (!isOnline() && isSaved) {
+        setQueuedRefreshIds(queueOfflineRefresh(card.weather.id));
+        return;
+    }
     setRefreshingCardId(card.weather.id);
+    const controller = new AbortController();
+    refreshController.current = controller;
+    const { signal } = controller;
     try {
         if (card.weather.isFictional) {
-             // Use the regeneration function which uses the persisted config
-             const updatedImage = await regenerateFantasyScene(card.weather);
-             const updatedCard = { ...card, image: updatedImage };
-             if (previewCard?.weather.id === card.weather.id) {
-                setPreviewCard(updatedCard);
-             } else {
-                setSavedCards(prev => prev.map(c => c.weather.id === card.weather.id ? updatedCard : c));
-             }
+             // Use the regeneration function which uses the persisted config and the scene's style
+             const updatedImage = await regenerateFantasyScene(card.weather, { signal }, getImageStyle(card.image), getCardProfile(card));
+             updateCard(card.weather.id, c => ({ ...c, image: updatedImage }));
         } else {
             // Real refresh
-            const weatherData = await getWeatherData(card.weather.location);
+            const weatherData = await getWeatherData(card.weather.location, card.weather.historicalDate);
             const [generatedImage, nativeName] = await Promise.all([
-                generateWeatherScene(weatherData),
+                generateWeatherScene(weatherData, { signal }, undefined, getImageStyle(card.image), getCardProfile(card)),
                 getCityNativeName(weatherData.city, weatherData.country)
             ]);
-            const updatedCard = { weather: { ...weatherData, nativeCity: nativeName }, image: generatedImage };
-
-            if (previewCard?.weather.id === card.weather.id) {
-                setPreviewCard(updatedCard);
-            } else {
-                setSavedCards(prev => prev.map(c => c.weather.id === card.weather.id ? updatedCard : c));
-            }
+            // Merged into the latest card so changes made while the scene was drawing are kept; the
+            // id stays, like a scheduled refresh, so the open card and its /card/<id> link survive
+            updateCard(card.weather.id, c => ({
+                ...c,
+                weather: { ...weatherData, id: c.weather.id, nativeCity: nativeName },
+                image: generatedImage,
+                variants: pruneVariants(c.variants, weatherData)
+            }));
         }
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error(err);
+      // Lost the connection mid-refresh (navigator.onLine isn't always accurate); retry when back
+      if (err instanceof NetworkError && isSaved && !err.status) {
+          setQueuedRefreshIds(queueOfflineRefresh(card.weather.id));
+      }
     } finally {
+      if (refreshController.current === controller) refreshController.current = null;
       setRefreshingCardId(null);
     }
   };
 
+  // Applies `update` to the card with `cardId`, whether it is the preview or a saved card
+  const updateCard = (cardId: string, update: (card: WeatherCardData) => WeatherCardData) => {
+    setPreviewCard(prev => prev?.weather.id === cardId ? update(prev) : prev);
+    setSavedCards(prev => prev.map(c => c.weather.id === cardId ? update(c) : c));
+  };
+
+  // Draws the forecast for one hour or day and keeps it as a variant next to the "now" scene.
+  // Runs like a manual refresh: the card shows its spinner and stays usable meanwhile.
+  const handleGenerateForecastScene = async (card: WeatherCardData, moment: SceneMoment) => {
+    if (refreshingCardId) return;
+    setRefreshingCardId(card.weather.id);
+    const controller = new AbortController();
+    refreshController.current = controller;
+    try {
+        const image = await generateWeatherScene(card.weather, { signal: controller.signal }, moment, getImageStyle(card.image), getCardProfile(card));
+        updateCard(card.weather.id, c => ({ ...c, variants: upsertVariant(c.variants || [], image) }));
+    } catch (err) {
+        if (!isAbortError(err)) console.error(err);
+    } finally {
+        if (refreshController.current === controller) refreshController.current = null;
+        setRefreshingCardId(null);
+    }
+  };
+
+  // Redraws the "now" scene in another format (or a draft at full size) and keeps that format for the
+  // card's later scenes. The weather stays as it is; only the picture changes.
+  const handleChangeProfile = async (card: WeatherCardData, profile: OutputProfile) => {
+    if (refreshingCardId) return;
+    setRefreshingCardId(card.weather.id);
+    const controller = new AbortController();
+    refreshController.current = controller;
+    const options = { signal: controller.signal };
+    const style = getImageStyle(card.image);
+    try {
+        const image = card.weather.isFictional
+            ? await regenerateFantasyScene(card.weather, options, style, profile)
+            : await generateWeatherScene(card.weather, options, undefined, style, profile);
+        updateCard(card.weather.id, c => ({ ...c, image, profile }));
+    } catch (err) {
+        if (!isAbortError(err)) console.error(err);
+    } finally {
+        if (refreshController.current === controller) refreshController.current = null;
+        setRefreshingCardId(null);
+    }
+  };
+
+  // Draws the timelapse frames one by one, each as an edit of the previous one. Frames are stored on
+  // the card as they arrive, so cancelling keeps what was drawn so far.
+  const handleGenerateTimelapse = async (card: WeatherCardData) => {
+    if (refreshingCardId) return;
+    const keyframes = pickTimelapseKeyframes(card.weather);
+    if (keyframes.length < 2) return;
+    const cardId = card.weather.id;
+    setRefreshingCardId(cardId);
+    setTimelapseProgress({ cardId, done: 0, total: keyframes.length });
+    const controller = new AbortController();
+    refreshController.current = controller;
+    try {
+        await generateTimelapse(card.weather, card.image, keyframes, {
+            signal: controller.signal,
+            onFrame: (frames) => {
+                updateCard(cardId, c => ({ ...c, timelapse: frames }));
+                setTimelapseProgress({ cardId, done: frames.length, total: keyframes.length });
+            },
+        });
+    } catch (err) {
+        if (!isAbortError(err)) console.error(err);
+    } finally {
+        if (refreshController.current === controller) refreshController.current = null;
+        setRefreshingCardId(null);
+        setTimelapseProgress(null);
+    }
+  };
+
+  // Edits and cover changes from the version gallery; works on the latest card so an edit that
+  // finishes after a background refresh still lands in the right tree
+  const handleUpdateImageHistory = (cardId: string, update: (history: ImageHistory) => ImageHistory) => {
+    updateCard(cardId, c => applyImageHistory(c, update(getImageHistory(c))));
+  };
+
+  const handleUpdateVariants = (cardId: string, variants: GeneratedImage[]) => {
+    updateCard(cardId, c => ({ ...c, variants: variants.length > 0 ? variants : undefined }));
+  };
+
+  const handlePreferencesChange = (next: UserPreferences) => {
+      // Module-level locale must switch before the re-render that reads it
+      setLocale(next.locale);
+      setPreferences(next);
+      savePreferences(next);
+  };
+
+  const handleRefreshIntervalChange = (minutes: number) => {
+      setRefreshIntervalMin(minutes);
+      setRefreshInterval(minutes);
+  };
+
   const handleRemoveCard = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
+    setQueuedRefreshIds(removeQueuedRefresh(id));
     setSavedCards(prev => {
         const newCards = prev.filter(c => c.weather.id !== id);
         if (newCards.length === 0) {
@@ -314,6 +705,11 @@ const App: React.FC = () => {
       }
   };
 
+  // Rules only exist on saved cards; the preview has nothing to notify about yet
+  const handleUpdateNotificationRules = (cardId: string, notificationRules: NotificationRule[]) => {
+      setSavedCards(prev => prev.map(c => c.weather.id === cardId ? { ...c, notificationRules } : c));
+  };
+
   const handleUpdateView = (viewConfig: ViewConfig) => {
       let targetCard = previewCard;
       if (!targetCard && expandedCardId) {
@@ -338,8 +734,15 @@ const App: React.FC = () => {
 
   const handleSavePreview = () => {
       if (previewCard) {
-          setSavedCards(prev => [...prev, previewCard]);
-          setActiveIndex(savedCards.length); 
+          const card = { ...previewCard, collectionId: activeCollectionId };
+          if (card.pinned) {
+              // Only one My Location card; it replaces the old one at the front of the stack
+              setSavedCards(prev => [card, ...prev.filter(c => !c.pinned)]);
+              setActiveIndex(0);
+          } else {
+              setSavedCards(prev => [...prev, card]);
+              setActiveIndex(stackCards.length);
+          }
           setPreviewCard(null);
           setPreviewDragOffset(0);
           setIsScrolled(false); // Reset scroll state
@@ -347,8 +750,280 @@ const App: React.FC = () => {
       }
   };
 
+  // --- COLLECTIONS ---
+  const collectionCounts = savedCards.reduce<Record<string, number>>((counts, card) => {
+      const id = getCollectionId(card);
+      counts[id] = (counts[id] || 0) + 1;
+      return counts;
+  }, {});
+
+  const updateCollections = (next: Collection[]) => {
+      setCollections(next);
+      saveCollections(next);
+  };
+
+  const handleSelectCollection = (id: string) => {
+      setActiveCollectionId(id);
+      saveActiveCollectionId(id);
+      setActiveIndex(0);
+  };
+
+  const handleCreateCollection = (name: string) => {
+      const collection = createCollection(name);
+      updateCollections([...collections, collection]);
+      handleSelectCollection(collection.id);
+  };
+
+  const handleRenameCollection = (id: string, name: string) => {
+      updateCollections(collections.map(c => c.id === id ? { ...c, name } : c));
+  };
+
+  const handleDeleteCollection = (id: string) => {
+      updateCollections(collections.filter(c => c.id !== id));
+      setSavedCards(prev => releaseCollectionCards(prev, id));
+      if (activeCollectionId === id) handleSelectCollection(DEFAULT_COLLECTION_ID);
+  };
+
+  const handleReorderCollection = (from: number, to: number) => {
+      setSavedCards(prev => reorderCollection(prev, activeCollectionId, from, to));
+  };
+
+  const handleMoveCardToCollection = (cardId: string, collectionId: string) => {
+      setSavedCards(prev => moveCardToCollection(prev, cardId, collectionId));
+  };
+
+  // Starts with the card on top of the stack and the one behind it
+  const handleOpenCompare = () => {
+      const first = getCardData(activeIndex);
+      const second = getCardData(activeIndex + 1);
+      if (first && second) setCompareIds([first.weather.id, second.weather.id]);
+  };
+
+  // --- BUNDLES ---
+  const handleExportBundle = (scope: 'collection' | 'all') => {
+      const cards = scope === 'all' ? savedCards : stackCards;
+      downloadBundle(createBundle(cards, collections), scope === 'all' ? 'cards' : getCollectionName(activeCollection));
+  };
+
+  const handleOpenBundle = async (file: File) => {
+      try {
+          setPendingImport({ bundle: await readBundleFile(file) });
+      } catch (err) {
+          console.warn("Couldn't read bundle", err);
+          setPendingImport({ bundle: null, error: err instanceof BundleError && err.kind === 'unsupported-version' ? 'bundle.newerVersion' : 'bundle.invalid' });
+      }
+  };
+
+  // Imported live cards get a fresh forecast in the background, one at a time like the scheduler,
+  // so manual refreshes stay available meanwhile; offline they are queued for when the connection returns
+  const refreshImportedCards = async (cards: WeatherCardData[]) => {
+      for (const { weather: { id } } of cards) {
+          if (!isOnline()) {
+              setQueuedRefreshIds(queueOfflineRefresh(id));
+              continue;
+          }
+          // The import may have been followed by edits or a delete: work from the latest card
+          const card = savedCardsRef.current.find(c => c.weather.id === id);
+          if (!card || refreshingCardIdRef.current === id || schedulerRef.current?.isRefreshing(id)) continue;
+          importRefreshIdsRef.current.add(id);
+          try {
+              const refresh = await refreshCardWeather(card);
+              updateCard(id, c => applyCardRefresh(c, refresh));
+          } catch (err) {
+              console.warn(`Refresh after import failed for ${card.weather.city}`, err);
+          } finally {
+              importRefreshIdsRef.current.delete(id);
+          }
+      }
+  };
+
+  const handleImportBundle = (policy: ImportConflictPolicy, refreshLive: boolean) => {
+      if (!pendingImport?.bundle) return;
+      const result = importBundle(savedCards, collections, pendingImport.bundle, policy);
+      setSavedCards(result.cards);
+      // The refresh below reads the ref before React re-renders
+      savedCardsRef.current = result.cards;
+      updateCollections(result.collections);
+      setPendingImport(null);
+      if (refreshLive) {
+          refreshImportedCards(result.cards.filter(c =>
+              result.importedIds.includes(c.weather.id) && !c.weather.isFictional && !c.weather.historicalDate));
+      }
+  };
+
+  // --- ROUTING ---
+  const isBuilding = state === AppState.FETCHING_WEATHER || state === AppState.GENERATING_IMAGE;
+  const modalOpen = showPreferences || showOrganizer || !!compareIds || !!pendingImport;
+  const currentRoute: Route = expandedCardId
+      ? { name: 'card', cardId: expandedCardId, metric: cardDetail?.cardId === expandedCardId ? cardDetail.metric : undefined }
+      : previewCard ? previewRoute(previewCard)
+      : showFantasy ? { name: 'fantasy' }
+      : { name: 'home' };
+  const routeUrl = routePath(currentRoute);
+  const routeLevel = routeDepth(currentRoute) + (modalOpen ? 1 : 0);
+
+  // Expands a saved card, switching to its collection first
+  const openSavedCard = (id: string): boolean => {
+      const card = savedCards.find(c => c.weather.id === id);
+      if (!card) return false;
+      const collectionId = getCollectionId(card);
+      if (collectionId !== activeCollectionId) {
+          setActiveCollectionId(collectionId);
+          saveActiveCollectionId(collectionId);
+      }
+      setActiveIndex(getCollectionCards(savedCards, collectionId).indexOf(card));
+      setExpandedCardId(id);
+      return true;
+  };
+
+  const openCityRoute = async (route: Extract<Route, { name: 'city' }>) => {
+      setState(AppState.FETCHING_WEATHER);
+      setErrorMsg("");
+      try {
+          const location = await reverseGeocode(route.latitude, route.longitude);
+          await handleSearch(location, { date: route.date });
+      } catch (err) {
+          console.error(err);
+          setErrorMsg(describeWeatherError(err));
+          setState(AppState.ERROR);
+      }
+  };
+
+  // Brings the app in line with a URL: on load and on browser back/forward. Modals without a
+  // route of their own close unless the history entry was pushed for them.
+  const applyRoute = (route: Route, modal: boolean) => {
+      if (!modal) {
+          setShowPreferences(false);
+          setShowOrganizer(false);
+          setCompareIds(null);
+          setPendingImport(null);
+      }
+      if (isBuilding) handleCancelGeneration();
+
+      const path = routePath(route);
+      const keepPreview = !!previewCard && routePath(previewRoute(previewCard)) === path;
+      if (previewCard && !keepPreview) {
+          if (refreshingCardId === previewCard.weather.id) cancelRefresh();
+          dismissedPreview.current = previewCard;
+          setPreviewCard(null);
+          setPreviewDragOffset(0);
+          setIsScrolled(false);
+      }
+      if (route.name !== 'card') setExpandedCardId(null);
+      setCardDetail(route.name === 'card' && route.metric ? { cardId: route.cardId, metric: route.metric } : null);
+      setShowFantasy(route.name === 'fantasy' && !route.config);
+
+      if (route.name === 'card') {
+          openSavedCard(route.cardId);
+      } else if ((route.name === 'city' || (route.name === 'fantasy' && route.config)) && !keepPreview) {
+          // Forward to a preview we just left shows it again instead of drawing it anew
+          const stashed = dismissedPreview.current;
+          if (stashed && routePath(previewRoute(stashed)) === path) {
+              setPreviewCard(stashed);
+          } else if (route.name === 'city') {
+              openCityRoute(route);
+          } else if (route.config) {
+              handleFantasyCreate(route.config);
+          }
+      }
+  };
+  const applyRouteRef = useRef(applyRoute);
+  applyRouteRef.current = applyRoute;
+
+  // Open whatever the URL points at once the saved cards are available
+  useEffect(() => {
+      if (!hasHydrated) return;
+      const route = parseRoute(window.location.pathname);
+      if (!window.history.state) {
+          const entry: RouteEntry = { depth: routeDepth(route), steps: 0, modal: false };
+          window.history.replaceState(entry, '', routePath(route));
+      }
+      applyRouteRef.current(route, !!(window.history.state as RouteEntry | null)?.modal);
+      setRouteReady(true);
+  }, [hasHydrated]);
+
+  useEffect(() => {
+      const handlePopState = () => {
+          const entry = window.history.state as RouteEntry | null;
+          const expected = expectedRoute.current;
+          expectedRoute.current = null;
+          if (expected) {
+              // We stepped back after closing overlays in the UI; the app is already there
+              if (window.location.pathname !== expected.path || !!entry?.modal !== expected.modal) {
+                  const fixed: RouteEntry = { depth: expected.depth, steps: entry?.steps ?? 0, modal: expected.modal };
+                  window.history.replaceState(fixed, '', expected.path);
+              }
+              return;
+          }
+          applyRouteRef.current(parseRoute(window.location.pathname), !!entry?.modal);
+      };
+      window.addEventListener('popstate', handlePopState);
+      return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Mirror the open overlays into the URL. Opening one pushes an entry, so Back closes it; closing
+  // one in the UI steps back over the entries we pushed instead of piling up new ones. The URL is
+  // left alone while a place or world is being built, so a link being opened stays in place.
+  useEffect(() => {
+      if (!routeReady || isBuilding || expectedRoute.current) return;
+      const entry = window.history.state as RouteEntry | null;
+      if (window.location.pathname === routeUrl && !!entry?.modal === modalOpen) return;
+      const entryDepth = entry?.depth ?? 0;
+      const steps = entry?.steps ?? 0;
+      const back = entryDepth - routeLevel;
+      if (back > 0 && steps >= back) {
+          expectedRoute.current = { path: routeUrl, depth: routeLevel, modal: modalOpen };
+          window.history.go(-back);
+      } else if (routeLevel > entryDepth) {
+          window.history.pushState({ depth: routeLevel, steps: steps + 1, modal: modalOpen } as RouteEntry, '', routeUrl);
+      } else {
+          window.history.replaceState({ depth: routeLevel, steps, modal: modalOpen } as RouteEntry, '', routeUrl);
+      }
+  }, [routeReady, isBuilding, routeUrl, routeLevel, modalOpen]);
+
+  const activeCollection = collections.find(c => c.id === activeCollectionId) || collections[0];
   const expandedCard = savedCards.find(c => c.weather.id === expandedCardId);
 
+  // --- FOCUS ---
+  const closeExpandedCard = () => {
+      setExpandedCardId(null);
+      setCardDetail(null);
+      setIsScrolled(false); // Reset scroll state when closing
+  };
+
+  const closePreviewCard = () => {
+      // Dismissing the preview discards it, so an in-flight redraw is pointless
+      if (previewCard && refreshingCardId === previewCard.weather.id) cancelRefresh();
+      setPreviewCard(null);
+      setPreviewDragOffset(0);
+      setIsScrolled(false); // Reset scroll state when canceling
+  };
+
+  // /card/<id> must keep resolving while the card is open: refreshes keep the id, so a miss means
+  // the card is gone (deleted, or replaced by an import). Close it rather than leave a blank screen.
+  useEffect(() => {
+      if (!hasHydrated || !expandedCardId || expandedCard) return;
+      console.warn(`Open card ${expandedCardId} no longer exists; closing it`);
+      closeExpandedCard();
+  }, [hasHydrated, expandedCardId, expandedCard]);
+
+  const expandedRef = useDialogFocus<HTMLDivElement>(closeExpandedCard, !!expandedCard);
+  const previewRef = useDialogFocus<HTMLDivElement>(closePreviewCard, !!previewCard);
+
+  // The stack unmounts while a card is open, so focus returns to it when the card closes
+  const wasExpanded = useRef(false);
+  useEffect(() => {
+      if (expandedCardId) {
+          wasExpanded.current = true;
+      } else if (wasExpanded.current) {
+          wasExpanded.current = false;
+          if (!document.activeElement || document.activeElement === document.body) stackRef.current?.focus();
+      }
+  }, [expandedCardId]);
+
+  const centerCard = getCardData(activeIndex);
+  const centerPosition = stackCards.length > 0 ? ((activeIndex % stackCards.length) + stackCards.length) % stackCards.length + 1 : 0;
+
   // Calculate search bar visibility during preview drag
   // 0px drag = 0 opacity/hidden. 50px drag = 1 opacity/visible (accelerated reveal).
   const searchBarProgress = previewCard ? Math.min(Math.max(previewDragOffset, 0) / 50, 1) : 1;
@@ -394,7 +1069,11 @@ const App: React.FC = () => {
 
       {/* Global Loading Overlay (Covers Search Bar) */}
       {(state === AppState.FETCHING_WEATHER || state === AppState.GENERATING_IMAGE) && (
-        <LoadingScreen message={state === AppState.FETCHING_WEATHER ? "Processing location data..." : "Constructing simulation..."} />
+        <LoadingScreen
+          message={state === AppState.FETCHING_WEATHER ? t('loading.fetching') : t('loading.constructing')}
+          generation={generationProgress}
+          onCancel={handleCancelGeneration}
+        />
       )}
 
       {/* Search & Header */}
@@ -428,6 +1107,21 @@ const App: React.FC = () => {
                     <Sparkles className="w-8 h-8 text-blue-400" />
                 </div>
             </h1>
+            {/* Bring a stack over from another browser */}
+            <label className="inline-flex items-center gap-1.5 text-xs font-semibold text-zinc-500 hover:text-zinc-300 transition-colors cursor-pointer">
+                <FolderDown className="w-3.5 h-3.5" />
+                {t('bundle.importFile')}
+                <input
+                    type="file"
+                    accept="application/json,.json"
+                    className="sr-only"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) handleOpenBundle(file);
+                    }}
+                />
+            </label>
           </div>
         )}
         
@@ -435,6 +1129,8 @@ const App: React.FC = () => {
         <div className={`flex items-center gap-2 w-full max-w-md pointer-events-auto ${isWelcome ? 'w-full' : ''}`}>
             <SearchInput 
                 onSearch={handleSearch} 
+                onUseLocation={handleUseMyLocation}
+                maxResults={preferences.searchResults}
                 disabled={state !== AppState.IDLE && state !== AppState.SUCCESS}
                 minimized={(!isWelcome) && isScrolled && !!previewCard}
             />
@@ -444,35 +1140,76 @@ const App: React.FC = () => {
                 <button 
                     onClick={() => setShowFantasy(true)}
                     className="p-3 bg-zinc-900/90 backdrop-blur-md border border-zinc-700 rounded-full text-purple-400 hover:text-white hover:bg-purple-600 transition-all hover:scale-105 active:scale-95 shadow-lg flex-shrink-0 group relative"
-                    title="Create Fictional World"
+                    title={t('app.createFictional')}
                 >
                     <Wand2 className="w-5 h-5" />
                     <span className="absolute top-0 right-0 w-2 h-2 bg-purple-500 rounded-full animate-pulse border border-black"></span>
                 </button>
             )}
+
+            {/* Preferences Button */}
+            {(!isScrolled || !previewCard) && (
+                <button 
+                    onClick={() => setShowPreferences(true)}
+                    className="p-3 bg-zinc-900/90 backdrop-blur-md border border-zinc-700 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-700 transition-all hover:scale-105 active:scale-95 shadow-lg flex-shrink-0"
+                    title={t('app.preferences')}
+                >
+                    <SlidersHorizontal className="w-5 h-5" />
+                </button>
+            )}
         </div>
         {/* Card indicator removed here */}
       </div>
 
+      {/* Collection switcher, just below the search bar */}
+      {!isWelcome && !previewCard && !expandedCardId && (
+          <div className="fixed top-[5.5rem] left-0 right-0 z-[400] flex justify-center px-4 pointer-events-none">
+              <CollectionSwitcher
+                collections={collections}
+                activeId={activeCollectionId}
+                counts={collectionCounts}
+                onSelect={handleSelectCollection}
+                onCreate={handleCreateCollection}
+                onRename={handleRenameCollection}
+                onDelete={handleDeleteCollection}
+                onArrange={() => setShowOrganizer(true)}
+                onCompare={handleOpenCompare}
+                onExport={handleExportBundle}
+                onImport={handleOpenBundle}
+              />
+          </div>
+      )}
+
       {/* Main Content / Stack Container */}
-      {/* pt-24 (96px) ensures stack is centered properly given the top-8 search bar */}
-      <div className="flex-1 relative z-10 w-full flex items-center justify-center pt-24 pb-4">
+      {/* pt-32 (128px) ensures stack is centered properly given the search bar and collection switcher */}
+      <div className="flex-1 relative z-10 w-full flex items-center justify-center pt-32 pb-4">
         
         {state === AppState.ERROR && (
-          <div className="absolute inset-0 flex flex-col items-center justify-center z-50 bg-zinc-900/80 backdrop-blur px-4 text-center">
+          <div className="absolute inset-0 flex flex-col items-center justify-center z-50 bg-zinc-900/80 backdrop-blur px-4 text-center" role="alert">
             <AlertCircle className="w-12 h-12 text-red-400 mb-4" />
-            <h3 className="text-lg font-bold text-zinc-100">Oops!</h3>
+            <h3 className="text-lg font-bold text-zinc-100">{t('app.errorTitle')}</h3>
             <p className="text-zinc-400 max-w-xs mb-6">{errorMsg}</p>
             <button onClick={() => setState(AppState.IDLE)} className="text-sm text-blue-400 font-semibold hover:underline">
-                Try another city
+                {t('app.tryAnotherCity')}
             </button>
           </div>
         )}
 
         {/* --- INFINITE ASYMMETRICAL CARD STACK --- */}
-        {savedCards.length > 0 && !expandedCardId && (
+        {savedCards.length > 0 && stackCards.length === 0 && !expandedCardId && !previewCard && state !== AppState.ERROR && (
+            <p className="max-w-xs text-center text-sm text-zinc-400 px-6">{t('collections.empty')}</p>
+        )}
+
+        {stackCards.length > 0 && !expandedCardId && (
            <div 
-                className={`relative w-full h-full flex items-center justify-center touch-pan-y transition-all duration-500 ${previewCard ? 'translate-y-[-100%] opacity-0' : ''}`}
+                ref={stackRef}
+                className={`relative w-full h-full flex items-center justify-center touch-pan-y transition-all duration-500 outline-none ${previewCard ? 'translate-y-[-100%] opacity-0' : ''}`}
+                role="region"
+                aria-roledescription={t('a11y.stack')}
+                aria-label={getCollectionName(activeCollection)}
+                aria-describedby="stack-hint"
+                tabIndex={0}
+                onKeyDown={handleStackKeyDown}
                 onTouchStart={handleTouchStart}
                 onTouchMove={handleTouchMove}
                 onTouchEnd={handleTouchEnd}
@@ -481,11 +1218,16 @@ const App: React.FC = () => {
                 onMouseUp={handleTouchEnd}
                 onMouseLeave={handleTouchEnd}
            >
+                <p id="stack-hint" className="sr-only">{t('a11y.stackHint')}</p>
+                <p className="sr-only" aria-live="polite" aria-atomic="true">
+                    {centerCard && t('a11y.stackPosition', { city: centerCard.weather.city, position: centerPosition, total: stackCards.length })}
+                </p>
+
                 {/* 
                   Render Window: Extended range to allow smooth transitions.
                 */}
                 {[-2, -1, 0, 1, 2, 3, 4].map((offset) => {
-                    const activeLength = savedCards.length;
+                    const activeLength = stackCards.length;
                     const visibleStackLimit = Math.min(activeLength, 3);
                     if (offset > 0 && offset >= visibleStackLimit) return null;
                     if (activeLength === 1 && offset !== 0) return null;
@@ -497,12 +1239,15 @@ const App: React.FC = () => {
 
                     const style = getCardStyle(offset);
                     const isCenter = offset === 0;
+                    const alerts = deriveAlerts(cardData.weather, preferences.alerts);
+                    const alertSeverity = topSeverity(alerts);
 
                     return (
                         <div 
                             key={absoluteIndex}
-                            className="absolute w-[85vw] max-w-[340px] aspect-[9/16] will-change-transform"
+                            className={`absolute ${STACK_CARD_FRAME[getImageProfile(cardData.image).aspectRatio]} will-change-transform`}
                             style={style}
+                            inert={!isCenter}
                         >
                              <div 
                                 className={`w-full h-full relative rounded-[2.5rem] border border-white/10 shadow-[0_25px_50px_-12px_rgba(0,0,0,0.5)] overflow-hidden group ${isCenter ? 'cursor-pointer' : ''}`}
@@ -520,6 +1265,11 @@ const App: React.FC = () => {
                                     weather={cardData.weather} 
                                     image={cardData.image} 
                                     loading={refreshingCardId === cardData.weather.id}
+                                    isOffline={isOffline}
+                                    units={preferences.units}
+                                    refreshQueued={queuedRefreshIds.includes(cardData.weather.id)}
+                                    alerts={alerts}
+                                    isPinned={cardData.pinned}
                                     isExpanded={false}
                                     isStackItem={true}
                                     onRefresh={() => handleRefresh(cardData)}
@@ -531,12 +1281,23 @@ const App: React.FC = () => {
                                      <button 
                                         onClick={(e) => handleRemoveCard(e, cardData.weather.id)}
                                         className="absolute top-5 right-5 z-50 p-2.5 bg-black/40 hover:bg-red-500 text-white rounded-full backdrop-blur-md border border-white/10 transition-all hover:scale-110 active:scale-95 shadow-lg group-hover:opacity-100 md:opacity-0 md:group-hover:opacity-100 opacity-100"
-                                        title="Remove card"
+                                        title={t('app.removeCard')}
                                      >
                                          <X className="w-5 h-5" />
                                      </button>
                                  )}
 
+                                 {/* Alert Badge */}
+                                 {alertSeverity && (
+                                     <div
+                                        className={`absolute top-5 left-5 z-50 flex items-center gap-1.5 px-3 py-1.5 rounded-full backdrop-blur-md border shadow-lg text-xs font-bold text-white ${alertSeverity === 'warning' ? 'bg-red-500/80 border-red-300/30' : 'bg-amber-500/80 border-amber-300/30'}`}
+                                        title={t('alerts.badge', { count: alerts.length })}
+                                     >
+                                         <AlertTriangle className="w-3.5 h-3.5" />
+                                         {alerts.length}
+                                     </div>
+                                 )}
+
                                  {/* Darken non-center cards */}
                                  {!isCenter && (
                                     <div className="absolute inset-0 bg-black/40 rounded-[2.5rem] pointer-events-none transition-opacity duration-300" />
@@ -553,20 +1314,47 @@ const App: React.FC = () => {
       {/* Expanded & Preview Overlays (Root Level for Full Screen Coverage) */}
       
       {expandedCardId && expandedCard && (
-           <div className="fixed inset-0 z-50 bg-transparent animate-in zoom-in-95 duration-300 origin-center">
+           <div
+                ref={expandedRef}
+                role="dialog"
+                aria-modal="true"
+                aria-label={expandedCard.weather.city}
+                tabIndex={-1}
+                className="fixed inset-0 z-50 bg-transparent animate-in zoom-in-95 duration-300 origin-center outline-none"
+           >
                <WeatherCard 
                    weather={expandedCard.weather} 
                    image={expandedCard.image} 
                    loading={refreshingCardId === expandedCard.weather.id}
+                   isOffline={isOffline}
+                   units={preferences.units}
+                   refreshQueued={queuedRefreshIds.includes(expandedCard.weather.id)}
+                   alerts={deriveAlerts(expandedCard.weather, preferences.alerts)}
+                   isPinned={expandedCard.pinned}
+                   notificationRules={expandedCard.notificationRules || []}
+                   notificationsEnabled={preferences.notifications.enabled}
+                   onUpdateNotificationRules={(rules) => handleUpdateNotificationRules(expandedCard.weather.id, rules)}
+                   onShowDate={(date) => handleShowDate(expandedCard, date)}
+                   variants={expandedCard.variants}
+                   onGenerateScene={(moment) => handleGenerateForecastScene(expandedCard, moment)}
+                   onUpdateVariants={(variants) => handleUpdateVariants(expandedCard.weather.id, variants)}
+                   timelapse={expandedCard.timelapse}
+                   timelapseProgress={timelapseProgress?.cardId === expandedCard.weather.id ? timelapseProgress : null}
+                   onGenerateTimelapse={() => handleGenerateTimelapse(expandedCard)}
+                   onCancelTimelapse={cancelRefresh}
+                   imageHistory={expandedCard.imageHistory}
+                   onUpdateHistory={(update) => handleUpdateImageHistory(expandedCard.weather.id, update)}
+                   profile={getCardProfile(expandedCard)}
+                   onChangeProfile={(profile) => handleChangeProfile(expandedCard, profile)}
                    isExpanded={true}
-                   onToggleExpand={() => {
-                        setExpandedCardId(null);
-                        setIsScrolled(false); // Reset scroll state when closing
-                   }}
+                   onToggleExpand={closeExpandedCard}
                    onUpdateImage={handleImageUpdate}
                    onRefresh={() => handleRefresh(expandedCard)}
                    onScroll={setIsScrolled}
                    onUpdateView={handleUpdateView}
+                   onOpenPreferences={() => setShowPreferences(true)}
+                   detailMetric={cardDetail?.cardId === expandedCard.weather.id ? cardDetail.metric : null}
+                   onDetailChange={(metric) => setCardDetail(metric ? { cardId: expandedCard.weather.id, metric } : null)}
                    isPreview={false}
                />
            </div>
@@ -575,17 +1363,36 @@ const App: React.FC = () => {
       {previewCard && (
           // Fixed inset-0 covers EVERYTHING (z-[70] > z-[60] search bar)
           // No background on wrapper so we can see search bar reveal when dragging down
-          <div className="fixed inset-0 z-[70] overflow-hidden animate-in slide-in-from-bottom duration-500">
+          <div
+              ref={previewRef}
+              role="dialog"
+              aria-modal="true"
+              aria-label={previewCard.weather.city}
+              tabIndex={-1}
+              className="fixed inset-0 z-[70] overflow-hidden animate-in slide-in-from-bottom duration-500 outline-none"
+          >
               <WeatherCard 
                   weather={previewCard.weather} 
                   image={previewCard.image} 
                   loading={state === AppState.EDITING_IMAGE || refreshingCardId === previewCard.weather.id}
+                  isOffline={isOffline}
+                  units={preferences.units}
+                  alerts={deriveAlerts(previewCard.weather, preferences.alerts)}
+                  isPinned={previewCard.pinned}
+                  onShowDate={(date) => handleShowDate(previewCard, date)}
+                  variants={previewCard.variants}
+                  onGenerateScene={(moment) => handleGenerateForecastScene(previewCard, moment)}
+                  onUpdateVariants={(variants) => handleUpdateVariants(previewCard.weather.id, variants)}
+                  timelapse={previewCard.timelapse}
+                  timelapseProgress={timelapseProgress?.cardId === previewCard.weather.id ? timelapseProgress : null}
+                  onGenerateTimelapse={() => handleGenerateTimelapse(previewCard)}
+                  onCancelTimelapse={cancelRefresh}
+                  imageHistory={previewCard.imageHistory}
+                  onUpdateHistory={(update) => handleUpdateImageHistory(previewCard.weather.id, update)}
+                  profile={getCardProfile(previewCard)}
+                  onChangeProfile={(profile) => handleChangeProfile(previewCard, profile)}
                   isExpanded={true}
-                  onToggleExpand={() => { 
-                      setPreviewCard(null); 
-                      setPreviewDragOffset(0); 
-                      setIsScrolled(false); // Reset scroll state when canceling
-                  }}
+                  onToggleExpand={closePreviewCard}
                   onScroll={setIsScrolled}
                   onRefresh={() => handleRefresh(previewCard)}
                   onUpdateImage={handleImageUpdate}
@@ -593,10 +1400,51 @@ const App: React.FC = () => {
                   onSave={() => handleSavePreview()}
                   onDrag={(offset) => setPreviewDragOffset(offset)}
                   onUpdateView={handleUpdateView}
+                  onOpenPreferences={() => setShowPreferences(true)}
               />
           </div>
       )}
 
+      {showOrganizer && (
+          <CollectionOrganizer
+            collection={activeCollection}
+            cards={stackCards}
+            collections={collections}
+            onReorder={handleReorderCollection}
+            onMove={handleMoveCardToCollection}
+            onClose={() => setShowOrganizer(false)}
+          />
+      )}
+
+      {pendingImport && (
+          <BundleImportDialog
+            bundle={pendingImport.bundle}
+            error={pendingImport.error}
+            conflicts={pendingImport.bundle ? findImportConflicts(savedCards, pendingImport.bundle) : []}
+            onImport={handleImportBundle}
+            onClose={() => setPendingImport(null)}
+          />
+      )}
+
+      {compareIds && (
+          <CompareView
+            cards={stackCards}
+            initialIds={compareIds}
+            units={preferences.units}
+            onClose={() => setCompareIds(null)}
+          />
+      )}
+
+      {showPreferences && (
+          <PreferencesPanel
+            preferences={preferences}
+            onChange={handlePreferencesChange}
+            refreshInterval={refreshIntervalMin}
+            onRefreshIntervalChange={handleRefreshIntervalChange}
+            onClose={() => setShowPreferences(false)}
+          />
+      )}
+
       {showFantasy && (
           <FantasyCreator
             onCreate={handleFantasyCreate}
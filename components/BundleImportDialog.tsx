@@ -0,0 +1,132 @@
+import React, { useId, useState } from 'react';
+import { X, FolderDown, AlertTriangle, RefreshCw } from 'lucide-react';
+import { BundledCard, CardBundle, ImportConflictPolicy } from '../types';
+import { getCollectionName } from '../services/collectionsService';
+import { t, formatDateTime } from '../services/i18n';
+import { useDialogFocus } from '../services/a11y';
+import { MessageKey } from '../locales/en';
+
+interface BundleImportDialogProps {
+  bundle: CardBundle | null;
+  error?: MessageKey; // Set when the file couldn't be read as a bundle
+  conflicts: BundledCard[]; // Bundled cards whose place is already saved
+  onImport: (policy: ImportConflictPolicy, refreshLive: boolean) => void;
+  onClose: () => void;
+}
+
+const POLICIES: { value: ImportConflictPolicy; label: MessageKey; hint: MessageKey }[] = [
+  { value: 'keepExisting', label: 'bundle.keepExisting', hint: 'bundle.keepExistingHint' },
+  { value: 'replace', label: 'bundle.replace', hint: 'bundle.replaceHint' },
+  { value: 'keepBoth', label: 'bundle.keepBoth', hint: 'bundle.keepBothHint' },
+];
+
+// Summary of a bundle before it is merged into the stack: what it contains, which places are
+// already saved and how to resolve them, and whether to fetch fresh weather for live cards
+export const BundleImportDialog: React.FC<BundleImportDialogProps> = ({ bundle, error, conflicts, onImport, onClose }) => {
+  const [policy, setPolicy] = useState<ImportConflictPolicy>('keepExisting');
+  const [refreshLive, setRefreshLive] = useState(true);
+  const liveCount = bundle?.cards.filter(c => !c.weather.isFictional && !c.weather.historicalDate).length || 0;
+  const dialogRef = useDialogFocus<HTMLDivElement>(onClose);
+  const titleId = useId();
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-300" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="bg-zinc-900 border border-zinc-800 rounded-3xl overflow-hidden w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh] outline-none"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-zinc-800 flex justify-between items-center bg-zinc-950">
+          <div className="flex items-center gap-2 text-zinc-300">
+            <FolderDown className="w-5 h-5 text-blue-400" />
+            <span id={titleId} className="font-black text-sm tracking-widest uppercase">{t('bundle.importTitle')}</span>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-full transition-colors" aria-label={t('common.close')}>
+            <X className="w-5 h-5 text-zinc-400" />
+          </button>
+        </div>
+
+        {!bundle ? (
+          <div className="p-5 flex items-start gap-3" role="alert">
+            <AlertTriangle className="w-5 h-5 text-red-400 shrink-0" />
+            <p className="text-sm text-zinc-300">{t(error || 'bundle.invalid')}</p>
+          </div>
+        ) : (
+          <div className="overflow-y-auto p-5 space-y-5 scrollbar-hide">
+            <div>
+              <p className="text-sm font-bold text-zinc-200">
+                {t('bundle.summary', { cards: bundle.cards.length, collections: bundle.collections.length })}
+              </p>
+              {bundle.exportedAt && (
+                <p className="text-xs text-zinc-500 mt-0.5">{t('bundle.exportedAt', { date: formatDateTime(bundle.exportedAt) })}</p>
+              )}
+              {bundle.collections.length > 0 && (
+                <p className="text-xs text-zinc-500 mt-0.5 truncate">{bundle.collections.map(getCollectionName).join(', ')}</p>
+              )}
+            </div>
+
+            {conflicts.length > 0 && (
+              <div>
+                <h3 className="flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-widest mb-1">
+                  <AlertTriangle className="w-3.5 h-3.5 text-amber-400" />
+                  {t('bundle.conflicts', { count: conflicts.length })}
+                </h3>
+                <p className="text-xs text-zinc-500 mb-3 line-clamp-2">
+                  {conflicts.map(c => c.weather.historicalDate ? `${c.weather.city} (${c.weather.historicalDate})` : c.weather.city).join(', ')}
+                </p>
+                <div className="space-y-1.5" role="radiogroup" aria-label={t('bundle.conflictChoice')}>
+                  {POLICIES.map(option => (
+                    <button
+                      key={option.value}
+                      role="radio"
+                      aria-checked={policy === option.value}
+                      onClick={() => setPolicy(option.value)}
+                      className={`w-full text-left px-4 py-2.5 rounded-2xl transition-colors ${policy === option.value ? 'bg-blue-500/15 ring-1 ring-blue-500/40' : 'bg-zinc-950/60 hover:bg-zinc-800/60'}`}
+                    >
+                      <span className="block text-sm font-bold text-zinc-200">{t(option.label)}</span>
+                      <span className="block text-[11px] text-zinc-500">{t(option.hint)}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {liveCount > 0 && (
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={refreshLive}
+                  onChange={(e) => setRefreshLive(e.target.checked)}
+                  className="w-4 h-4 accent-blue-500"
+                />
+                <span className="flex-1">
+                  <span className="flex items-center gap-1.5 text-sm font-bold text-zinc-200">
+                    <RefreshCw className="w-3.5 h-3.5 text-zinc-500" />
+                    {t('bundle.refreshLive')}
+                  </span>
+                  <span className="block text-[11px] text-zinc-500">{t('bundle.refreshLiveHint', { count: liveCount })}</span>
+                </span>
+              </label>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button onClick={onClose} className="px-4 py-2 rounded-xl text-xs font-bold text-zinc-400 hover:text-white transition-colors">
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={() => onImport(policy, liveCount > 0 && refreshLive)}
+                className="bg-white hover:bg-zinc-200 rounded-xl px-4 py-2 text-xs font-bold text-black transition-colors"
+              >
+                {t('bundle.import')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
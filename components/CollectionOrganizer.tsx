@@ -0,0 +1,142 @@
+import React, { useId, useRef, useState } from 'react';
+import { X, ArrowUpDown, GripVertical, FolderInput, Navigation } from 'lucide-react';
+import { Collection, WeatherCardData } from '../types';
+import { getCollectionName } from '../services/collectionsService';
+import { t } from '../services/i18n';
+import { useDialogFocus } from '../services/a11y';
+
+interface CollectionOrganizerProps {
+  collection: Collection;
+  cards: WeatherCardData[]; // The collection's cards, in stack order
+  collections: Collection[];
+  onReorder: (from: number, to: number) => void;
+  onMove: (cardId: string, collectionId: string) => void;
+  onClose: () => void;
+}
+
+// Row pitch while dragging: the row's height plus the list gap
+const ROW_GAP = 6;
+
+// Lists a collection's cards for reordering (drag the handle, or focus it and use ↑/↓) and for
+// moving cards to another collection
+export const CollectionOrganizer: React.FC<CollectionOrganizerProps> = ({ collection, cards, collections, onReorder, onMove, onClose }) => {
+  const [drag, setDrag] = useState<{ index: number; pointerId: number; startY: number; dy: number; pitch: number } | null>(null);
+  const dialogRef = useDialogFocus<HTMLDivElement>(onClose);
+  const titleId = useId();
+  const listRef = useRef<HTMLUListElement>(null);
+  const others = collections.filter(c => c.id !== collection.id);
+
+  const dropIndex = drag
+    ? Math.max(0, Math.min(cards.length - 1, drag.index + Math.round(drag.dy / drag.pitch)))
+    : -1;
+
+  // How far a row is shifted while another one is dragged over it
+  const rowOffset = (index: number) => {
+    if (!drag) return 0;
+    if (index === drag.index) return drag.dy;
+    if (drag.index < dropIndex && index > drag.index && index <= dropIndex) return -drag.pitch;
+    if (drag.index > dropIndex && index < drag.index && index >= dropIndex) return drag.pitch;
+    return 0;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>, index: number) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const row = e.currentTarget.closest('li');
+    const pitch = (row?.getBoundingClientRect().height || 64) + ROW_GAP;
+    setDrag({ index, pointerId: e.pointerId, startY: e.clientY, dy: 0, pitch });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag || e.pointerId !== drag.pointerId) return;
+    setDrag({ ...drag, dy: e.clientY - drag.startY });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!drag || e.pointerId !== drag.pointerId) return;
+    if (dropIndex !== drag.index) onReorder(drag.index, dropIndex);
+    setDrag(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
+    const to = e.key === 'ArrowUp' ? index - 1 : e.key === 'ArrowDown' ? index + 1 : -1;
+    if (to < 0 || to >= cards.length) return;
+    e.preventDefault();
+    onReorder(index, to);
+    // Keep focus on the handle of the card that moved
+    requestAnimationFrame(() => listRef.current?.querySelectorAll<HTMLButtonElement>('[data-handle]')[to]?.focus());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-300" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="bg-zinc-900 border border-zinc-800 rounded-3xl overflow-hidden w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh] outline-none"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-zinc-800 flex justify-between items-center bg-zinc-950">
+          <div className="flex items-center gap-2 text-zinc-300 min-w-0">
+            <ArrowUpDown className="w-5 h-5 text-blue-400 shrink-0" />
+            <span id={titleId} className="font-black text-sm tracking-widest uppercase truncate">{getCollectionName(collection)}</span>
+            <span className="text-xs text-zinc-500 font-medium shrink-0">{t('collections.count', { count: cards.length })}</span>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-full transition-colors" aria-label={t('common.close')}>
+            <X className="w-5 h-5 text-zinc-400" />
+          </button>
+        </div>
+
+        <p className="px-5 pt-4 text-xs text-zinc-500">{t('collections.arrangeHint')}</p>
+        <ul ref={listRef} className="overflow-y-auto p-3 flex flex-col scrollbar-hide" style={{ gap: ROW_GAP }}>
+          {cards.map((card, index) => (
+            <li
+              key={card.weather.id}
+              className={`flex items-center gap-3 p-2 rounded-2xl bg-zinc-950/60 border border-white/5 ${drag?.index === index ? 'relative z-10 shadow-2xl ring-1 ring-blue-500/40' : 'transition-transform duration-150'}`}
+              style={{ transform: `translateY(${rowOffset(index)}px)` }}
+            >
+              <button
+                data-handle
+                onPointerDown={(e) => handlePointerDown(e, index)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDrag(null)}
+                onKeyDown={(e) => handleKeyDown(e, index)}
+                className="p-1.5 rounded-lg text-zinc-500 hover:text-white cursor-grab active:cursor-grabbing touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                aria-label={t('collections.reorderCard', { city: card.weather.city, position: index + 1, total: cards.length })}
+              >
+                <GripVertical className="w-4 h-4" />
+              </button>
+              <img src={card.image.url} alt="" className="w-10 h-14 shrink-0 object-cover rounded-lg border border-white/10 bg-black" />
+              <div className="min-w-0 flex-1">
+                <p className="flex items-center gap-1.5 text-sm font-bold text-zinc-200 truncate">
+                  {card.pinned && <Navigation className="w-3 h-3 fill-current text-blue-400 shrink-0" />}
+                  {card.weather.city}
+                </p>
+                <p className="text-[11px] text-zinc-500 truncate">{card.weather.historicalDate || card.weather.country}</p>
+              </div>
+              {others.length > 0 && (
+                <label className="relative shrink-0 p-1.5 rounded-lg text-zinc-500 hover:text-white transition-colors cursor-pointer" title={t('collections.moveTo')}>
+                  <FolderInput className="w-4 h-4" />
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && onMove(card.weather.id, e.target.value)}
+                    className="absolute inset-0 opacity-0 cursor-pointer"
+                    aria-label={t('collections.moveCard', { city: card.weather.city })}
+                  >
+                    <option value="" disabled>{t('collections.moveTo')}</option>
+                    {others.map(other => (
+                      <option key={other.id} value={other.id}>{getCollectionName(other)}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Layers, ChevronDown, Check, Pencil, Trash2, Plus, ArrowUpDown, Columns3, FolderUp, FolderDown } from 'lucide-react';
+import { Collection } from '../types';
+import { DEFAULT_COLLECTION_ID, getCollectionName } from '../services/collectionsService';
+import { t } from '../services/i18n';
+import { useDialogFocus } from '../services/a11y';
+
+interface CollectionSwitcherProps {
+  collections: Collection[];
+  activeId: string;
+  counts: Record<string, number>; // Cards per collection id
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void; // Its cards move to the default collection
+  onArrange: () => void; // Opens the organizer for the active collection
+  onCompare: () => void; // Opens the compare view on the active collection's cards
+  onExport: (scope: 'collection' | 'all') => void; // Downloads a bundle of the active collection or every card
+  onImport: (file: File) => void;
+}
+
+const MENU_ACTION = 'w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold text-zinc-300 hover:text-white hover:bg-zinc-800/60 transition-colors';
+
+// Pill above the stack showing the active collection; opens a menu to switch, add, rename and
+// delete collections, and to export or import them as bundles
+export const CollectionSwitcher: React.FC<CollectionSwitcherProps> = ({ collections, activeId, counts, onSelect, onCreate, onRename, onDelete, onArrange, onCompare, onExport, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const active = collections.find(c => c.id === activeId) || collections[0];
+  const total = collections.reduce((sum, c) => sum + (counts[c.id] || 0), 0);
+
+  const close = () => {
+    setOpen(false);
+    setRenaming(null);
+    setNewName('');
+  };
+
+  // Escape closes the menu and focus goes back to the pill
+  const menuRef = useDialogFocus<HTMLDivElement>(close, open);
+
+  const submitNew = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onCreate(newName);
+    close();
+  };
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  return (
+    <div className="relative pointer-events-auto">
+      <button
+        onClick={() => (open ? close() : setOpen(true))}
+        className="flex items-center gap-2 px-4 py-2 bg-zinc-900/90 backdrop-blur-md border border-zinc-700 rounded-full text-sm font-bold text-zinc-200 hover:text-white hover:bg-zinc-800 transition-all shadow-lg"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Layers className="w-4 h-4 text-blue-400" />
+        <span className="max-w-[12rem] truncate">{getCollectionName(active)}</span>
+        <span className="text-xs text-zinc-500 tabular-nums">{counts[active.id] || 0}</span>
+        <ChevronDown className={`w-4 h-4 text-zinc-500 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-0" onClick={close} />
+          <div
+            ref={menuRef}
+            className="absolute left-1/2 -translate-x-1/2 top-full mt-2 z-10 w-72 bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-150 outline-none"
+            role="menu"
+            tabIndex={-1}
+          >
+            <ul className="max-h-72 overflow-y-auto p-1.5 scrollbar-hide">
+              {collections.map(collection => (
+                <li key={collection.id} className="flex items-center gap-1 rounded-xl hover:bg-zinc-800/60 group">
+                  {renaming?.id === collection.id ? (
+                    <form onSubmit={submitRename} className="flex-1 flex items-center gap-1 p-1">
+                      <input
+                        value={renaming.name}
+                        onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                        onBlur={submitRename}
+                        className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-zinc-500"
+                        aria-label={t('collections.rename')}
+                        autoFocus
+                      />
+                    </form>
+                  ) : (
+                    <>
+                      <button
+                        role="menuitemradio"
+                        aria-checked={collection.id === activeId}
+                        onClick={() => { onSelect(collection.id); close(); }}
+                        className="flex-1 min-w-0 flex items-center gap-2 px-3 py-2 text-left"
+                      >
+                        <span className={`flex-1 truncate text-sm font-semibold ${collection.id === activeId ? 'text-white' : 'text-zinc-300'}`}>
+                          {getCollectionName(collection)}
+                        </span>
+                        <span className="text-xs text-zinc-500 tabular-nums">{counts[collection.id] || 0}</span>
+                        {collection.id === activeId && <Check className="w-4 h-4 text-blue-400 shrink-0" />}
+                      </button>
+                      <button
+                        onClick={() => setRenaming({ id: collection.id, name: getCollectionName(collection) })}
+                        className="p-1.5 rounded-lg text-zinc-500 hover:text-white transition-colors"
+                        title={t('collections.rename')}
+                        aria-label={t('collections.rename')}
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      {collection.id !== DEFAULT_COLLECTION_ID && (
+                        <button
+                          onClick={() => onDelete(collection.id)}
+                          className="p-1.5 mr-1 rounded-lg text-zinc-500 hover:text-red-400 transition-colors"
+                          title={t('collections.delete')}
+                          aria-label={t('collections.delete')}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="border-t border-zinc-800 p-2 space-y-1">
+              <form onSubmit={submitNew} className="flex items-center gap-1">
+                <input
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder={t('collections.newPlaceholder')}
+                  aria-label={t('collections.new')}
+                  className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 focus:outline-none focus:border-zinc-600"
+                />
+                <button
+                  type="submit"
+                  disabled={!newName.trim()}
+                  className="p-2 rounded-lg bg-white text-black hover:bg-zinc-200 disabled:bg-zinc-800 disabled:text-zinc-500 transition-colors"
+                  title={t('collections.new')}
+                  aria-label={t('collections.new')}
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </form>
+              {(counts[active.id] || 0) > 0 && (
+                <button
+                  onClick={() => { onArrange(); close(); }}
+                  className={MENU_ACTION}
+                >
+                  <ArrowUpDown className="w-4 h-4 text-zinc-500" />
+                  {t('collections.arrange')}
+                </button>
+              )}
+              {(counts[active.id] || 0) > 1 && (
+                <button
+                  onClick={() => { onCompare(); close(); }}
+                  className={MENU_ACTION}
+                >
+                  <Columns3 className="w-4 h-4 text-zinc-500" />
+                  {t('compare.open')}
+                </button>
+              )}
+            </div>
+
+            <div className="border-t border-zinc-800 p-2 space-y-1">
+              {(counts[active.id] || 0) > 0 && (
+                <button onClick={() => { onExport('collection'); close(); }} className={MENU_ACTION}>
+                  <FolderUp className="w-4 h-4 text-zinc-500" />
+                  {t('bundle.exportCollection')}
+                </button>
+              )}
+              {total > (counts[active.id] || 0) && (
+                <button onClick={() => { onExport('all'); close(); }} className={MENU_ACTION}>
+                  <FolderUp className="w-4 h-4 text-zinc-500" />
+                  {t('bundle.exportAll')}
+                </button>
+              )}
+              <label className={`${MENU_ACTION} cursor-pointer`}>
+                <FolderDown className="w-4 h-4 text-zinc-500" />
+                {t('bundle.importFile')}
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="sr-only"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) { onImport(file); close(); }
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useId, useState } from 'react';
+import { X, Columns3, Thermometer, CloudRain, Wind, CalendarDays, Navigation } from 'lucide-react';
+import { WeatherCardData, UnitPreferences } from '../types';
+import { OverlayChart, ChartSeries } from './DetailCharts';
+import { convertTemperature, convertWind, convertPrecipitation, unitLabel, DEFAULT_UNITS } from '../services/units';
+import { getImageProfile, toCssAspectRatio } from '../services/outputProfiles';
+import { t, formatWeekday, formatNumber } from '../services/i18n';
+import { useDialogFocus } from '../services/a11y';
+
+interface CompareViewProps {
+  cards: WeatherCardData[]; // Cards that can be compared, in stack order
+  initialIds: string[]; // Cards compared when the view opens
+  units?: UnitPreferences;
+  onClose: () => void;
+}
+
+// One color per compared card, used by the scenes, chart series and forecast rows
+const SERIES_COLORS = ['#f97316', '#3b82f6', '#22c55e', '#a855f7'];
+
+export const MAX_COMPARED = SERIES_COLORS.length;
+
+// Hourly series are aligned by offset from now, since the places may be in different time zones
+const hourOffsetLabel = (index: number) =>
+  index === 0 ? t('compare.now') : t('compare.hoursAhead', { hours: index });
+
+// Signed difference, e.g. "+3°" or "−2°"
+const formatDiff = (diff: number) =>
+  diff === 0 ? '±0°' : `${diff > 0 ? '+' : '−'}${formatNumber(Math.abs(diff))}°`;
+
+// Side-by-side view of two or more cards: their scenes, the next 24 hours of temperature,
+// precipitation and wind on shared axes, and the week's ranges against the first card
+export const CompareView: React.FC<CompareViewProps> = ({ cards, initialIds, units = DEFAULT_UNITS, onClose }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(initialIds.slice(0, MAX_COMPARED));
+  const dialogRef = useDialogFocus<HTMLDivElement>(onClose);
+  const titleId = useId();
+  const compared = selectedIds
+    .map(id => cards.find(c => c.weather.id === id))
+    .filter((c): c is WeatherCardData => !!c);
+
+  // At least two cards stay selected; picking one past the limit replaces the oldest pick
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.length > 2 ? prev.filter(s => s !== id) : prev;
+      return [...prev, id].slice(-MAX_COMPARED);
+    });
+  };
+
+  const colorOf = (index: number) => SERIES_COLORS[index % SERIES_COLORS.length];
+  const toTemp = (c: number) => convertTemperature(c, units.temperature);
+
+  const hours = Math.max(0, ...compared.map(c => c.weather.hourlyForecast.length));
+  const hourLabels = Array.from({ length: hours }, (_, i) => hourOffsetLabel(i));
+  const seriesOf = (pick: (card: WeatherCardData) => number[]): ChartSeries[] =>
+    compared.map((card, i) => ({ label: card.weather.city, color: colorOf(i), data: pick(card) }));
+
+  const charts = [
+    {
+      key: 'temperature',
+      icon: Thermometer,
+      title: t('metric.temperature'),
+      chart: <OverlayChart series={seriesOf(c => c.weather.hourlyForecast.map(h => toTemp(h.temp)))} labels={hourLabels} unit="°" label={t('metric.temperature')} />,
+    },
+    {
+      key: 'precipitation',
+      icon: CloudRain,
+      title: t('metric.precipitation'),
+      chart: (
+        <OverlayChart
+          series={seriesOf(c => c.weather.hourlyForecast.map(h => convertPrecipitation(h.precipitation, units.precipitation)))}
+          labels={hourLabels}
+          variant="bar"
+          unit={unitLabel.precipitation(units.precipitation)}
+          label={t('metric.precipitation')}
+          minVal={0}
+        />
+      ),
+    },
+    {
+      key: 'wind',
+      icon: Wind,
+      title: t('metric.wind'),
+      chart: (
+        <OverlayChart
+          series={seriesOf(c => c.weather.hourlyForecast.map(h => convertWind(h.windSpeed, units.wind)))}
+          labels={hourLabels}
+          unit={unitLabel.wind(units.wind)}
+          label={t('metric.wind')}
+          minVal={0}
+        />
+      ),
+    },
+  ];
+
+  // Week ranges share one scale; days are matched by position (today, tomorrow, ...)
+  const days = Math.min(...compared.map(c => c.weather.forecast.length));
+  const weekTemps = compared.flatMap(c => c.weather.forecast.slice(0, days).flatMap(d => [toTemp(d.min), toTemp(d.max)]));
+  const weekMin = Math.min(...weekTemps);
+  const range = Math.max(...weekTemps) - weekMin || 1;
+  const baseline = compared[0];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-300" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="bg-zinc-900 border border-zinc-800 rounded-3xl overflow-hidden w-full max-w-4xl shadow-2xl animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh] outline-none"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-zinc-800 flex justify-between items-center bg-zinc-950">
+          <div className="flex items-center gap-2 text-zinc-300">
+            <Columns3 className="w-5 h-5 text-blue-400" />
+            <span id={titleId} className="font-black text-sm tracking-widest uppercase">{t('compare.title')}</span>
+            <span className="text-xs text-zinc-500 font-medium">{t('compare.count', { count: compared.length })}</span>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-full transition-colors" aria-label={t('common.close')}>
+            <X className="w-5 h-5 text-zinc-400" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-4 scrollbar-hide">
+          {/* Card picker */}
+          <div>
+            <p className="text-xs text-zinc-500 mb-2">{t('compare.pickHint', { max: MAX_COMPARED })}</p>
+            <div className="flex flex-wrap gap-1.5" role="group" aria-label={t('compare.title')}>
+              {cards.map(card => {
+                const index = selectedIds.indexOf(card.weather.id);
+                const active = index !== -1;
+                return (
+                  <button
+                    key={card.weather.id}
+                    onClick={() => toggle(card.weather.id)}
+                    aria-pressed={active}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold transition-colors ${active ? 'bg-white text-black' : 'bg-zinc-800/80 text-zinc-400 hover:text-white'}`}
+                  >
+                    {active && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colorOf(compared.findIndex(c => c.weather.id === card.weather.id)) }} />}
+                    {card.pinned && <Navigation className="w-3 h-3 fill-current" />}
+                    {card.weather.city}
+                    {card.weather.historicalDate && <span className="opacity-60">{card.weather.historicalDate}</span>}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Scenes */}
+          <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${compared.length}, minmax(0, 1fr))` }}>
+            {compared.map((card, i) => (
+              <figure key={card.weather.id} className="space-y-2">
+                <img
+                  src={card.image.url}
+                  alt={card.weather.city}
+                  className="w-full object-cover rounded-2xl border border-white/10 bg-black"
+                  style={{ aspectRatio: toCssAspectRatio(getImageProfile(card.image).aspectRatio) }}
+                />
+                <figcaption className="flex items-center gap-2 min-w-0">
+                  <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: colorOf(i) }} />
+                  <span className="text-sm font-bold text-zinc-200 truncate">{card.weather.city}</span>
+                  <span className="ml-auto text-sm font-black text-white">{toTemp(card.weather.temperature)}°</span>
+                </figcaption>
+                <p className="text-[11px] text-zinc-500 truncate">{card.weather.condition}</p>
+              </figure>
+            ))}
+          </div>
+
+          {/* Next 24 hours */}
+          {hours > 1 && (
+            <div className="grid gap-4 md:grid-cols-3">
+              {charts.map(({ key, icon: Icon, title, chart }) => (
+                <div key={key} className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5">
+                  <h3 className="flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-widest mb-1">
+                    <Icon className="w-3.5 h-3.5" />
+                    {title}
+                  </h3>
+                  {chart}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Week ranges */}
+          {baseline && days > 0 && (
+            <div className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5">
+              <h3 className="flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-widest mb-1">
+                <CalendarDays className="w-3.5 h-3.5" />
+                {t('compare.week')}
+              </h3>
+              <p className="text-xs text-zinc-500 mb-3">{t('compare.weekHint', { city: baseline.weather.city })}</p>
+              <div className="space-y-3">
+                {baseline.weather.forecast.slice(0, days).map((baseDay, day) => (
+                  <div key={day} className="flex gap-3">
+                    <div className="w-16 pt-0.5 text-sm font-bold text-zinc-400 shrink-0">
+                      {day === 0 && !baseline.weather.historicalDate ? t('common.today') : formatWeekday(baseDay.rawDate)}
+                    </div>
+                    <div className="flex-1 space-y-1.5">
+                      {compared.map((card, i) => {
+                        const forecast = card.weather.forecast[day];
+                        const min = toTemp(forecast.min);
+                        const max = toTemp(forecast.max);
+                        return (
+                          <div key={card.weather.id} className="flex items-center gap-3">
+                            <span className="text-xs font-bold text-zinc-500 w-7 text-right">{min}°</span>
+                            <div className="flex-1 h-1.5 bg-zinc-800 rounded-full relative overflow-hidden">
+                              <div
+                                className="absolute top-0 bottom-0 rounded-full opacity-80"
+                                style={{ left: `${((min - weekMin) / range) * 100}%`, width: `${((max - min) / range) * 100}%`, backgroundColor: colorOf(i) }}
+                              />
+                            </div>
+                            <span className="text-xs font-bold text-zinc-200 w-7">{max}°</span>
+                            <span className="text-[10px] font-medium text-zinc-500 w-20 text-right tabular-nums">
+                              {i === 0 ? '' : `${formatDiff(min - toTemp(baseDay.min))} / ${formatDiff(max - toTemp(baseDay.max))}`}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
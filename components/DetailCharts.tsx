@@ -1,13 +1,16 @@
 
 import React, { useState, useRef, useMemo } from 'react';
+import { formatWithUnit } from '../services/units';
+import { t, formatTimeOfDay } from '../services/i18n';
 
 interface ChartProps {
   data: number[];
   labels: string[];
   color: string;
-  unit?: string;
+  unit?: string; // Display suffix from services/units (e.g. "°", "km/h")
   minVal?: number;
   maxVal?: number;
+  label?: string; // Names the chart for screen readers and captions its data table
 }
 
 // Helper to generate a smooth Bezier path from points
@@ -36,7 +39,68 @@ const getSmoothPath = (points: {x: number, y: number}[]) => {
     return d;
 }
 
-export const AreaChart: React.FC<ChartProps> = ({ data, labels, color, unit = '', minVal, maxVal }) => {
+// Arrow keys step through the points like the pointer does; Escape hides the tooltip first,
+// before it reaches the dialog the chart sits in
+const chartKeyHandler = (count: number, setActiveIndex: React.Dispatch<React.SetStateAction<number | null>>) =>
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (count === 0) return;
+        switch (e.key) {
+            case 'ArrowRight':
+                setActiveIndex(i => i === null ? 0 : Math.min(count - 1, i + 1));
+                break;
+            case 'ArrowLeft':
+                setActiveIndex(i => i === null ? count - 1 : Math.max(0, i - 1));
+                break;
+            case 'Home':
+                setActiveIndex(0);
+                break;
+            case 'End':
+                setActiveIndex(count - 1);
+                break;
+            case 'Escape':
+                if (e.currentTarget.dataset.active !== 'true') return;
+                setActiveIndex(null);
+                e.stopPropagation();
+                break;
+            default:
+                return;
+        }
+        e.preventDefault();
+    };
+
+interface ChartTableProps {
+  caption: string;
+  labels: string[]; // One row per label
+  columns: { label: string; data: number[] }[];
+  unit: string;
+}
+
+// The chart's data as a table, for screen readers in place of the SVG
+const ChartTable: React.FC<ChartTableProps> = ({ caption, labels, columns, unit }) => (
+    <table className="sr-only">
+        <caption>{caption}</caption>
+        <thead>
+            <tr>
+                <th scope="col">{t('a11y.chartTime')}</th>
+                {columns.map((column, i) => <th key={i} scope="col">{column.label}</th>)}
+            </tr>
+        </thead>
+        <tbody>
+            {labels.map((label, i) => (
+                <tr key={i}>
+                    <th scope="row">{label}</th>
+                    {columns.map((column, j) => (
+                        <td key={j}>{column.data[i] !== undefined ? formatWithUnit(column.data[i], unit) : '–'}</td>
+                    ))}
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+const CHART_FOCUS_CLASS = 'outline-none rounded-xl focus-visible:ring-2 focus-visible:ring-white/20';
+
+export const AreaChart: React.FC<ChartProps> = ({ data, labels, color, unit = '', minVal, maxVal, label = t('a11y.chartData') }) => {
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -94,15 +158,23 @@ export const AreaChart: React.FC<ChartProps> = ({ data, labels, color, unit = ''
   return (
       <div 
         ref={containerRef}
-        className="w-full relative touch-none cursor-crosshair select-none py-2"
+        className={`w-full relative touch-none cursor-crosshair select-none py-2 ${CHART_FOCUS_CLASS}`}
         style={{ touchAction: 'none' }}
+        role="group"
+        aria-label={label}
+        tabIndex={0}
+        data-active={activeIndex !== null}
+        onKeyDown={chartKeyHandler(points.length, setActiveIndex)}
+        onBlur={() => setActiveIndex(null)}
         onPointerDown={handlePointerDown}
         onPointerMove={handlePointerMove}
         onPointerUp={handlePointerUp}
         onPointerCancel={handlePointerUp}
         onPointerLeave={handlePointerUp}
       >
-        <svg width="100%" height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+        <ChartTable caption={label} labels={labels.slice(0, data.length)} columns={[{ label: t('a11y.chartValue'), data }]} unit={unit} />
+
+        <svg width="100%" height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible" aria-hidden="true">
             <defs>
                 <linearGradient id={`grad-${color}`} x1="0" y1="0" x2="0" y2="1">
                     <stop offset="0%" stopColor={color} stopOpacity="0.4" />
@@ -135,14 +207,15 @@ export const AreaChart: React.FC<ChartProps> = ({ data, labels, color, unit = ''
             })}
         </svg>
 
-        <div className="flex justify-between w-full px-2 mt-2">
-            {labels.filter((_, i) => i % 6 === 0).map((label, i) => (
-                <span key={i} className="text-[10px] text-zinc-500 font-medium">{label}</span>
+        <div className="flex justify-between w-full px-2 mt-2" aria-hidden="true">
+            {labels.filter((_, i) => i % 6 === 0).map((tick, i) => (
+                <span key={i} className="text-[10px] text-zinc-500 font-medium">{tick}</span>
             ))}
         </div>
 
         {activeIndex !== null && points[activeIndex] && (
              <div 
+                aria-hidden="true"
                 className="absolute bg-zinc-800/95 backdrop-blur-md text-white px-3 py-2 rounded-lg shadow-xl pointer-events-none border border-zinc-700 z-20 flex flex-col items-center transform -translate-x-1/2 -translate-y-[130%]"
                 style={{ 
                     left: `${(points[activeIndex].x / width) * 100}%`, 
@@ -150,7 +223,7 @@ export const AreaChart: React.FC<ChartProps> = ({ data, labels, color, unit = ''
                 }}
              >
                 <span className="text-[10px] text-zinc-400 font-bold uppercase tracking-wider mb-0.5">{points[activeIndex].label}</span>
-                <span className="text-base font-black">{points[activeIndex].val}{unit}</span>
+                <span className="text-base font-black">{formatWithUnit(points[activeIndex].val, unit)}</span>
                 <div className="absolute -bottom-1.5 left-1/2 -translate-x-1/2 w-3 h-3 bg-zinc-800 rotate-45 border-r border-b border-zinc-700"></div>
              </div>
         )}
@@ -158,7 +231,7 @@ export const AreaChart: React.FC<ChartProps> = ({ data, labels, color, unit = ''
   );
 };
 
-export const BarChart: React.FC<ChartProps> = ({ data, labels, color, unit = '' }) => {
+export const BarChart: React.FC<ChartProps> = ({ data, labels, color, unit = '', label = t('a11y.chartData') }) => {
     const [activeIndex, setActiveIndex] = useState<number | null>(null);
     const containerRef = useRef<HTMLDivElement>(null);
 
@@ -191,15 +264,23 @@ export const BarChart: React.FC<ChartProps> = ({ data, labels, color, unit = ''
     return (
         <div 
             ref={containerRef}
-            className="w-full relative touch-none cursor-crosshair select-none py-2"
+            className={`w-full relative touch-none cursor-crosshair select-none py-2 ${CHART_FOCUS_CLASS}`}
             style={{ touchAction: 'none' }}
+            role="group"
+            aria-label={label}
+            tabIndex={0}
+            data-active={activeIndex !== null}
+            onKeyDown={chartKeyHandler(data.length, setActiveIndex)}
+            onBlur={() => setActiveIndex(null)}
             onPointerDown={handlePointerDown}
             onPointerMove={handlePointerMove}
             onPointerUp={handlePointerUp}
             onPointerCancel={handlePointerUp}
             onPointerLeave={handlePointerUp}
         >
-            <svg width="100%" height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+            <ChartTable caption={label} labels={labels.slice(0, data.length)} columns={[{ label: t('a11y.chartValue'), data }]} unit={unit} />
+
+            <svg width="100%" height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible" aria-hidden="true">
                 {data.map((val, i) => {
                     const barWidth = (width / data.length) * 0.7;
                     const x = (i / data.length) * width + (width / data.length - barWidth) / 2;
@@ -222,14 +303,15 @@ export const BarChart: React.FC<ChartProps> = ({ data, labels, color, unit = ''
                 })}
             </svg>
             
-            <div className="flex justify-between w-full px-1 mt-2">
-                {labels.filter((_, i) => i % 6 === 0).map((label, i) => (
-                    <span key={i} className="text-[10px] text-zinc-500 font-medium">{label}</span>
+            <div className="flex justify-between w-full px-1 mt-2" aria-hidden="true">
+                {labels.filter((_, i) => i % 6 === 0).map((tick, i) => (
+                    <span key={i} className="text-[10px] text-zinc-500 font-medium">{tick}</span>
                 ))}
             </div>
 
             {activeIndex !== null && data[activeIndex] !== undefined && (
                 <div 
+                    aria-hidden="true"
                     className="absolute bg-zinc-800/95 backdrop-blur-md text-white px-3 py-2 rounded-lg shadow-xl pointer-events-none border border-zinc-700 z-20 flex flex-col items-center transform -translate-x-1/2 -translate-y-full mb-2"
                     style={{ 
                         left: `${((activeIndex / data.length) * width + (width/data.length)/2) / width * 100}%`,
@@ -237,7 +319,7 @@ export const BarChart: React.FC<ChartProps> = ({ data, labels, color, unit = ''
                     }}
                  >
                     <span className="text-[10px] text-zinc-400 font-bold uppercase tracking-wider mb-0.5">{labels[activeIndex]}</span>
-                    <span className="text-base font-black">{data[activeIndex]}{unit}</span>
+                    <span className="text-base font-black">{formatWithUnit(data[activeIndex], unit)}</span>
                     <div className="absolute -bottom-1.5 left-1/2 -translate-x-1/2 w-3 h-3 bg-zinc-800 rotate-45 border-r border-b border-zinc-700"></div>
                  </div>
             )}
@@ -245,6 +327,148 @@ export const BarChart: React.FC<ChartProps> = ({ data, labels, color, unit = ''
     );
 };
 
+export interface ChartSeries {
+  label: string; // Shown on the tooltip, e.g. the city
+  color: string;
+  data: number[];
+}
+
+interface OverlayChartProps {
+  series: ChartSeries[];
+  labels: string[]; // Shared x axis; series are aligned by index
+  variant?: 'line' | 'bar'; // Bars are grouped side by side per slot
+  unit?: string;
+  minVal?: number;
+  maxVal?: number;
+  label?: string;
+}
+
+// Several series on one pair of axes, for comparing places. The y range spans every series.
+export const OverlayChart: React.FC<OverlayChartProps> = ({ series, labels, variant = 'line', unit = '', minVal, maxVal, label = t('a11y.chartData') }) => {
+    const [activeIndex, setActiveIndex] = useState<number | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const width = 300;
+    const height = 120;
+    const padding = 10;
+    const slots = labels.length;
+
+    const values = series.flatMap(s => s.data);
+    const safeMin = minVal !== undefined ? minVal : Math.min(...values);
+    const safeMax = maxVal !== undefined ? maxVal : Math.max(...values, variant === 'bar' ? 1 : -Infinity);
+    const range = safeMax - safeMin || 1;
+
+    const paths = useMemo(() => series.map(s => getSmoothPath(s.data.slice(0, slots).map((val, i) => ({
+        x: (i / Math.max(slots - 1, 1)) * (width - padding * 2) + padding,
+        y: height - ((val - safeMin) / range) * (height - padding * 2) - padding,
+    })))), [series, slots, safeMin, range]);
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!containerRef.current || slots === 0) return;
+        const rect = containerRef.current.getBoundingClientRect();
+        const fraction = Math.max(0, Math.min(e.clientX - rect.left, rect.width)) / rect.width;
+        const idx = variant === 'bar' ? Math.min(slots - 1, Math.floor(fraction * slots)) : Math.round(fraction * (slots - 1));
+        setActiveIndex(idx);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        handlePointerMove(e);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        setActiveIndex(null);
+    };
+
+    const slotX = (i: number) => variant === 'bar'
+        ? ((i + 0.5) / slots) * width
+        : (i / Math.max(slots - 1, 1)) * (width - padding * 2) + padding;
+
+    return (
+        <div
+            ref={containerRef}
+            className={`w-full relative touch-none cursor-crosshair select-none py-2 ${CHART_FOCUS_CLASS}`}
+            style={{ touchAction: 'none' }}
+            role="group"
+            aria-label={label}
+            tabIndex={0}
+            data-active={activeIndex !== null}
+            onKeyDown={chartKeyHandler(slots, setActiveIndex)}
+            onBlur={() => setActiveIndex(null)}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+        >
+            <ChartTable caption={label} labels={labels} columns={series} unit={unit} />
+
+            <svg width="100%" height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible" aria-hidden="true">
+                {variant === 'line' && paths.map((d, i) => (
+                    <path key={i} d={d} fill="none" stroke={series[i].color} strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" opacity={activeIndex === null ? 0.9 : 1} />
+                ))}
+
+                {variant === 'bar' && labels.map((_, i) => {
+                    const slotWidth = width / slots;
+                    const barWidth = (slotWidth * 0.8) / series.length;
+                    return series.map((s, j) => {
+                        const val = s.data[i] ?? 0;
+                        const barHeight = Math.max(0, ((val - safeMin) / range) * (height - 20));
+                        return (
+                            <rect
+                                key={`${i}-${j}`}
+                                x={i * slotWidth + slotWidth * 0.1 + j * barWidth}
+                                y={height - barHeight}
+                                width={barWidth}
+                                height={barHeight}
+                                fill={s.color}
+                                rx="1"
+                                opacity={activeIndex === i ? 1 : 0.6}
+                            />
+                        );
+                    });
+                })}
+
+                {activeIndex !== null && (
+                    <line x1={slotX(activeIndex)} y1={0} x2={slotX(activeIndex)} y2={height} stroke="white" strokeWidth="1" strokeDasharray="4 4" opacity="0.3" />
+                )}
+                {activeIndex !== null && variant === 'line' && series.map((s, i) => s.data[activeIndex] !== undefined && (
+                    <circle
+                        key={i}
+                        cx={slotX(activeIndex)}
+                        cy={height - ((s.data[activeIndex] - safeMin) / range) * (height - padding * 2) - padding}
+                        r="4" fill={s.color} stroke="white" strokeWidth="1.5"
+                    />
+                ))}
+            </svg>
+
+            <div className="flex justify-between w-full px-2 mt-2" aria-hidden="true">
+                {labels.filter((_, i) => i % 6 === 0).map((tick, i) => (
+                    <span key={i} className="text-[10px] text-zinc-500 font-medium">{tick}</span>
+                ))}
+            </div>
+
+            {activeIndex !== null && (
+                <div
+                    aria-hidden="true"
+                    className="absolute bg-zinc-800/95 backdrop-blur-md text-white px-3 py-2 rounded-lg shadow-xl pointer-events-none border border-zinc-700 z-20 flex flex-col transform -translate-x-1/2 -translate-y-full"
+                    style={{ left: `${(slotX(activeIndex) / width) * 100}%`, top: 0 }}
+                >
+                    <span className="text-[10px] text-zinc-400 font-bold uppercase tracking-wider mb-1 text-center">{labels[activeIndex]}</span>
+                    {series.map((s, i) => (
+                        <span key={i} className="flex items-center gap-2 text-xs whitespace-nowrap">
+                            <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: s.color }} />
+                            <span className="text-zinc-300 max-w-[7rem] truncate">{s.label}</span>
+                            <span className="ml-auto pl-2 font-black">{s.data[activeIndex] !== undefined ? formatWithUnit(s.data[activeIndex], unit) : '–'}</span>
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
 interface SunCycleProps {
     sunrise: string;
     sunset: string;
@@ -341,12 +565,12 @@ export const SunCycle: React.FC<SunCycleProps> = ({ sunrise, sunset }) => {
                      </g>
                  )}
 
-                 <text x="50" y="140" textAnchor="middle" fill="#a1a1aa" fontSize="11" fontWeight="bold">{sunrise}</text>
-                 <text x="250" y="140" textAnchor="middle" fill="#a1a1aa" fontSize="11" fontWeight="bold">{sunset}</text>
+                 <text x="50" y="140" textAnchor="middle" fill="#a1a1aa" fontSize="11" fontWeight="bold">{formatTimeOfDay(sunrise)}</text>
+                 <text x="250" y="140" textAnchor="middle" fill="#a1a1aa" fontSize="11" fontWeight="bold">{formatTimeOfDay(sunset)}</text>
             </svg>
             
             <div className={`absolute top-0 right-2 px-2 py-1 rounded text-[10px] border transition-colors ${scrubProgress !== null ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-200' : 'bg-zinc-800/50 border-zinc-700/50 text-zinc-400'}`}>
-               {scrubProgress !== null ? `Time: ${activeTimeStr}` : 'Drag to scrub'}
+               {scrubProgress !== null ? t('chart.time', { time: formatTimeOfDay(activeTimeStr) }) : t('chart.dragToScrub')}
             </div>
         </div>
     );
@@ -1,6 +1,7 @@
 
 import React, { useState, KeyboardEvent } from 'react';
 import { Wand2, X } from 'lucide-react';
+import { t } from '../services/i18n';
 
 interface EditInputProps {
   onEdit: (prompt: string) => void;
@@ -29,7 +30,7 @@ export const EditInput: React.FC<EditInputProps> = ({ onEdit, onCancel, isProces
             autoFocus
             type="text"
             className="flex-1 bg-transparent border-none text-white placeholder-zinc-500 focus:ring-0 text-sm py-2 px-2"
-            placeholder={isProcessing ? "Generating edit..." : "Describe changes (e.g., 'Add snow', 'Make it night')"}
+            placeholder={isProcessing ? t('editor.generatingEdit') : t('editor.describeChanges')}
             value={value}
             onChange={(e) => setValue(e.target.value)}
             onKeyDown={handleKeyDown}
@@ -1,7 +1,9 @@
 
-import React, { useState } from 'react';
+import React, { useId, useState } from 'react';
 import { Wand2, X, Sparkles, Loader2, ArrowRight, ArrowLeft, ScrollText, Castle, History, Globe } from 'lucide-react';
 import { FantasyConfig } from '../types';
+import { hasMessage, t } from '../services/i18n';
+import { useDialogFocus } from '../services/a11y';
 
 interface FantasyCreatorProps {
   onCreate: (config: FantasyConfig) => void;
@@ -11,6 +13,9 @@ interface FantasyCreatorProps {
 
 export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCancel, isProcessing }) => {
   const [step, setStep] = useState(1);
+  // Escape doesn't abandon a world that is being generated
+  const dialogRef = useDialogFocus<HTMLDivElement>(isProcessing ? undefined : onCancel);
+  const titleId = useId();
   const [mode, setMode] = useState<'fantasy' | 'historical'>('fantasy');
   
   const [config, setConfig] = useState<FantasyConfig>({
@@ -25,6 +30,12 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
 
   const isValidStep1 = config.cityName.trim().length > 0 && config.universe.trim().length > 0;
 
+  // Option values are English because they go straight into the prompt; only the label is translated
+  const optionLabel = (value: string) => {
+      const key = `option.${value}`;
+      return hasMessage(key) ? t(key) : value;
+  };
+
   const handleSubmit = () => {
       if (isProcessing) return;
       onCreate({ ...config, mode });
@@ -54,7 +65,14 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
 
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-300">
-      <div className="bg-zinc-950/95 border border-zinc-800 rounded-3xl w-full max-w-3xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden relative ring-1 ring-white/5">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="bg-zinc-950/95 border border-zinc-800 rounded-3xl w-full max-w-3xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden relative ring-1 ring-white/5 outline-none"
+      >
         
         {/* Header */}
         <div className="flex-shrink-0 p-6 border-b border-zinc-800/50 flex justify-between items-center bg-zinc-900/40 backdrop-blur-md">
@@ -63,18 +81,19 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                    {mode === 'fantasy' ? <Wand2 className="w-6 h-6" /> : <History className="w-6 h-6" />}
                </div>
                <div>
-                   <h2 className="text-xl font-bold text-white tracking-tight">World Builder</h2>
+                   <h2 id={titleId} className="text-xl font-bold text-white tracking-tight">{t('fantasy.title')}</h2>
                    <div className="flex items-center gap-2 mt-0.5">
                        <div className={`h-1 w-8 rounded-full ${step >= 1 ? 'bg-blue-500' : 'bg-zinc-800'}`} />
                        <div className={`h-1 w-8 rounded-full ${step >= 2 ? 'bg-blue-500' : 'bg-zinc-800'}`} />
-                       <span className="text-xs text-zinc-500 font-medium ml-1">Step {step} of 2</span>
+                       <span className="text-xs text-zinc-500 font-medium ml-1">{t('fantasy.step', { step })}</span>
                    </div>
                </div>
            </div>
            <button 
                 onClick={onCancel} 
                 className="p-2.5 hover:bg-white/10 rounded-full transition-colors text-zinc-400 hover:text-white"
-                title="Close"
+                title={t('common.close')}
+                aria-label={t('common.close')}
            >
                <X className="w-6 h-6" />
            </button>
@@ -90,7 +109,7 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                     {/* Mode Selection Cards */}
                     <section>
                         <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-4 flex items-center gap-2">
-                             1. Select Simulation Mode
+                             {t('fantasy.selectMode')}
                         </h3>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <button 
@@ -103,8 +122,8 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                                     </div>
                                     {mode === 'fantasy' && <div className="w-3 h-3 bg-purple-500 rounded-full animate-pulse" />}
                                 </div>
-                                <h4 className={`text-base font-bold mb-1 ${mode === 'fantasy' ? 'text-white' : 'text-zinc-300'}`}>Fictional World</h4>
-                                <p className="text-xs text-zinc-400 leading-relaxed">Create lore-accurate cities from books, movies, games, or your imagination.</p>
+                                <h4 className={`text-base font-bold mb-1 ${mode === 'fantasy' ? 'text-white' : 'text-zinc-300'}`}>{t('fantasy.modeFantasy')}</h4>
+                                <p className="text-xs text-zinc-400 leading-relaxed">{t('fantasy.modeFantasyHint')}</p>
                             </button>
 
                             <button 
@@ -117,8 +136,8 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                                     </div>
                                     {mode === 'historical' && <div className="w-3 h-3 bg-amber-500 rounded-full animate-pulse" />}
                                 </div>
-                                <h4 className={`text-base font-bold mb-1 ${mode === 'historical' ? 'text-white' : 'text-zinc-300'}`}>Ancient Civilization</h4>
-                                <p className="text-xs text-zinc-400 leading-relaxed">Reconstruct historical cities, eras, and lost civilizations with accuracy.</p>
+                                <h4 className={`text-base font-bold mb-1 ${mode === 'historical' ? 'text-white' : 'text-zinc-300'}`}>{t('fantasy.modeHistorical')}</h4>
+                                <p className="text-xs text-zinc-400 leading-relaxed">{t('fantasy.modeHistoricalHint')}</p>
                             </button>
                         </div>
                     </section>
@@ -126,13 +145,13 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                     {/* Inputs Section */}
                     <section>
                          <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-4 flex items-center gap-2">
-                             2. Target Identification
+                             {t('fantasy.identification')}
                         </h3>
                         <div className="space-y-5">
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
                                 <div className="space-y-2">
                                     <label className="text-xs font-semibold text-zinc-400 ml-1">
-                                        {mode === 'fantasy' ? 'City / Place Name' : 'Ancient City Name'}
+                                        {mode === 'fantasy' ? t('fantasy.cityName') : t('fantasy.ancientCityName')}
                                     </label>
                                     <div className="relative group">
                                         <div className="absolute inset-y-0 left-0 pl-3.5 flex items-center pointer-events-none">
@@ -140,7 +159,7 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                                         </div>
                                         <input 
                                             type="text" 
-                                            placeholder={mode === 'fantasy' ? "e.g. Winterfell, Gondor" : "e.g. Babylon, Carthage"}
+                                            placeholder={mode === 'fantasy' ? t('fantasy.cityPlaceholder') : t('fantasy.ancientCityPlaceholder')}
                                             className="w-full bg-zinc-900/80 border border-zinc-700 rounded-xl pl-10 pr-4 py-3.5 text-sm text-white placeholder-zinc-600 focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all outline-none font-medium shadow-sm hover:bg-zinc-900"
                                             value={config.cityName}
                                             onChange={e => setConfig({...config, cityName: e.target.value})}
@@ -150,7 +169,7 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                                 </div>
                                 <div className="space-y-2">
                                     <label className="text-xs font-semibold text-zinc-400 ml-1">
-                                        {mode === 'fantasy' ? 'Universe / Source' : 'Historical Era / Civilization'}
+                                        {mode === 'fantasy' ? t('fantasy.universe') : t('fantasy.era')}
                                     </label>
                                     <div className="relative group">
                                         <div className="absolute inset-y-0 left-0 pl-3.5 flex items-center pointer-events-none">
@@ -162,7 +181,7 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                                         </div>
                                         <input 
                                             type="text" 
-                                            placeholder={mode === 'fantasy' ? "e.g. Game of Thrones, Star Wars" : "e.g. Roman Empire, 300 BC"}
+                                            placeholder={mode === 'fantasy' ? t('fantasy.universePlaceholder') : t('fantasy.eraPlaceholder')}
                                             className="w-full bg-zinc-900/80 border border-zinc-700 rounded-xl pl-10 pr-4 py-3.5 text-sm text-white placeholder-zinc-600 focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all outline-none font-medium shadow-sm hover:bg-zinc-900"
                                             value={config.universe}
                                             onChange={e => setConfig({...config, universe: e.target.value})}
@@ -173,10 +192,10 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                             
                             <div className="space-y-2">
                                 <label className="text-xs font-semibold text-zinc-400 ml-1">
-                                    Detailed Description <span className="text-zinc-600 font-normal">(Optional)</span>
+                                    {t('fantasy.description')} <span className="text-zinc-600 font-normal">{t('fantasy.optional')}</span>
                                 </label>
                                 <textarea 
-                                    placeholder={mode === 'fantasy' ? "Describe specific landmarks, the current state of affairs, or specific details..." : "Describe the construction phase, specific historical event, or atmosphere..."}
+                                    placeholder={mode === 'fantasy' ? t('fantasy.descriptionPlaceholder') : t('fantasy.historicalDescriptionPlaceholder')}
                                     className="w-full bg-zinc-900/80 border border-zinc-700 rounded-xl px-4 py-3.5 text-sm text-white placeholder-zinc-600 focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all outline-none h-24 min-h-[6rem] resize-y font-medium leading-relaxed shadow-sm hover:bg-zinc-900"
                                     value={config.description}
                                     onChange={e => setConfig({...config, description: e.target.value})}
@@ -193,18 +212,18 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                      
                      <section>
                          <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-4 flex items-center gap-2">
-                             3. Environmental Parameters
+                             {t('fantasy.environment')}
                         </h3>
                          <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
                             <div className="space-y-2">
-                                <label className="text-xs font-semibold text-zinc-400 ml-1">Weather Conditions</label>
+                                <label className="text-xs font-semibold text-zinc-400 ml-1">{t('fantasy.weather')}</label>
                                 <div className="relative">
                                     <select 
                                         className="w-full bg-zinc-900/80 border border-zinc-700 rounded-xl px-4 py-3.5 text-sm text-white focus:ring-2 focus:ring-blue-500/50 outline-none appearance-none font-medium cursor-pointer hover:bg-zinc-900 transition-colors shadow-sm"
                                         value={config.weather}
                                         onChange={e => setConfig({...config, weather: e.target.value})}
                                     >
-                                        {weatherOptions.map(opt => <option key={opt}>{opt}</option>)}
+                                        {weatherOptions.map(opt => <option key={opt} value={opt}>{optionLabel(opt)}</option>)}
                                     </select>
                                     <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-zinc-500">
                                         <ArrowRight className="w-4 h-4 rotate-90" />
@@ -212,14 +231,14 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                                 </div>
                             </div>
                             <div className="space-y-2">
-                                <label className="text-xs font-semibold text-zinc-400 ml-1">Time of Day</label>
+                                <label className="text-xs font-semibold text-zinc-400 ml-1">{t('fantasy.time')}</label>
                                  <div className="relative">
                                     <select 
                                         className="w-full bg-zinc-900/80 border border-zinc-700 rounded-xl px-4 py-3.5 text-sm text-white focus:ring-2 focus:ring-blue-500/50 outline-none appearance-none font-medium cursor-pointer hover:bg-zinc-900 transition-colors shadow-sm"
                                         value={config.time}
                                         onChange={e => setConfig({...config, time: e.target.value})}
                                     >
-                                        {timeOptions.map(opt => <option key={opt}>{opt}</option>)}
+                                        {timeOptions.map(opt => <option key={opt} value={opt}>{optionLabel(opt)}</option>)}
                                     </select>
                                     <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-zinc-500">
                                         <ArrowRight className="w-4 h-4 rotate-90" />
@@ -231,7 +250,7 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                      
                      <section>
                         <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-4 flex items-center gap-2">
-                             4. Rendering Style
+                             {t('fantasy.style')}
                         </h3>
                         <div className="flex flex-wrap gap-2.5">
                             {aestheticOptions.map(style => (
@@ -240,7 +259,7 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                                     onClick={() => setConfig({...config, aesthetic: style})}
                                     className={`px-4 py-2.5 rounded-xl text-xs font-bold border transition-all duration-200 ${config.aesthetic === style ? 'bg-zinc-100 border-white text-black shadow-[0_0_15px_rgba(255,255,255,0.3)] scale-105' : 'bg-zinc-900/50 border-zinc-800 text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 hover:border-zinc-700'}`}
                                 >
-                                    {style}
+                                    {optionLabel(style)}
                                 </button>
                             ))}
                         </div>
@@ -257,7 +276,7 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                     onClick={() => setStep(1)}
                     className="px-5 py-2.5 rounded-full text-zinc-400 font-bold text-sm hover:text-white transition-colors flex items-center gap-2 hover:bg-white/5 border border-transparent hover:border-zinc-700"
                 >
-                    <ArrowLeft className="w-4 h-4" /> Back
+                    <ArrowLeft className="w-4 h-4" /> {t('common.back')}
                 </button>
             ) : (
                 <div /> /* Spacer */
@@ -269,7 +288,7 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                     disabled={!isValidStep1}
                     className="px-8 py-3 bg-zinc-100 text-black rounded-full font-bold text-sm hover:scale-105 active:scale-95 transition-all flex items-center gap-2 disabled:opacity-50 disabled:scale-100 disabled:cursor-not-allowed shadow-[0_0_20px_rgba(255,255,255,0.2)]"
                 >
-                    Next Step <ArrowRight className="w-4 h-4" />
+                    {t('fantasy.nextStep')} <ArrowRight className="w-4 h-4" />
                 </button>
             ) : (
                 <button 
@@ -280,12 +299,12 @@ export const FantasyCreator: React.FC<FantasyCreatorProps> = ({ onCreate, onCanc
                     {isProcessing ? (
                         <>
                             <Loader2 className="w-4 h-4 animate-spin" />
-                            {mode === 'fantasy' ? 'Simulating...' : 'Reconstructing...'}
+                            {mode === 'fantasy' ? t('fantasy.simulating') : t('fantasy.reconstructing')}
                         </>
                     ) : (
                         <>
                             <Sparkles className="w-4 h-4" />
-                            {mode === 'fantasy' ? 'Generate World' : 'Build City'}
+                            {mode === 'fantasy' ? t('fantasy.generateWorld') : t('fantasy.buildCity')}
                         </>
                     )}
                 </button>
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { CalendarClock, ArrowRight, Radio } from 'lucide-react';
+import { HISTORY_START_DATE, latestHistoricalDate, isValidHistoricalDate } from '../services/weatherService';
+import { t } from '../services/i18n';
+
+interface HistoricalDatePickerProps {
+  historicalDate?: string; // Set when the card already shows an archived day
+  disabled?: boolean;
+  onShowDate: (date: string | null) => void; // null goes back to the live forecast
+}
+
+// Expanded-card panel for looking up a real city's weather on a past day
+export const HistoricalDatePicker: React.FC<HistoricalDatePickerProps> = ({ historicalDate, disabled, onShowDate }) => {
+  const [date, setDate] = useState(historicalDate || '');
+  const latest = latestHistoricalDate();
+  const canShow = isValidHistoricalDate(date) && date !== historicalDate && !disabled;
+
+  return (
+    <div className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5" onClick={(e) => e.stopPropagation()}>
+      <h3 className="flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-widest mb-1">
+        <CalendarClock className="w-3.5 h-3.5" />
+        {t('history.title')}
+      </h3>
+      <p className="text-xs text-zinc-500 mb-4">{t('history.hint')}</p>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="date"
+          min={HISTORY_START_DATE}
+          max={latest}
+          value={date}
+          onChange={e => setDate(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && canShow) onShowDate(date); }}
+          disabled={disabled}
+          className="flex-1 min-w-0 bg-zinc-900/80 border border-zinc-700 rounded-xl px-3 py-2 text-sm text-white font-bold outline-none focus:ring-2 focus:ring-blue-500/50 [color-scheme:dark] disabled:opacity-50"
+          aria-label={t('history.date')}
+        />
+        <button
+          onClick={() => onShowDate(date)}
+          disabled={!canShow}
+          className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-zinc-800 disabled:text-zinc-500 rounded-xl px-4 py-2 text-xs font-bold text-white transition-colors"
+        >
+          {t('history.show')}
+          <ArrowRight className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {historicalDate && (
+        <button
+          onClick={() => onShowDate(null)}
+          disabled={disabled}
+          className="flex items-center gap-1.5 mt-3 text-xs font-bold text-zinc-400 hover:text-white disabled:opacity-50 transition-colors"
+        >
+          <Radio className="w-3.5 h-3.5" />
+          {t('history.backToLive')}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,52 +1,72 @@
-
 import React, { useEffect, useState } from 'react';
+import { GenerationProgress } from '../types';
+import { t } from '../services/i18n';
+import { useReducedMotion } from '../services/a11y';
 
 interface LoadingScreenProps {
   message?: string;
+  generation?: GenerationProgress | null; // Latest event from the generation queue, if one has started
+  onCancel?: () => void;
 }
 
-export const LoadingScreen: React.FC<LoadingScreenProps> = ({ message }) => {
-  const [progress, setProgress] = useState(0);
-  const [loadingText, setLoadingText] = useState("Initializing environment...");
-  
-  const messages = [
-    "Calibrating simulation grid...",
-    "Erecting structural pillars...",
-    "Hoisting floor plates...",
-    "Installing holographic facades...",
-    "Simulating wind load...",
-    "Rendering lighting dynamics...",
-    "Finalizing scene composition..."
-  ];
+// Progress bar position for each generation stage. Image generation doesn't report
+// partial progress, so the bar reflects where the request is rather than a fake timer.
+const STAGE_PROGRESS: Record<GenerationProgress['stage'], number> = {
+  queued: 25,
+  running: 60,
+  retrying: 60,
+  done: 100,
+  failed: 100,
+  cancelled: 0,
+};
+
+export const LoadingScreen: React.FC<LoadingScreenProps> = ({ message, generation, onCancel }) => {
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [startedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+  // Reduced motion: the construction scene stays still and the bar stops shimmering
+  const reducedMotion = useReducedMotion();
 
   useEffect(() => {
-    setProgress(0);
-    const interval = setInterval(() => {
-      setProgress(prev => {
-        if (prev >= 95) return prev; 
-        const remaining = 95 - prev;
-        return prev + Math.max(0.2, remaining * 0.08);
-      });
-    }, 100);
-
-    let msgIndex = 0;
-    const textInterval = setInterval(() => {
-      msgIndex = (msgIndex + 1) % messages.length;
-      setLoadingText(messages[msgIndex]);
-    }, 2000);
-
-    return () => {
-      clearInterval(interval);
-      clearInterval(textInterval);
-    };
+    setRetryAt(generation?.stage === 'retrying' && generation.retryInMs ? Date.now() + generation.retryInMs : null);
+  }, [generation]);
+
+  useEffect(() => {
+    // Ticks the elapsed time and retry countdown
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
   }, []);
 
+  const elapsedSeconds = Math.floor((now - startedAt) / 1000);
+  const retryInSeconds = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+  const progress = generation ? STAGE_PROGRESS[generation.stage] : 10; // Still fetching weather data
+
+  const getStatusText = () => {
+    if (!generation) return message || t('loading.fetching');
+    const attempt = { attempt: generation.attempt, max: generation.maxAttempts };
+    switch (generation.stage) {
+      case 'queued':
+        return t('loading.queued', { position: generation.queuePosition ?? 1 });
+      case 'running':
+        return generation.attempt > 1 ? t('loading.renderingAttempt', attempt) : (message || t('loading.rendering'));
+      case 'retrying':
+        return t('loading.retrying', { seconds: retryInSeconds, ...attempt });
+      case 'failed':
+        return generation.error || t('loading.failed');
+      default:
+        return message || t('loading.finalizing');
+    }
+  };
+
+  const isActive = generation?.stage === 'running' || generation?.stage === 'retrying';
+
   return (
-    <div className="absolute inset-0 z-[1000] flex flex-col items-center justify-center bg-zinc-950/95 backdrop-blur-2xl p-6 animate-in fade-in duration-500 overflow-hidden">
+    <div className="absolute inset-0 z-[1000] flex flex-col items-center justify-center bg-zinc-950/95 backdrop-blur-2xl p-6 animate-in fade-in duration-500 overflow-hidden" aria-busy="true">
       
       {/* Background Grid - Holographic Effect */}
       <div 
         className="absolute inset-0 opacity-20"
+        aria-hidden="true"
         style={{
             backgroundImage: `
                 linear-gradient(rgba(59, 130, 246, 0.2) 1px, transparent 1px),
@@ -54,7 +74,7 @@ export const LoadingScreen: React.FC<LoadingScreenProps> = ({ message }) => {
             `,
             backgroundSize: '40px 40px',
             transform: 'perspective(500px) rotateX(60deg) translateY(-100px) scale(2)',
-            animation: 'gridMove 20s linear infinite'
+            animation: reducedMotion ? undefined : 'gridMove 20s linear infinite'
         }}
       />
       <style dangerouslySetInnerHTML={{__html: `
@@ -65,10 +85,10 @@ export const LoadingScreen: React.FC<LoadingScreenProps> = ({ message }) => {
       `}} />
 
       {/* Main Holographic Construction Animation */}
-      <div className="relative w-80 h-60 mb-10 flex items-end justify-center perspective-1000">
+      <div className="relative w-80 h-60 mb-10 flex items-end justify-center perspective-1000" aria-hidden="true">
         
         {/* Central Glow */}
-        <div className="absolute bottom-10 left-1/2 -translate-x-1/2 w-60 h-40 bg-blue-500/10 rounded-full blur-[60px] animate-pulse" />
+        <div className={`absolute bottom-10 left-1/2 -translate-x-1/2 w-60 h-40 bg-blue-500/10 rounded-full blur-[60px] ${reducedMotion ? '' : 'animate-pulse'}`} />
 
         <svg viewBox="0 0 300 200" className="w-full h-full overflow-visible">
             <defs>
@@ -94,7 +114,7 @@ export const LoadingScreen: React.FC<LoadingScreenProps> = ({ message }) => {
             {/* Rising Layers */}
             <g transform="translate(150, 150)">
                 {[0, 1, 2, 3, 4].map((i) => (
-                    <g key={i} style={{ animation: `riseAndLock 4s cubic-bezier(0.2, 0.8, 0.2, 1) infinite`, animationDelay: `${i * 0.2}s` }}>
+                    <g key={i} style={reducedMotion ? undefined : { animation: `riseAndLock 4s cubic-bezier(0.2, 0.8, 0.2, 1) infinite`, animationDelay: `${i * 0.2}s` }}>
                         <path 
                             d={`M 0 -20 L ${40 - i*2} 0 L 0 20 L -${40 - i*2} 0 Z`}
                             fill="url(#isoGradient)" 
@@ -121,13 +141,15 @@ export const LoadingScreen: React.FC<LoadingScreenProps> = ({ message }) => {
             </g>
 
             {/* Scanning Effect */}
-            <g transform="translate(150, 150)" opacity="0.3">
-                 <ellipse cx="0" cy="-40" rx="60" ry="20" fill="none" stroke="#fff" strokeWidth="1" strokeDasharray="4 4">
-                     <animate attributeName="ry" values="20; 5; 20" dur="4s" repeatCount="indefinite" />
-                     <animate attributeName="cy" values="40; -100; 40" dur="4s" repeatCount="indefinite" />
-                     <animate attributeName="opacity" values="0; 1; 0" dur="4s" repeatCount="indefinite" />
-                 </ellipse>
-            </g>
+            {!reducedMotion && (
+                <g transform="translate(150, 150)" opacity="0.3">
+                     <ellipse cx="0" cy="-40" rx="60" ry="20" fill="none" stroke="#fff" strokeWidth="1" strokeDasharray="4 4">
+                         <animate attributeName="ry" values="20; 5; 20" dur="4s" repeatCount="indefinite" />
+                         <animate attributeName="cy" values="40; -100; 40" dur="4s" repeatCount="indefinite" />
+                         <animate attributeName="opacity" values="0; 1; 0" dur="4s" repeatCount="indefinite" />
+                     </ellipse>
+                </g>
+            )}
 
         </svg>
 
@@ -143,23 +165,44 @@ export const LoadingScreen: React.FC<LoadingScreenProps> = ({ message }) => {
 
       <div className="flex flex-col items-center gap-3 max-w-xs text-center z-10">
         <div className="flex items-center gap-2">
-           <h2 className="text-xl font-bold text-white tracking-tight animate-pulse">Constructing World</h2>
+           <h2 className={`text-xl font-bold text-white tracking-tight ${reducedMotion ? '' : 'animate-pulse'}`}>{t('loading.title')}</h2>
         </div>
-        <p className="text-sm text-zinc-400 font-medium h-5">
-            {message || loadingText}
+        <p className="text-sm text-zinc-400 font-medium h-5" role="status">
+            {getStatusText()}
+        </p>
+        <p className="text-xs text-zinc-600 font-mono tabular-nums">
+            {t('loading.elapsed', { seconds: elapsedSeconds })}
         </p>
         
         {/* Progress Bar */}
-        <div className="w-full h-1 bg-zinc-800 rounded-full overflow-hidden mt-4 shadow-inner">
+        <div
+            className="w-full h-1 bg-zinc-800 rounded-full overflow-hidden mt-4 shadow-inner"
+            role="progressbar"
+            aria-label={t('loading.title')}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={progress}
+        >
             <div 
             className="h-full bg-blue-500 rounded-full transition-all duration-300 ease-out relative overflow-hidden"
             style={{ width: `${progress}%` }}
             >
-                <div className="absolute inset-0 bg-white/50 w-full h-full animate-[shimmer_1.5s_infinite]" 
-                    style={{ backgroundImage: 'linear-gradient(90deg, transparent, rgba(255,255,255,0.8), transparent)' }} 
-                />
+                {isActive && !reducedMotion && (
+                    <div className="absolute inset-0 bg-white/50 w-full h-full animate-[shimmer_1.5s_infinite]" 
+                        style={{ backgroundImage: 'linear-gradient(90deg, transparent, rgba(255,255,255,0.8), transparent)' }} 
+                    />
+                )}
             </div>
         </div>
+
+        {onCancel && (
+            <button
+                onClick={onCancel}
+                className="mt-4 px-5 py-2 text-sm font-medium text-zinc-400 hover:text-white bg-white/5 hover:bg-white/10 border border-white/10 rounded-full transition-colors"
+            >
+                {t('common.cancel')}
+            </button>
+        )}
       </div>
     </div>
   );
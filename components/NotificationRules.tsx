@@ -0,0 +1,122 @@
+import React from 'react';
+import { Bell, BellOff, Plus, Trash2, Umbrella, CloudRain, Factory } from 'lucide-react';
+import { NotificationMetric, NotificationRule, UnitPreferences } from '../types';
+import { createNotificationRule, THRESHOLD_OPTIONS, WITHIN_HOURS_OPTIONS } from '../services/notificationService';
+import { formatPrecipitation } from '../services/units';
+import { t, formatNumber } from '../services/i18n';
+import { MessageKey } from '../locales/en';
+
+interface NotificationRulesProps {
+  rules: NotificationRule[];
+  units: UnitPreferences;
+  notificationsEnabled: boolean; // Global switch from preferences
+  onChange: (rules: NotificationRule[]) => void;
+  onOpenPreferences?: () => void;
+}
+
+const METRICS: { metric: NotificationMetric; label: MessageKey; icon: React.ReactNode }[] = [
+  { metric: 'pop', label: 'notify.metric.pop', icon: <Umbrella className="w-3.5 h-3.5" /> },
+  { metric: 'precipitation', label: 'notify.metric.precipitation', icon: <CloudRain className="w-3.5 h-3.5" /> },
+  { metric: 'aqi', label: 'notify.metric.aqi', icon: <Factory className="w-3.5 h-3.5" /> },
+];
+
+const formatThreshold = (metric: NotificationMetric, value: number, units: UnitPreferences) => {
+  if (metric === 'pop') return `${formatNumber(value)}%`;
+  if (metric === 'precipitation') return t('notify.perHour', { amount: formatPrecipitation(value, units) });
+  return formatNumber(value);
+};
+
+const selectClass = "bg-zinc-900/80 border border-zinc-700 rounded-lg px-2 py-1 text-xs text-white font-bold outline-none focus:ring-2 focus:ring-blue-500/50 cursor-pointer";
+
+// Per-card notification rules shown in the expanded card ("rain chance ≥ 60% within 2 h")
+export const NotificationRules: React.FC<NotificationRulesProps> = ({ rules, units, notificationsEnabled, onChange, onOpenPreferences }) => {
+  const updateRule = (id: string, patch: Partial<NotificationRule>) => {
+    onChange(rules.map(rule => rule.id === id ? { ...rule, ...patch } : rule));
+  };
+
+  return (
+    <div className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5" onClick={(e) => e.stopPropagation()}>
+      <h3 className="flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-widest mb-4">
+        <Bell className="w-3.5 h-3.5" />
+        {t('notify.title')}
+      </h3>
+
+      {!notificationsEnabled && (
+        <button
+          onClick={onOpenPreferences}
+          className="w-full text-left text-xs text-amber-200/90 bg-amber-500/10 border border-amber-500/20 rounded-xl px-3 py-2 mb-4 hover:bg-amber-500/20 transition-colors"
+        >
+          {t('notify.disabledHint')}
+        </button>
+      )}
+
+      {rules.length === 0 && <p className="text-xs text-zinc-500 mb-4">{t('notify.empty')}</p>}
+
+      <div className="space-y-3">
+        {rules.map(rule => {
+          const meta = METRICS.find(m => m.metric === rule.metric)!;
+          return (
+            <div key={rule.id} className={`flex items-center gap-2 flex-wrap text-sm transition-opacity ${rule.enabled ? '' : 'opacity-50'}`}>
+              <span className="flex items-center gap-1.5 font-semibold text-zinc-300">
+                <span className="text-zinc-500">{meta.icon}</span>
+                {t(meta.label)}
+              </span>
+              <span className="text-zinc-500">≥</span>
+              <select
+                className={selectClass}
+                value={rule.threshold}
+                onChange={e => updateRule(rule.id, { threshold: Number(e.target.value) })}
+                aria-label={t('notify.threshold')}
+              >
+                {/* Keep values from older builds selectable */}
+                {[...new Set([...THRESHOLD_OPTIONS[rule.metric], rule.threshold])].sort((a, b) => a - b).map(value => (
+                  <option key={value} value={value}>{formatThreshold(rule.metric, value, units)}</option>
+                ))}
+              </select>
+              <span className="text-zinc-500">{t('notify.within')}</span>
+              <select
+                className={selectClass}
+                value={rule.withinHours}
+                onChange={e => updateRule(rule.id, { withinHours: Number(e.target.value) })}
+                aria-label={t('notify.window')}
+              >
+                {[...new Set([...WITHIN_HOURS_OPTIONS, rule.withinHours])].sort((a, b) => a - b).map(hours => (
+                  <option key={hours} value={hours}>{t('notify.hours', { hours })}</option>
+                ))}
+              </select>
+              <div className="ml-auto flex items-center gap-1">
+                <button
+                  onClick={() => updateRule(rule.id, { enabled: !rule.enabled })}
+                  className="p-1.5 rounded-lg text-zinc-400 hover:text-white hover:bg-white/10 transition-colors"
+                  title={t(rule.enabled ? 'notify.pause' : 'notify.resume')}
+                >
+                  {rule.enabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                  className="p-1.5 rounded-lg text-zinc-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                  title={t('notify.remove')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-4">
+        {METRICS.map(({ metric, label }) => (
+          <button
+            key={metric}
+            onClick={() => onChange([...rules, createNotificationRule(metric)])}
+            className="flex items-center gap-1 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-1.5 text-xs font-bold text-zinc-400 hover:text-white hover:border-zinc-700 transition-all"
+          >
+            <Plus className="w-3 h-3" />
+            {t(label)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Proportions, Smartphone, Monitor, Square, Zap, RefreshCw, Sparkles } from 'lucide-react';
+import { OutputProfile, SceneAspectRatio } from '../types';
+import { ASPECT_RATIOS, isSameProfile } from '../services/outputProfiles';
+import { t } from '../services/i18n';
+import { MessageKey } from '../locales/en';
+
+interface OutputProfilePanelProps {
+  profile: OutputProfile; // Format the card draws new scenes in
+  imageProfile: OutputProfile; // Format of the scene currently on the card
+  disabled?: boolean;
+  onApply: (profile: OutputProfile) => void; // Redraws the scene in that format
+}
+
+export const ASPECT_RATIO_LABELS: Record<SceneAspectRatio, MessageKey> = {
+  '9:16': 'profile.phone',
+  '16:9': 'profile.desktop',
+  '1:1': 'profile.square',
+};
+
+const ASPECT_RATIO_ICONS: Record<SceneAspectRatio, React.FC<{ className?: string }>> = {
+  '9:16': Smartphone,
+  '16:9': Monitor,
+  '1:1': Square,
+};
+
+// Expanded-card panel: pick the scene's shape and resolution, then redraw it in that format
+export const OutputProfilePanel: React.FC<OutputProfilePanelProps> = ({ profile, imageProfile, disabled, onApply }) => {
+  const [selected, setSelected] = useState<OutputProfile>(profile);
+  const changed = !isSameProfile(selected, imageProfile);
+
+  const chip = (active: boolean) =>
+    `flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold transition-colors ${active ? 'bg-white text-black' : 'bg-zinc-800/80 text-zinc-400 hover:text-white'}`;
+
+  return (
+    <div className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5" onClick={(e) => e.stopPropagation()}>
+      <h3 className="flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-widest mb-1">
+        <Proportions className="w-3.5 h-3.5" />
+        {t('profile.title')}
+      </h3>
+      <p className="text-xs text-zinc-500 mb-4">{t(imageProfile.draft ? 'profile.draftHint' : 'profile.hint')}</p>
+
+      <div className="flex flex-wrap gap-1.5 mb-4" role="radiogroup" aria-label={t('profile.title')}>
+        {ASPECT_RATIOS.map(ratio => {
+          const Icon = ASPECT_RATIO_ICONS[ratio];
+          return (
+            <button
+              key={ratio}
+              role="radio"
+              aria-checked={selected.aspectRatio === ratio}
+              onClick={() => setSelected({ ...selected, aspectRatio: ratio })}
+              className={chip(selected.aspectRatio === ratio)}
+            >
+              <Icon className="w-3.5 h-3.5" />
+              {t(ASPECT_RATIO_LABELS[ratio])}
+              <span className="opacity-60">{ratio}</span>
+            </button>
+          );
+        })}
+        <button
+          role="switch"
+          aria-checked={selected.draft}
+          onClick={() => setSelected({ ...selected, draft: !selected.draft })}
+          className={chip(selected.draft)}
+          title={t('profile.draftTitle')}
+        >
+          <Zap className="w-3.5 h-3.5" />
+          {t('profile.draft')}
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onApply(selected)}
+          disabled={disabled || !changed}
+          className="flex items-center gap-1.5 bg-purple-600 hover:bg-purple-500 disabled:bg-zinc-800 disabled:text-zinc-500 rounded-xl px-4 py-2 text-xs font-bold text-white transition-colors"
+        >
+          <RefreshCw className="w-3.5 h-3.5" />
+          {t('profile.redraw')}
+        </button>
+        {imageProfile.draft && (
+          <button
+            onClick={() => onApply({ ...selected, draft: false })}
+            disabled={disabled}
+            className="flex items-center gap-1.5 bg-white hover:bg-zinc-200 disabled:bg-zinc-800 disabled:text-zinc-500 rounded-xl px-4 py-2 text-xs font-bold text-black transition-colors"
+          >
+            <Sparkles className="w-3.5 h-3.5" />
+            {t('profile.fullQuality')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
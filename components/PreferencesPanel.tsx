@@ -0,0 +1,424 @@
+import React, { useId, useState } from 'react';
+import { X, SlidersHorizontal, Thermometer, Wind, Gauge, Eye, Umbrella, RefreshCw, Languages, Search, AlertTriangle, CloudRain, Flame, Snowflake, CloudFog, Sun, Bell, Moon, Palette, Plus, Trash2, Proportions, Zap } from 'lucide-react';
+import { AlertKind, UnitPreferences, UserPreferences, StyleSlot } from '../types';
+import { UNIT_OPTIONS } from '../services/units';
+import { REFRESH_INTERVAL_OPTIONS } from '../services/refreshService';
+import { SEARCH_RESULT_OPTIONS } from '../services/weatherService';
+import { ALERT_KINDS, ALERT_PRESETS, formatAlertValue, thresholdSign } from '../services/alertsService';
+import { QUIET_HOURS_OPTIONS, getNotificationPermission, requestNotificationPermission } from '../services/notificationService';
+import { getStylePresets, findStylePreset, getStylePresetLabel, saveStylePreset, deleteStylePreset, DEFAULT_STYLE_PRESET } from '../services/promptTemplates';
+import { ASPECT_RATIOS } from '../services/outputProfiles';
+import { ASPECT_RATIO_LABELS } from './OutputProfilePanel';
+import { SUPPORTED_LOCALES, t, formatHour } from '../services/i18n';
+import { MessageKey } from '../locales/en';
+import { useDialogFocus } from '../services/a11y';
+
+interface PreferencesPanelProps {
+  preferences: UserPreferences;
+  onChange: (preferences: UserPreferences) => void;
+  refreshInterval: number; // Minutes
+  onRefreshIntervalChange: (minutes: number) => void;
+  onClose: () => void;
+}
+
+const UNIT_ROWS: { key: keyof UnitPreferences; label: MessageKey; icon: React.ReactNode }[] = [
+  { key: 'temperature', label: 'prefs.temperature', icon: <Thermometer className="w-3.5 h-3.5" /> },
+  { key: 'wind', label: 'prefs.wind', icon: <Wind className="w-3.5 h-3.5" /> },
+  { key: 'pressure', label: 'prefs.pressure', icon: <Gauge className="w-3.5 h-3.5" /> },
+  { key: 'distance', label: 'prefs.distance', icon: <Eye className="w-3.5 h-3.5" /> },
+  { key: 'precipitation', label: 'prefs.precipitation', icon: <Umbrella className="w-3.5 h-3.5" /> },
+];
+
+// Unit options spelled out as words; symbols like "km/h" are the same in every locale
+const UNIT_OPTION_LABELS: Partial<Record<string, MessageKey>> = {
+  kn: 'prefs.knots',
+  bft: 'prefs.beaufort',
+};
+
+const ALERT_ICONS: Record<AlertKind, React.ReactNode> = {
+  wind: <Wind className="w-3.5 h-3.5" />,
+  rain: <CloudRain className="w-3.5 h-3.5" />,
+  heat: <Flame className="w-3.5 h-3.5" />,
+  cold: <Snowflake className="w-3.5 h-3.5" />,
+  fog: <CloudFog className="w-3.5 h-3.5" />,
+  uv: <Sun className="w-3.5 h-3.5" />,
+};
+
+const STYLE_FIELDS: { slot: StyleSlot; label: MessageKey; multiline?: boolean }[] = [
+  { slot: 'landmarks', label: 'styles.landmarks' },
+  { slot: 'cameraAngle', label: 'styles.cameraAngle' },
+  { slot: 'aesthetic', label: 'styles.aesthetic', multiline: true },
+];
+
+// Segmented control shared by every row
+const Segmented = <T extends string | number>({ options, value, onSelect }: {
+  options: { value: T; label: string }[];
+  value: T;
+  onSelect: (value: T) => void;
+}) => (
+  <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-0.5 flex items-center flex-wrap gap-0.5">
+    {options.map(option => (
+      <button
+        key={option.value}
+        onClick={() => onSelect(option.value)}
+        className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${option.value === value ? 'bg-zinc-700 text-white shadow-sm' : 'text-zinc-500 hover:text-zinc-300'}`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export const PreferencesPanel: React.FC<PreferencesPanelProps> = ({ preferences, onChange, refreshInterval, onRefreshIntervalChange, onClose }) => {
+  const setUnit = <K extends keyof UnitPreferences>(key: K, value: UnitPreferences[K]) => {
+    onChange({ ...preferences, units: { ...preferences.units, [key]: value } });
+  };
+
+  // Alert rows select a preset by index; -1 switches the kind off
+  const alertPresetIndex = (kind: AlertKind) => {
+    const current = preferences.alerts[kind];
+    if (!current) return -1;
+    return ALERT_PRESETS[kind].findIndex(p => p.advisory === current.advisory && p.warning === current.warning);
+  };
+
+  const [permission, setPermission] = useState(getNotificationPermission);
+  const dialogRef = useDialogFocus<HTMLDivElement>(onClose);
+  const titleId = useId();
+
+  // Turning notifications on asks the browser for permission; stays off if the user declines
+  const setNotificationsEnabled = async (enabled: boolean) => {
+    if (enabled) {
+      const result = await requestNotificationPermission();
+      setPermission(result);
+      if (result !== 'granted') return;
+    }
+    onChange({ ...preferences, notifications: { ...preferences.notifications, enabled } });
+  };
+
+  const quietHoursIndex = () => {
+    const current = preferences.notifications.quietHours;
+    if (!current) return -1;
+    return QUIET_HOURS_OPTIONS.findIndex(q => q.start === current.start && q.end === current.end);
+  };
+
+  const setQuietHours = (index: number) => {
+    onChange({ ...preferences, notifications: { ...preferences.notifications, quietHours: index < 0 ? null : QUIET_HOURS_OPTIONS[index] } });
+  };
+
+  const [stylePresets, setStylePresets] = useState(getStylePresets);
+  const [styleDraft, setStyleDraft] = useState<{ name: string; slots: Record<StyleSlot, string> } | null>(null);
+
+  // New presets start from the selected one, so small tweaks don't mean retyping everything
+  const startStyleDraft = () => {
+    const base = findStylePreset(preferences.stylePresetId) || stylePresets[0];
+    setStyleDraft({ name: '', slots: { ...base.slots } });
+  };
+
+  const saveStyleDraft = () => {
+    if (!styleDraft?.name.trim()) return;
+    const preset = saveStylePreset(styleDraft.name, styleDraft.slots);
+    setStylePresets(getStylePresets());
+    setStyleDraft(null);
+    onChange({ ...preferences, stylePresetId: preset.id });
+  };
+
+  const removeStylePreset = (id: string) => {
+    deleteStylePreset(id);
+    setStylePresets(getStylePresets());
+    if (preferences.stylePresetId === id) onChange({ ...preferences, stylePresetId: DEFAULT_STYLE_PRESET });
+  };
+
+  const setAlertPreset = (kind: AlertKind, index: number) => {
+    onChange({ ...preferences, alerts: { ...preferences.alerts, [kind]: index < 0 ? null : ALERT_PRESETS[kind][index] } });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-300"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="bg-zinc-950/95 border border-zinc-800 rounded-3xl w-full max-w-md shadow-2xl flex flex-col max-h-[90vh] overflow-hidden ring-1 ring-white/5 outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex-shrink-0 p-6 border-b border-zinc-800/50 flex justify-between items-center bg-zinc-900/40 backdrop-blur-md">
+          <div className="flex items-center gap-4">
+            <div className="p-3 rounded-xl shadow-lg border border-white/5 bg-blue-500/10 text-blue-400">
+              <SlidersHorizontal className="w-6 h-6" />
+            </div>
+            <h2 id={titleId} className="text-xl font-bold text-white tracking-tight">{t('prefs.title')}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2.5 hover:bg-white/10 rounded-full transition-colors text-zinc-400 hover:text-white"
+            title={t('common.close')}
+            aria-label={t('common.close')}
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-8">
+          <section>
+            <h3 className="flex items-center gap-2 text-xs font-bold text-zinc-500 uppercase tracking-widest mb-4">
+              <Languages className="w-3.5 h-3.5" />
+              {t('prefs.language')}
+            </h3>
+            <div className="flex">
+              <Segmented
+                options={SUPPORTED_LOCALES.map(locale => ({ value: locale.code, label: locale.label }))}
+                value={preferences.locale}
+                onSelect={(locale) => onChange({ ...preferences, locale })}
+              />
+            </div>
+          </section>
+
+          <section>
+            <h3 className="flex items-center gap-2 text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1">
+              <Search className="w-3.5 h-3.5" />
+              {t('prefs.search')}
+            </h3>
+            <p className="text-xs text-zinc-600 mb-4">{t('prefs.searchHint')}</p>
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-sm font-semibold text-zinc-300">{t('prefs.searchResults')}</span>
+              <Segmented
+                options={SEARCH_RESULT_OPTIONS.map(count => ({ value: count, label: String(count) }))}
+                value={preferences.searchResults}
+                onSelect={(searchResults) => onChange({ ...preferences, searchResults })}
+              />
+            </div>
+          </section>
+
+          <section>
+            <h3 className="flex items-center gap-2 text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1">
+              <Palette className="w-3.5 h-3.5" />
+              {t('styles.title')}
+            </h3>
+            <p className="text-xs text-zinc-600 mb-4">{t('styles.hint')}</p>
+            <div className="space-y-1.5" role="radiogroup" aria-label={t('styles.title')}>
+              {stylePresets.map(preset => {
+                const selected = preset.id === preferences.stylePresetId;
+                return (
+                  <div
+                    key={preset.id}
+                    className={`flex items-center gap-2 rounded-xl border transition-colors ${selected ? 'bg-zinc-800 border-zinc-700' : 'border-zinc-800/60 hover:bg-zinc-900'}`}
+                  >
+                    <button
+                      role="radio"
+                      aria-checked={selected}
+                      onClick={() => onChange({ ...preferences, stylePresetId: preset.id })}
+                      className="flex-1 min-w-0 text-left px-3 py-2"
+                    >
+                      <span className={`block text-sm font-semibold ${selected ? 'text-white' : 'text-zinc-300'}`}>{getStylePresetLabel(preset.id)}</span>
+                      <span className="block text-[11px] text-zinc-500 truncate">{preset.slots.cameraAngle} · {preset.slots.aesthetic}</span>
+                    </button>
+                    {!preset.builtIn && (
+                      <button
+                        onClick={() => removeStylePreset(preset.id)}
+                        className="p-2 mr-1 rounded-full text-zinc-500 hover:text-red-400 hover:bg-white/5 transition-colors"
+                        title={t('styles.delete')}
+                        aria-label={t('styles.delete')}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {styleDraft ? (
+              <div className="mt-3 space-y-3 p-3 rounded-xl bg-zinc-900 border border-zinc-800">
+                <input
+                  value={styleDraft.name}
+                  onChange={(e) => setStyleDraft({ ...styleDraft, name: e.target.value })}
+                  placeholder={t('styles.name')}
+                  aria-label={t('styles.name')}
+                  className="w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 focus:outline-none focus:border-zinc-600"
+                  autoFocus
+                />
+                {STYLE_FIELDS.map(field => {
+                  const props = {
+                    value: styleDraft.slots[field.slot],
+                    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+                      setStyleDraft({ ...styleDraft, slots: { ...styleDraft.slots, [field.slot]: e.target.value } }),
+                    className: 'w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-xs text-zinc-200 focus:outline-none focus:border-zinc-600',
+                  };
+                  return (
+                    <label key={field.slot} className="block">
+                      <span className="block text-[10px] font-bold text-zinc-500 uppercase tracking-widest mb-1">{t(field.label)}</span>
+                      {field.multiline ? <textarea rows={4} {...props} className={`${props.className} resize-none`} /> : <input {...props} />}
+                    </label>
+                  );
+                })}
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setStyleDraft(null)} className="px-3 py-1.5 rounded-lg text-xs font-bold text-zinc-400 hover:text-white transition-colors">
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    onClick={saveStyleDraft}
+                    disabled={!styleDraft.name.trim()}
+                    className="px-3 py-1.5 rounded-lg bg-white hover:bg-zinc-200 disabled:bg-zinc-800 disabled:text-zinc-500 text-xs font-bold text-black transition-colors"
+                  >
+                    {t('styles.save')}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={startStyleDraft}
+                className="mt-3 flex items-center gap-1.5 text-xs font-bold text-zinc-400 hover:text-white transition-colors"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                {t('styles.new')}
+              </button>
+            )}
+          </section>
+
+          <section>
+            <h3 className="flex items-center gap-2 text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1">
+              <Proportions className="w-3.5 h-3.5" />
+              {t('profile.title')}
+            </h3>
+            <p className="text-xs text-zinc-600 mb-4">{t('profile.prefsHint')}</p>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-sm font-semibold text-zinc-300">{t('profile.shape')}</span>
+                <Segmented
+                  options={ASPECT_RATIOS.map(ratio => ({ value: ratio, label: t(ASPECT_RATIO_LABELS[ratio]) }))}
+                  value={preferences.outputProfile.aspectRatio}
+                  onSelect={(aspectRatio) => onChange({ ...preferences, outputProfile: { ...preferences.outputProfile, aspectRatio } })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <span className="flex items-center gap-2 text-sm font-semibold text-zinc-300">
+                  <Zap className="w-3.5 h-3.5 text-zinc-500" />
+                  {t('profile.draft')}
+                </span>
+                <Segmented
+                  options={[{ value: 'off', label: t('prefs.off') }, { value: 'on', label: t('prefs.on') }]}
+                  value={preferences.outputProfile.draft ? 'on' : 'off'}
+                  onSelect={(value) => onChange({ ...preferences, outputProfile: { ...preferences.outputProfile, draft: value === 'on' } })}
+                />
+              </div>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-4">{t('prefs.units')}</h3>
+            <div className="space-y-4">
+              {UNIT_ROWS.map(row => (
+                <div key={row.key} className="flex items-center justify-between gap-4">
+                  <span className="flex items-center gap-2 text-sm font-semibold text-zinc-300">
+                    <span className="text-zinc-500">{row.icon}</span>
+                    {t(row.label)}
+                  </span>
+                  <Segmented
+                    options={(UNIT_OPTIONS[row.key] as { value: string; label: string }[]).map(option => {
+                      const key = UNIT_OPTION_LABELS[option.value];
+                      return key ? { ...option, label: t(key) } : option;
+                    })}
+                    value={preferences.units[row.key]}
+                    onSelect={(value) => setUnit(row.key, value as UnitPreferences[typeof row.key])}
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="flex items-center gap-2 text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              {t('prefs.alerts')}
+            </h3>
+            <p className="text-xs text-zinc-600 mb-4">{t('prefs.alertsHint')}</p>
+            <div className="space-y-4">
+              {ALERT_KINDS.map(kind => (
+                <div key={kind} className="flex items-center justify-between gap-4">
+                  <span className="flex items-center gap-2 text-sm font-semibold text-zinc-300">
+                    <span className="text-zinc-500">{ALERT_ICONS[kind]}</span>
+                    {t(`alerts.kind.${kind}`)}
+                  </span>
+                  <Segmented
+                    options={[
+                      { value: -1, label: t('prefs.off') },
+                      ...ALERT_PRESETS[kind].map((preset, index) => ({
+                        value: index,
+                        label: `${thresholdSign(kind)} ${formatAlertValue(kind, preset.advisory, preferences.units)}`,
+                      })),
+                    ]}
+                    value={alertPresetIndex(kind)}
+                    onSelect={(index) => setAlertPreset(kind, index)}
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="flex items-center gap-2 text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1">
+              <Bell className="w-3.5 h-3.5" />
+              {t('prefs.notifications')}
+            </h3>
+            <p className="text-xs text-zinc-600 mb-4">{t('prefs.notificationsHint')}</p>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <span className="flex items-center gap-2 text-sm font-semibold text-zinc-300">
+                  <Bell className="w-3.5 h-3.5 text-zinc-500" />
+                  {t('prefs.notificationsEnabled')}
+                </span>
+                <Segmented
+                  options={[{ value: 'off', label: t('prefs.off') }, { value: 'on', label: t('prefs.on') }]}
+                  value={preferences.notifications.enabled ? 'on' : 'off'}
+                  onSelect={(value) => setNotificationsEnabled(value === 'on')}
+                />
+              </div>
+              {(permission === 'denied' || permission === 'unsupported') && (
+                <p className="text-xs text-amber-300/80">
+                  {t(permission === 'denied' ? 'prefs.notificationsBlocked' : 'prefs.notificationsUnsupported')}
+                </p>
+              )}
+              <div className="flex items-center justify-between gap-4">
+                <span className="flex items-center gap-2 text-sm font-semibold text-zinc-300">
+                  <Moon className="w-3.5 h-3.5 text-zinc-500" />
+                  {t('prefs.quietHours')}
+                </span>
+                <Segmented
+                  options={[
+                    { value: -1, label: t('prefs.off') },
+                    ...QUIET_HOURS_OPTIONS.map((quiet, index) => ({
+                      value: index,
+                      label: `${formatHour(new Date(2000, 0, 1, quiet.start))}–${formatHour(new Date(2000, 0, 1, quiet.end))}`,
+                    })),
+                  ]}
+                  value={quietHoursIndex()}
+                  onSelect={setQuietHours}
+                />
+              </div>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-4">{t('prefs.backgroundRefresh')}</h3>
+            <div className="flex items-center justify-between gap-4">
+              <span className="flex items-center gap-2 text-sm font-semibold text-zinc-300">
+                <RefreshCw className="w-3.5 h-3.5 text-zinc-500" />
+                {t('prefs.refreshEvery')}
+              </span>
+              <Segmented
+                options={REFRESH_INTERVAL_OPTIONS.map(min => ({ value: min, label: min < 60 ? `${min}m` : `${min / 60}h` }))}
+                value={refreshInterval}
+                onSelect={onRefreshIntervalChange}
+              />
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,59 @@
-
 import React, { useState, KeyboardEvent, useEffect, useRef } from 'react';
-import { Search, MapPin, Loader2 } from 'lucide-react';
+import { Search, MapPin, Loader2, AlertCircle, LocateFixed, ChevronLeft, ChevronRight, Star, History, X } from 'lucide-react';
 import { LocationData } from '../types';
 import { searchCities } from '../services/weatherService';
+import { describeWeatherError, NoResultsError } from '../services/weatherErrors';
+import {
+  getRecentSearches, getFavoritePlaces, recordSearch, removeRecentSearch, toggleFavorite, filterPlaces
+} from '../services/searchHistoryService';
+import { t } from '../services/i18n';
+import { MessageKey } from '../locales/en';
 
 interface SearchInputProps {
   onSearch: (location: LocationData) => void;
+  onUseLocation?: () => void; // Creates the pinned "My Location" card
+  maxResults?: number; // Matches fetched per name search (user preference)
   disabled?: boolean;
   minimized?: boolean;
 }
 
-export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, disabled, minimized }) => {
+// Suggestions shown at once; the rest are reached with the pager or the arrow keys
+const PAGE_SIZE = 5;
+
+// Favorites/recents matching the typed text, shown above the live results
+const HISTORY_MATCH_LIMIT = 5;
+
+type OptionSource = 'favorite' | 'recent' | 'result';
+
+interface SearchOption {
+  location: LocationData;
+  source: OptionSource;
+}
+
+const SECTION_LABELS: Record<OptionSource, MessageKey> = {
+  favorite: 'search.favorites',
+  recent: 'search.recent',
+  result: 'search.results',
+};
+
+export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, onUseLocation, maxResults, disabled, minimized }) => {
   const [value, setValue] = useState('');
   const [suggestions, setSuggestions] = useState<LocationData[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [recent, setRecent] = useState(getRecentSearches);
+  const [favorites, setFavorites] = useState(getFavoritePlaces);
+  const [page, setPage] = useState(0); // Page of live results
+  // Index into the options currently shown; null until the user moves it, which means the first
+  // live result (what Enter should pick for the typed text), or the top history match without one
+  const [highlighted, setHighlighted] = useState<number | null>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
-  
+
   // Ref to prevent search trigger when selecting an item
   const preventSearch = useRef(false);
+  // Text of the latest search; responses for anything older are ignored (geocoding can't be aborted)
+  const latestQuery = useRef('');
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -31,26 +66,66 @@ export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, disabled, mi
   }, []);
 
   useEffect(() => {
+    const query = value.trim();
+    latestQuery.current = query;
     const timeoutId = setTimeout(async () => {
       if (preventSearch.current) {
         preventSearch.current = false;
+        setLoading(false); // A search still in flight for the typed text no longer counts
         return;
       }
-      
-      if (value.length > 2) {
+
+      if (query.length >= 2) {
         setLoading(true);
-        const results = await searchCities(value);
-        setSuggestions(results);
-        setLoading(false);
-        setShowSuggestions(true);
+        try {
+          const results = await searchCities(query, maxResults);
+          if (latestQuery.current !== query) return;
+          setSuggestions(results);
+          setPage(0);
+          setHighlighted(null);
+          setSearchError(null);
+        } catch (error) {
+          if (latestQuery.current !== query) return;
+          setSuggestions([]);
+          // "No results" is expected while typing; keep it short
+          setSearchError(error instanceof NoResultsError ? t('search.noResults', { query }) : describeWeatherError(error));
+        } finally {
+          if (latestQuery.current === query) {
+            setLoading(false);
+            setShowSuggestions(true);
+          }
+        }
       } else {
+        // Too short to search; the panel keeps showing favorites and recents
+        setLoading(false);
         setSuggestions([]);
-        setShowSuggestions(false);
+        setSearchError(null);
+        setHighlighted(null);
       }
     }, 400);
 
     return () => clearTimeout(timeoutId);
-  }, [value]);
+  }, [value, maxResults]);
+
+  // --- Options ---
+  // Empty input: all favorites, then recents. While typing: the best fuzzy matches among
+  // them, then the current page of live results (minus places already listed above).
+  const query = value.trim();
+  const favoriteIds = new Set(favorites.map(p => p.location.id));
+  const history = [...favorites, ...recent.filter(p => !favoriteIds.has(p.location.id))];
+  const historyOptions: SearchOption[] = (query ? filterPlaces(history, query).slice(0, HISTORY_MATCH_LIMIT) : history)
+    .map(p => ({ location: p.location, source: favoriteIds.has(p.location.id) ? 'favorite' : 'recent' }));
+
+  const historyIds = new Set(historyOptions.map(o => o.location.id));
+  const results = query ? suggestions.filter(loc => !historyIds.has(loc.id)) : [];
+  const pageCount = Math.ceil(results.length / PAGE_SIZE);
+  const pageStart = page * PAGE_SIZE;
+  const pageResults = results.slice(pageStart, pageStart + PAGE_SIZE);
+  const options: SearchOption[] = [...historyOptions, ...pageResults.map(location => ({ location, source: 'result' as const }))];
+  const active = highlighted === null
+    ? (pageResults.length > 0 ? historyOptions.length : Math.min(0, options.length - 1))
+    : Math.min(highlighted, options.length - 1);
+  const listOpen = showSuggestions && options.length > 0 && !minimized;
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setValue(e.target.value);
@@ -61,30 +136,68 @@ export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, disabled, mi
     setValue(`${loc.name}${loc.country ? `, ${loc.country}` : ''}`);
     onSearch(loc);
     setShowSuggestions(false);
-    // Note: We don't clear suggestions here so that if the user clicks again, 
+    const saved = recordSearch(loc);
+    setRecent(saved.recent);
+    setFavorites(saved.favorites);
+    // Note: We don't clear suggestions here so that if the user clicks again,
     // the previous relevant suggestions are still available (until they type).
   };
 
-  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      if (suggestions.length > 0) {
-        handleSelect(suggestions[0]);
-      }
-    }
+  const handleToggleFavorite = (loc: LocationData) => {
+    setFavorites(toggleFavorite(loc));
   };
 
-  const handleInputClick = () => {
-      if (suggestions.length > 0) {
-          setShowSuggestions(true);
-      }
+  const handleRemoveRecent = (loc: LocationData) => {
+    setRecent(removeRecentSearch(loc.id));
+  };
+
+  // Results pages sit below the history options, which stay in place while paging
+  const goToPage = (nextPage: number, highlight: 'first' | 'last' = 'first') => {
+    if (nextPage < 0 || nextPage >= pageCount) return;
+    const count = Math.min(PAGE_SIZE, results.length - nextPage * PAGE_SIZE);
+    setPage(nextPage);
+    setHighlighted(historyOptions.length + (highlight === 'first' ? 0 : count - 1));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (options.length === 0) return;
+    switch (e.key) {
+      case 'Enter':
+        handleSelect(options[Math.max(active, 0)].location);
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        // First press only reopens the list
+        if (!showSuggestions) setShowSuggestions(true);
+        else if (active < options.length - 1) setHighlighted(active + 1);
+        else goToPage(page + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setShowSuggestions(true);
+        if (active === historyOptions.length && page > 0) goToPage(page - 1, 'last');
+        else setHighlighted(Math.max(active - 1, 0));
+        break;
+      case 'PageDown':
+        e.preventDefault();
+        goToPage(page + 1);
+        break;
+      case 'PageUp':
+        e.preventDefault();
+        goToPage(page - 1);
+        break;
+      case 'Escape':
+        setShowSuggestions(false);
+        break;
+    }
   };
 
   return (
-    <div 
+    <div
       ref={wrapperRef}
       className={`relative mx-auto z-50 transition-all duration-500 ease-spring transform-gpu ${
-        minimized 
-          ? 'w-12 hover:w-full max-w-sm' 
+        minimized
+          ? 'w-12 hover:w-full max-w-sm'
           : 'w-full max-w-md'
       }`}
     >
@@ -99,41 +212,134 @@ export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, disabled, mi
         <input
           type="text"
           className={`block w-full py-3 bg-zinc-900/90 backdrop-blur-md border border-zinc-700/50 rounded-full text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-transparent shadow-lg transition-all duration-300
-            ${minimized 
-              ? 'pl-10 pr-0 opacity-0 group-hover:opacity-100 cursor-pointer group-hover:pl-10 group-hover:pr-4 group-hover:cursor-text bg-zinc-800/60 hover:bg-zinc-900/90 shadow-sm' 
-              : 'pl-11 pr-4'
+            ${minimized
+              ? 'pl-10 pr-0 opacity-0 group-hover:opacity-100 cursor-pointer group-hover:pl-10 group-hover:pr-4 group-hover:cursor-text bg-zinc-800/60 hover:bg-zinc-900/90 shadow-sm'
+              : `pl-11 ${onUseLocation ? 'pr-12' : 'pr-4'}`
             }
           `}
-          placeholder={minimized ? "" : "Search city..."}
+          placeholder={minimized ? "" : t('search.placeholder')}
           value={value}
           onChange={handleChange}
           onKeyDown={handleKeyDown}
-          onClick={handleInputClick}
-          onFocus={() => { if(suggestions.length > 0) setShowSuggestions(true); }}
+          onClick={() => setShowSuggestions(true)}
+          role="combobox"
+          aria-expanded={listOpen}
+          aria-controls="search-suggestions"
+          aria-autocomplete="list"
+          aria-activedescendant={listOpen && active >= 0 ? `search-option-${active}` : undefined}
+          onFocus={() => setShowSuggestions(true)}
           disabled={disabled}
         />
+        {onUseLocation && !minimized && (
+          <button
+            onClick={() => { setShowSuggestions(false); onUseLocation(); }}
+            disabled={disabled}
+            className="absolute inset-y-0 right-0 pr-4 pl-2 flex items-center text-zinc-500 hover:text-blue-400 disabled:opacity-50 disabled:hover:text-zinc-500 transition-colors"
+            title={t('search.useMyLocation')}
+            aria-label={t('search.useMyLocation')}
+          >
+            <LocateFixed className="w-5 h-5" />
+          </button>
+        )}
       </div>
 
-      {showSuggestions && suggestions.length > 0 && !minimized && (
+      {showSuggestions && searchError && options.length === 0 && !minimized && (
+        <div className="absolute top-full left-0 right-0 mt-2 bg-zinc-900/95 backdrop-blur-xl rounded-2xl shadow-xl border border-zinc-800 px-4 py-3 flex items-start gap-2 text-sm text-zinc-400 animate-in fade-in slide-in-from-top-2 duration-200">
+          <AlertCircle className="w-4 h-4 text-amber-400 shrink-0 mt-0.5" />
+          <span>{searchError}</span>
+        </div>
+      )}
+
+      {listOpen && (
         <div className="absolute top-full left-0 right-0 mt-2 bg-zinc-900/95 backdrop-blur-xl rounded-2xl shadow-xl border border-zinc-800 overflow-hidden animate-in fade-in slide-in-from-top-2 duration-200">
-          <ul>
-            {suggestions.map((loc) => (
-              <li key={loc.id}>
-                <button
-                  className="w-full text-left px-4 py-3 hover:bg-white/5 transition-colors flex items-center gap-2 text-zinc-300"
-                  onClick={() => handleSelect(loc)}
-                >
-                  <MapPin className="w-4 h-4 text-zinc-500 shrink-0" />
-                  <div className="flex flex-col">
-                    <span className="font-medium text-sm text-zinc-200">{loc.name}</span>
-                    <span className="text-xs text-zinc-500">
-                      {[loc.admin1, loc.country].filter(Boolean).join(', ')}
-                    </span>
-                  </div>
-                </button>
-              </li>
-            ))}
+          <ul id="search-suggestions" role="listbox" className="max-h-[60vh] overflow-y-auto">
+            {options.map(({ location: loc, source }, index) => {
+              const isFavorite = favoriteIds.has(loc.id);
+              // Section header whenever the source changes (results only get one below history)
+              const showHeader = (index === 0 && source !== 'result') || (index > 0 && options[index - 1].source !== source);
+              return (
+                <React.Fragment key={`${source}-${loc.id}`}>
+                  {showHeader && (
+                    <li role="presentation" className="px-4 pt-3 pb-1 text-[10px] font-bold text-zinc-500 uppercase tracking-widest">
+                      {t(SECTION_LABELS[source])}
+                    </li>
+                  )}
+                  <li
+                    id={`search-option-${index}`}
+                    role="option"
+                    aria-selected={index === active}
+                    className={`flex items-center transition-colors ${index === active ? 'bg-white/10' : 'hover:bg-white/5'}`}
+                    onMouseEnter={() => setHighlighted(index)}
+                  >
+                    <button
+                      tabIndex={-1}
+                      className="flex-1 min-w-0 text-left pl-4 py-3 flex items-center gap-2 text-zinc-300"
+                      onClick={() => handleSelect(loc)}
+                    >
+                      {source === 'favorite' ? (
+                        <Star className="w-4 h-4 text-amber-400 fill-amber-400 shrink-0" />
+                      ) : source === 'recent' ? (
+                        <History className="w-4 h-4 text-zinc-500 shrink-0" />
+                      ) : (
+                        <MapPin className="w-4 h-4 text-zinc-500 shrink-0" />
+                      )}
+                      <div className="flex flex-col min-w-0">
+                        <span className="font-medium text-sm text-zinc-200 truncate">{loc.name}</span>
+                        <span className="text-xs text-zinc-500 truncate">
+                          {[loc.admin1, loc.country].filter(Boolean).join(', ')}
+                        </span>
+                      </div>
+                    </button>
+                    <div className="flex items-center pr-2 shrink-0">
+                      <button
+                        tabIndex={-1}
+                        onClick={() => handleToggleFavorite(loc)}
+                        className={`p-2 rounded-lg hover:bg-white/10 transition-colors ${isFavorite ? 'text-amber-400' : 'text-zinc-600 hover:text-amber-300'}`}
+                        title={t(isFavorite ? 'search.unfavorite' : 'search.favorite')}
+                        aria-label={t(isFavorite ? 'search.unfavorite' : 'search.favorite')}
+                      >
+                        <Star className={`w-4 h-4 ${isFavorite ? 'fill-amber-400' : ''}`} />
+                      </button>
+                      {source === 'recent' && (
+                        <button
+                          tabIndex={-1}
+                          onClick={() => handleRemoveRecent(loc)}
+                          className="p-2 rounded-lg text-zinc-600 hover:text-white hover:bg-white/10 transition-colors"
+                          title={t('search.removeRecent')}
+                          aria-label={t('search.removeRecent')}
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                </React.Fragment>
+              );
+            })}
           </ul>
+          {pageCount > 1 && (
+            <div className="flex items-center justify-between px-2 py-1.5 border-t border-zinc-800 text-xs text-zinc-500">
+              <button
+                onClick={() => goToPage(page - 1)}
+                disabled={page === 0}
+                className="p-1.5 rounded-lg hover:bg-white/5 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                aria-label={t('search.previousPage')}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span>
+                {t('search.pageRange', { from: pageStart + 1, to: pageStart + pageResults.length, total: results.length })}
+              </span>
+              <button
+                onClick={() => goToPage(page + 1)}
+                disabled={page >= pageCount - 1}
+                className="p-1.5 rounded-lg hover:bg-white/5 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                aria-label={t('search.nextPage')}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Film, Play, Loader2, RefreshCw, X } from 'lucide-react';
+import { WeatherData, GeneratedImage, TimelapseProgress } from '../types';
+import { pickTimelapseKeyframes } from '../services/timelapseService';
+import { t, formatHour } from '../services/i18n';
+
+interface TimelapsePanelProps {
+  weather: WeatherData;
+  frames: GeneratedImage[];
+  progress?: TimelapseProgress | null; // Set while the frames are being drawn
+  disabled?: boolean;
+  onGenerate: () => void;
+  onCancel?: () => void;
+  onPlay: () => void;
+}
+
+// Expanded-card panel: which hours the timelapse covers, the frames drawn so far and the entry
+// point to the player
+export const TimelapsePanel: React.FC<TimelapsePanelProps> = ({ weather, frames, progress, disabled, onGenerate, onCancel, onPlay }) => {
+  const keyframes = pickTimelapseKeyframes(weather);
+  if (keyframes.length < 2) return null;
+
+  return (
+    <div className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5" onClick={(e) => e.stopPropagation()}>
+      <h3 className="flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-widest mb-1">
+        <Film className="w-3.5 h-3.5" />
+        {t('timelapse.title')}
+      </h3>
+      <p className="text-xs text-zinc-500 mb-4">{t('timelapse.hint')}</p>
+
+      <div className="flex flex-wrap gap-1.5 mb-4">
+        {keyframes.map(keyframe => (
+          <span key={keyframe.moment.time} className="px-2 py-1 rounded-lg bg-zinc-800/80 text-[10px] font-bold text-zinc-300">
+            {formatHour(keyframe.moment.time)}
+            <span className="text-zinc-500"> · {keyframe.reasons.map(reason => t(`timelapse.reason.${reason}`)).join(', ')}</span>
+          </span>
+        ))}
+      </div>
+
+      {frames.length > 0 && (
+        <button onClick={onPlay} className="flex gap-1 mb-4 overflow-x-auto scrollbar-hide w-full" aria-label={t('timelapse.play')}>
+          {frames.map(frame => (
+            <img key={frame.moment?.time || frame.generatedAt} src={frame.url} alt="" className="w-10 h-[4.5rem] shrink-0 object-cover rounded-lg border border-white/10" />
+          ))}
+        </button>
+      )}
+
+      {progress ? (
+        <div className="flex items-center gap-2 text-xs font-bold text-purple-300">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          <span className="flex-1">{t('timelapse.progress', { done: Math.min(progress.done + 1, progress.total), total: progress.total })}</span>
+          {onCancel && (
+            <button onClick={onCancel} className="p-1.5 rounded-full text-zinc-400 hover:text-white hover:bg-white/10 transition-colors" aria-label={t('common.cancel')}>
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          {frames.length > 0 && (
+            <button
+              onClick={onPlay}
+              className="flex items-center gap-1.5 bg-white hover:bg-zinc-200 rounded-xl px-4 py-2 text-xs font-bold text-black transition-colors"
+            >
+              <Play className="w-3.5 h-3.5" />
+              {t('timelapse.play')}
+            </button>
+          )}
+          <button
+            onClick={onGenerate}
+            disabled={disabled}
+            className="flex items-center gap-1.5 bg-purple-600 hover:bg-purple-500 disabled:bg-zinc-800 disabled:text-zinc-500 rounded-xl px-4 py-2 text-xs font-bold text-white transition-colors"
+          >
+            {frames.length > 0 ? <RefreshCw className="w-3.5 h-3.5" /> : <Film className="w-3.5 h-3.5" />}
+            {t(frames.length > 0 ? 'timelapse.regenerate' : 'timelapse.generate')}
+          </button>
+          {frames.length > 0 && (
+            <span className="ml-auto text-[10px] font-bold text-zinc-500">{t('timelapse.frames', { count: frames.length })}</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
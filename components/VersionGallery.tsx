@@ -0,0 +1,169 @@
+import React, { useId, useState } from 'react';
+import { X, GalleryVerticalEnd, GitBranch, Columns2, Star, ArrowLeft, Check } from 'lucide-react';
+import { ImageHistory, ImageVersion } from '../types';
+import { flattenHistory, findVersion } from '../services/imageHistory';
+import { getStylePresetLabel } from '../services/promptTemplates';
+import { getImageProfile, toCssAspectRatio } from '../services/outputProfiles';
+import { t, formatDateTime } from '../services/i18n';
+import { useDialogFocus } from '../services/a11y';
+
+interface VersionGalleryProps {
+  history: ImageHistory;
+  currentId?: string | null; // Version open in the editor
+  onClose: () => void;
+  onSetCover: (id: string) => void;
+  onBranch: (id: string) => void; // Continue editing from this version
+}
+
+// Renders are labelled as such; edits show the instructions that produced them
+const describeVersion = (version: ImageVersion) =>
+  version.kind === 'edit' ? `"${version.image.prompt}"` : t('versions.render');
+
+// When and how a version was drawn: date, style preset and scene template version
+const describeOrigin = ({ image }: ImageVersion) => {
+  const style = image.template?.style;
+  if (!style) return formatDateTime(image.generatedAt);
+  const preset = getStylePresetLabel(style.presetId);
+  return [formatDateTime(image.generatedAt), preset, t('styles.template', { version: style.version })].filter(Boolean).join(' · ');
+};
+
+// Gallery over a card's edit history: the version tree, side-by-side comparison of two versions,
+// and picking the cover shown on the card
+export const VersionGallery: React.FC<VersionGalleryProps> = ({ history, currentId, onClose, onSetCover, onBranch }) => {
+  const [selected, setSelected] = useState<string[]>(currentId ? [currentId] : []);
+  const [comparing, setComparing] = useState(false);
+  const dialogRef = useDialogFocus<HTMLDivElement>(onClose);
+  const titleId = useId();
+  const rows = flattenHistory(history);
+  const compared = selected.map(id => findVersion(history, id)).filter((v): v is ImageVersion => !!v);
+
+  // Up to two versions; picking a third replaces the older pick
+  const toggle = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2));
+  };
+
+  const coverButton = (id: string) => (
+    <button
+      onClick={() => onSetCover(id)}
+      disabled={id === history.coverId}
+      className="flex items-center gap-1.5 bg-white hover:bg-zinc-200 disabled:bg-zinc-800 disabled:text-zinc-500 rounded-xl px-4 py-2 text-xs font-bold text-black transition-colors"
+    >
+      <Star className="w-3.5 h-3.5" />
+      {t(id === history.coverId ? 'versions.cover' : 'versions.useAsCover')}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-300" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className={`bg-zinc-900 border border-zinc-800 rounded-3xl overflow-hidden w-full shadow-2xl animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh] outline-none ${comparing ? 'max-w-3xl' : 'max-w-md'}`}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-zinc-800 flex justify-between items-center bg-zinc-950">
+          <div className="flex items-center gap-2 text-zinc-300">
+            {comparing ? (
+              <button onClick={() => setComparing(false)} className="p-1 -ml-1 hover:bg-zinc-800 rounded-full transition-colors" aria-label={t('common.back')}>
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+            ) : (
+              <GalleryVerticalEnd className="w-5 h-5 text-purple-400" />
+            )}
+            <span id={titleId} className="font-black text-sm tracking-widest uppercase">{t(comparing ? 'versions.compare' : 'versions.title')}</span>
+            {!comparing && <span className="text-xs text-zinc-500 font-medium">{t('versions.count', { count: history.versions.length })}</span>}
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-full transition-colors" aria-label={t('common.close')}>
+            <X className="w-5 h-5 text-zinc-400" />
+          </button>
+        </div>
+
+        {comparing && compared.length === 2 ? (
+          <div className="overflow-y-auto p-5 grid grid-cols-2 gap-4">
+            {compared.map(version => (
+              <div key={version.id} className="flex flex-col gap-3 min-w-0">
+                <img
+                  src={version.image.url}
+                  alt={describeVersion(version)}
+                  className="w-full object-cover rounded-2xl border border-white/10 bg-black"
+                  style={{ aspectRatio: toCssAspectRatio(getImageProfile(version.image).aspectRatio) }}
+                />
+                <div className="min-w-0">
+                  <p className="text-xs font-bold text-zinc-200 line-clamp-2">{describeVersion(version)}</p>
+                  <p className="text-[10px] text-zinc-500 mt-0.5">{describeOrigin(version)}</p>
+                </div>
+                {coverButton(version.id)}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <>
+            <p className="px-5 pt-4 text-xs text-zinc-500">{t('versions.hint')}</p>
+            <ul className="overflow-y-auto p-3 space-y-1 scrollbar-hide" role="listbox" aria-multiselectable="true" aria-label={t('versions.title')}>
+              {rows.map(({ version, depth }) => {
+                const isSelected = selected.includes(version.id);
+                return (
+                  <li key={version.id} role="option" aria-selected={isSelected}>
+                    <button
+                      onClick={() => toggle(version.id)}
+                      className={`w-full flex items-center gap-3 p-2 rounded-2xl text-left transition-colors ${isSelected ? 'bg-purple-500/15 ring-1 ring-purple-500/40' : 'hover:bg-zinc-800/60'}`}
+                      style={{ paddingLeft: `${0.5 + depth * 1.25}rem` }}
+                    >
+                      {depth > 0 && <GitBranch className="w-3.5 h-3.5 text-zinc-600 shrink-0" />}
+                      <img src={version.image.url} alt="" className="w-10 h-[4.5rem] shrink-0 object-cover rounded-lg border border-white/10 bg-black" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-xs font-bold text-zinc-200 line-clamp-2">{describeVersion(version)}</p>
+                        <p className="text-[10px] text-zinc-500 mt-0.5">{describeOrigin(version)}</p>
+                        <div className="flex gap-1 mt-1">
+                          {version.id === history.coverId && (
+                            <span className="px-1.5 py-0.5 rounded bg-white/10 text-[9px] font-bold uppercase text-white">{t('versions.cover')}</span>
+                          )}
+                          {version.image.mask && (
+                            <span className="px-1.5 py-0.5 rounded bg-zinc-800 text-[9px] font-bold uppercase text-zinc-300">{t('versions.masked')}</span>
+                          )}
+                          {version.id === currentId && (
+                            <span className="px-1.5 py-0.5 rounded bg-purple-500/20 text-[9px] font-bold uppercase text-purple-300">{t('versions.editing')}</span>
+                          )}
+                        </div>
+                      </div>
+                      {isSelected && <Check className="w-4 h-4 text-purple-400 shrink-0" />}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {compared.length > 0 && (
+              <div className="p-4 border-t border-zinc-800 flex flex-wrap items-center gap-2 bg-zinc-950">
+                {compared.length === 1 && (
+                  <>
+                    {coverButton(compared[0].id)}
+                    <button
+                      onClick={() => onBranch(compared[0].id)}
+                      className="flex items-center gap-1.5 bg-purple-600 hover:bg-purple-500 rounded-xl px-4 py-2 text-xs font-bold text-white transition-colors"
+                    >
+                      <GitBranch className="w-3.5 h-3.5" />
+                      {t('versions.branch')}
+                    </button>
+                  </>
+                )}
+                {compared.length === 2 && (
+                  <button
+                    onClick={() => setComparing(true)}
+                    className="flex items-center gap-1.5 bg-purple-600 hover:bg-purple-500 rounded-xl px-4 py-2 text-xs font-bold text-white transition-colors"
+                  >
+                    <Columns2 className="w-3.5 h-3.5" />
+                    {t('versions.compare')}
+                  </button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,59 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { WeatherData, GeneratedImage, HourlyForecast, NewsItem, ViewConfig, DailyForecast } from '../types';
+import React, { useState, useEffect, useRef, useId } from 'react';
+import { WeatherData, GeneratedImage, HourlyForecast, NewsItem, ViewConfig, DailyForecast, GenerationProgress, UnitPreferences, WeatherAlert, AlertKind, NotificationRule, SceneMoment, TimelapseProgress, ImageHistory, OutputProfile, SceneAspectRatio } from '../types';
 import { 
     RefreshCw, Wind, Droplets, Thermometer, ArrowDown, CloudRain, Sun, Activity, 
     Cloud, CloudLightning, CloudSnow, CloudFog, Eye, Gauge, 
     Sunrise, Sunset, Umbrella, X, Download, Sparkles, ArrowLeft, ArrowRight, Plus,
-    Info, TrendingUp, CloudDrizzle, Calendar, Navigation, Globe, Brain, Zap, FlaskConical, Newspaper, Wand2, Loader2, Check, ChevronLeft, ChevronRight
+    Info, TrendingUp, CloudDrizzle, Calendar, Navigation, Globe, Brain, Zap, FlaskConical, Newspaper, Wand2, Loader2, Check, ChevronLeft, ChevronRight, WifiOff, Clock, SlidersHorizontal, Flame, Snowflake, CalendarClock, Play, Pause, Film, Video, GalleryVerticalEnd, Brush, Lasso, Eraser
 } from 'lucide-react';
 import { AreaChart, BarChart, SunCycle } from './DetailCharts';
+import { NotificationRules } from './NotificationRules';
+import { HistoricalDatePicker } from './HistoricalDatePicker';
+import { TimelapsePanel } from './TimelapsePanel';
+import { VersionGallery } from './VersionGallery';
+import { OutputProfilePanel } from './OutputProfilePanel';
 import { editWeatherScene } from '../services/geminiService';
-import { mapWmoCode } from '../services/weatherService';
+import { isAbortError } from '../services/generationQueue';
+import { getConditionLabel } from '../services/weatherService';
+import { isWeatherStale } from '../services/offlineService';
+import { formatAlertValue } from '../services/alertsService';
+import { momentKey, formatMoment, getMomentConditions } from '../services/forecastScenes';
+import { getImageHistory, findVersion, getChildren, addVersion } from '../services/imageHistory';
+import { getImageProfile, getAspectValue, toCssAspectRatio, DEFAULT_OUTPUT_PROFILE } from '../services/outputProfiles';
+import { MaskTool, MASK_WIDTH, MASK_COLOR, isMaskEmpty, exportMask } from '../services/maskService';
+import { TIMELAPSE_FRAME_MS, canExportWebp, getVideoMimeType, exportAnimatedWebp, exportVideo } from '../services/timelapseExport';
+import {
+    DEFAULT_UNITS, unitLabel, convertTemperature, convertWind, convertPressure, convertDistance, convertPrecipitation,
+    formatTemperature, formatWind, formatPressure, formatDistance, formatPrecipitation
+} from '../services/units';
+import { t, formatHour, formatWeekday, formatFullDate, formatShortDate, formatLongDate, formatClockTime, formatDateTime, formatTimeOfDay } from '../services/i18n';
+import { useDialogFocus, onActivateKey } from '../services/a11y';
 
 interface WeatherCardProps {
   weather: WeatherData;
   image: GeneratedImage;
   loading?: boolean;
+  isOffline?: boolean;
+  units?: UnitPreferences; // Global display units from preferences
+  refreshQueued?: boolean; // A refresh was requested offline and will run when back online
+  alerts?: WeatherAlert[]; // Active alerts derived from the forecast and the user's thresholds
+  notificationRules?: NotificationRule[];
+  isPinned?: boolean; // "My Location" card that follows the device
+  notificationsEnabled?: boolean;
+  onUpdateNotificationRules?: (rules: NotificationRule[]) => void; // Only set for saved cards
+  onShowDate?: (date: string | null) => void; // Opens this place on a past day (null: live forecast)
+  variants?: GeneratedImage[]; // Forecast scenes ("tomorrow 3 PM") next to the "now" image
+  onGenerateScene?: (moment: SceneMoment) => void; // Draws a forecast scene for an hour/day
+  onUpdateVariants?: (variants: GeneratedImage[]) => void;
+  timelapse?: GeneratedImage[]; // Frames across the next 24 hours
+  timelapseProgress?: TimelapseProgress | null; // Set while this card's timelapse is being drawn
+  onGenerateTimelapse?: () => void;
+  onCancelTimelapse?: () => void;
+  imageHistory?: ImageHistory; // Versions of the "now" scene; the editor records every edit here
+  onUpdateHistory?: (update: (history: ImageHistory) => ImageHistory) => void; // Changing coverId changes the card's image
+  profile?: OutputProfile; // Format the card draws new scenes in
+  onChangeProfile?: (profile: OutputProfile) => void; // Redraws the scene in another format
   onScroll?: (isScrolled: boolean) => void;
   onUpdateImage?: (newImage: GeneratedImage) => void;
   onRefresh?: () => void;
@@ -25,15 +64,71 @@ interface WeatherCardProps {
   onSave?: () => void;
   onDrag?: (offset: number) => void;
   onUpdateView?: (viewConfig: ViewConfig) => void;
+  onOpenPreferences?: () => void;
+  detailMetric?: string | null; // Metric whose detail is open, e.g. "Humidity"; set to follow the URL
+  onDetailChange?: (metric: string | null) => void; // A metric detail was opened or closed here
 }
 
-// Internal Component for Pan/Zoom Image Viewing with Multi-Touch Support
+// Expanded image size per scene shape
+const EXPANDED_FRAME: Record<SceneAspectRatio, string> = {
+    '9:16': 'max-w-[450px] aspect-[9/16]',
+    '16:9': 'max-w-[720px] aspect-video',
+    '1:1': 'max-w-[520px] aspect-square',
+};
+
+// Full-screen framing: portrait scenes fill the screen height; wider ones fit inside the screen so a
+// wallpaper isn't cropped to its middle
+const getFrameFit = (ratio: SceneAspectRatio): { frame: React.CSSProperties; image: React.CSSProperties } =>
+    getAspectValue(ratio) < 1
+        ? { frame: { height: '100%' }, image: { height: '100%', width: 'auto' } }
+        : { frame: { width: `min(100%, ${getAspectValue(ratio) * 100}vh)`, aspectRatio: toCssAspectRatio(ratio) }, image: { width: '100%', height: '100%' } };
+
+const ALERT_ICONS: Record<AlertKind, React.FC<{ className?: string }>> = {
+    wind: Wind,
+    rain: CloudRain,
+    heat: Flame,
+    cold: Snowflake,
+    fog: CloudFog,
+    uv: Sun,
+};
+
+// "Tue 3 PM – 9 PM", "Tue 10 PM – Wed 4 AM", or "Tue, all day" for daily (rain) windows
+const formatAlertWindow = (alert: WeatherAlert) => {
+    const startDay = alert.start.slice(0, 10);
+    const hours = (new Date(alert.end).getTime() - new Date(alert.start).getTime()) / 3600000;
+    if (alert.start.endsWith('T00:00') && hours === 24) return t('alerts.allDay', { day: formatWeekday(startDay) });
+    const sameDay = new Date(new Date(alert.end).getTime() - 1).toDateString() === new Date(alert.start).toDateString();
+    const end = sameDay ? formatHour(alert.end) : `${formatWeekday(alert.end)} ${formatHour(alert.end)}`;
+    return `${formatWeekday(alert.start)} ${formatHour(alert.start)} – ${end}`;
+};
+
+// A timelapse frame as shown by the player: image plus its time label
+interface PlaybackFrame {
+    url: string;
+    label: string;
+}
+
+// Region painting on top of the image, for masked edits
+interface MaskPainting {
+    tool: MaskTool;
+    brushSize: number; // In mask pixels (see MASK_WIDTH)
+    canvasRef: React.RefObject<HTMLCanvasElement | null>;
+    onPaint: () => void; // After every finished stroke or lasso
+}
+
+// Internal Component for Pan/Zoom Image Viewing with Multi-Touch Support.
+// With `frames` it becomes a timelapse player: frames cross-fade under the same pan/zoom and a
+// scrubber with play/pause sits at the bottom. With `mask`, one finger/mouse paints the mask
+// (pinch and wheel still zoom). `aspectRatio` is the scene's shape and decides how it is framed.
 const PanZoomImage: React.FC<{ 
     src: string, 
     alt: string, 
+    aspectRatio?: SceneAspectRatio,
     initialConfig?: ViewConfig,
-    onTransformChange?: (config: ViewConfig) => void 
-}> = ({ src, alt, initialConfig, onTransformChange }) => {
+    onTransformChange?: (config: ViewConfig) => void,
+    frames?: PlaybackFrame[],
+    mask?: MaskPainting
+}> = ({ src, alt, aspectRatio = DEFAULT_OUTPUT_PROFILE.aspectRatio, initialConfig, onTransformChange, frames, mask }) => {
     // Initialize state only once from props to avoid resetting during parent renders,
     // unless initialConfig changes externally significantly (which we handle in useEffect below if needed)
     const [transform, setTransform] = useState<ViewConfig>(initialConfig || { x: 0, y: 0, scale: 1 });
@@ -50,6 +145,26 @@ const PanZoomImage: React.FC<{
         center: {x: number, y: number};
     }>({ scale: 1, x: 0, y: 0, dist: 0, center: {x: 0, y: 0} });
 
+    // Mask stroke in progress; keeps the canvas as it was, to redraw the lasso outline while dragging
+    // and to undo the stroke when a second finger turns it into a pinch
+    const stroke = useRef<{ pointerId: number; last: {x: number, y: number}; points: {x: number, y: number}[]; snapshot: ImageData } | null>(null);
+
+    // Timelapse playback
+    const [frameIndex, setFrameIndex] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(true);
+    const frameCount = frames?.length || 0;
+
+    useEffect(() => {
+        if (!isPlaying || frameCount < 2) return;
+        const timer = setInterval(() => setFrameIndex(i => (i + 1) % frameCount), TIMELAPSE_FRAME_MS);
+        return () => clearInterval(timer);
+    }, [isPlaying, frameCount]);
+
+    // Frames can arrive while the player is open (the timelapse is still being drawn)
+    useEffect(() => {
+        if (frameIndex >= frameCount && frameCount > 0) setFrameIndex(frameCount - 1);
+    }, [frameCount]);
+
     // Sync if initialConfig updates (e.g. from parent state change)
     useEffect(() => {
         if (initialConfig) {
@@ -74,12 +189,116 @@ const PanZoomImage: React.FC<{
         return { center, dist };
     };
 
+    // --- Mask painting ---
+
+    const getMaskContext = () => {
+        const ctx = mask?.canvasRef.current?.getContext('2d');
+        if (!ctx) return null;
+        ctx.fillStyle = MASK_COLOR;
+        ctx.strokeStyle = MASK_COLOR;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        return ctx;
+    };
+
+    // Screen position -> mask pixels (the bounding box already includes the pan/zoom transform)
+    const toMaskPoint = (e: React.PointerEvent) => {
+        const canvas = mask!.canvasRef.current!;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * canvas.width / rect.width,
+            y: (e.clientY - rect.top) * canvas.height / rect.height,
+        };
+    };
+
+    const traceLasso = (ctx: CanvasRenderingContext2D, points: {x: number, y: number}[]) => {
+        ctx.beginPath();
+        points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+    };
+
+    const beginStroke = (e: React.PointerEvent) => {
+        const ctx = getMaskContext();
+        if (!ctx || !mask) return;
+        const point = toMaskPoint(e);
+        const snapshot = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+        stroke.current = { pointerId: e.pointerId, last: point, points: [point], snapshot };
+        if (mask.tool === 'brush') {
+            ctx.beginPath();
+            ctx.arc(point.x, point.y, mask.brushSize / 2, 0, Math.PI * 2);
+            ctx.fill();
+        }
+    };
+
+    const continueStroke = (e: React.PointerEvent) => {
+        const ctx = getMaskContext();
+        if (!ctx || !mask || !stroke.current) return;
+        const point = toMaskPoint(e);
+        const current = stroke.current;
+        if (mask.tool === 'brush') {
+            ctx.lineWidth = mask.brushSize;
+            ctx.beginPath();
+            ctx.moveTo(current.last.x, current.last.y);
+            ctx.lineTo(point.x, point.y);
+            ctx.stroke();
+        } else {
+            current.points.push(point);
+            ctx.putImageData(current.snapshot, 0, 0);
+            ctx.lineWidth = 3;
+            traceLasso(ctx, current.points);
+            ctx.stroke();
+        }
+        current.last = point;
+    };
+
+    const endStroke = () => {
+        const ctx = getMaskContext();
+        const current = stroke.current;
+        stroke.current = null;
+        if (!ctx || !mask || !current) return;
+        if (mask.tool === 'lasso') {
+            ctx.putImageData(current.snapshot, 0, 0);
+            if (current.points.length >= 3) {
+                traceLasso(ctx, current.points);
+                ctx.closePath();
+                ctx.fill();
+            }
+        }
+        mask.onPaint();
+    };
+
+    // Drops the stroke without painting anything
+    const cancelStroke = () => {
+        const ctx = getMaskContext();
+        const current = stroke.current;
+        stroke.current = null;
+        if (ctx && current) ctx.putImageData(current.snapshot, 0, 0);
+    };
+
+    // Mask canvas follows the image's aspect ratio; resizing clears it, so only do it when needed
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = mask?.canvasRef.current;
+        if (!canvas) return;
+        const { naturalWidth, naturalHeight } = e.currentTarget;
+        const height = Math.round(MASK_WIDTH * naturalHeight / naturalWidth);
+        if (canvas.width !== MASK_WIDTH || canvas.height !== height) {
+            canvas.width = MASK_WIDTH;
+            canvas.height = height;
+        }
+    };
+
     const handlePointerDown = (e: React.PointerEvent) => {
         e.preventDefault();
         e.stopPropagation();
         if (containerRef.current) containerRef.current.setPointerCapture(e.pointerId);
-        
+
+        // First finger paints; a second one cancels the stroke and the two pinch instead
+        const first = pointers.current.size === 0;
         pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        if (mask && first) {
+            beginStroke(e);
+            return;
+        }
+        if (stroke.current) cancelStroke();
         setIsDragging(true);
         
         // Recalculate interaction baseline
@@ -97,6 +316,13 @@ const PanZoomImage: React.FC<{
 
     const handlePointerMove = (e: React.PointerEvent) => {
         if (!pointers.current.has(e.pointerId)) return;
+        if (stroke.current?.pointerId === e.pointerId) {
+            e.preventDefault();
+            e.stopPropagation();
+            pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+            continueStroke(e);
+            return;
+        }
         e.preventDefault();
         e.stopPropagation();
 
@@ -135,6 +361,10 @@ const PanZoomImage: React.FC<{
     const handlePointerUp = (e: React.PointerEvent) => {
         if (containerRef.current) containerRef.current.releasePointerCapture(e.pointerId);
         pointers.current.delete(e.pointerId);
+        if (stroke.current?.pointerId === e.pointerId) {
+            endStroke();
+            return;
+        }
         
         if (pointers.current.size === 0) {
             setIsDragging(false);
@@ -154,6 +384,8 @@ const PanZoomImage: React.FC<{
         }
     };
 
+    const fit = getFrameFit(aspectRatio);
+
     const handleWheel = (e: React.WheelEvent) => {
         e.stopPropagation();
         const scaleAmount = -(e.deltaY) * 0.001;
@@ -172,7 +404,7 @@ const PanZoomImage: React.FC<{
     return (
         <div 
             ref={containerRef}
-            className={`w-full h-full overflow-hidden flex items-center justify-center bg-black relative touch-none select-none ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+            className={`w-full h-full overflow-hidden flex items-center justify-center bg-black relative touch-none select-none ${mask ? 'cursor-crosshair' : isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
             style={{ touchAction: 'none' }}
             onWheel={handleWheel}
             onPointerDown={handlePointerDown}
@@ -181,18 +413,81 @@ const PanZoomImage: React.FC<{
             onPointerCancel={handlePointerUp}
             onPointerLeave={handlePointerUp}
         >
+             {frames && frameCount > 0 ? (
+                <div
+                    className="relative will-change-transform pointer-events-none"
+                    style={{ ...fit.frame, transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})` }}
+                >
+                    {frames.map((frame, i) => (
+                        <img
+                            key={i}
+                            src={frame.url}
+                            alt={i === frameIndex ? `${alt} · ${frame.label}` : ''}
+                            aria-hidden={i !== frameIndex}
+                            className={`max-w-none max-h-none select-none transition-opacity duration-500 ${i === 0 ? 'relative' : 'absolute inset-0'} ${i === frameIndex ? 'opacity-100' : 'opacity-0'}`}
+                            style={{ ...fit.image, objectFit: 'contain' }}
+                            draggable={false}
+                        />
+                    ))}
+                </div>
+             ) : mask ? (
+                <div
+                    className="relative will-change-transform pointer-events-none"
+                    style={{ ...fit.frame, transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})` }}
+                >
+                    <img
+                        src={src}
+                        alt={alt}
+                        onLoad={handleImageLoad}
+                        className="max-w-none max-h-none select-none"
+                        style={{ ...fit.image, objectFit: 'contain' }}
+                        draggable={false}
+                    />
+                    <canvas ref={mask.canvasRef} className="absolute inset-0 w-full h-full opacity-50" />
+                </div>
+             ) : (
              <img 
                 src={src} 
                 alt={alt}
                 className="max-w-none max-h-none will-change-transform select-none pointer-events-none"
                 style={{
                     transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
-                    height: '100%',
-                    width: 'auto',
+                    ...fit.frame,
+                    ...fit.image,
                     objectFit: 'contain'
                 }}
                 draggable={false}
             />
+             )}
+
+            {frames && frameCount > 0 && (
+                <div
+                    className="absolute bottom-28 left-1/2 -translate-x-1/2 w-[min(90vw,28rem)] flex items-center gap-3 bg-zinc-900/80 backdrop-blur-md rounded-full pl-1.5 pr-4 py-1.5 border border-white/10 cursor-default"
+                    // Scrubbing must not pan the image
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onWheel={(e) => e.stopPropagation()}
+                >
+                    <button
+                        onClick={() => setIsPlaying(p => !p)}
+                        className="p-2 rounded-full bg-white text-black hover:bg-zinc-200 transition-colors shrink-0"
+                        aria-label={t(isPlaying ? 'timelapse.pause' : 'timelapse.play')}
+                    >
+                        {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </button>
+                    <input
+                        type="range"
+                        min={0}
+                        max={frameCount - 1}
+                        step={1}
+                        value={Math.min(frameIndex, frameCount - 1)}
+                        onChange={(e) => { setIsPlaying(false); setFrameIndex(parseInt(e.target.value, 10)); }}
+                        className="flex-1 min-w-0 accent-purple-500"
+                        aria-label={t('timelapse.scrub')}
+                        aria-valuetext={frames[Math.min(frameIndex, frameCount - 1)].label}
+                    />
+                    <span className="text-xs font-bold text-white tabular-nums whitespace-nowrap">{frames[Math.min(frameIndex, frameCount - 1)].label}</span>
+                </div>
+            )}
         </div>
     );
 };
@@ -205,18 +500,28 @@ interface NewsModalProps {
 const NewsModal: React.FC<NewsModalProps> = ({ newsItems, onClose }) => {
     const mainStory = newsItems[0];
     const sideStories = newsItems.slice(1);
+    const dialogRef = useDialogFocus<HTMLDivElement>(onClose);
+    const titleId = useId();
 
     return (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-300" onClick={onClose}>
-             <div className="bg-zinc-900 border border-zinc-800 rounded-3xl overflow-hidden max-w-md w-full shadow-2xl scale-100 animate-in zoom-in-95 duration-200 flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+             <div
+                ref={dialogRef}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby={titleId}
+                tabIndex={-1}
+                className="bg-zinc-900 border border-zinc-800 rounded-3xl overflow-hidden max-w-md w-full shadow-2xl scale-100 animate-in zoom-in-95 duration-200 flex flex-col max-h-[85vh] outline-none"
+                onClick={e => e.stopPropagation()}
+             >
                 
                 {/* Header */}
                 <div className="p-5 border-b border-zinc-800 flex justify-between items-center bg-zinc-950">
                     <div className="flex items-center gap-2 text-blue-400">
                         <Newspaper className="w-5 h-5" />
-                        <span className="font-black text-sm tracking-widest uppercase">Global Feed</span>
+                        <span id={titleId} className="font-black text-sm tracking-widest uppercase">{t('news.globalFeed')}</span>
                     </div>
-                    <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-full transition-colors">
+                    <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-full transition-colors" aria-label={t('common.close')}>
                         <X className="w-5 h-5 text-zinc-400" />
                     </button>
                 </div>
@@ -226,7 +531,7 @@ const NewsModal: React.FC<NewsModalProps> = ({ newsItems, onClose }) => {
                     {/* Main Story */}
                     <article className="mb-8">
                         <div className="inline-block px-2 py-0.5 rounded bg-blue-500/10 text-blue-400 text-[10px] font-bold uppercase mb-3 border border-blue-500/20">
-                            {mainStory?.category || "Breaking News"}
+                            {mainStory?.category || t('news.breaking')}
                         </div>
                         <h1 className="text-2xl font-black text-white leading-tight mb-4 font-serif">
                             {mainStory?.headline}
@@ -239,12 +544,12 @@ const NewsModal: React.FC<NewsModalProps> = ({ newsItems, onClose }) => {
                     {/* Side Stories */}
                     {sideStories.length > 0 && (
                         <div className="space-y-4 pt-6 border-t border-zinc-800/50">
-                            <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-2">Other Headlines</h3>
+                            <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-2">{t('news.otherHeadlines')}</h3>
                             {sideStories.map((item, i) => (
                                 <div key={i} className="group cursor-pointer">
                                     <div className="flex justify-between items-start mb-1">
                                          <span className="text-xs text-purple-400 font-bold">{item.category}</span>
-                                         <span className="text-[10px] text-zinc-600">Just now</span>
+                                         <span className="text-[10px] text-zinc-600">{t('news.justNow')}</span>
                                     </div>
                                     <h4 className="text-sm font-bold text-zinc-300 group-hover:text-white transition-colors">
                                         {item.headline}
@@ -257,7 +562,7 @@ const NewsModal: React.FC<NewsModalProps> = ({ newsItems, onClose }) => {
 
                 {/* Footer */}
                 <div className="p-4 bg-zinc-950 border-t border-zinc-800 text-center">
-                    <p className="text-[10px] text-zinc-600 uppercase tracking-widest">Planetary News Network • Live Feed</p>
+                    <p className="text-[10px] text-zinc-600 uppercase tracking-widest">{t('news.footer')}</p>
                 </div>
              </div>
         </div>
@@ -273,27 +578,47 @@ interface DetailModalProps {
     icon: React.ReactNode;
     insights: { label: string; text: string; icon?: React.ReactNode }[];
     chart?: React.ReactNode;
+    action?: DetailAction;
     onClose: () => void;
     isFictional?: boolean;
+    source?: string;
 }
 
-const DetailModal: React.FC<DetailModalProps> = ({ title, value, subValue, description, icon, insights, chart, onClose, isFictional }) => (
+interface DetailAction {
+    label: string;
+    onClick: () => void;
+    disabled?: boolean;
+}
+
+const DetailModal: React.FC<DetailModalProps> = ({ title, value, subValue, description, icon, insights, chart, action, onClose, isFictional, source = 'Open-Meteo' }) => {
+    const dialogRef = useDialogFocus<HTMLDivElement>(onClose);
+    const titleId = useId();
+
+    return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-300" onClick={onClose}>
-        <div className="bg-zinc-900 border border-zinc-800 rounded-3xl p-6 max-w-md w-full shadow-2xl scale-100 animate-in zoom-in-95 duration-200 overflow-hidden max-h-[90vh] overflow-y-auto scrollbar-hide" onClick={e => e.stopPropagation()}>
+        <div
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby={titleId}
+            tabIndex={-1}
+            className="bg-zinc-900 border border-zinc-800 rounded-3xl p-6 max-w-md w-full shadow-2xl scale-100 animate-in zoom-in-95 duration-200 overflow-hidden max-h-[90vh] overflow-y-auto scrollbar-hide outline-none"
+            onClick={e => e.stopPropagation()}
+        >
             <div className="flex justify-between items-start mb-6">
                 <div className="flex items-center gap-4">
                     <div className="p-3 bg-zinc-800 rounded-2xl text-blue-400 border border-zinc-700">
                         {icon}
                     </div>
                     <div>
-                         <h3 className="text-zinc-500 font-bold text-xs uppercase tracking-wider mb-1">{title}</h3>
+                         <h3 id={titleId} className="text-zinc-500 font-bold text-xs uppercase tracking-wider mb-1">{title}</h3>
                          <div className="flex items-baseline gap-2">
                              <p className="text-3xl font-black text-white tracking-tight">{value}</p>
                              {subValue && <span className="text-zinc-400 font-medium text-sm">{subValue}</span>}
                          </div>
                     </div>
                 </div>
-                <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-full transition-colors">
+                <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-full transition-colors" aria-label={t('common.close')}>
                     <X className="w-5 h-5 text-zinc-400" />
                 </button>
             </div>
@@ -303,26 +628,37 @@ const DetailModal: React.FC<DetailModalProps> = ({ title, value, subValue, descr
                 {chart && (
                     <div className="bg-zinc-950/50 p-4 rounded-3xl border border-zinc-800/50">
                         <div className="flex items-center gap-2 mb-4 text-zinc-400 text-xs font-bold uppercase tracking-wide">
-                            <Activity className="w-3 h-3" /> Trend Analysis
+                            <Activity className="w-3 h-3" /> {t('detail.trend')}
                         </div>
                         {chart}
                         <div className="mt-2 text-center text-[10px] text-zinc-600 italic">
-                            Touch or drag graph for details
+                            {t('detail.chartHint')}
                         </div>
                     </div>
                 )}
 
                 <div className="bg-zinc-950/50 p-4 rounded-2xl border border-zinc-800/50">
                     <div className="flex items-center gap-2 mb-2 text-zinc-400 text-xs font-bold uppercase">
-                        <Info className="w-3 h-3" /> About
+                        <Info className="w-3 h-3" /> {t('detail.about')}
                     </div>
                     <p className="text-zinc-300 leading-relaxed text-sm">{description}</p>
                 </div>
 
+                {action && (
+                    <button
+                        onClick={action.onClick}
+                        disabled={action.disabled}
+                        className="w-full flex items-center justify-center gap-2 py-3 rounded-2xl bg-purple-600 hover:bg-purple-500 disabled:bg-zinc-800 disabled:text-zinc-500 text-white font-bold text-sm transition-colors shadow-lg shadow-purple-900/20"
+                    >
+                        <Sparkles className="w-4 h-4" />
+                        {action.label}
+                    </button>
+                )}
+
                 {insights.length > 0 && (
                     <div className="space-y-3">
                          <div className="flex items-center gap-2 text-zinc-400 text-xs font-bold uppercase">
-                            <TrendingUp className="w-3 h-3" /> Insights & Forecast
+                            <TrendingUp className="w-3 h-3" /> {t('detail.insights')}
                         </div>
                         {insights.map((insight, idx) => (
                             <div key={idx} className="flex gap-3 items-start p-2 hover:bg-white/5 rounded-lg transition-colors">
@@ -339,20 +675,41 @@ const DetailModal: React.FC<DetailModalProps> = ({ title, value, subValue, descr
                 {/* Source Attribution */}
                 <div className="pt-4 border-t border-zinc-800 flex justify-between items-center text-[10px] text-zinc-600">
                     {isFictional ? (
-                        <span className="flex items-center gap-1 text-purple-400/80"><Brain className="w-3 h-3" /> AI Simulation: Data is generated lore.</span>
+                        <span className="flex items-center gap-1 text-purple-400/80"><Brain className="w-3 h-3" /> {t('detail.simulated')}</span>
                     ) : (
-                        <span className="flex items-center gap-1"><Globe className="w-3 h-3" /> Data Source: Open-Meteo</span>
+                        <span className="flex items-center gap-1"><Globe className="w-3 h-3" /> {t('detail.source', { source })}</span>
                     )}
                 </div>
             </div>
         </div>
     </div>
-);
+    );
+};
 
 export const WeatherCard: React.FC<WeatherCardProps> = ({ 
     weather, 
     image, 
     loading, 
+    isOffline = false,
+    units = DEFAULT_UNITS,
+    refreshQueued = false,
+    alerts = [],
+    notificationRules = [],
+    isPinned = false,
+    notificationsEnabled = false,
+    onUpdateNotificationRules,
+    onShowDate,
+    variants = [],
+    onGenerateScene,
+    onUpdateVariants,
+    timelapse = [],
+    timelapseProgress,
+    onGenerateTimelapse,
+    onCancelTimelapse,
+    imageHistory,
+    onUpdateHistory,
+    profile = DEFAULT_OUTPUT_PROFILE,
+    onChangeProfile,
     onScroll, 
     onUpdateImage,
     onRefresh,
@@ -362,11 +719,11 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
     isPreview = false,
     onSave,
     onDrag,
-    onUpdateView
+    onUpdateView,
+    onOpenPreferences,
+    detailMetric,
+    onDetailChange
 }) => {
-  const [unit, setUnit] = useState<'C' | 'F'>('C');
-  const [displayTemp, setDisplayTemp] = useState<number>(weather.temperature);
-  
   // Rich Detail State
   const [selectedMetric, setSelectedMetric] = useState<{
       title: string, 
@@ -375,7 +732,9 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
       description: string, 
       icon: React.ReactNode,
       insights: { label: string; text: string; icon?: React.ReactNode }[],
-      chart?: React.ReactNode
+      chart?: React.ReactNode,
+      action?: DetailAction,
+      metric?: string // Set for metric details (not hour/day ones)
   } | null>(null);
 
   const [showFullImage, setShowFullImage] = useState(false);
@@ -392,21 +751,50 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
   // View Config
   const [currentViewConfig, setCurrentViewConfig] = useState<ViewConfig | undefined>(image.viewConfig);
   
+  // Forecast scene being shown instead of the "now" image (null: now)
+  const [sceneKey, setSceneKey] = useState<string | null>(null);
+  const selectedVariant = sceneKey ? variants.find(v => v.moment && momentKey(v.moment) === sceneKey) : undefined;
+  const sceneImage = selectedVariant || image;
+  const sceneForecast = selectedVariant?.moment ? getMomentConditions(weather, selectedVariant.moment) : null;
+
+  // Timelapse player
+  const [showTimelapse, setShowTimelapse] = useState(false);
+  const [timelapseExport, setTimelapseExport] = useState<'webp' | 'video' | null>(null);
+  const [timelapseExportFailed, setTimelapseExportFailed] = useState(false);
+  const closeTimelapse = () => { setShowTimelapse(false); setTimelapseExportFailed(false); };
+  const timelapseRef = useDialogFocus<HTMLDivElement>(closeTimelapse, showTimelapse && timelapse.length > 0);
+
+  // Edits of the "now" scene go into the card's version tree; forecast scenes keep a local,
+  // linear history while the full view is open
+  const versioned = !selectedVariant && !!onUpdateHistory;
+  const editHistory = getImageHistory({ image, imageHistory });
+  const [versionId, setVersionId] = useState<string | null>(null);
+  const [showGallery, setShowGallery] = useState(false);
+
+  // Region mask for the next edit (null tool: mask mode off)
+  const [maskTool, setMaskTool] = useState<MaskTool | null>(null);
+  const [brushSize, setBrushSize] = useState(48);
+  const [hasMask, setHasMask] = useState(false);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+
   // Local Edit History State
   const [history, setHistory] = useState<GeneratedImage[]>([]);
   const [historyIndex, setHistoryIndex] = useState(0);
   const [isEditing, setIsEditing] = useState(false);
-
-  // --- Conversions ---
-  const toF = (c: number) => Math.round((c * 9/5) + 32);
-  const toMph = (kmh: number) => Math.round(kmh * 0.621371);
-  const toMiles = (km: number) => Math.round(km * 0.621371 * 10) / 10;
-  const toInches = (mm: number) => Math.round(mm * 0.0393701 * 100) / 100;
-  const toInHg = (hpa: number) => Math.round(hpa * 0.02953 * 100) / 100;
-
-  useEffect(() => {
-    setDisplayTemp(unit === 'F' ? toF(weather.temperature) : weather.temperature);
-  }, [unit, weather.temperature]);
+  const [editProgress, setEditProgress] = useState<GenerationProgress | null>(null);
+  const editController = useRef<AbortController | null>(null);
+  // Only Save or Discard closes the full view, so Escape doesn't
+  const fullImageRef = useDialogFocus<HTMLDivElement>(undefined, showFullImage);
+
+  // --- Units ---
+  // Values in WeatherData are metric; these only shape what is displayed. Insight thresholds
+  // below always compare the raw metric values so the text doesn't change with the unit.
+  const toTemp = (c: number) => convertTemperature(c, units.temperature);
+  const displayTemp = toTemp(sceneForecast ? sceneForecast.temperature : weather.temperature);
+  const windUnit = unitLabel.wind(units.wind);
+  const pressureUnit = unitLabel.pressure(units.pressure);
+  const distanceUnit = unitLabel.distance(units.distance);
+  const precipUnit = unitLabel.precipitation(units.precipitation);
 
   useEffect(() => {
     if (!isExpanded && scrollRef.current) {
@@ -417,21 +805,28 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
 
   // Sync view config when image prop changes
   useEffect(() => {
-      setCurrentViewConfig(image.viewConfig);
-  }, [image.viewConfig]);
+      setCurrentViewConfig(sceneImage.viewConfig);
+  }, [sceneImage.viewConfig]);
 
   // Initialize history when full view opens
   useEffect(() => {
       if (showFullImage) {
-          // If history is empty, initialize with current image
-          if (history.length === 0) {
-              setHistory([image]);
+          if (versioned) {
+              // Start from the cover
+              setVersionId(editHistory.coverId);
+          } else if (history.length === 0) {
+              // If history is empty, initialize with current image
+              setHistory([sceneImage]);
               setHistoryIndex(0);
           }
       } else {
           // Reset history on close
           setHistory([]);
           setHistoryIndex(0);
+          setVersionId(null);
+          setShowGallery(false);
+          setMaskTool(null);
+          setHasMask(false);
           setIsEditing(false);
       }
   }, [showFullImage]);
@@ -486,7 +881,36 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
   };
 
   // Determine currently active image
-  const activeImage = history.length > 0 ? history[historyIndex] : image;
+  const currentVersion = versioned ? findVersion(editHistory, versionId) : undefined;
+  const activeImage = currentVersion ? currentVersion.image : history.length > 0 ? history[historyIndex] : sceneImage;
+  const imageProfile = getImageProfile(activeImage);
+  // Wide scenes in the stack are short; tighten the overlay so the title and temperature don't collide
+  const compactOverlay = !isExpanded && getAspectValue(imageProfile.aspectRatio) >= 1;
+
+  // Back/forward in the full view: along the linear history, or to the parent / newest child version
+  const newestChild = currentVersion ? getChildren(editHistory, currentVersion.id).pop() : undefined;
+  const showHistoryNav = versioned ? editHistory.versions.length > 1 : history.length > 1;
+  const canGoBack = versioned ? !!currentVersion?.parentId : historyIndex > 0;
+  const canGoForward = versioned ? !!newestChild : historyIndex < history.length - 1;
+  const goBack = () => versioned ? setVersionId(currentVersion?.parentId || null) : setHistoryIndex(i => i - 1);
+  const goForward = () => versioned ? setVersionId(newestChild?.id || null) : setHistoryIndex(i => i + 1);
+
+  const clearMask = () => {
+      const canvas = maskCanvasRef.current;
+      canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      setHasMask(false);
+  };
+
+  // Leaving mask mode drops the mask (the canvas unmounts)
+  const toggleMaskMode = () => {
+      setMaskTool(tool => tool ? null : 'brush');
+      setHasMask(false);
+  };
+
+  const setCover = (id: string) => {
+      onUpdateHistory?.(h => ({ ...h, coverId: id }));
+      setVersionId(id);
+  };
 
   const handleDownload = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -498,15 +922,60 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
     document.body.removeChild(link);
   };
 
-  const handleSaveFullImage = () => {
-    // 1. Commit View Config (Pan/Zoom)
-    if (onUpdateView && currentViewConfig) {
-        onUpdateView(currentViewConfig);
+  const handleExportTimelapse = async (format: 'webp' | 'video') => {
+    setTimelapseExport(format);
+    setTimelapseExportFailed(false);
+    try {
+        const urls = timelapse.map(frame => frame.url);
+        const blob = format === 'webp' ? await exportAnimatedWebp(urls) : await exportVideo(urls);
+        const extension = format === 'webp' ? 'webp' : blob.type === 'video/mp4' ? 'mp4' : 'webm';
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `isoweather-${weather.city.replace(/\s+/g, '-').toLowerCase()}-timelapse-${Date.now()}.${extension}`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    } catch (error) {
+        console.error("Timelapse export failed", error);
+        setTimelapseExportFailed(true);
+    } finally {
+        setTimelapseExport(null);
     }
-    
-    // 2. Commit the CURRENTLY SELECTED image from history
-    if (activeImage && activeImage.url !== image.url && onUpdateImage) {
-        onUpdateImage(activeImage);
+  };
+
+  // Abandon an in-flight redraw (the overlay's Cancel, or leaving the full view)
+  const cancelEdit = () => {
+    editController.current?.abort();
+    editController.current = null;
+  };
+
+  const handleSaveFullImage = () => {
+    cancelEdit();
+    if (selectedVariant) {
+        // Forecast scenes keep their own pan/zoom and edits, under the same moment
+        if (onUpdateVariants) {
+            const updated = {
+                ...activeImage,
+                moment: selectedVariant.moment,
+                conditions: selectedVariant.conditions,
+                viewConfig: currentViewConfig || selectedVariant.viewConfig
+            };
+            onUpdateVariants(variants.map(v => v === selectedVariant ? updated : v));
+        }
+    } else {
+        // 1. Commit View Config (Pan/Zoom)
+        if (onUpdateView && currentViewConfig) {
+            onUpdateView(currentViewConfig);
+        }
+        
+        // 2. Commit the CURRENTLY SELECTED version as the cover (or image from the local history)
+        if (currentVersion) {
+            if (currentVersion.id !== editHistory.coverId) setCover(currentVersion.id);
+        } else if (activeImage && activeImage.url !== image.url && onUpdateImage) {
+            onUpdateImage(activeImage);
+        }
     }
 
     setShowFullImage(false);
@@ -515,6 +984,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
 
   const handleCancelFullImage = () => {
       // Discard changes and close
+      cancelEdit();
       setShowFullImage(false);
       setShowAdjustInput(false);
   };
@@ -523,28 +993,47 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
       if (adjustPrompt.trim()) {
           setIsEditing(true);
           setShowAdjustInput(false);
+          const controller = new AbortController();
+          editController.current = controller;
           try {
-              // Edit based on current active image
+              // Edit based on current active image, confined to the painted region if there is one
               const baseImage = activeImage;
-              const newImage = await editWeatherScene(baseImage.base64, adjustPrompt);
-              
-              // Add to history, removing any future redo states
-              const newHistory = history.slice(0, historyIndex + 1);
-              newHistory.push(newImage);
+              const mask = maskTool && hasMask && maskCanvasRef.current ? exportMask(maskCanvasRef.current) : undefined;
+              const newImage = await editWeatherScene(baseImage, adjustPrompt, {
+                  signal: controller.signal,
+                  onProgress: setEditProgress
+              }, mask);
+              if (mask) {
+                  setMaskTool(null);
+                  setHasMask(false);
+              }
               
-              setHistory(newHistory);
-              setHistoryIndex(newHistory.length - 1);
+              if (currentVersion && onUpdateHistory) {
+                  // Stored on the card right away as a child of the version it was made from
+                  onUpdateHistory(h => addVersion(h, currentVersion.id, newImage));
+                  setVersionId(newImage.generatedAt);
+              } else {
+                  // Add to history, removing any future redo states
+                  const newHistory = history.slice(0, historyIndex + 1);
+                  newHistory.push(newImage);
+                  
+                  setHistory(newHistory);
+                  setHistoryIndex(newHistory.length - 1);
+              }
           } catch (e) {
-              console.error("Failed to edit locally", e);
+              if (!isAbortError(e)) console.error("Failed to edit locally", e);
               // In a real app, show a toast or error
           } finally {
+              if (editController.current === controller) editController.current = null;
               setIsEditing(false);
+              setEditProgress(null);
               setAdjustPrompt("");
           }
       }
   };
 
   // --- Helper for Short Summaries ---
+  // `val` is the raw metric value from WeatherData, whatever units are being displayed
   const getBriefSummary = (metric: string, val: number, unitStr?: string) => {
       // Prioritize Lore-Specific Summaries
       if (weather.isFictional && weather.fictionalSummaries && weather.fictionalSummaries[metric]) {
@@ -553,23 +1042,21 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
 
       switch(metric) {
           case 'Feels Like':
-              const diff = val - (unit === 'F' ? toF(weather.temperature) : weather.temperature);
-              return Math.abs(diff) < 2 ? "It feels exactly how it looks outside." : (diff > 0 ? "Humidity is making it feel warmer." : "The wind chill makes it feel brisk.");
-          case 'Humidity': return val < 30 ? "The air is quite dry; stay hydrated." : (val > 60 ? "It feels a bit sticky and humid." : "Comfortable humidity levels right now.");
-          case 'UV Index': return val > 5 ? "Don't forget sunscreen if going out!" : (val > 2 ? "Moderate UV; seek shade at noon." : "No sun protection needed right now.");
+              const diff = val - weather.temperature;
+              return t(Math.abs(diff) < 2 ? 'summary.feelsSame' : (diff > 0 ? 'summary.feelsWarmer' : 'summary.feelsColder'));
+          case 'Humidity': return t(val < 30 ? 'summary.humidityDry' : (val > 60 ? 'summary.humidityHigh' : 'summary.humidityOk'));
+          case 'UV Index': return t(val > 5 ? 'summary.uvHigh' : (val > 2 ? 'summary.uvModerate' : 'summary.uvLow'));
           case 'Visibility': 
-              const km = unit === 'F' ? val * 1.6 : val;
-              return km > 9 ? "Crystal clear views for miles." : (km < 2 ? "It's foggy, please drive carefully." : "The view is slightly hazy.");
-          case 'Precipitation': return val > 0 ? "Don't forget an umbrella, it's raining." : "Conditions are dry, no rain right now.";
-          case 'Cloud Cover': return val > 80 ? "The sky is completely overcast." : (val < 20 ? "Beautiful clear skies today." : "Just a few clouds drifting by.");
-          case 'Pressure': return val > 1013 ? "High pressure brings fair weather." : "Low pressure might bring clouds.";
+              return t(val > 9 ? 'summary.visibilityClear' : (val < 2 ? 'summary.visibilityFog' : 'summary.visibilityHazy'));
+          case 'Precipitation': return t(val > 0 ? 'summary.raining' : 'summary.dry');
+          case 'Cloud Cover': return t(val > 80 ? 'summary.overcast' : (val < 20 ? 'summary.clearSkies' : 'summary.someClouds'));
+          case 'Pressure': return t(val > 1013 ? 'summary.highPressure' : 'summary.lowPressure');
           case 'Dew Point': 
-              const dpC = unit === 'F' ? (val - 32) * 5/9 : val;
-              return dpC > 20 ? "It feels quite tropical and muggy." : (dpC < 10 ? "The air feels crisp and refreshing." : "It feels pleasant outside.");
-          case 'Wind': return val > 20 ? "It's quite blustery, hold onto your hat!" : "Just a gentle breeze blowing.";
+              return t(val > 20 ? 'summary.dewMuggy' : (val < 10 ? 'summary.dewCrisp' : 'summary.dewPleasant'));
+          case 'Wind': return t(val > 20 ? 'summary.windy' : 'summary.breeze');
           case 'Air Quality': 
               const aqi = parseInt(weather.airQuality.split(' ')[0] || '0');
-              return aqi > 100 ? "Air quality is poor, consider a mask." : "The air is fresh and clean.";
+              return t(aqi > 100 ? 'summary.aqiPoor' : 'summary.aqiGood');
           default: return "";
       }
   };
@@ -585,8 +1072,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
   };
 
   const openDetail = (metricType: string) => {
-      const isMetric = unit === 'C';
-      const hourlyLabels = weather.hourlyForecast.map(h => h.time);
+      const hourlyLabels = weather.hourlyForecast.map(h => formatHour(h.rawTime));
       
       let data: any = {
           title: metricType,
@@ -600,20 +1086,18 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
 
       switch(metricType) {
           case 'Feels Like':
-            const feelsLikeVal = isMetric ? weather.feelsLike : toF(weather.feelsLike);
-            const actualVal = isMetric ? weather.temperature : toF(weather.temperature);
-            const diff = feelsLikeVal - actualVal;
+            const diff = weather.feelsLike - weather.temperature;
             data = {
-                title: 'Feels Like',
-                value: `${feelsLikeVal}°`,
-                description: "The Apparent Temperature calculates how hot or cold it actually feels by factoring in humidity, wind speed, and radiation.",
+                title: t('metric.feelsLike'),
+                value: formatTemperature(weather.feelsLike, units),
+                description: t('feelsLike.description'),
                 icon: <Thermometer className="w-6 h-6"/>,
                 insights: [
-                    { label: "Comfort Level", text: Math.abs(diff) < 2 ? "Similar to actual temperature." : (diff > 0 ? "Feels warmer due to humidity." : "Feels colder due to wind chill.") },
-                    { label: "Clothing", text: feelsLikeVal < 10 ? "Coat recommended." : (feelsLikeVal > 25 ? "Light clothing recommended." : "Sweater or light jacket.") }
+                    { label: t('feelsLike.comfort'), text: t(Math.abs(diff) < 2 ? 'feelsLike.similar' : (diff > 0 ? 'feelsLike.warmer' : 'feelsLike.colder')) },
+                    { label: t('feelsLike.clothing'), text: t(weather.feelsLike < 10 ? 'feelsLike.coat' : (weather.feelsLike > 25 ? 'feelsLike.light' : 'feelsLike.sweater')) }
                 ],
                 chart: <AreaChart 
-                        data={weather.hourlyForecast.map(h => isMetric ? h.temp : toF(h.temp))} 
+                        data={weather.hourlyForecast.map(h => toTemp(h.temp))} 
                         labels={hourlyLabels} 
                         color="#f97316" 
                         unit="°" 
@@ -622,14 +1106,14 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
             break;
           case 'Humidity':
             data = {
-                title: 'Humidity',
+                title: t('metric.humidity'),
                 value: `${weather.humidity}%`,
-                subValue: `Dew Point: ${isMetric ? weather.dewPoint : toF(weather.dewPoint)}°`,
-                description: "Relative humidity measures the water vapor in the air relative to the maximum possible at current temperature.",
+                subValue: t('humidity.dewPoint', { value: formatTemperature(weather.dewPoint, units) }),
+                description: t('humidity.description'),
                 icon: <Droplets className="w-6 h-6"/>,
                 insights: [
-                    { label: "Dew Point Context", text: weather.dewPoint > 20 ? "The air feels muggy and uncomfortable." : (weather.dewPoint < 10 ? "The air feels dry and crisp." : "Comfortable humidity levels.") },
-                    { label: "Health", text: weather.humidity < 30 ? "Dry air may irritate skin and eyes." : (weather.humidity > 70 ? "High humidity can promote mold growth." : "Ideal range for health.") }
+                    { label: t('humidity.dewContext'), text: t(weather.dewPoint > 20 ? 'humidity.muggy' : (weather.dewPoint < 10 ? 'humidity.dryCrisp' : 'humidity.comfortable')) },
+                    { label: t('humidity.health'), text: t(weather.humidity < 30 ? 'humidity.dryAir' : (weather.humidity > 70 ? 'humidity.mold' : 'humidity.ideal')) }
                 ],
                 chart: <AreaChart 
                         data={weather.hourlyForecast.map(h => h.humidity)} 
@@ -641,44 +1125,41 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
             };
             break;
           case 'Wind':
-             const speed = isMetric ? weather.windSpeed : toMph(weather.windSpeed);
-             const gusts = isMetric ? weather.windGusts : toMph(weather.windGusts);
-             const speedUnit = isMetric ? 'km/h' : 'mph';
              data = {
-                 title: 'Wind',
-                 value: `${speed} ${speedUnit}`,
+                 title: t('metric.wind'),
+                 value: formatWind(weather.windSpeed, units),
                  subValue: `${weather.windDirection}`,
-                 description: "Wind speed at 10 meters above ground level.",
+                 description: t('wind.description'),
                  icon: <Wind className="w-6 h-6"/>,
                  insights: [
-                     { label: "Gusts", text: `Occasional gusts up to ${gusts} ${speedUnit}.` },
-                     { label: "Impact", text: speed > 40 ? "Walking is difficult; branches may fall." : (speed > 20 ? "Breezy; small trees sway." : "Calm to light breeze.") }
+                     { label: t('wind.gusts'), text: t('wind.gustsUpTo', { speed: formatWind(weather.windGusts, units) }) },
+                     { label: t('wind.impact'), text: t(weather.windSpeed > 40 ? 'wind.strong' : (weather.windSpeed > 20 ? 'wind.breezy' : 'wind.calm')) }
                  ],
                  chart: <AreaChart 
-                        data={weather.hourlyForecast.map(h => isMetric ? h.windSpeed : toMph(h.windSpeed))} 
+                        data={weather.hourlyForecast.map(h => convertWind(h.windSpeed, units.wind))} 
                         labels={hourlyLabels} 
                         color="#a1a1aa" 
-                        unit={isMetric ? 'km/h' : 'mph'} 
+                        unit={windUnit} 
                         minVal={0}
                        />
              };
              break;
           case 'UV Index':
               const uv = weather.uvIndex;
-              let risk = "Low";
-              if (uv > 2) risk = "Moderate";
-              if (uv > 5) risk = "High";
-              if (uv > 7) risk = "Very High";
-              if (uv > 10) risk = "Extreme";
+              let risk = t('uv.low');
+              if (uv > 2) risk = t('uv.moderate');
+              if (uv > 5) risk = t('uv.high');
+              if (uv > 7) risk = t('uv.veryHigh');
+              if (uv > 10) risk = t('uv.extreme');
               data = {
-                  title: 'UV Index',
+                  title: t('metric.uvIndex'),
                   value: `${uv}`,
                   subValue: risk,
-                  description: "The strength of sunburn-producing ultraviolet radiation at solar noon.",
+                  description: t('uv.description'),
                   icon: <Sun className="w-6 h-6"/>,
                   insights: [
-                      { label: "Protection", text: uv > 2 ? "Sunscreen and hat recommended." : "No protection needed." },
-                      { label: "Burn Time", text: uv > 7 ? "Skin can burn in < 20 mins." : (uv > 5 ? "Burn time ~30-45 mins." : "Safe for prolonged exposure.") }
+                      { label: t('uv.protection'), text: t(uv > 2 ? 'uv.sunscreen' : 'uv.noProtection') },
+                      { label: t('uv.burnTime'), text: t(uv > 7 ? 'uv.burnFast' : (uv > 5 ? 'uv.burnMedium' : 'uv.burnSafe')) }
                   ],
                   chart: <BarChart 
                         data={weather.hourlyForecast.map(h => h.uvIndex)} 
@@ -688,63 +1169,58 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
               };
               break;
           case 'Visibility':
-              const vis = isMetric ? weather.visibility : toMiles(weather.visibility);
-              const visUnit = isMetric ? 'km' : 'mi';
+              const vis = weather.visibility;
               data = {
-                  title: 'Visibility',
-                  value: `${vis} ${visUnit}`,
-                  description: "The greatest distance at which a prominent black object can be seen and recognized against the horizon sky.",
+                  title: t('metric.visibility'),
+                  value: formatDistance(vis, units),
+                  description: t('visibility.description'),
                   icon: <Eye className="w-6 h-6"/>,
                   insights: [
-                      { label: "Condition", text: vis > 10 ? "Clear view." : (vis < 1 ? "Foggy conditions; drive carefully." : "Hazy or misty.") },
-                      { label: "Flight Impact", text: vis < 5 ? "May impact VFR flights." : "Good for flying." }
+                      { label: t('visibility.condition'), text: t(vis > 10 ? 'visibility.clear' : (vis < 1 ? 'visibility.fog' : 'visibility.hazy')) },
+                      { label: t('visibility.flight'), text: t(vis < 5 ? 'visibility.vfr' : 'visibility.goodFlying') }
                   ],
                   chart: <AreaChart 
-                        data={weather.hourlyForecast.map(h => isMetric ? (h.visibility/1000) : toMiles(h.visibility/1000))} 
+                        data={weather.hourlyForecast.map(h => convertDistance(h.visibility / 1000, units.distance))} 
                         labels={hourlyLabels} 
                         color="#14b8a6" 
-                        unit={visUnit} 
+                        unit={distanceUnit} 
                        />
               };
               break;
           case 'Pressure':
-              const press = isMetric ? weather.pressure : toInHg(weather.pressure);
-              const pressUnit = isMetric ? 'hPa' : 'inHg';
               data = {
-                  title: 'Pressure',
-                  value: `${press} ${pressUnit}`,
-                  description: "Atmospheric pressure at mean sea level.",
+                  title: t('metric.pressure'),
+                  value: formatPressure(weather.pressure, units),
+                  description: t('pressure.description'),
                   icon: <Gauge className="w-6 h-6"/>,
                   insights: [
-                      { label: "System", text: weather.pressure > 1013 ? "High pressure system (usually fair weather)." : "Low pressure system (often brings rain/clouds)." },
-                      { label: "Trend", text: "Changes in pressure can indicate approaching fronts." }
+                      { label: t('pressure.system'), text: t(weather.pressure > 1013 ? 'pressure.high' : 'pressure.low') },
+                      { label: t('pressure.trend'), text: t('pressure.trendText') }
                   ],
                   chart: <AreaChart 
-                        data={weather.hourlyForecast.map(h => isMetric ? h.pressure : toInHg(h.pressure))} 
+                        data={weather.hourlyForecast.map(h => convertPressure(h.pressure, units.pressure))} 
                         labels={hourlyLabels} 
                         color="#8b5cf6" 
-                        unit={pressUnit} 
-                        minVal={isMetric ? 980 : 29}
-                        maxVal={isMetric ? 1040 : 31}
+                        unit={pressureUnit} 
+                        minVal={convertPressure(980, units.pressure)}
+                        maxVal={convertPressure(1040, units.pressure)}
                        />
               };
               break;
           case 'Precipitation':
-              const precip = isMetric ? weather.precipitation : toInches(weather.precipitation);
-              const precipUnit = isMetric ? 'mm' : 'in';
               const pop = weather.hourlyForecast[0]?.pop || 0;
-              const precipData = weather.hourlyForecast.map(h => isMetric ? h.precipitation : toInches(h.precipitation));
+              const precipData = weather.hourlyForecast.map(h => convertPrecipitation(h.precipitation, units.precipitation));
               const hasPrecip = precipData.some(v => v > 0);
               
               data = {
-                  title: 'Precipitation',
-                  value: `${precip} ${precipUnit}`,
-                  subValue: `${pop}% Chance`,
-                  description: "Total accumulated water from rain, snow, or other sources in the last hour.",
+                  title: t('metric.precipitation'),
+                  value: formatPrecipitation(weather.precipitation, units),
+                  subValue: t('precip.chance', { pop }),
+                  description: t('precip.description'),
                   icon: <Umbrella className="w-6 h-6"/>,
                   insights: [
-                      { label: "Forecast", text: weather.precipitation > 0 ? "Precipitation is currently occurring." : `Chance of rain: ${pop}%.` },
-                      { label: "Daily Total", text: `Expected ${isMetric ? weather.forecast[0].rainSum : toInches(weather.forecast[0].rainSum)} ${precipUnit} today.` }
+                      { label: t('precip.forecast'), text: weather.precipitation > 0 ? t('precip.occurring') : t('precip.chanceOfRain', { pop }) },
+                      { label: t('precip.dailyTotal'), text: t('precip.expectedToday', { amount: formatPrecipitation(weather.forecast[0].rainSum, units) }) }
                   ],
                   chart: hasPrecip ? (
                     <BarChart 
@@ -767,14 +1243,14 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
               break;
           case 'Air Quality':
               data = {
-                  title: 'Air Quality',
+                  title: t('metric.airQuality'),
                   value: weather.airQuality.split(' ')[0], 
                   subValue: weather.airQuality.split(' ').slice(1).join(' ').replace(/[()]/g, ''),
-                  description: "US Air Quality Index (AQI). Measures air pollution levels.",
+                  description: t('aqi.description'),
                   icon: <Activity className="w-6 h-6"/>,
                   insights: [
-                      { label: "Health", text: "Based on PM2.5 and Ozone levels." },
-                      { label: "Advice", text: parseInt(weather.airQuality) > 100 ? "Sensitive groups should reduce outdoor exertion." : "Air quality is satisfactory." }
+                      { label: t('aqi.health'), text: t('aqi.basis') },
+                      { label: t('aqi.advice'), text: t(parseInt(weather.airQuality) > 100 ? 'aqi.sensitive' : 'aqi.satisfactory') }
                   ],
                   chart: weather.hourlyAqi && weather.hourlyAqi.length > 0 ? (
                       <AreaChart
@@ -784,18 +1260,18 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                           unit=""
                           minVal={0}
                       />
-                  ) : <div className="text-zinc-500 text-sm text-center py-4">Forecast data unavailable</div>
+                  ) : <div className="text-zinc-500 text-sm text-center py-4">{t('detail.noForecast')}</div>
               };
               break;
           case 'Cloud Cover':
               data = {
-                  title: 'Cloud Cover',
+                  title: t('metric.cloudCover'),
                   value: `${weather.cloudCover}%`,
-                  description: "The fraction of the sky obscured by clouds when observed from a particular location.",
+                  description: t('clouds.description'),
                   icon: <Cloud className="w-6 h-6"/>,
                   insights: [
-                      { label: "Condition", text: weather.cloudCover > 80 ? "Overcast skies." : (weather.cloudCover < 20 ? "Mostly clear skies." : "Partly cloudy.") },
-                      { label: "Solar Energy", text: weather.cloudCover > 60 ? "Reduced solar generation potential." : "High solar potential." }
+                      { label: t('clouds.condition'), text: t(weather.cloudCover > 80 ? 'clouds.overcast' : (weather.cloudCover < 20 ? 'clouds.clear' : 'clouds.partly')) },
+                      { label: t('clouds.solar'), text: t(weather.cloudCover > 60 ? 'clouds.solarLow' : 'clouds.solarHigh') }
                   ],
                   chart: <AreaChart 
                         data={weather.hourlyForecast.map(h => h.cloudCover)} 
@@ -807,18 +1283,17 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
               };
               break;
           case 'Dew Point':
-               const dp = isMetric ? weather.dewPoint : toF(weather.dewPoint);
                data = {
-                   title: 'Dew Point',
-                   value: `${dp}°`,
-                   description: "The temperature to which air must be cooled to become saturated with water vapor.",
+                   title: t('metric.dewPoint'),
+                   value: formatTemperature(weather.dewPoint, units),
+                   description: t('dewPoint.description'),
                    icon: <CloudDrizzle className="w-6 h-6"/>,
                    insights: [
-                       { label: "Comfort", text: weather.dewPoint > 20 ? "Air feels oppressive." : (weather.dewPoint < 12 ? "Air feels comfortable/dry." : "Humid.") },
-                       { label: "Fog Risk", text: Math.abs(weather.temperature - weather.dewPoint) < 2 ? "High risk of fog formation." : "Low risk of fog." }
+                       { label: t('dewPoint.comfort'), text: t(weather.dewPoint > 20 ? 'dewPoint.oppressive' : (weather.dewPoint < 12 ? 'dewPoint.comfortable' : 'dewPoint.humid')) },
+                       { label: t('dewPoint.fogRisk'), text: t(Math.abs(weather.temperature - weather.dewPoint) < 2 ? 'dewPoint.fogHigh' : 'dewPoint.fogLow') }
                    ],
                    chart: <AreaChart 
-                        data={weather.hourlyForecast.map(h => isMetric ? h.temp - 5 : toF(h.temp - 5))} 
+                        data={weather.hourlyForecast.map(h => toTemp(h.temp - 5))} 
                         labels={hourlyLabels} 
                         color="#2dd4bf" 
                         unit="°" 
@@ -828,14 +1303,14 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
           case 'Sunrise':
           case 'Sunset':
               data = {
-                  title: 'Sunrise & Sunset',
-                  value: weather.sunrise,
-                  subValue: `Sunset: ${weather.sunset}`,
-                  description: "Times of appearance and disappearance of the Sun's upper limb.",
+                  title: t('metric.sunriseSunset'),
+                  value: formatTimeOfDay(weather.sunrise),
+                  subValue: t('sun.sunsetAt', { time: formatTimeOfDay(weather.sunset) }),
+                  description: t('sun.description'),
                   icon: <Sunrise className="w-6 h-6"/>,
                   insights: [
-                      { label: "Day Length", text: "Calculated based on latitude and time of year." },
-                      { label: "Golden Hour", text: "Best photography light ~1 hour after sunrise and before sunset." }
+                      { label: t('sun.dayLength'), text: t('sun.dayLengthText') },
+                      { label: t('sun.goldenHour'), text: t('sun.goldenHourText') }
                   ],
                   chart: <SunCycle sunrise={weather.sunrise} sunset={weather.sunset} />
               };
@@ -843,15 +1318,65 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
           default:
               break;
       }
-      setSelectedMetric(data);
+      setSelectedMetric({ ...data, metric: metricType });
+      if (metricType !== detailMetric) onDetailChange?.(metricType);
+  };
+
+  const closeDetail = () => {
+      if (selectedMetric?.metric) onDetailChange?.(null);
+      setSelectedMetric(null);
+  };
+
+  // Follow the metric detail requested from outside (a /detail/<metric> link, back/forward)
+  useEffect(() => {
+      if (detailMetric === undefined) return;
+      if (detailMetric && detailMetric !== selectedMetric?.metric) openDetail(detailMetric);
+      else if (!detailMetric && selectedMetric?.metric) setSelectedMetric(null);
+  }, [detailMetric]);
+
+  // "Draw this moment" in the hour/day detail, or "Show scene" once it has been drawn.
+  // Live forecasts only: archived and fictional cards have no forecast to draw.
+  const getSceneAction = (moment: SceneMoment): DetailAction | undefined => {
+      if (!onGenerateScene || weather.isFictional || weather.historicalDate) return undefined;
+      const key = momentKey(moment);
+      const exists = variants.some(v => v.moment && momentKey(v.moment) === key);
+      return {
+          label: t(exists ? 'scenes.show' : 'scenes.draw'),
+          disabled: !exists && loading,
+          onClick: () => {
+              if (!exists) onGenerateScene(moment);
+              setSceneKey(key);
+              setSelectedMetric(null);
+              scrollRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+          }
+      };
+  };
+
+  const handleHourlyClick = (hour: HourlyForecast) => {
+      const temp = toTemp(hour.temp);
+      setSelectedMetric({
+          title: t('hourly.title'),
+          value: formatHour(hour.rawTime),
+          subValue: `${temp}°`,
+          description: t('hourly.conditions', { pop: hour.pop }),
+          icon: getWeatherIcon(hour.code, "w-6 h-6"),
+          insights: [
+              { label: t('metric.precipitation'), text: t('hourly.chance', { pop: hour.pop }) },
+              { label: t('hourly.trend'), text: t('hourly.progression') }
+          ],
+          chart: <AreaChart 
+              data={weather.hourlyForecast.map(h => toTemp(h.temp))} 
+              labels={weather.hourlyForecast.map(h => formatHour(h.rawTime))} 
+              color="#60a5fa" 
+              unit="°" 
+          />,
+          action: getSceneAction({ kind: 'hour', time: hour.rawTime })
+      });
   };
 
   const handleDailyClick = (day: DailyForecast) => {
-      const isMetric = unit === 'C';
-      const max = isMetric ? day.max : toF(day.max);
-      const min = isMetric ? day.min : toF(day.min);
-      const rain = isMetric ? day.rainSum : toInches(day.rainSum);
-      const rainUnit = isMetric ? 'mm' : 'in';
+      const max = toTemp(day.max);
+      const min = toTemp(day.min);
       
       // Filter hourly data for this day. 
       // rawDate is YYYY-MM-DD. rawTime is ISO string.
@@ -859,64 +1384,140 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
       
       const chart = dayHourly.length > 0 ? (
           <AreaChart 
-              data={dayHourly.map(h => isMetric ? h.temp : toF(h.temp))} 
-              labels={dayHourly.map(h => h.time)} 
+              data={dayHourly.map(h => toTemp(h.temp))} 
+              labels={dayHourly.map(h => formatHour(h.rawTime))} 
               color="#f97316" 
               unit="°" 
           />
       ) : (
-          <div className="text-zinc-500 text-sm text-center py-8">Hourly forecast not available for this date</div>
+          <div className="text-zinc-500 text-sm text-center py-8">{t('detail.noHourlyForDay')}</div>
       );
 
       setSelectedMetric({
-          title: day.fullDate,
+          title: formatFullDate(day.rawDate),
           value: `${max}°`,
           subValue: `/ ${min}°`,
-          description: `Forecast for ${day.date}: High of ${max}° and low of ${min}°. ${day.rainSum > 0 ? `Expected precipitation: ${rain} ${rainUnit}.` : 'No significant precipitation expected.'}`,
+          description: `${t('daily.summary', { day: formatWeekday(day.rawDate), max: `${max}°`, min: `${min}°` })} ${day.rainSum > 0 ? t('daily.expectedPrecip', { amount: formatPrecipitation(day.rainSum, units) }) : t('daily.noPrecip')}`,
           icon: getWeatherIcon(day.code, "w-6 h-6"),
           insights: [
-              { label: "Condition", text: mapWmoCode(day.code) },
-              { label: "UV Index", text: `Max UV: ${day.uvIndex}` },
-              { label: "Daylight", text: `Sunrise: ${day.sunrise} • Sunset: ${day.sunset}` }
+              { label: t('daily.condition'), text: getConditionLabel(day.code) },
+              { label: t('daily.uv'), text: t('daily.maxUv', { uv: day.uvIndex }) },
+              { label: t('daily.daylight'), text: t('daily.sunTimes', { sunrise: formatTimeOfDay(day.sunrise), sunset: formatTimeOfDay(day.sunset) }) }
           ],
-          chart: chart
+          chart: chart,
+          action: getSceneAction({ kind: 'day', time: day.rawDate })
       });
   };
 
   const generatedDate = activeImage.generatedAt ? new Date(activeImage.generatedAt) : new Date();
   const timeSinceGeneration = new Date().getTime() - generatedDate.getTime();
   const isOutdated = timeSinceGeneration > 4 * 60 * 60 * 1000; 
-  const formattedTime = generatedDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const formattedTime = formatClockTime(generatedDate);
+
+  // Last-known data: flagged while offline, or when background refreshes have fallen behind
+  const showStaleData = !weather.isFictional && !!weather.updatedAt && (isOffline || isWeatherStale(weather));
+  const formatUpdatedAt = (iso: string) => {
+      const updated = new Date(iso);
+      const sameDay = updated.toDateString() === new Date().toDateString();
+      return sameDay
+          ? formatClockTime(updated)
+          : formatDateTime(updated);
+  };
 
   const isDraggingDown = dragOffset > 0;
   const scale = isDraggingDown ? Math.max(0.93, 1 - (dragOffset / (typeof window !== 'undefined' ? window.innerHeight * 1.5 : 1000))) : 1;
   const borderRadius = isDraggingDown ? `${Math.min(dragOffset / 5, 40)}px` : (isExpanded ? '0px' : '40px');
 
   // Calculate week min/max for the graph range
-  const weekMax = Math.max(...weather.forecast.map(d => unit === 'C' ? d.max : toF(d.max)));
-  const weekMin = Math.min(...weather.forecast.map(d => unit === 'C' ? d.min : toF(d.min)));
+  const weekMax = Math.max(...weather.forecast.map(d => toTemp(d.max)));
+  const weekMin = Math.min(...weather.forecast.map(d => toTemp(d.min)));
   const range = weekMax - weekMin || 1;
 
   return (
     <>
+    {showTimelapse && timelapse.length > 0 && (
+        <div
+            ref={timelapseRef}
+            role="dialog"
+            aria-modal="true"
+            aria-label={`${t('timelapse.title')} · ${weather.city}`}
+            tabIndex={-1}
+            className="fixed inset-0 z-[100] bg-black flex items-center justify-center animate-in fade-in duration-300 outline-none"
+        >
+            <div className="absolute top-6 left-6 z-50 flex items-center gap-2 px-4 py-2.5 bg-zinc-900/50 backdrop-blur-md rounded-full border border-white/10 text-white text-sm font-bold">
+                <Film className="w-4 h-4 text-purple-400" />
+                {t('timelapse.title')} · {weather.city}
+            </div>
+
+            <button 
+                className="absolute top-6 right-6 p-3 bg-zinc-900/50 hover:bg-zinc-800 text-white rounded-full transition-all z-50 backdrop-blur-md border border-white/10 flex items-center justify-center hover:scale-105 active:scale-95 group"
+                onClick={(e) => { e.stopPropagation(); closeTimelapse(); }}
+                aria-label={t('common.close')}
+            >
+                <X className="w-6 h-6 text-zinc-400 group-hover:text-white" />
+            </button>
+
+            <PanZoomImage
+                src={timelapse[0].url}
+                alt={t('card.fullViewOf', { city: weather.city })}
+                aspectRatio={getImageProfile(timelapse[0]).aspectRatio}
+                frames={timelapse.map(frame => ({ url: frame.url, label: frame.moment ? formatMoment(frame.moment) : '' }))}
+            />
+
+            <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-50 max-w-[90vw] flex flex-col items-center gap-2">
+                {timelapseExportFailed && (
+                    <span className="text-xs font-medium text-red-300">{t('timelapse.exportFailed')}</span>
+                )}
+                <div className="flex items-center gap-2">
+                    {canExportWebp() && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); handleExportTimelapse('webp'); }}
+                            disabled={timelapseExport !== null}
+                            className="flex items-center gap-2 px-5 py-3 bg-zinc-800/50 text-zinc-200 hover:bg-zinc-700 hover:text-white disabled:opacity-50 rounded-full transition-all font-bold text-sm border border-transparent hover:border-white/10"
+                        >
+                            {timelapseExport === 'webp' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+                            <span>{timelapseExport === 'webp' ? t('timelapse.exporting') : t('timelapse.exportWebp')}</span>
+                        </button>
+                    )}
+                    {getVideoMimeType() && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); handleExportTimelapse('video'); }}
+                            disabled={timelapseExport !== null}
+                            className="flex items-center gap-2 px-5 py-3 bg-zinc-800/50 text-zinc-200 hover:bg-zinc-700 hover:text-white disabled:opacity-50 rounded-full transition-all font-bold text-sm border border-transparent hover:border-white/10"
+                        >
+                            {timelapseExport === 'video' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Video className="w-5 h-5" />}
+                            <span>{timelapseExport === 'video' ? t('timelapse.exporting') : t('timelapse.exportVideo')}</span>
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    )}
+
     {showFullImage && (
         <div 
-            className="fixed inset-0 z-[100] bg-black flex items-center justify-center animate-in fade-in duration-300"
+            ref={fullImageRef}
+            role="dialog"
+            aria-modal="true"
+            aria-label={t('card.fullViewOf', { city: weather.city })}
+            tabIndex={-1}
+            className="fixed inset-0 z-[100] bg-black flex items-center justify-center animate-in fade-in duration-300 outline-none"
             // Ensure clicking background DOES NOT close the view. Only Save closes it.
         >
             <button 
                 className="absolute top-6 left-6 px-6 py-3 bg-zinc-100 hover:bg-white text-black rounded-full font-bold transition-all z-50 shadow-[0_0_20px_rgba(255,255,255,0.2)] flex items-center gap-2 hover:scale-105 active:scale-95"
                 onClick={(e) => { e.stopPropagation(); handleSaveFullImage(); }}
-                title="Save & Close"
+                title={t('editor.saveAndClose')}
             >
                 <Check className="w-5 h-5" />
-                <span>Save</span>
+                <span>{t('common.save')}</span>
             </button>
 
             <button 
                 className="absolute top-6 right-6 p-3 bg-zinc-900/50 hover:bg-zinc-800 text-white rounded-full transition-all z-50 backdrop-blur-md border border-white/10 flex items-center justify-center hover:scale-105 active:scale-95 group"
                 onClick={(e) => { e.stopPropagation(); handleCancelFullImage(); }}
-                title="Discard Changes"
+                title={t('editor.discard')}
+                aria-label={t('editor.discard')}
             >
                 <X className="w-6 h-6 text-zinc-400 group-hover:text-white" />
             </button>
@@ -924,15 +1525,94 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
             {/* Interactive Pan/Zoom Image with updated multi-touch support */}
             <PanZoomImage 
                 src={activeImage.url} 
-                alt={`Full view of ${weather.city}`} 
-                initialConfig={image.viewConfig}
+                alt={t('card.fullViewOf', { city: weather.city })} 
+                aspectRatio={imageProfile.aspectRatio}
+                initialConfig={sceneImage.viewConfig}
                 onTransformChange={setCurrentViewConfig}
+                mask={maskTool ? {
+                    tool: maskTool,
+                    brushSize,
+                    canvasRef: maskCanvasRef,
+                    onPaint: () => setHasMask(!!maskCanvasRef.current && !isMaskEmpty(maskCanvasRef.current)),
+                } : undefined}
             />
+
+            {maskTool && !showAdjustInput && !isEditing && (
+                <div
+                    className="absolute bottom-28 left-1/2 -translate-x-1/2 z-50 max-w-[90vw] flex items-center gap-2 bg-zinc-900/80 backdrop-blur-md rounded-full p-1.5 border border-white/10"
+                    role="toolbar"
+                    aria-label={t('mask.title')}
+                >
+                    {(['brush', 'lasso'] as MaskTool[]).map(tool => {
+                        const Icon = tool === 'brush' ? Brush : Lasso;
+                        return (
+                            <button
+                                key={tool}
+                                onClick={(e) => { e.stopPropagation(); setMaskTool(tool); }}
+                                className={`p-2 rounded-full transition-colors ${maskTool === tool ? 'bg-white text-black' : 'text-zinc-400 hover:text-white'}`}
+                                aria-pressed={maskTool === tool}
+                                aria-label={t(`mask.${tool}`)}
+                                title={t(`mask.${tool}`)}
+                            >
+                                <Icon className="w-4 h-4" />
+                            </button>
+                        );
+                    })}
+                    {maskTool === 'brush' && (
+                        <input
+                            type="range"
+                            min={12}
+                            max={160}
+                            value={brushSize}
+                            onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+                            className="w-24 accent-purple-500"
+                            aria-label={t('mask.brushSize')}
+                        />
+                    )}
+                    <div className="w-px h-4 bg-white/10" />
+                    <button
+                        onClick={(e) => { e.stopPropagation(); clearMask(); }}
+                        disabled={!hasMask}
+                        className="p-2 text-zinc-400 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-400 transition-colors"
+                        aria-label={t('mask.clear')}
+                        title={t('mask.clear')}
+                    >
+                        <Eraser className="w-4 h-4" />
+                    </button>
+                    <span className="pr-3 text-[10px] font-bold text-zinc-400 whitespace-nowrap">{t(hasMask ? 'mask.ready' : 'mask.paintHint')}</span>
+                </div>
+            )}
             
+            {showGallery && (
+                <VersionGallery
+                    history={editHistory}
+                    currentId={versionId}
+                    onClose={() => setShowGallery(false)}
+                    onSetCover={setCover}
+                    onBranch={(id) => {
+                        setVersionId(id);
+                        setShowGallery(false);
+                        setShowAdjustInput(true);
+                    }}
+                />
+            )}
+
             {isEditing && (
-                <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black/60 backdrop-blur-sm">
+                <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black/60 backdrop-blur-sm" role="status">
                     <Loader2 className="w-12 h-12 text-purple-400 animate-spin mb-4" />
-                    <span className="text-white font-bold text-lg">Redrawing Scene...</span>
+                    <span className="text-white font-bold text-lg">{t('editor.redrawing')}</span>
+                    {editProgress?.stage === 'queued' && (
+                        <span className="text-zinc-400 text-sm mt-1">{t('editor.queued', { position: editProgress.queuePosition ?? 1 })}</span>
+                    )}
+                    {editProgress?.stage === 'retrying' && (
+                        <span className="text-zinc-400 text-sm mt-1">{t('editor.retrying', { attempt: editProgress.attempt + 1, max: editProgress.maxAttempts })}</span>
+                    )}
+                    <button
+                        onClick={(e) => { e.stopPropagation(); cancelEdit(); }}
+                        className="mt-6 px-5 py-2 bg-white/10 hover:bg-white/20 text-white text-sm font-medium rounded-full border border-white/10 transition-colors"
+                    >
+                        {t('common.cancel')}
+                    </button>
                 </div>
             )}
             
@@ -948,13 +1628,19 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                     >
                          <h3 className="text-lg font-bold text-white mb-2 flex items-center gap-2">
                              <Sparkles className="w-5 h-5 text-purple-400" />
-                             Adjust Scene
+                             {t('editor.adjustScene')}
                          </h3>
-                         <p className="text-sm text-zinc-400 mb-4">Describe what you want to change (e.g. "Add snow", "Make it night", "Add a dragon").</p>
+                         <p className="text-sm text-zinc-400 mb-4">{t('editor.adjustHint')}</p>
+                         {maskTool && hasMask && (
+                             <p className="flex items-center gap-1.5 text-xs font-bold text-purple-300 -mt-2 mb-4">
+                                 <Brush className="w-3.5 h-3.5" />
+                                 {t('mask.onlyRegion')}
+                             </p>
+                         )}
                          
                          <textarea 
                              className="w-full bg-black/40 border border-zinc-700 rounded-xl p-3 text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50 resize-none h-24 mb-4 text-sm font-medium"
-                             placeholder="Enter instructions..."
+                             placeholder={t('editor.adjustPlaceholder')}
                              value={adjustPrompt}
                              onChange={(e) => setAdjustPrompt(e.target.value)}
                              autoFocus
@@ -965,13 +1651,13 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                                  onClick={() => setShowAdjustInput(false)}
                                  className="flex-1 py-2.5 rounded-full font-bold text-sm text-zinc-400 hover:bg-white/5 transition-colors"
                              >
-                                 Cancel
+                                 {t('common.cancel')}
                              </button>
                              <button 
                                  onClick={handleSubmitAdjust}
                                  className="flex-1 py-2.5 rounded-full font-bold text-sm bg-purple-600 text-white hover:bg-purple-500 transition-colors shadow-lg shadow-purple-900/20"
                              >
-                                 Generate Preview
+                                 {t('editor.generatePreview')}
                              </button>
                          </div>
                     </div>
@@ -984,7 +1670,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                         <button 
                             onClick={handleDownload}
                             className="p-3 bg-zinc-800/50 hover:bg-zinc-700 text-zinc-200 hover:text-white rounded-full transition-all hover:scale-105 active:scale-95 border border-transparent hover:border-white/10"
-                            aria-label="Download Wallpaper"
+                            aria-label={t('editor.downloadWallpaper')}
                         >
                             <Download className="w-5 h-5" />
                         </button>
@@ -994,26 +1680,52 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                     <div className="w-px h-6 bg-white/10 mx-1" />
 
                     {/* History Navigation - Only visible if history exists */}
-                    {history.length > 1 && (
+                    {showHistoryNav && (
                         <div className="flex items-center gap-2 bg-zinc-900/80 backdrop-blur-md rounded-full p-1.5 border border-white/10">
                             <button 
-                                disabled={historyIndex === 0} 
-                                onClick={() => setHistoryIndex(i => i-1)}
+                                disabled={!canGoBack} 
+                                onClick={goBack}
                                 className="p-2 text-zinc-400 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-400 transition-colors"
                             > 
                                 <ChevronLeft className="w-5 h-5" /> 
                             </button>
                             <div className="w-px h-4 bg-white/10" />
                             <button 
-                                disabled={historyIndex === history.length - 1} 
-                                onClick={() => setHistoryIndex(i => i+1)}
+                                disabled={!canGoForward} 
+                                onClick={goForward}
                                 className="p-2 text-zinc-400 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-400 transition-colors"
                             > 
                                 <ChevronRight className="w-5 h-5" /> 
                             </button>
+                            {versioned && (
+                                <>
+                                    <div className="w-px h-4 bg-white/10" />
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); setShowGallery(true); }}
+                                        className="p-2 text-zinc-400 hover:text-white transition-colors"
+                                        aria-label={t('versions.title')}
+                                        title={t('versions.title')}
+                                    >
+                                        <GalleryVerticalEnd className="w-5 h-5" />
+                                    </button>
+                                </>
+                            )}
                         </div>
                     )}
 
+                    {/* Region Mask Toggle */}
+                    {onUpdateImage && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); toggleMaskMode(); }}
+                            className={`p-3 rounded-full transition-all hover:scale-105 active:scale-95 border ${maskTool ? 'bg-purple-600 text-white border-purple-400/40' : 'bg-zinc-800/50 text-zinc-200 hover:bg-zinc-700 hover:text-white border-transparent hover:border-white/10'}`}
+                            aria-pressed={!!maskTool}
+                            aria-label={t('mask.title')}
+                            title={t('mask.title')}
+                        >
+                            <Brush className="w-5 h-5" />
+                        </button>
+                    )}
+
                     {/* Adjust Button */}
                     {onUpdateImage && (
                         <div className="relative group">
@@ -1022,7 +1734,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                                 className="flex items-center gap-2 px-5 py-3 bg-zinc-800/50 text-zinc-200 hover:bg-zinc-700 hover:text-white rounded-full transition-all hover:scale-105 active:scale-95 font-bold text-sm border border-transparent hover:border-white/10"
                             >
                                 <Sparkles className="w-5 h-5 text-purple-400" />
-                                <span>Adjust Scene</span>
+                                <span>{t('editor.adjustScene')}</span>
                             </button>
                         </div>
                     )}
@@ -1050,7 +1762,11 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
         onTouchStart={onTouchStart}
         onTouchMove={onTouchMove}
         onTouchEnd={onTouchEnd}
+        aria-busy={!!loading}
     >
+      {isExpanded && (
+          <span className="sr-only" role="status">{loading ? t('a11y.updating', { city: weather.city }) : ''}</span>
+      )}
       <div className={`flex flex-col items-center min-h-full transition-all duration-500 ${isExpanded ? (isPreview ? 'pb-20 pt-4' : 'pb-0 pt-0') : 'pt-0 pb-0 justify-center h-full'}`}>
         
         {isExpanded && (
@@ -1068,7 +1784,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                         className="bg-black/40 backdrop-blur-md px-3 py-2 rounded-full text-white/90 border border-white/10 shadow-lg flex items-center gap-2 hover:bg-black/60 transition-all hover:scale-105 active:scale-95"
                     >
                         <ArrowLeft className="w-5 h-5" />
-                        <span className="text-sm font-semibold pr-1">Return</span>
+                        <span className="text-sm font-semibold pr-1">{t('card.return')}</span>
                     </button>
                 )}
                 {isExpanded && isPreview && (
@@ -1081,7 +1797,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                         }}
                         className="bg-zinc-800/90 backdrop-blur-md px-4 py-2 rounded-full text-zinc-100 shadow-lg flex items-center gap-1 hover:bg-zinc-800 transition-all hover:scale-105 active:scale-95 font-semibold text-sm border border-zinc-700"
                     >
-                        Cancel
+                        {t('common.cancel')}
                     </button>
                 )}
              </div>
@@ -1093,7 +1809,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                         className="bg-blue-600 backdrop-blur-md px-4 py-2 rounded-full text-white shadow-lg flex items-center gap-1.5 hover:bg-blue-500 transition-all hover:scale-105 active:scale-95 font-bold text-sm ring-2 ring-blue-600/20"
                     >
                         <Plus className="w-4 h-4" />
-                        Add
+                        {t('common.add')}
                     </button>
                 )}
              </div>
@@ -1105,27 +1821,38 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                         setShowFullImage(true);
                     }
                 }}
+                {...(isExpanded && {
+                    role: 'button',
+                    tabIndex: 0,
+                    'aria-label': t('a11y.openFullView', { city: weather.city }),
+                    onKeyDown: onActivateKey(() => setShowFullImage(true)),
+                })}
                 className={`relative overflow-hidden bg-zinc-900 transition-all duration-700 ease-out group
                     ${isExpanded 
-                        ? 'w-full max-w-[450px] aspect-[9/16] rounded-[2rem] shadow-2xl ring-4 ring-zinc-800 cursor-zoom-in active:scale-[0.98]' 
+                        ? `w-full ${EXPANDED_FRAME[imageProfile.aspectRatio]} rounded-[2rem] shadow-2xl ring-4 ring-zinc-800 cursor-zoom-in active:scale-[0.98]` 
                         : 'h-full w-full rounded-none ring-0 active:scale-100 cursor-pointer'}
                 `}
              >
                 <div className="absolute inset-0 z-0 bg-zinc-900 overflow-hidden">
                     <img 
                         src={activeImage.url} 
-                        alt={`Weather in ${weather.city}`} 
+                        alt={t('card.weatherIn', { city: weather.city })} 
                         className={`w-full h-full transition-all duration-1000 ${loading ? 'scale-110 blur-sm grayscale-[30%]' : 'scale-100 blur-0'}`}
                         style={{
                             objectFit: 'cover',
-                            transform: image.viewConfig ? `translate(${image.viewConfig.x}px, ${image.viewConfig.y}px) scale(${image.viewConfig.scale})` : 'none'
+                            transform: sceneImage.viewConfig ? `translate(${sceneImage.viewConfig.x}px, ${sceneImage.viewConfig.y}px) scale(${sceneImage.viewConfig.scale})` : 'none'
                         }}
                     />
                     <div className="absolute inset-0 bg-gradient-to-b from-black/50 via-transparent to-black/80 pointer-events-none" />
                 </div>
 
                 {/* Top Section */}
-                <div className="absolute top-0 left-0 right-0 pt-20 px-8 pb-8 z-10 text-white pointer-events-none">
+                <div className={`absolute top-0 left-0 right-0 ${compactOverlay ? 'pt-16 pb-4' : 'pt-20 pb-8'} px-8 z-10 text-white pointer-events-none`}>
+                    {isPinned && (
+                        <p className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest opacity-90 drop-shadow-md mb-1">
+                            <Navigation className="w-3 h-3 fill-current" /> {t('card.myLocation')}
+                        </p>
+                    )}
                     <h1 className="text-4xl font-black tracking-tighter drop-shadow-lg leading-tight">{weather.nativeCity}</h1>
                     {weather.nativeCity !== weather.city && (
                         <p className="text-xl font-medium opacity-80 drop-shadow-md">{weather.city}</p>
@@ -1135,28 +1862,59 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                         <p className="text-sm font-medium opacity-90 drop-shadow-md mt-1">{weather.country}</p>
                     )}
                     <p className="text-sm font-medium opacity-80 drop-shadow-md mt-0.5">
-                        {weather.isFictional ? weather.fictionalDate : weather.date}
+                        {weather.isFictional
+                            ? weather.fictionalDate
+                            : weather.historicalDate
+                                ? formatLongDate(weather.historicalDate)
+                                : (weather.updatedAt ? formatShortDate(weather.updatedAt) : weather.date)}
                     </p>
                 </div>
                 
-                <div className="absolute bottom-0 left-0 right-0 p-8 z-10 text-white pointer-events-none">
+                <div className={`absolute bottom-0 left-0 right-0 ${compactOverlay ? 'p-6' : 'p-8'} z-10 text-white pointer-events-none`}>
                     {!loading && !isPreview && !weather.isFictional && (
                         <div 
                             className="inline-flex bg-black/40 backdrop-blur-md px-2 py-1 rounded-full border border-white/10 shadow-sm items-center gap-1.5 cursor-help transition-colors hover:bg-black/60 mb-2 pointer-events-auto"
-                            title="Image reflects weather conditions at generation time, not current local time."
+                            title={t('card.imageTimeHint')}
                         >
                              <span className="text-[10px] font-medium text-white/90">{formattedTime}</span>
                              {isOutdated && <div className="w-1.5 h-1.5 rounded-full bg-red-400" />}
                         </div>
                     )}
 
+                    {showStaleData && (
+                        <div
+                            className="flex w-fit bg-amber-500/20 backdrop-blur-md px-2 py-1 rounded-full border border-amber-400/30 shadow-sm items-center gap-1.5 mb-2 pointer-events-auto"
+                            title={t(isOffline ? 'card.offlineHint' : 'card.staleHint')}
+                        >
+                             {isOffline ? <WifiOff className="w-3 h-3 text-amber-200" /> : <Clock className="w-3 h-3 text-amber-200" />}
+                             <span className="text-[10px] font-medium text-amber-100">
+                                 {isOffline ? t('card.offlinePrefix') : ''}{t('card.updatedAt', { time: formatUpdatedAt(weather.updatedAt!) })}
+                                 {refreshQueued && t('card.refreshQueued')}
+                             </span>
+                        </div>
+                    )}
+
+                    {imageProfile.draft && (
+                        <div className="flex w-fit bg-white/15 backdrop-blur-md px-2 py-1 rounded-full border border-white/20 shadow-sm items-center gap-1.5 mb-2" title={t('profile.draftTitle')}>
+                             <Zap className="w-3 h-3 text-white" />
+                             <span className="text-[10px] font-medium text-white/90">{t('profile.draft')}</span>
+                        </div>
+                    )}
+
+                    {selectedVariant?.moment && (
+                        <div className="flex w-fit bg-purple-500/20 backdrop-blur-md px-2 py-1 rounded-full border border-purple-400/30 shadow-sm items-center gap-1.5 mb-2">
+                             <Sparkles className="w-3 h-3 text-purple-200" />
+                             <span className="text-[10px] font-medium text-purple-100">{t('scenes.forecastFor', { moment: formatMoment(selectedVariant.moment) })}</span>
+                        </div>
+                    )}
+
                     <div className="flex items-end justify-between">
                         <div>
-                            <div className="text-6xl font-black tracking-tighter drop-shadow-xl leading-none">
-                                {displayTemp}°{unit}
+                            <div className={`${compactOverlay ? 'text-5xl' : 'text-6xl'} font-black tracking-tighter drop-shadow-xl leading-none`}>
+                                {displayTemp}°{units.temperature}
                             </div>
                             <div className="text-xl font-medium mt-2 drop-shadow-md flex items-center gap-2">
-                                {weather.condition}
+                                {weather.isFictional ? weather.condition : getConditionLabel(sceneForecast ? sceneForecast.weatherCode : weather.weatherCode)}
                             </div>
                         </div>
                     </div>
@@ -1168,7 +1926,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                             onClick={(e) => { e.stopPropagation(); onRefresh(); }}
                             disabled={loading}
                             className={`bg-white/10 backdrop-blur-md p-3 rounded-full border border-white/10 shadow-lg text-white hover:bg-white/20 transition-all hover:scale-105 active:scale-95 ${loading ? 'cursor-wait opacity-50' : ''}`}
-                            title="Refresh image and weather"
+                            title={t('card.refresh')}
                         >
                              <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
                         </button>
@@ -1185,57 +1943,120 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
 
         {isExpanded && (
             <div className="w-full max-w-[450px] px-4 z-10 space-y-4 animate-in slide-in-from-bottom-10 fade-in duration-500 pb-4">
+                {/* Scene switcher: "now" plus the forecast scenes drawn for this card */}
+                {variants.length > 0 && (
+                    <div className="flex gap-2 overflow-x-auto scrollbar-hide px-1" role="tablist" aria-label={t('scenes.title')}>
+                        <button
+                            role="tab"
+                            aria-selected={!selectedVariant}
+                            onClick={(e) => { e.stopPropagation(); setSceneKey(null); }}
+                            className={`shrink-0 px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${!selectedVariant ? 'bg-white text-black border-white' : 'bg-zinc-900 text-zinc-400 border-zinc-800 hover:text-white hover:border-zinc-700'}`}
+                        >
+                            {t('scenes.now')}
+                        </button>
+                        {variants.map(variant => {
+                            if (!variant.moment) return null;
+                            const key = momentKey(variant.moment);
+                            const isSelected = selectedVariant === variant;
+                            return (
+                                <div
+                                    key={key}
+                                    className={`shrink-0 flex items-center rounded-full text-xs font-bold border transition-all ${isSelected ? 'bg-white text-black border-white' : 'bg-zinc-900 text-zinc-400 border-zinc-800 hover:text-white hover:border-zinc-700'}`}
+                                >
+                                    <button
+                                        role="tab"
+                                        aria-selected={isSelected}
+                                        onClick={(e) => { e.stopPropagation(); setSceneKey(key); }}
+                                        className={`py-1.5 ${isSelected && onUpdateVariants ? 'pl-3 pr-1' : 'px-3'}`}
+                                    >
+                                        {formatMoment(variant.moment)}
+                                    </button>
+                                    {isSelected && onUpdateVariants && (
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                setSceneKey(null);
+                                                onUpdateVariants(variants.filter(v => v !== variant));
+                                            }}
+                                            className="p-1 mr-1 rounded-full hover:bg-black/10 transition-colors"
+                                            title={t('scenes.remove')}
+                                            aria-label={t('scenes.remove')}
+                                        >
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
                 <div className="flex justify-between items-center px-1">
                     <h2 className="text-xs font-bold text-zinc-400 uppercase tracking-widest flex items-center gap-2">
                         {weather.isFictional ? (
-                            <span className="text-purple-400 flex items-center gap-2"><FlaskConical className="w-4 h-4" /> Physical Simulation</span>
+                            <span className="text-purple-400 flex items-center gap-2"><FlaskConical className="w-4 h-4" /> {t('card.simulation')}</span>
+                        ) : weather.historicalDate ? (
+                            <span className="text-amber-300 flex items-center gap-2"><CalendarClock className="w-4 h-4" /> {t('card.archived')}</span>
                         ) : (
-                            "Live Forecast"
+                            t('card.liveForecast')
                         )}
                     </h2>
-                    <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-0.5 flex items-center">
-                        <button 
-                            onClick={(e) => { e.stopPropagation(); setUnit('C'); }}
-                            className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${unit === 'C' ? 'bg-zinc-700 text-white shadow-sm' : 'text-zinc-500 hover:text-zinc-300'}`}
-                        >
-                            °C
-                        </button>
-                        <div className="w-px h-3 bg-zinc-800 mx-0.5" />
+                    {onOpenPreferences && (
                         <button 
-                            onClick={(e) => { e.stopPropagation(); setUnit('F'); }}
-                            className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${unit === 'F' ? 'bg-zinc-700 text-white shadow-sm' : 'text-zinc-500 hover:text-zinc-300'}`}
+                            onClick={(e) => { e.stopPropagation(); onOpenPreferences(); }}
+                            className="bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-1 flex items-center gap-1.5 text-xs font-bold text-zinc-400 hover:text-white hover:border-zinc-700 transition-all"
+                            title={t('card.changeUnits')}
                         >
-                            °F
+                            <SlidersHorizontal className="w-3 h-3" />
+                            °{units.temperature} · {windUnit}
                         </button>
-                    </div>
+                    )}
                 </div>
                 
+                {/* Alerts */}
+                {alerts.length > 0 && (
+                    <div role="alert" className="space-y-2">
+                        {alerts.map((alert: WeatherAlert) => {
+                            const Icon = ALERT_ICONS[alert.kind];
+                            const isWarning = alert.severity === 'warning';
+                            const peakKey = alert.kind === 'cold' || alert.kind === 'fog' ? 'alerts.lowest' : 'alerts.peak';
+                            return (
+                                <div
+                                    key={alert.id}
+                                    className={`flex items-center gap-3 p-4 rounded-2xl border backdrop-blur-xl ${isWarning ? 'bg-red-500/10 border-red-500/30 text-red-200' : 'bg-amber-500/10 border-amber-500/30 text-amber-200'}`}
+                                >
+                                    <div className={`p-2 rounded-xl ${isWarning ? 'bg-red-500/20 text-red-400' : 'bg-amber-500/20 text-amber-400'}`}>
+                                        <Icon className="w-5 h-5" />
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <div className="text-sm font-bold text-white">
+                                            {t('alerts.title', { kind: t(`alerts.kind.${alert.kind}`), severity: t(`alerts.severity.${alert.severity}`) })}
+                                        </div>
+                                        <div className="text-xs opacity-80">{formatAlertWindow(alert)}</div>
+                                    </div>
+                                    <div className="text-xs font-bold whitespace-nowrap">
+                                        {t(peakKey, { value: formatAlertValue(alert.kind, alert.peak, units) })}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
                 {/* Hourly Forecast */}
                 <div className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5 overflow-hidden">
                     <div className="flex gap-4 overflow-x-auto pb-2 scrollbar-hide">
                         {weather.hourlyForecast.map((hour, i) => {
-                            const temp = unit === 'F' ? toF(hour.temp) : hour.temp;
+                            const temp = toTemp(hour.temp);
                             return (
                                 <div key={i} className="flex flex-col items-center min-w-[3.5rem] gap-2 cursor-pointer hover:bg-white/5 rounded-2xl p-2 transition-all active:scale-95"
-                                    onClick={() => setSelectedMetric({
-                                        title: "Hourly Forecast",
-                                        value: `${hour.time}`,
-                                        subValue: `${temp}°`,
-                                        description: `Conditions: ${hour.pop}% chance of rain.`,
-                                        icon: getWeatherIcon(hour.code, "w-6 h-6"),
-                                        insights: [
-                                            { label: "Precipitation", text: `${hour.pop}% chance.` },
-                                            { label: "Trend", text: "Hourly progression." }
-                                        ],
-                                        chart: <AreaChart 
-                                            data={weather.hourlyForecast.map(h => unit === 'C' ? h.temp : toF(h.temp))} 
-                                            labels={weather.hourlyForecast.map(h => h.time)} 
-                                            color="#60a5fa" 
-                                            unit="°" 
-                                        />
-                                    })}
+                                    role="button"
+                                    tabIndex={0}
+                                    aria-label={`${formatHour(hour.rawTime)}, ${temp}°, ${hour.pop}%`}
+                                    onClick={() => handleHourlyClick(hour)}
+                                    onKeyDown={onActivateKey(() => handleHourlyClick(hour))}
                                 >
-                                    <span className="text-[10px] font-bold text-zinc-500 whitespace-nowrap uppercase tracking-wide">{hour.time}</span>
+                                    <span className="text-[10px] font-bold text-zinc-500 whitespace-nowrap uppercase tracking-wide">{formatHour(hour.rawTime)}</span>
                                     {getWeatherIcon(hour.code, "w-6 h-6")}
                                     <span className="text-lg font-black text-zinc-200">{temp}°</span>
                                     <div className="text-[10px] font-bold text-blue-400 flex items-center bg-blue-500/10 px-1.5 py-0.5 rounded-md">
@@ -1252,11 +2073,9 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                 <div className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5">
                     <div className="space-y-1">
                         {weather.forecast.map((day, idx) => {
-                            const isToday = idx === 0;
-                            const max = unit === 'C' ? day.max : toF(day.max);
-                            const min = unit === 'C' ? day.min : toF(day.min);
-                            const rain = unit === 'C' ? day.rainSum : toInches(day.rainSum);
-                            const rainUnit = unit === 'C' ? 'mm' : 'in';
+                            const isToday = idx === 0 && !weather.historicalDate;
+                            const max = toTemp(day.max);
+                            const min = toTemp(day.min);
 
                             // Range Bar Calc
                             const leftPct = ((min - weekMin) / range) * 100;
@@ -1266,10 +2085,13 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                                 <div 
                                     key={idx} 
                                     className="flex items-center justify-between cursor-pointer hover:bg-white/5 p-3 rounded-2xl transition-colors group"
+                                    role="button"
+                                    tabIndex={0}
                                     onClick={() => handleDailyClick(day)}
+                                    onKeyDown={onActivateKey(() => handleDailyClick(day))}
                                 >
                                     <div className={`w-16 text-sm font-bold ${isToday ? 'text-blue-400' : 'text-zinc-400'}`}>
-                                        {isToday ? 'Today' : day.date}
+                                        {isToday ? t('common.today') : formatWeekday(day.rawDate)}
                                     </div>
                                     <div className="w-8 flex justify-center opacity-80 group-hover:opacity-100 transition-opacity">
                                          {getWeatherIcon(day.code, "w-5 h-5")}
@@ -1291,6 +2113,51 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                     </div>
                 </div>
 
+                {/* Timelapse across the next 24 hours */}
+                {onGenerateTimelapse && !weather.isFictional && !weather.historicalDate && (
+                    <TimelapsePanel
+                        weather={weather}
+                        frames={timelapse}
+                        progress={timelapseProgress}
+                        disabled={loading || !image.base64}
+                        onGenerate={onGenerateTimelapse}
+                        onCancel={onCancelTimelapse}
+                        onPlay={() => setShowTimelapse(true)}
+                    />
+                )}
+
+                {/* Scene format: shape and draft/full resolution */}
+                {onChangeProfile && (
+                    <OutputProfilePanel
+                        key={`${profile.aspectRatio}-${profile.draft}`}
+                        profile={profile}
+                        imageProfile={getImageProfile(image)}
+                        disabled={loading}
+                        onApply={onChangeProfile}
+                    />
+                )}
+
+                {/* Past Weather */}
+                {onShowDate && !weather.isFictional && (
+                    <HistoricalDatePicker
+                        key={weather.historicalDate || 'live'}
+                        historicalDate={weather.historicalDate}
+                        disabled={loading}
+                        onShowDate={onShowDate}
+                    />
+                )}
+
+                {/* Notification Rules (archived days have nothing left to notify about) */}
+                {onUpdateNotificationRules && !weather.isFictional && !weather.historicalDate && (
+                    <NotificationRules
+                        rules={notificationRules}
+                        units={units}
+                        notificationsEnabled={notificationsEnabled}
+                        onChange={onUpdateNotificationRules}
+                        onOpenPreferences={onOpenPreferences}
+                    />
+                )}
+
                 <div className="grid grid-cols-2 gap-3">
                     {/* CUSTOM LORE METRICS */}
                     {weather.customMetrics?.map((metric, idx) => (
@@ -1299,7 +2166,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                                 <Zap className="w-3.5 h-3.5" /> {metric.label}
                             </div>
                             <p className="text-sm font-bold text-zinc-200 mb-1 leading-snug">{metric.value}</p>
-                            <p className="text-[10px] text-zinc-500 font-medium mt-2">Unique to this world</p>
+                            <p className="text-[10px] text-zinc-500 font-medium mt-2">{t('card.uniqueToWorld')}</p>
                         </div>
                     ))}
 
@@ -1307,42 +2174,45 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                     {weather.isFictional && weather.fictionalNews && weather.fictionalNews.length > 0 && (
                         <div 
                             className="bg-blue-900/20 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-blue-500/20 col-span-2 group cursor-pointer hover:bg-blue-900/30 transition-all"
+                            role="button"
+                            tabIndex={0}
                             onClick={() => setShowNewsModal(true)}
+                            onKeyDown={onActivateKey(() => setShowNewsModal(true))}
                         >
                              <div className="flex items-center gap-2 mb-3 text-blue-400 text-xs font-bold uppercase tracking-widest">
-                                <Newspaper className="w-3.5 h-3.5" /> World Events
+                                <Newspaper className="w-3.5 h-3.5" /> {t('card.worldEvents')}
                             </div>
                             <p className="text-sm font-bold text-zinc-200 mb-1 leading-tight">{weather.fictionalNews[0].headline}</p>
                             {/* Shorten content for card view */}
                             <p className="text-xs text-zinc-400 font-medium mt-1 line-clamp-2">{weather.fictionalNews[0].content}</p>
                             <div className="mt-4 text-[10px] text-blue-400 font-bold uppercase tracking-wide flex items-center gap-1">
-                                Read Full Story <ArrowRight className="w-3 h-3" />
+                                {t('card.readFullStory')} <ArrowRight className="w-3 h-3" />
                             </div>
                         </div>
                     )}
 
-                    <div onClick={() => openDetail("Feels Like")}
+                    <div role="button" tabIndex={0} onClick={() => openDetail("Feels Like")} onKeyDown={onActivateKey(() => openDetail("Feels Like"))}
                         className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5 cursor-pointer hover:border-white/10 active:scale-[0.98] transition-all group">
                         <div className="flex items-center gap-2 mb-3 text-zinc-500 text-xs font-bold uppercase tracking-widest group-hover:text-zinc-400 transition-colors">
-                            <Thermometer className="w-3.5 h-3.5" /> Feels Like
+                            <Thermometer className="w-3.5 h-3.5" /> {t('metric.feelsLike')}
                         </div>
-                        <p className="text-2xl font-black text-zinc-100 mb-1">{unit === 'F' ? toF(weather.feelsLike) : weather.feelsLike}°</p>
+                        <p className="text-2xl font-black text-zinc-100 mb-1">{toTemp(weather.feelsLike)}°</p>
                         <p className="text-xs text-zinc-400 font-medium leading-relaxed">{getBriefSummary('Feels Like', weather.feelsLike)}</p>
                     </div>
 
-                    <div onClick={() => openDetail("Humidity")}
+                    <div role="button" tabIndex={0} onClick={() => openDetail("Humidity")} onKeyDown={onActivateKey(() => openDetail("Humidity"))}
                         className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5 cursor-pointer hover:border-white/10 active:scale-[0.98] transition-all group">
                         <div className="flex items-center gap-2 mb-3 text-zinc-500 text-xs font-bold uppercase tracking-widest group-hover:text-zinc-400 transition-colors">
-                            <Droplets className="w-3.5 h-3.5" /> Humidity
+                            <Droplets className="w-3.5 h-3.5" /> {t('metric.humidity')}
                         </div>
                         <p className="text-2xl font-black text-zinc-100 mb-1">{weather.humidity}%</p>
                         <p className="text-xs text-zinc-400 font-medium leading-relaxed">{getBriefSummary('Humidity', weather.humidity)}</p>
                     </div>
 
-                    <div onClick={() => openDetail("UV Index")}
+                    <div role="button" tabIndex={0} onClick={() => openDetail("UV Index")} onKeyDown={onActivateKey(() => openDetail("UV Index"))}
                         className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5 cursor-pointer hover:border-white/10 active:scale-[0.98] transition-all group">
                         <div className="flex items-center gap-2 mb-3 text-zinc-500 text-xs font-bold uppercase tracking-widest group-hover:text-zinc-400 transition-colors">
-                            <Sun className="w-3.5 h-3.5" /> UV Index
+                            <Sun className="w-3.5 h-3.5" /> {t('metric.uvIndex')}
                         </div>
                         <p className="text-2xl font-black text-zinc-100 mb-1">{weather.uvIndex}</p>
                         <p className="text-xs text-zinc-400 font-medium leading-relaxed">{getBriefSummary('UV Index', weather.uvIndex)}</p>
@@ -1351,71 +2221,71 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                         </div>
                     </div>
 
-                    <div onClick={() => openDetail("Visibility")}
+                    <div role="button" tabIndex={0} onClick={() => openDetail("Visibility")} onKeyDown={onActivateKey(() => openDetail("Visibility"))}
                         className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5 cursor-pointer hover:border-white/10 active:scale-[0.98] transition-all group">
                         <div className="flex items-center gap-2 mb-3 text-zinc-500 text-xs font-bold uppercase tracking-widest group-hover:text-zinc-400 transition-colors">
-                            <Eye className="w-3.5 h-3.5" /> Visibility
+                            <Eye className="w-3.5 h-3.5" /> {t('metric.visibility')}
                         </div>
                         <p className="text-2xl font-black text-zinc-100 mb-1">
-                             {unit === 'F' ? toMiles(weather.visibility) : weather.visibility} 
-                             <span className="text-sm font-bold text-zinc-500 ml-1">{unit === 'F' ? 'mi' : 'km'}</span>
+                             {convertDistance(weather.visibility, units.distance)} 
+                             <span className="text-sm font-bold text-zinc-500 ml-1">{distanceUnit}</span>
                         </p>
                          <p className="text-xs text-zinc-400 font-medium leading-relaxed">{getBriefSummary('Visibility', weather.visibility)}</p>
                     </div>
 
-                    <div onClick={() => openDetail("Precipitation")}
+                    <div role="button" tabIndex={0} onClick={() => openDetail("Precipitation")} onKeyDown={onActivateKey(() => openDetail("Precipitation"))}
                         className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5 cursor-pointer hover:border-white/10 active:scale-[0.98] transition-all group">
                         <div className="flex items-center gap-2 mb-3 text-zinc-500 text-xs font-bold uppercase tracking-widest group-hover:text-zinc-400 transition-colors">
-                            <Umbrella className="w-3.5 h-3.5" /> Precip
+                            <Umbrella className="w-3.5 h-3.5" /> {t('metric.precipShort')}
                         </div>
                         <p className="text-2xl font-black text-zinc-100 mb-1">
-                            {unit === 'F' ? toInches(weather.precipitation) : weather.precipitation}
-                            <span className="text-sm font-bold text-zinc-500 ml-1">{unit === 'F' ? 'in' : 'mm'}</span>
+                            {convertPrecipitation(weather.precipitation, units.precipitation)}
+                            <span className="text-sm font-bold text-zinc-500 ml-1">{precipUnit}</span>
                         </p>
                         <p className="text-xs text-zinc-400 font-medium leading-relaxed">{getBriefSummary('Precipitation', weather.precipitation)}</p>
                     </div>
 
-                    <div onClick={() => openDetail("Cloud Cover")}
+                    <div role="button" tabIndex={0} onClick={() => openDetail("Cloud Cover")} onKeyDown={onActivateKey(() => openDetail("Cloud Cover"))}
                         className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5 cursor-pointer hover:border-white/10 active:scale-[0.98] transition-all group">
                         <div className="flex items-center gap-2 mb-3 text-zinc-500 text-xs font-bold uppercase tracking-widest group-hover:text-zinc-400 transition-colors">
-                            <Cloud className="w-3.5 h-3.5" /> Clouds
+                            <Cloud className="w-3.5 h-3.5" /> {t('metric.clouds')}
                         </div>
                         <p className="text-2xl font-black text-zinc-100 mb-1">{weather.cloudCover}%</p>
                         <p className="text-xs text-zinc-400 font-medium leading-relaxed">{getBriefSummary('Cloud Cover', weather.cloudCover)}</p>
                     </div>
 
-                     <div onClick={() => openDetail("Pressure")}
+                     <div role="button" tabIndex={0} onClick={() => openDetail("Pressure")} onKeyDown={onActivateKey(() => openDetail("Pressure"))}
                         className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5 cursor-pointer hover:border-white/10 active:scale-[0.98] transition-all group">
                         <div className="flex items-center gap-2 mb-3 text-zinc-500 text-xs font-bold uppercase tracking-widest group-hover:text-zinc-400 transition-colors">
-                            <Gauge className="w-3.5 h-3.5" /> Pressure
+                            <Gauge className="w-3.5 h-3.5" /> {t('metric.pressure')}
                         </div>
                         <p className="text-2xl font-black text-zinc-100 mb-1">
-                             {unit === 'F' ? toInHg(weather.pressure) : weather.pressure}
-                             <span className="text-sm font-bold text-zinc-500 ml-1">{unit === 'F' ? 'inHg' : 'hPa'}</span>
+                             {convertPressure(weather.pressure, units.pressure)}
+                             <span className="text-sm font-bold text-zinc-500 ml-1">{pressureUnit}</span>
                         </p>
                         <p className="text-xs text-zinc-400 font-medium leading-relaxed">{getBriefSummary('Pressure', weather.pressure)}</p>
                     </div>
 
-                     <div onClick={() => openDetail("Dew Point")}
+                     <div role="button" tabIndex={0} onClick={() => openDetail("Dew Point")} onKeyDown={onActivateKey(() => openDetail("Dew Point"))}
                         className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5 cursor-pointer hover:border-white/10 active:scale-[0.98] transition-all group">
                         <div className="flex items-center gap-2 mb-3 text-zinc-500 text-xs font-bold uppercase tracking-widest group-hover:text-zinc-400 transition-colors">
-                            <CloudDrizzle className="w-3.5 h-3.5" /> Dew Point
+                            <CloudDrizzle className="w-3.5 h-3.5" /> {t('metric.dewPoint')}
                         </div>
-                        <p className="text-2xl font-black text-zinc-100 mb-1">{unit === 'F' ? toF(weather.dewPoint) : weather.dewPoint}°</p>
+                        <p className="text-2xl font-black text-zinc-100 mb-1">{toTemp(weather.dewPoint)}°</p>
                         <p className="text-xs text-zinc-400 font-medium leading-relaxed">{getBriefSummary('Dew Point', weather.dewPoint)}</p>
                     </div>
 
-                    <div onClick={() => openDetail("Wind")}
+                    <div role="button" tabIndex={0} onClick={() => openDetail("Wind")} onKeyDown={onActivateKey(() => openDetail("Wind"))}
                         className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5 col-span-2 cursor-pointer hover:border-white/10 active:scale-[0.98] transition-all group relative overflow-hidden">
                         <div className="relative z-10 flex justify-between items-start pr-16">
                             <div>
                                 <div className="flex items-center gap-2 mb-3 text-zinc-500 text-xs font-bold uppercase tracking-widest group-hover:text-zinc-400 transition-colors">
-                                    <Wind className="w-3.5 h-3.5" /> Wind
+                                    <Wind className="w-3.5 h-3.5" /> {t('metric.wind')}
                                 </div>
                                 <div className="flex items-baseline gap-2 mb-1">
                                     <p className="text-2xl font-black text-zinc-100">
-                                        {unit === 'F' ? toMph(weather.windSpeed) : weather.windSpeed} 
-                                        <span className="text-sm font-bold text-zinc-500 ml-1">{unit === 'F' ? 'mph' : 'km/h'}</span>
+                                        {convertWind(weather.windSpeed, units.wind)} 
+                                        <span className="text-sm font-bold text-zinc-500 ml-1">{windUnit}</span>
                                     </p>
                                     <span className="text-xs font-bold text-blue-400 bg-blue-500/10 border border-blue-500/20 px-2 py-0.5 rounded-md">{weather.windDirection}</span>
                                 </div>
@@ -1442,27 +2312,27 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                         </div>
                     </div>
 
-                    <div onClick={() => openDetail("Air Quality")}
+                    <div role="button" tabIndex={0} onClick={() => openDetail("Air Quality")} onKeyDown={onActivateKey(() => openDetail("Air Quality"))}
                         className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5 col-span-2 cursor-pointer hover:border-white/10 active:scale-[0.98] transition-all group">
                         <div className="flex items-center gap-2 mb-3 text-zinc-500 text-xs font-bold uppercase tracking-widest group-hover:text-zinc-400 transition-colors">
-                            <Activity className="w-3.5 h-3.5" /> Air Quality
+                            <Activity className="w-3.5 h-3.5" /> {t('metric.airQuality')}
                         </div>
                         <p className="text-2xl font-black text-zinc-100 mb-1">{weather.airQuality}</p>
                         <p className="text-xs text-zinc-400 font-medium leading-relaxed">{getBriefSummary('Air Quality', 0)}</p>
                     </div>
                     
                     <div className="bg-zinc-900/60 backdrop-blur-xl p-5 rounded-[2rem] shadow-lg border border-white/5 col-span-2 flex justify-between">
-                        <div className="cursor-pointer flex-1 pr-6 border-r border-white/5" onClick={() => openDetail("Sunrise")}>
+                        <div className="cursor-pointer flex-1 pr-6 border-r border-white/5" role="button" tabIndex={0} onClick={() => openDetail("Sunrise")} onKeyDown={onActivateKey(() => openDetail("Sunrise"))}>
                             <div className="flex items-center gap-2 mb-2 text-zinc-500 text-xs font-bold uppercase tracking-widest group-hover:text-zinc-400 transition-colors">
-                                <Sunrise className="w-3.5 h-3.5 text-orange-400" /> Sunrise
+                                <Sunrise className="w-3.5 h-3.5 text-orange-400" /> {t('metric.sunrise')}
                             </div>
-                            <p className="text-xl font-black text-zinc-100">{weather.sunrise}</p>
+                            <p className="text-xl font-black text-zinc-100">{formatTimeOfDay(weather.sunrise)}</p>
                         </div>
-                        <div className="cursor-pointer flex-1 pl-6" onClick={() => openDetail("Sunset")}>
+                        <div className="cursor-pointer flex-1 pl-6" role="button" tabIndex={0} onClick={() => openDetail("Sunset")} onKeyDown={onActivateKey(() => openDetail("Sunset"))}>
                             <div className="flex items-center gap-2 mb-2 text-zinc-500 text-xs font-bold uppercase tracking-widest group-hover:text-zinc-400 transition-colors">
-                                <Sunset className="w-3.5 h-3.5 text-indigo-400" /> Sunset
+                                <Sunset className="w-3.5 h-3.5 text-indigo-400" /> {t('metric.sunset')}
                             </div>
-                            <p className="text-xl font-black text-zinc-100">{weather.sunset}</p>
+                            <p className="text-xl font-black text-zinc-100">{formatTimeOfDay(weather.sunset)}</p>
                         </div>
                     </div>
                 </div>
@@ -1479,8 +2349,10 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
             icon={selectedMetric.icon}
             insights={selectedMetric.insights}
             chart={selectedMetric.chart}
-            onClose={() => setSelectedMetric(null)}
+            action={selectedMetric.action}
+            onClose={closeDetail}
             isFictional={weather.isFictional}
+            source={weather.source}
           />
       )}
     </div>
@@ -1,10 +1,13 @@
 import React from 'react';
+import { useReducedMotion } from '../services/a11y';
 
 interface WeatherEffectsProps {
   condition: string;
 }
 
 export const WeatherEffects: React.FC<WeatherEffectsProps> = ({ condition }) => {
+  const reducedMotion = useReducedMotion();
+
   const getEffectType = (c: string) => {
     const lower = c.toLowerCase();
     if (lower.includes('rain') || lower.includes('drizzle') || lower.includes('shower')) return 'rain';
@@ -34,8 +37,20 @@ export const WeatherEffects: React.FC<WeatherEffectsProps> = ({ condition }) =>
 
   if (effect === 'none' && !isWindy) return null;
 
+  // Reduced motion: keep the tint (and the sun's glow) but drop the falling, drifting and flashing layers
+  if (reducedMotion) {
+    return (
+      <div className="absolute inset-0 z-10 pointer-events-none overflow-hidden" aria-hidden="true">
+        <div className={`absolute inset-0 ${getMoodColor()}`} />
+        {effect === 'sun' && (
+          <div className="absolute top-[-10%] right-[-10%] w-[500px] h-[500px] bg-gradient-to-br from-yellow-300/30 via-orange-100/10 to-transparent blur-[100px] rounded-full mix-blend-screen" />
+        )}
+      </div>
+    );
+  }
+
   return (
-    <div className="absolute inset-0 z-10 pointer-events-none overflow-hidden">
+    <div className="absolute inset-0 z-10 pointer-events-none overflow-hidden" aria-hidden="true">
       
       {/* Mood Overlay: Tints the scene to match the weather */}
       <div className={`absolute inset-0 transition-colors duration-1000 ${getMoodColor()}`} />
@@ -0,0 +1,583 @@
+// English source catalog. Its keys define MessageKey; every other locale must provide the
+// same keys (enforced by the Messages type). `{name}` placeholders are filled in by t().
+
+export const en = {
+  // --- Common ---
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.add': 'Add',
+  'common.back': 'Back',
+  'common.today': 'Today',
+
+  // --- App shell ---
+  'app.createFictional': 'Create Fictional World',
+  'app.preferences': 'Preferences',
+  'app.removeCard': 'Remove card',
+  'app.errorTitle': 'Oops!',
+  'app.tryAnotherCity': 'Try another city',
+  'app.fantasyFailed': 'Failed to construct fantasy world. The simulation grid may be unstable.',
+
+  // --- Search ---
+  'search.placeholder': 'Search city or coordinates...',
+  'search.noResults': 'No places match "{query}"',
+  'search.useMyLocation': 'Use my location',
+  'search.previousPage': 'Previous results',
+  'search.nextPage': 'More results',
+  'search.pageRange': '{from}–{to} of {total}',
+  'search.favorites': 'Favorites',
+  'search.recent': 'Recent',
+  'search.results': 'Results',
+  'search.favorite': 'Add to favorites',
+  'search.unfavorite': 'Remove from favorites',
+  'search.removeRecent': 'Remove from recent searches',
+
+  // --- Weather service errors ---
+  'error.rateLimitedFor': 'The weather service is busy. Please try again in {seconds} seconds.',
+  'error.rateLimited': 'The weather service is busy right now. Please wait a minute and try again.',
+  'error.serverDown': 'The weather service is temporarily unavailable. Please try again shortly.',
+  'error.offline': 'You appear to be offline. Check your connection and try again.',
+  'error.network': "Couldn't reach the weather service. Check your connection and try again.",
+  'error.malformed': "The weather service sent data we couldn't read. Please try again, or pick another city.",
+  'error.noResults': 'Nothing found for "{query}". Try a different spelling or a nearby larger city.',
+  'error.locationDenied': 'Location access was denied. Allow it in your browser settings to use My Location.',
+  'error.locationTimeout': 'Finding your location took too long. Please try again.',
+  'error.locationUnsupported': 'This browser cannot share your location.',
+  'error.locationUnavailable': "Your location isn't available right now. Please try again.",
+  'error.generic': 'Something went wrong.',
+
+  // --- Loading screen ---
+  'loading.title': 'Constructing World',
+  'loading.fetching': 'Processing location data...',
+  'loading.constructing': 'Constructing simulation...',
+  'loading.queued': 'Waiting for a render slot (#{position} in queue)',
+  'loading.rendering': 'Rendering scene...',
+  'loading.renderingAttempt': 'Rendering scene (attempt {attempt} of {max})...',
+  'loading.retrying': 'Service busy, retrying in {seconds}s (attempt {attempt} of {max})',
+  'loading.failed': 'Rendering failed.',
+  'loading.finalizing': 'Finalizing scene composition...',
+  'loading.elapsed': '{seconds}s elapsed',
+
+  // --- Preferences ---
+  'prefs.title': 'Preferences',
+  'prefs.language': 'Language',
+  'prefs.units': 'Units',
+  'prefs.temperature': 'Temperature',
+  'prefs.wind': 'Wind',
+  'prefs.pressure': 'Pressure',
+  'prefs.distance': 'Distance',
+  'prefs.precipitation': 'Precipitation',
+  'prefs.backgroundRefresh': 'Background Refresh',
+  'prefs.refreshEvery': 'Update saved cards every',
+  'prefs.search': 'Search',
+  'prefs.searchResults': 'Results per search',
+  'prefs.searchHint': 'Also accepts coordinates (35.68, 139.69), plus codes and geohashes.',
+  'prefs.beaufort': 'Beaufort',
+  'prefs.knots': 'knots',
+  'prefs.alerts': 'Weather Alerts',
+  'prefs.alertsHint': 'Trigger level for an advisory. Warnings kick in at a higher level.',
+  'prefs.off': 'Off',
+  'prefs.on': 'On',
+  'prefs.notifications': 'Notifications',
+  'prefs.notificationsHint': 'Checked on the refresh schedule using each card\'s rules.',
+  'prefs.notificationsEnabled': 'Browser notifications',
+  'prefs.notificationsBlocked': 'Notifications are blocked for this site. Allow them in your browser settings.',
+  'prefs.notificationsUnsupported': 'This browser does not support notifications.',
+  'prefs.quietHours': 'Quiet hours',
+
+  // --- Units ---
+  'units.beaufortForce': 'Force {force}',
+
+  // --- Weather conditions (WMO groups) ---
+  'condition.clear': 'Clear Sky',
+  'condition.mainlyClear': 'Mainly Clear',
+  'condition.partlyCloudy': 'Partly Cloudy',
+  'condition.overcast': 'Overcast',
+  'condition.fog': 'Foggy',
+  'condition.drizzle': 'Drizzle',
+  'condition.rain': 'Rain',
+  'condition.snow': 'Snow',
+  'condition.showers': 'Showers',
+  'condition.thunderstorm': 'Thunderstorm',
+  'condition.unknown': 'Unknown',
+
+  // --- Weather card ---
+  'card.return': 'Return',
+  'card.myLocation': 'My Location',
+  'card.liveForecast': 'Live Forecast',
+  'card.archived': 'Archived Weather',
+  'card.simulation': 'Physical Simulation',
+  'card.changeUnits': 'Change units',
+  'card.refresh': 'Refresh image and weather',
+  'card.imageTimeHint': 'Image reflects weather conditions at generation time, not current local time.',
+  'card.offlineHint': "You're offline. Showing the last downloaded forecast.",
+  'card.staleHint': "This forecast hasn't been refreshed recently.",
+  'card.offlinePrefix': 'Offline · ',
+  'card.updatedAt': 'Updated {time}',
+  'card.refreshQueued': ' · Refresh queued',
+  'card.weatherIn': 'Weather in {city}',
+  'card.fullViewOf': 'Full view of {city}',
+  'card.uniqueToWorld': 'Unique to this world',
+  'card.worldEvents': 'World Events',
+  'card.readFullStory': 'Read Full Story',
+
+  // Full-screen viewer / scene editing
+  'editor.saveAndClose': 'Save & Close',
+  'editor.discard': 'Discard Changes',
+  'editor.redrawing': 'Redrawing Scene...',
+  'editor.queued': 'Waiting in queue (#{position})',
+  'editor.retrying': 'Service busy, retrying (attempt {attempt} of {max})',
+  'editor.adjustScene': 'Adjust Scene',
+  'editor.adjustHint': 'Describe what you want to change (e.g. "Add snow", "Make it night", "Add a dragon").',
+  'editor.adjustPlaceholder': 'Enter instructions...',
+  'editor.generatePreview': 'Generate Preview',
+  'editor.downloadWallpaper': 'Download Wallpaper',
+  'editor.generatingEdit': 'Generating edit...',
+  'editor.describeChanges': "Describe changes (e.g., 'Add snow', 'Make it night')",
+
+  // News modal (fictional cards)
+  'news.globalFeed': 'Global Feed',
+  'news.breaking': 'Breaking News',
+  'news.otherHeadlines': 'Other Headlines',
+  'news.justNow': 'Just now',
+  'news.footer': 'Planetary News Network • Live Feed',
+
+  // Detail modal
+  'detail.trend': 'Trend Analysis',
+  'detail.chartHint': 'Touch or drag graph for details',
+  'detail.about': 'About',
+  'detail.insights': 'Insights & Forecast',
+  'detail.simulated': 'AI Simulation: Data is generated lore.',
+  'detail.source': 'Data Source: {source}',
+  'detail.noHourlyForDay': 'Hourly forecast not available for this date',
+  'detail.noForecast': 'Forecast data unavailable',
+
+  // Sun cycle chart
+  'chart.time': 'Time: {time}',
+  'chart.dragToScrub': 'Drag to scrub',
+
+  // --- Weather alerts ---
+  'alerts.kind.wind': 'Wind',
+  'alerts.kind.rain': 'Heavy Rain',
+  'alerts.kind.heat': 'Heat',
+  'alerts.kind.cold': 'Cold',
+  'alerts.kind.fog': 'Fog',
+  'alerts.kind.uv': 'UV',
+  'alerts.severity.advisory': 'Advisory',
+  'alerts.severity.warning': 'Warning',
+  'alerts.title': '{kind} {severity}',
+  'alerts.allDay': '{day}, all day',
+  'alerts.peak': 'Peak {value}',
+  'alerts.lowest': 'Low {value}',
+  'alerts.badge': '{count} active weather alert(s)',
+
+  // --- Notifications ---
+  'notify.title': 'Notify Me',
+  'notify.empty': 'No rules yet. Add one to get a browser notification before the weather turns.',
+  'notify.disabledHint': 'Notifications are turned off. Tap to enable them in Preferences.',
+  'notify.metric.pop': 'Rain chance',
+  'notify.metric.precipitation': 'Rainfall',
+  'notify.metric.aqi': 'AQI',
+  'notify.threshold': 'Threshold',
+  'notify.within': 'within',
+  'notify.window': 'Look-ahead window',
+  'notify.hours': '{hours} h',
+  'notify.perHour': '{amount}/h',
+  'notify.pause': 'Pause rule',
+  'notify.resume': 'Resume rule',
+  'notify.remove': 'Remove rule',
+  'notify.rainTitle': 'Rain expected in {city}',
+  'notify.popBody': '{pop}% chance of rain from {time}.',
+  'notify.precipitationBody': '{amount} of rain expected around {time}.',
+  'notify.aqiTitle': 'Poor air quality in {city}',
+  'notify.aqiBody': 'AQI expected to reach {aqi} around {time}.',
+
+  // --- Past weather ---
+  'history.title': 'Past Weather',
+  'history.hint': 'See the recorded conditions here on any day since 1940 and redraw the scene for it.',
+  'history.date': 'Date',
+  'history.show': 'Show',
+  'history.backToLive': 'Back to the live forecast',
+
+  // --- Forecast scenes ---
+  'scenes.title': 'Scenes',
+  'scenes.now': 'Now',
+  'scenes.draw': 'Draw this moment',
+  'scenes.show': 'Show scene',
+  'scenes.remove': 'Remove scene',
+  'scenes.forecastFor': 'Forecast · {moment}',
+
+  // --- Timelapse ---
+  'timelapse.title': 'Timelapse',
+  'timelapse.hint': 'Redraws this scene across the next 24 hours: sunrise, midday, sunset, night and every change in the weather.',
+  'timelapse.generate': 'Draw timelapse',
+  'timelapse.regenerate': 'Redraw',
+  'timelapse.progress': 'Drawing frame {done} of {total}...',
+  'timelapse.frames': '{count} frames',
+  'timelapse.play': 'Play',
+  'timelapse.pause': 'Pause',
+  'timelapse.scrub': 'Timelapse position',
+  'timelapse.exportWebp': 'Animated WebP',
+  'timelapse.exportVideo': 'Video',
+  'timelapse.exporting': 'Exporting...',
+  'timelapse.exportFailed': 'Export failed. Try the other format.',
+  'timelapse.reason.now': 'Now',
+  'timelapse.reason.sunrise': 'Sunrise',
+  'timelapse.reason.midday': 'Midday',
+  'timelapse.reason.sunset': 'Sunset',
+  'timelapse.reason.night': 'Night',
+  'timelapse.reason.change': 'Weather change',
+
+  // --- Version gallery ---
+  'versions.title': 'Versions',
+  'versions.count': '{count} versions',
+  'versions.hint': 'Pick a version to make it the cover or keep editing from it. Pick two to compare them.',
+  'versions.render': 'New render',
+  'versions.cover': 'Cover',
+  'versions.editing': 'Editing',
+  'versions.useAsCover': 'Use as cover',
+  'versions.branch': 'Edit from here',
+  'versions.compare': 'Compare',
+  'versions.masked': 'Region edit',
+
+  // --- Region mask ---
+  'mask.title': 'Edit a region',
+  'mask.brush': 'Brush',
+  'mask.lasso': 'Lasso',
+  'mask.brushSize': 'Brush size',
+  'mask.clear': 'Clear mask',
+  'mask.paintHint': 'Paint where the change should go',
+  'mask.ready': 'Region set. Now adjust the scene',
+  'mask.onlyRegion': 'Only the painted region will change.',
+
+  // --- Scene styles ---
+  'styles.title': 'Scene style',
+  'styles.hint': 'New scenes are drawn in this style. Cards keep the style they were drawn with when they are refreshed or redrawn.',
+  'styles.preset.miniature': 'Soft miniature',
+  'styles.preset.watercolor': 'Watercolor diorama',
+  'styles.preset.lowPoly': 'Low poly',
+  'styles.new': 'New preset',
+  'styles.name': 'Preset name',
+  'styles.landmarks': 'Landmarks',
+  'styles.cameraAngle': 'Camera angle',
+  'styles.aesthetic': 'Look',
+  'styles.save': 'Save preset',
+  'styles.delete': 'Delete preset',
+  'styles.template': 'Template v{version}',
+
+  // --- Scene format ---
+  'profile.title': 'Scene format',
+  'profile.hint': 'Pick a shape for this card. Redrawing replaces the scene; earlier versions stay in the version history.',
+  'profile.draftHint': 'This scene is a quick draft. Render it at full quality once you like it.',
+  'profile.prefsHint': 'Shape and resolution new cards start with. Drafts are much quicker; render them at full quality from the card.',
+  'profile.shape': 'Shape',
+  'profile.phone': 'Phone',
+  'profile.desktop': 'Desktop',
+  'profile.square': 'Square',
+  'profile.draft': 'Draft',
+  'profile.draftTitle': 'Quick low-resolution preview',
+  'profile.redraw': 'Redraw',
+  'profile.fullQuality': 'Full quality',
+
+  // --- Collections ---
+  'collections.default': 'My cards',
+  'collections.new': 'New collection',
+  'collections.newPlaceholder': 'New collection…',
+  'collections.rename': 'Rename collection',
+  'collections.delete': 'Delete collection (its cards move to the first one)',
+  'collections.arrange': 'Arrange cards',
+  'collections.arrangeHint': 'Drag a card by its handle, or focus the handle and use ↑/↓, to change the order. The folder button moves a card to another collection.',
+  'collections.count': '{count} cards',
+  'collections.reorderCard': 'Reorder {city}, position {position} of {total}',
+  'collections.moveTo': 'Move to collection',
+  'collections.moveCard': 'Move {city} to another collection',
+  'collections.empty': 'This collection is empty. Search for a place to add it here.',
+
+  // --- Compare ---
+  'compare.open': 'Compare cards',
+  'compare.title': 'Compare',
+  'compare.count': '{count} cards',
+  'compare.pickHint': 'Pick two to {max} cards to compare.',
+  'compare.now': 'Now',
+  'compare.hoursAhead': '+{hours}h',
+  'compare.week': '7-Day Ranges',
+  'compare.weekHint': 'Differences in lows / highs are against {city}.',
+
+  // --- Bundles ---
+  'bundle.exportCollection': 'Export this collection',
+  'bundle.exportAll': 'Export all cards',
+  'bundle.importFile': 'Import cards…',
+  'bundle.importTitle': 'Import Cards',
+  'bundle.import': 'Import',
+  'bundle.summary': '{cards} cards in {collections} collections',
+  'bundle.exportedAt': 'Exported {date}',
+  'bundle.conflicts': '{count} already saved',
+  'bundle.conflictChoice': 'Places you already have',
+  'bundle.keepExisting': 'Keep mine',
+  'bundle.keepExistingHint': 'Skip imported cards for places you already have.',
+  'bundle.replace': 'Use imported',
+  'bundle.replaceHint': 'Replace your cards with the imported ones, in the same spot in the stack.',
+  'bundle.keepBoth': 'Keep both',
+  'bundle.keepBothHint': 'Add the imported cards next to yours.',
+  'bundle.refreshLive': 'Refresh live weather',
+  'bundle.refreshLiveHint': 'Fetch the current forecast for {count} real-weather cards after importing.',
+  'bundle.invalid': 'This file is not an IsoWeather bundle, or it is damaged.',
+  'bundle.newerVersion': 'This bundle was made by a newer version of IsoWeather. Update the app to import it.',
+
+  // --- Accessibility ---
+  'a11y.stack': 'card stack',
+  'a11y.stackHint': 'Use the left and right arrow keys to move through the cards, and Enter to open one.',
+  'a11y.stackPosition': '{city}, card {position} of {total}',
+  'a11y.updating': 'Updating the weather in {city}…',
+  'a11y.openFullView': 'Open the full view of {city}',
+  'a11y.chartData': 'Chart data',
+  'a11y.chartTime': 'Time',
+  'a11y.chartValue': 'Value',
+
+  // Metric names
+  'metric.temperature': 'Temperature',
+  'metric.feelsLike': 'Feels Like',
+  'metric.humidity': 'Humidity',
+  'metric.uvIndex': 'UV Index',
+  'metric.visibility': 'Visibility',
+  'metric.precipitation': 'Precipitation',
+  'metric.precipShort': 'Precip',
+  'metric.cloudCover': 'Cloud Cover',
+  'metric.clouds': 'Clouds',
+  'metric.pressure': 'Pressure',
+  'metric.dewPoint': 'Dew Point',
+  'metric.wind': 'Wind',
+  'metric.airQuality': 'Air Quality',
+  'metric.sunrise': 'Sunrise',
+  'metric.sunset': 'Sunset',
+  'metric.sunriseSunset': 'Sunrise & Sunset',
+
+  // Short summaries on the metric tiles
+  'summary.feelsSame': 'It feels exactly how it looks outside.',
+  'summary.feelsWarmer': 'Humidity is making it feel warmer.',
+  'summary.feelsColder': 'The wind chill makes it feel brisk.',
+  'summary.humidityDry': 'The air is quite dry; stay hydrated.',
+  'summary.humidityHigh': 'It feels a bit sticky and humid.',
+  'summary.humidityOk': 'Comfortable humidity levels right now.',
+  'summary.uvHigh': "Don't forget sunscreen if going out!",
+  'summary.uvModerate': 'Moderate UV; seek shade at noon.',
+  'summary.uvLow': 'No sun protection needed right now.',
+  'summary.visibilityClear': 'Crystal clear views for miles.',
+  'summary.visibilityFog': "It's foggy, please drive carefully.",
+  'summary.visibilityHazy': 'The view is slightly hazy.',
+  'summary.raining': "Don't forget an umbrella, it's raining.",
+  'summary.dry': 'Conditions are dry, no rain right now.',
+  'summary.overcast': 'The sky is completely overcast.',
+  'summary.clearSkies': 'Beautiful clear skies today.',
+  'summary.someClouds': 'Just a few clouds drifting by.',
+  'summary.highPressure': 'High pressure brings fair weather.',
+  'summary.lowPressure': 'Low pressure might bring clouds.',
+  'summary.dewMuggy': 'It feels quite tropical and muggy.',
+  'summary.dewCrisp': 'The air feels crisp and refreshing.',
+  'summary.dewPleasant': 'It feels pleasant outside.',
+  'summary.windy': "It's quite blustery, hold onto your hat!",
+  'summary.breeze': 'Just a gentle breeze blowing.',
+  'summary.aqiPoor': 'Air quality is poor, consider a mask.',
+  'summary.aqiGood': 'The air is fresh and clean.',
+
+  // Detail descriptions + insights
+  'feelsLike.description': 'The Apparent Temperature calculates how hot or cold it actually feels by factoring in humidity, wind speed, and radiation.',
+  'feelsLike.comfort': 'Comfort Level',
+  'feelsLike.similar': 'Similar to actual temperature.',
+  'feelsLike.warmer': 'Feels warmer due to humidity.',
+  'feelsLike.colder': 'Feels colder due to wind chill.',
+  'feelsLike.clothing': 'Clothing',
+  'feelsLike.coat': 'Coat recommended.',
+  'feelsLike.light': 'Light clothing recommended.',
+  'feelsLike.sweater': 'Sweater or light jacket.',
+
+  'humidity.dewPoint': 'Dew Point: {value}',
+  'humidity.description': 'Relative humidity measures the water vapor in the air relative to the maximum possible at current temperature.',
+  'humidity.dewContext': 'Dew Point Context',
+  'humidity.muggy': 'The air feels muggy and uncomfortable.',
+  'humidity.dryCrisp': 'The air feels dry and crisp.',
+  'humidity.comfortable': 'Comfortable humidity levels.',
+  'humidity.health': 'Health',
+  'humidity.dryAir': 'Dry air may irritate skin and eyes.',
+  'humidity.mold': 'High humidity can promote mold growth.',
+  'humidity.ideal': 'Ideal range for health.',
+
+  'wind.description': 'Wind speed at 10 meters above ground level.',
+  'wind.gusts': 'Gusts',
+  'wind.gustsUpTo': 'Occasional gusts up to {speed}.',
+  'wind.impact': 'Impact',
+  'wind.strong': 'Walking is difficult; branches may fall.',
+  'wind.breezy': 'Breezy; small trees sway.',
+  'wind.calm': 'Calm to light breeze.',
+
+  'uv.low': 'Low',
+  'uv.moderate': 'Moderate',
+  'uv.high': 'High',
+  'uv.veryHigh': 'Very High',
+  'uv.extreme': 'Extreme',
+  'uv.description': 'The strength of sunburn-producing ultraviolet radiation at solar noon.',
+  'uv.protection': 'Protection',
+  'uv.sunscreen': 'Sunscreen and hat recommended.',
+  'uv.noProtection': 'No protection needed.',
+  'uv.burnTime': 'Burn Time',
+  'uv.burnFast': 'Skin can burn in < 20 mins.',
+  'uv.burnMedium': 'Burn time ~30-45 mins.',
+  'uv.burnSafe': 'Safe for prolonged exposure.',
+
+  'visibility.description': 'The greatest distance at which a prominent black object can be seen and recognized against the horizon sky.',
+  'visibility.condition': 'Condition',
+  'visibility.clear': 'Clear view.',
+  'visibility.fog': 'Foggy conditions; drive carefully.',
+  'visibility.hazy': 'Hazy or misty.',
+  'visibility.flight': 'Flight Impact',
+  'visibility.vfr': 'May impact VFR flights.',
+  'visibility.goodFlying': 'Good for flying.',
+
+  'pressure.description': 'Atmospheric pressure at mean sea level.',
+  'pressure.system': 'System',
+  'pressure.high': 'High pressure system (usually fair weather).',
+  'pressure.low': 'Low pressure system (often brings rain/clouds).',
+  'pressure.trend': 'Trend',
+  'pressure.trendText': 'Changes in pressure can indicate approaching fronts.',
+
+  'precip.chance': '{pop}% Chance',
+  'precip.description': 'Total accumulated water from rain, snow, or other sources in the last hour.',
+  'precip.forecast': 'Forecast',
+  'precip.occurring': 'Precipitation is currently occurring.',
+  'precip.chanceOfRain': 'Chance of rain: {pop}%.',
+  'precip.dailyTotal': 'Daily Total',
+  'precip.expectedToday': 'Expected {amount} today.',
+
+  'aqi.description': 'US Air Quality Index (AQI). Measures air pollution levels.',
+  'aqi.health': 'Health',
+  'aqi.basis': 'Based on PM2.5 and Ozone levels.',
+  'aqi.advice': 'Advice',
+  'aqi.sensitive': 'Sensitive groups should reduce outdoor exertion.',
+  'aqi.satisfactory': 'Air quality is satisfactory.',
+
+  'clouds.description': 'The fraction of the sky obscured by clouds when observed from a particular location.',
+  'clouds.condition': 'Condition',
+  'clouds.overcast': 'Overcast skies.',
+  'clouds.clear': 'Mostly clear skies.',
+  'clouds.partly': 'Partly cloudy.',
+  'clouds.solar': 'Solar Energy',
+  'clouds.solarLow': 'Reduced solar generation potential.',
+  'clouds.solarHigh': 'High solar potential.',
+
+  'dewPoint.description': 'The temperature to which air must be cooled to become saturated with water vapor.',
+  'dewPoint.comfort': 'Comfort',
+  'dewPoint.oppressive': 'Air feels oppressive.',
+  'dewPoint.comfortable': 'Air feels comfortable/dry.',
+  'dewPoint.humid': 'Humid.',
+  'dewPoint.fogRisk': 'Fog Risk',
+  'dewPoint.fogHigh': 'High risk of fog formation.',
+  'dewPoint.fogLow': 'Low risk of fog.',
+
+  'sun.sunsetAt': 'Sunset: {time}',
+  'sun.description': "Times of appearance and disappearance of the Sun's upper limb.",
+  'sun.dayLength': 'Day Length',
+  'sun.dayLengthText': 'Calculated based on latitude and time of year.',
+  'sun.goldenHour': 'Golden Hour',
+  'sun.goldenHourText': 'Best photography light ~1 hour after sunrise and before sunset.',
+
+  'hourly.title': 'Hourly Forecast',
+  'hourly.conditions': 'Conditions: {pop}% chance of rain.',
+  'hourly.chance': '{pop}% chance.',
+  'hourly.trend': 'Trend',
+  'hourly.progression': 'Hourly progression.',
+
+  'daily.summary': 'Forecast for {day}: High of {max} and low of {min}.',
+  'daily.expectedPrecip': 'Expected precipitation: {amount}.',
+  'daily.noPrecip': 'No significant precipitation expected.',
+  'daily.condition': 'Condition',
+  'daily.uv': 'UV Index',
+  'daily.maxUv': 'Max UV: {uv}',
+  'daily.daylight': 'Daylight',
+  'daily.sunTimes': 'Sunrise: {sunrise} • Sunset: {sunset}',
+
+  // --- Fantasy creator ---
+  'fantasy.title': 'World Builder',
+  'fantasy.step': 'Step {step} of 2',
+  'fantasy.selectMode': '1. Select Simulation Mode',
+  'fantasy.modeFantasy': 'Fictional World',
+  'fantasy.modeFantasyHint': 'Create lore-accurate cities from books, movies, games, or your imagination.',
+  'fantasy.modeHistorical': 'Ancient Civilization',
+  'fantasy.modeHistoricalHint': 'Reconstruct historical cities, eras, and lost civilizations with accuracy.',
+  'fantasy.identification': '2. Target Identification',
+  'fantasy.cityName': 'City / Place Name',
+  'fantasy.ancientCityName': 'Ancient City Name',
+  'fantasy.cityPlaceholder': 'e.g. Winterfell, Gondor',
+  'fantasy.ancientCityPlaceholder': 'e.g. Babylon, Carthage',
+  'fantasy.universe': 'Universe / Source',
+  'fantasy.era': 'Historical Era / Civilization',
+  'fantasy.universePlaceholder': 'e.g. Game of Thrones, Star Wars',
+  'fantasy.eraPlaceholder': 'e.g. Roman Empire, 300 BC',
+  'fantasy.description': 'Detailed Description',
+  'fantasy.optional': '(Optional)',
+  'fantasy.descriptionPlaceholder': 'Describe specific landmarks, the current state of affairs, or specific details...',
+  'fantasy.historicalDescriptionPlaceholder': 'Describe the construction phase, specific historical event, or atmosphere...',
+  'fantasy.environment': '3. Environmental Parameters',
+  'fantasy.weather': 'Weather Conditions',
+  'fantasy.time': 'Time of Day',
+  'fantasy.style': '4. Rendering Style',
+  'fantasy.nextStep': 'Next Step',
+  'fantasy.simulating': 'Simulating...',
+  'fantasy.reconstructing': 'Reconstructing...',
+  'fantasy.generateWorld': 'Generate World',
+  'fantasy.buildCity': 'Build City',
+
+  // Option chips. The English value is what goes into the prompt; only the label is translated.
+  'option.Default': 'Default',
+  'option.Fantasy': 'Fantasy',
+  'option.Cyberpunk': 'Cyberpunk',
+  'option.Steampunk': 'Steampunk',
+  'option.Sci-Fi': 'Sci-Fi',
+  'option.Gothic': 'Gothic',
+  'option.Minimal': 'Minimal',
+  'option.Noir': 'Noir',
+  'option.Voxel': 'Voxel',
+  'option.Low Poly': 'Low Poly',
+  'option.Studio Ghibli': 'Studio Ghibli',
+  'option.Synthwave': 'Synthwave',
+  'option.Post-Apocalyptic': 'Post-Apocalyptic',
+  'option.Watercolor': 'Watercolor',
+  'option.Retro': 'Retro',
+  'option.Realistic': 'Realistic',
+  'option.Oil Painting': 'Oil Painting',
+  'option.Cinematic': 'Cinematic',
+  'option.Sepia': 'Sepia',
+  'option.Vintage': 'Vintage',
+  'option.Blueprint': 'Blueprint',
+  'option.Faded Fresco': 'Faded Fresco',
+  'option.Mosaic': 'Mosaic',
+  'option.Ink Wash': 'Ink Wash',
+  'option.Etching': 'Etching',
+  'option.Museum Diorama': 'Museum Diorama',
+  'option.Clear Sky': 'Clear Sky',
+  'option.Stormy': 'Stormy',
+  'option.Snow Blizzard': 'Snow Blizzard',
+  'option.Heavy Rain': 'Heavy Rain',
+  'option.Foggy / Misty': 'Foggy / Misty',
+  'option.Sandstorm': 'Sandstorm',
+  'option.Toxic Rain': 'Toxic Rain',
+  'option.Cosmic Dust': 'Cosmic Dust',
+  'option.Meteor Shower': 'Meteor Shower',
+  'option.Acid Fog': 'Acid Fog',
+  'option.Heatwave': 'Heatwave',
+  'option.Aurora Borealis': 'Aurora Borealis',
+  'option.Ashfall': 'Ashfall',
+  'option.Sunrise': 'Sunrise',
+  'option.High Noon': 'High Noon',
+  'option.Sunset': 'Sunset',
+  'option.Golden Hour': 'Golden Hour',
+  'option.Midnight': 'Midnight',
+  'option.Blue Hour': 'Blue Hour',
+  'option.Eclipse': 'Eclipse',
+  'option.Twilight': 'Twilight',
+  'option.Deep Night': 'Deep Night',
+  'option.Blood Moon': 'Blood Moon',
+  'option.Starry Night': 'Starry Night',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,578 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  // --- Common ---
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.save': 'Guardar',
+  'common.add': 'Añadir',
+  'common.back': 'Atrás',
+  'common.today': 'Hoy',
+
+  // --- App shell ---
+  'app.createFictional': 'Crear mundo ficticio',
+  'app.preferences': 'Preferencias',
+  'app.removeCard': 'Eliminar tarjeta',
+  'app.errorTitle': '¡Vaya!',
+  'app.tryAnotherCity': 'Prueba otra ciudad',
+  'app.fantasyFailed': 'No se pudo construir el mundo de fantasía. La simulación puede ser inestable.',
+
+  // --- Search ---
+  'search.placeholder': 'Buscar ciudad o coordenadas...',
+  'search.noResults': 'Ningún lugar coincide con "{query}"',
+  'search.useMyLocation': 'Usar mi ubicación',
+  'search.previousPage': 'Resultados anteriores',
+  'search.nextPage': 'Más resultados',
+  'search.pageRange': '{from}–{to} de {total}',
+  'search.favorites': 'Favoritos',
+  'search.recent': 'Recientes',
+  'search.results': 'Resultados',
+  'search.favorite': 'Añadir a favoritos',
+  'search.unfavorite': 'Quitar de favoritos',
+  'search.removeRecent': 'Quitar de búsquedas recientes',
+
+  // --- Weather service errors ---
+  'error.rateLimitedFor': 'El servicio meteorológico está saturado. Inténtalo de nuevo en {seconds} segundos.',
+  'error.rateLimited': 'El servicio meteorológico está saturado. Espera un minuto e inténtalo de nuevo.',
+  'error.serverDown': 'El servicio meteorológico no está disponible temporalmente. Inténtalo de nuevo en breve.',
+  'error.offline': 'Parece que no tienes conexión. Compruébala e inténtalo de nuevo.',
+  'error.network': 'No se pudo contactar con el servicio meteorológico. Comprueba tu conexión e inténtalo de nuevo.',
+  'error.malformed': 'El servicio meteorológico envió datos que no pudimos leer. Inténtalo de nuevo o elige otra ciudad.',
+  'error.noResults': 'No se encontró nada para "{query}". Prueba con otra ortografía o una ciudad más grande cercana.',
+  'error.locationDenied': 'Se denegó el acceso a la ubicación. Permítelo en los ajustes del navegador para usar Mi ubicación.',
+  'error.locationTimeout': 'Localizarte tardó demasiado. Inténtalo de nuevo.',
+  'error.locationUnsupported': 'Este navegador no puede compartir tu ubicación.',
+  'error.locationUnavailable': 'Tu ubicación no está disponible ahora mismo. Inténtalo de nuevo.',
+  'error.generic': 'Algo salió mal.',
+
+  // --- Loading screen ---
+  'loading.title': 'Construyendo el mundo',
+  'loading.fetching': 'Procesando datos de ubicación...',
+  'loading.constructing': 'Construyendo la simulación...',
+  'loading.queued': 'Esperando turno de renderizado (n.º {position} en la cola)',
+  'loading.rendering': 'Renderizando escena...',
+  'loading.renderingAttempt': 'Renderizando escena (intento {attempt} de {max})...',
+  'loading.retrying': 'Servicio saturado, reintentando en {seconds} s (intento {attempt} de {max})',
+  'loading.failed': 'Error de renderizado.',
+  'loading.finalizing': 'Finalizando la composición de la escena...',
+  'loading.elapsed': '{seconds} s transcurridos',
+
+  // --- Preferences ---
+  'prefs.title': 'Preferencias',
+  'prefs.language': 'Idioma',
+  'prefs.units': 'Unidades',
+  'prefs.temperature': 'Temperatura',
+  'prefs.wind': 'Viento',
+  'prefs.pressure': 'Presión',
+  'prefs.distance': 'Distancia',
+  'prefs.precipitation': 'Precipitación',
+  'prefs.backgroundRefresh': 'Actualización en segundo plano',
+  'prefs.refreshEvery': 'Actualizar tarjetas guardadas cada',
+  'prefs.search': 'Búsqueda',
+  'prefs.searchResults': 'Resultados por búsqueda',
+  'prefs.searchHint': 'También acepta coordenadas (35.68, 139.69), plus codes y geohashes.',
+  'prefs.beaufort': 'Beaufort',
+  'prefs.knots': 'nudos',
+  'prefs.alerts': 'Alertas meteorológicas',
+  'prefs.alertsHint': 'Nivel que activa un aviso. Las alertas graves se activan a un nivel superior.',
+  'prefs.off': 'No',
+  'prefs.on': 'Sí',
+  'prefs.notifications': 'Notificaciones',
+  'prefs.notificationsHint': 'Se comprueban en cada actualización según las reglas de cada tarjeta.',
+  'prefs.notificationsEnabled': 'Notificaciones del navegador',
+  'prefs.notificationsBlocked': 'Las notificaciones están bloqueadas para este sitio. Permítelas en los ajustes del navegador.',
+  'prefs.notificationsUnsupported': 'Este navegador no admite notificaciones.',
+  'prefs.quietHours': 'Horas de silencio',
+
+  // --- Units ---
+  'units.beaufortForce': 'Fuerza {force}',
+
+  // --- Weather conditions (WMO groups) ---
+  'condition.clear': 'Despejado',
+  'condition.mainlyClear': 'Mayormente despejado',
+  'condition.partlyCloudy': 'Parcialmente nublado',
+  'condition.overcast': 'Cubierto',
+  'condition.fog': 'Niebla',
+  'condition.drizzle': 'Llovizna',
+  'condition.rain': 'Lluvia',
+  'condition.snow': 'Nieve',
+  'condition.showers': 'Chubascos',
+  'condition.thunderstorm': 'Tormenta',
+  'condition.unknown': 'Desconocido',
+
+  // --- Weather card ---
+  'card.return': 'Volver',
+  'card.myLocation': 'Mi ubicación',
+  'card.liveForecast': 'Pronóstico en directo',
+  'card.archived': 'Tiempo archivado',
+  'card.simulation': 'Simulación física',
+  'card.changeUnits': 'Cambiar unidades',
+  'card.refresh': 'Actualizar imagen y tiempo',
+  'card.imageTimeHint': 'La imagen refleja el tiempo en el momento de generarla, no la hora local actual.',
+  'card.offlineHint': 'Estás sin conexión. Se muestra el último pronóstico descargado.',
+  'card.staleHint': 'Este pronóstico no se ha actualizado recientemente.',
+  'card.offlinePrefix': 'Sin conexión · ',
+  'card.updatedAt': 'Actualizado {time}',
+  'card.refreshQueued': ' · Actualización en cola',
+  'card.weatherIn': 'El tiempo en {city}',
+  'card.fullViewOf': 'Vista completa de {city}',
+  'card.uniqueToWorld': 'Exclusivo de este mundo',
+  'card.worldEvents': 'Acontecimientos mundiales',
+  'card.readFullStory': 'Leer la noticia completa',
+
+  // Full-screen viewer / scene editing
+  'editor.saveAndClose': 'Guardar y cerrar',
+  'editor.discard': 'Descartar cambios',
+  'editor.redrawing': 'Redibujando escena...',
+  'editor.queued': 'Esperando en la cola (n.º {position})',
+  'editor.retrying': 'Servicio saturado, reintentando (intento {attempt} de {max})',
+  'editor.adjustScene': 'Ajustar escena',
+  'editor.adjustHint': 'Describe lo que quieres cambiar (p. ej. "Añade nieve", "Hazlo de noche", "Añade un dragón").',
+  'editor.adjustPlaceholder': 'Escribe las instrucciones...',
+  'editor.generatePreview': 'Generar vista previa',
+  'editor.downloadWallpaper': 'Descargar fondo de pantalla',
+  'editor.generatingEdit': 'Generando edición...',
+  'editor.describeChanges': "Describe los cambios (p. ej. 'Añade nieve', 'Hazlo de noche')",
+
+  // News modal (fictional cards)
+  'news.globalFeed': 'Noticias globales',
+  'news.breaking': 'Última hora',
+  'news.otherHeadlines': 'Otros titulares',
+  'news.justNow': 'Ahora mismo',
+  'news.footer': 'Red Planetaria de Noticias • En directo',
+
+  // Detail modal
+  'detail.trend': 'Análisis de tendencia',
+  'detail.chartHint': 'Toca o arrastra el gráfico para ver detalles',
+  'detail.about': 'Acerca de',
+  'detail.insights': 'Análisis y pronóstico',
+  'detail.simulated': 'Simulación con IA: los datos son ficción generada.',
+  'detail.source': 'Fuente de datos: {source}',
+  'detail.noHourlyForDay': 'No hay pronóstico por horas para esta fecha',
+  'detail.noForecast': 'Datos de pronóstico no disponibles',
+
+  // Sun cycle chart
+  'chart.time': 'Hora: {time}',
+  'chart.dragToScrub': 'Arrastra para recorrer',
+
+  // --- Weather alerts ---
+  'alerts.kind.wind': 'Viento',
+  'alerts.kind.rain': 'Lluvia intensa',
+  'alerts.kind.heat': 'Calor',
+  'alerts.kind.cold': 'Frío',
+  'alerts.kind.fog': 'Niebla',
+  'alerts.kind.uv': 'UV',
+  'alerts.severity.advisory': 'Aviso',
+  'alerts.severity.warning': 'Alerta',
+  'alerts.title': '{severity}: {kind}',
+  'alerts.allDay': '{day}, todo el día',
+  'alerts.peak': 'Máx. {value}',
+  'alerts.lowest': 'Mín. {value}',
+  'alerts.badge': '{count} alerta(s) meteorológica(s) activa(s)',
+
+  // --- Notifications ---
+  'notify.title': 'Avísame',
+  'notify.empty': 'Aún no hay reglas. Añade una para recibir un aviso antes de que cambie el tiempo.',
+  'notify.disabledHint': 'Las notificaciones están desactivadas. Toca para activarlas en Preferencias.',
+  'notify.metric.pop': 'Prob. de lluvia',
+  'notify.metric.precipitation': 'Lluvia',
+  'notify.metric.aqi': 'ICA',
+  'notify.threshold': 'Umbral',
+  'notify.within': 'en',
+  'notify.window': 'Ventana de previsión',
+  'notify.hours': '{hours} h',
+  'notify.perHour': '{amount}/h',
+  'notify.pause': 'Pausar regla',
+  'notify.resume': 'Reanudar regla',
+  'notify.remove': 'Eliminar regla',
+  'notify.rainTitle': 'Lluvia prevista en {city}',
+  'notify.popBody': '{pop}% de probabilidad de lluvia a partir de las {time}.',
+  'notify.precipitationBody': 'Se esperan {amount} de lluvia hacia las {time}.',
+  'notify.aqiTitle': 'Mala calidad del aire en {city}',
+  'notify.aqiBody': 'El ICA podría llegar a {aqi} hacia las {time}.',
+
+  // --- Past weather ---
+  'history.title': 'Tiempo pasado',
+  'history.hint': 'Consulta las condiciones registradas aquí cualquier día desde 1940 y vuelve a dibujar la escena.',
+  'history.date': 'Fecha',
+  'history.show': 'Ver',
+  'history.backToLive': 'Volver al pronóstico en vivo',
+
+  // --- Forecast scenes ---
+  'scenes.title': 'Escenas',
+  'scenes.now': 'Ahora',
+  'scenes.draw': 'Dibujar este momento',
+  'scenes.show': 'Ver escena',
+  'scenes.remove': 'Quitar escena',
+  'scenes.forecastFor': 'Pronóstico · {moment}',
+
+  // --- Timelapse ---
+  'timelapse.title': 'Timelapse',
+  'timelapse.hint': 'Vuelve a dibujar esta escena durante las próximas 24 horas: amanecer, mediodía, atardecer, noche y cada cambio de tiempo.',
+  'timelapse.generate': 'Dibujar timelapse',
+  'timelapse.regenerate': 'Volver a dibujar',
+  'timelapse.progress': 'Dibujando fotograma {done} de {total}...',
+  'timelapse.frames': '{count} fotogramas',
+  'timelapse.play': 'Reproducir',
+  'timelapse.pause': 'Pausa',
+  'timelapse.scrub': 'Posición del timelapse',
+  'timelapse.exportWebp': 'WebP animado',
+  'timelapse.exportVideo': 'Vídeo',
+  'timelapse.exporting': 'Exportando...',
+  'timelapse.exportFailed': 'No se pudo exportar. Prueba el otro formato.',
+  'timelapse.reason.now': 'Ahora',
+  'timelapse.reason.sunrise': 'Amanecer',
+  'timelapse.reason.midday': 'Mediodía',
+  'timelapse.reason.sunset': 'Atardecer',
+  'timelapse.reason.night': 'Noche',
+  'timelapse.reason.change': 'Cambio de tiempo',
+
+  // --- Version gallery ---
+  'versions.title': 'Versiones',
+  'versions.count': '{count} versiones',
+  'versions.hint': 'Elige una versión para usarla como portada o seguir editando desde ella. Elige dos para compararlas.',
+  'versions.render': 'Nuevo renderizado',
+  'versions.cover': 'Portada',
+  'versions.editing': 'Editando',
+  'versions.useAsCover': 'Usar como portada',
+  'versions.branch': 'Editar desde aquí',
+  'versions.compare': 'Comparar',
+  'versions.masked': 'Edición por zona',
+
+  // --- Region mask ---
+  'mask.title': 'Editar una zona',
+  'mask.brush': 'Pincel',
+  'mask.lasso': 'Lazo',
+  'mask.brushSize': 'Tamaño del pincel',
+  'mask.clear': 'Borrar máscara',
+  'mask.paintHint': 'Pinta donde debe ir el cambio',
+  'mask.ready': 'Zona lista. Ahora ajusta la escena',
+  'mask.onlyRegion': 'Solo cambiará la zona pintada.',
+
+  // --- Scene styles ---
+  'styles.title': 'Estilo de escena',
+  'styles.hint': 'Las escenas nuevas se dibujan con este estilo. Las tarjetas conservan su estilo al actualizarse o redibujarse.',
+  'styles.preset.miniature': 'Miniatura suave',
+  'styles.preset.watercolor': 'Diorama en acuarela',
+  'styles.preset.lowPoly': 'Low poly',
+  'styles.new': 'Nuevo estilo',
+  'styles.name': 'Nombre del estilo',
+  'styles.landmarks': 'Lugares emblemáticos',
+  'styles.cameraAngle': 'Ángulo de cámara',
+  'styles.aesthetic': 'Aspecto',
+  'styles.save': 'Guardar estilo',
+  'styles.delete': 'Eliminar estilo',
+  'styles.template': 'Plantilla v{version}',
+
+  // --- Scene format ---
+  'profile.title': 'Formato de escena',
+  'profile.hint': 'Elige una forma para esta tarjeta. Redibujar reemplaza la escena; las versiones anteriores quedan en el historial.',
+  'profile.draftHint': 'Esta escena es un borrador rápido. Genérala en calidad completa cuando te guste.',
+  'profile.prefsHint': 'Forma y resolución con las que empiezan las tarjetas nuevas. Los borradores son mucho más rápidos; genéralos en calidad completa desde la tarjeta.',
+  'profile.shape': 'Forma',
+  'profile.phone': 'Móvil',
+  'profile.desktop': 'Escritorio',
+  'profile.square': 'Cuadrado',
+  'profile.draft': 'Borrador',
+  'profile.draftTitle': 'Vista previa rápida en baja resolución',
+  'profile.redraw': 'Redibujar',
+  'profile.fullQuality': 'Calidad completa',
+
+  // --- Collections ---
+  'collections.default': 'Mis tarjetas',
+  'collections.new': 'Nueva colección',
+  'collections.newPlaceholder': 'Nueva colección…',
+  'collections.rename': 'Renombrar colección',
+  'collections.delete': 'Eliminar colección (sus tarjetas pasan a la primera)',
+  'collections.arrange': 'Ordenar tarjetas',
+  'collections.arrangeHint': 'Arrastra una tarjeta por su asa, o enfoca el asa y usa ↑/↓, para cambiar el orden. El botón de carpeta la mueve a otra colección.',
+  'collections.count': '{count} tarjetas',
+  'collections.reorderCard': 'Reordenar {city}, posición {position} de {total}',
+  'collections.moveTo': 'Mover a colección',
+  'collections.moveCard': 'Mover {city} a otra colección',
+  'collections.empty': 'Esta colección está vacía. Busca un lugar para añadirlo aquí.',
+
+  // --- Compare ---
+  'compare.open': 'Comparar tarjetas',
+  'compare.title': 'Comparar',
+  'compare.count': '{count} tarjetas',
+  'compare.pickHint': 'Elige de dos a {max} tarjetas para comparar.',
+  'compare.now': 'Ahora',
+  'compare.hoursAhead': '+{hours} h',
+  'compare.week': 'Rangos de 7 días',
+  'compare.weekHint': 'Las diferencias de mínimas / máximas son respecto a {city}.',
+
+  // --- Bundles ---
+  'bundle.exportCollection': 'Exportar esta colección',
+  'bundle.exportAll': 'Exportar todas las tarjetas',
+  'bundle.importFile': 'Importar tarjetas…',
+  'bundle.importTitle': 'Importar tarjetas',
+  'bundle.import': 'Importar',
+  'bundle.summary': '{cards} tarjetas en {collections} colecciones',
+  'bundle.exportedAt': 'Exportado el {date}',
+  'bundle.conflicts': '{count} ya guardadas',
+  'bundle.conflictChoice': 'Lugares que ya tienes',
+  'bundle.keepExisting': 'Conservar las mías',
+  'bundle.keepExistingHint': 'Omite las tarjetas importadas de lugares que ya tienes.',
+  'bundle.replace': 'Usar las importadas',
+  'bundle.replaceHint': 'Sustituye tus tarjetas por las importadas, en el mismo lugar del montón.',
+  'bundle.keepBoth': 'Conservar ambas',
+  'bundle.keepBothHint': 'Añade las tarjetas importadas junto a las tuyas.',
+  'bundle.refreshLive': 'Actualizar el tiempo real',
+  'bundle.refreshLiveHint': 'Obtiene el pronóstico actual de {count} tarjetas con tiempo real tras importar.',
+  'bundle.invalid': 'Este archivo no es un paquete de IsoWeather o está dañado.',
+  'bundle.newerVersion': 'Este paquete se creó con una versión más reciente de IsoWeather. Actualiza la app para importarlo.',
+
+  // --- Accessibility ---
+  'a11y.stack': 'pila de tarjetas',
+  'a11y.stackHint': 'Usa las flechas izquierda y derecha para recorrer las tarjetas y Enter para abrir una.',
+  'a11y.stackPosition': '{city}, tarjeta {position} de {total}',
+  'a11y.updating': 'Actualizando el tiempo en {city}…',
+  'a11y.openFullView': 'Abrir la vista completa de {city}',
+  'a11y.chartData': 'Datos del gráfico',
+  'a11y.chartTime': 'Hora',
+  'a11y.chartValue': 'Valor',
+
+  // Metric names
+  'metric.temperature': 'Temperatura',
+  'metric.feelsLike': 'Sensación',
+  'metric.humidity': 'Humedad',
+  'metric.uvIndex': 'Índice UV',
+  'metric.visibility': 'Visibilidad',
+  'metric.precipitation': 'Precipitación',
+  'metric.precipShort': 'Precip.',
+  'metric.cloudCover': 'Nubosidad',
+  'metric.clouds': 'Nubes',
+  'metric.pressure': 'Presión',
+  'metric.dewPoint': 'Punto de rocío',
+  'metric.wind': 'Viento',
+  'metric.airQuality': 'Calidad del aire',
+  'metric.sunrise': 'Amanecer',
+  'metric.sunset': 'Atardecer',
+  'metric.sunriseSunset': 'Amanecer y atardecer',
+
+  // Short summaries on the metric tiles
+  'summary.feelsSame': 'Se siente tal y como parece.',
+  'summary.feelsWarmer': 'La humedad hace que parezca más cálido.',
+  'summary.feelsColder': 'El viento hace que se sienta fresco.',
+  'summary.humidityDry': 'El aire está bastante seco; mantente hidratado.',
+  'summary.humidityHigh': 'Se nota algo pegajoso y húmedo.',
+  'summary.humidityOk': 'Niveles de humedad agradables ahora mismo.',
+  'summary.uvHigh': '¡No olvides el protector solar si sales!',
+  'summary.uvModerate': 'UV moderado; busca sombra al mediodía.',
+  'summary.uvLow': 'No hace falta protección solar ahora.',
+  'summary.visibilityClear': 'Vistas despejadas a muchos kilómetros.',
+  'summary.visibilityFog': 'Hay niebla, conduce con cuidado.',
+  'summary.visibilityHazy': 'La vista está algo brumosa.',
+  'summary.raining': 'No olvides el paraguas, está lloviendo.',
+  'summary.dry': 'Tiempo seco, sin lluvia por ahora.',
+  'summary.overcast': 'El cielo está completamente cubierto.',
+  'summary.clearSkies': 'Cielos despejados y preciosos hoy.',
+  'summary.someClouds': 'Solo unas pocas nubes pasando.',
+  'summary.highPressure': 'Las altas presiones traen buen tiempo.',
+  'summary.lowPressure': 'Las bajas presiones podrían traer nubes.',
+  'summary.dewMuggy': 'Se siente tropical y bochornoso.',
+  'summary.dewCrisp': 'El aire es fresco y vigorizante.',
+  'summary.dewPleasant': 'Se está agradable fuera.',
+  'summary.windy': 'Sopla con fuerza, ¡sujeta el sombrero!',
+  'summary.breeze': 'Solo sopla una brisa suave.',
+  'summary.aqiPoor': 'La calidad del aire es mala, considera usar mascarilla.',
+  'summary.aqiGood': 'El aire es fresco y limpio.',
+
+  // Detail descriptions + insights
+  'feelsLike.description': 'La temperatura aparente calcula el calor o frío que realmente se siente teniendo en cuenta la humedad, el viento y la radiación.',
+  'feelsLike.comfort': 'Nivel de confort',
+  'feelsLike.similar': 'Similar a la temperatura real.',
+  'feelsLike.warmer': 'Parece más cálido por la humedad.',
+  'feelsLike.colder': 'Parece más frío por el viento.',
+  'feelsLike.clothing': 'Ropa',
+  'feelsLike.coat': 'Se recomienda abrigo.',
+  'feelsLike.light': 'Se recomienda ropa ligera.',
+  'feelsLike.sweater': 'Jersey o chaqueta ligera.',
+
+  'humidity.dewPoint': 'Punto de rocío: {value}',
+  'humidity.description': 'La humedad relativa mide el vapor de agua del aire respecto al máximo posible a la temperatura actual.',
+  'humidity.dewContext': 'Contexto del punto de rocío',
+  'humidity.muggy': 'El aire es bochornoso e incómodo.',
+  'humidity.dryCrisp': 'El aire es seco y fresco.',
+  'humidity.comfortable': 'Niveles de humedad cómodos.',
+  'humidity.health': 'Salud',
+  'humidity.dryAir': 'El aire seco puede irritar la piel y los ojos.',
+  'humidity.mold': 'La humedad alta puede favorecer el moho.',
+  'humidity.ideal': 'Rango ideal para la salud.',
+
+  'wind.description': 'Velocidad del viento a 10 metros sobre el suelo.',
+  'wind.gusts': 'Rachas',
+  'wind.gustsUpTo': 'Rachas ocasionales de hasta {speed}.',
+  'wind.impact': 'Impacto',
+  'wind.strong': 'Cuesta caminar; pueden caer ramas.',
+  'wind.breezy': 'Ventoso; los árboles pequeños se balancean.',
+  'wind.calm': 'Calma o brisa ligera.',
+
+  'uv.low': 'Bajo',
+  'uv.moderate': 'Moderado',
+  'uv.high': 'Alto',
+  'uv.veryHigh': 'Muy alto',
+  'uv.extreme': 'Extremo',
+  'uv.description': 'Intensidad de la radiación ultravioleta que provoca quemaduras al mediodía solar.',
+  'uv.protection': 'Protección',
+  'uv.sunscreen': 'Se recomienda protector solar y sombrero.',
+  'uv.noProtection': 'No hace falta protección.',
+  'uv.burnTime': 'Tiempo de quemadura',
+  'uv.burnFast': 'La piel puede quemarse en < 20 min.',
+  'uv.burnMedium': 'Quemadura en unos 30-45 min.',
+  'uv.burnSafe': 'Seguro para exposición prolongada.',
+
+  'visibility.description': 'Mayor distancia a la que se puede ver y reconocer un objeto oscuro destacado contra el horizonte.',
+  'visibility.condition': 'Condición',
+  'visibility.clear': 'Vista despejada.',
+  'visibility.fog': 'Niebla; conduce con cuidado.',
+  'visibility.hazy': 'Bruma o neblina.',
+  'visibility.flight': 'Impacto en vuelos',
+  'visibility.vfr': 'Puede afectar a los vuelos VFR.',
+  'visibility.goodFlying': 'Buenas condiciones de vuelo.',
+
+  'pressure.description': 'Presión atmosférica a nivel del mar.',
+  'pressure.system': 'Sistema',
+  'pressure.high': 'Sistema de altas presiones (normalmente buen tiempo).',
+  'pressure.low': 'Sistema de bajas presiones (suele traer lluvia/nubes).',
+  'pressure.trend': 'Tendencia',
+  'pressure.trendText': 'Los cambios de presión pueden indicar la llegada de frentes.',
+
+  'precip.chance': '{pop}% de probabilidad',
+  'precip.description': 'Agua total acumulada por lluvia, nieve u otras fuentes en la última hora.',
+  'precip.forecast': 'Pronóstico',
+  'precip.occurring': 'Está precipitando ahora mismo.',
+  'precip.chanceOfRain': 'Probabilidad de lluvia: {pop}%.',
+  'precip.dailyTotal': 'Total diario',
+  'precip.expectedToday': 'Se esperan {amount} hoy.',
+
+  'aqi.description': 'Índice de calidad del aire de EE. UU. (AQI). Mide los niveles de contaminación.',
+  'aqi.health': 'Salud',
+  'aqi.basis': 'Basado en los niveles de PM2.5 y ozono.',
+  'aqi.advice': 'Consejo',
+  'aqi.sensitive': 'Los grupos sensibles deberían reducir el esfuerzo al aire libre.',
+  'aqi.satisfactory': 'La calidad del aire es satisfactoria.',
+
+  'clouds.description': 'Fracción del cielo cubierta por nubes vista desde un lugar concreto.',
+  'clouds.condition': 'Condición',
+  'clouds.overcast': 'Cielos cubiertos.',
+  'clouds.clear': 'Cielos mayormente despejados.',
+  'clouds.partly': 'Parcialmente nublado.',
+  'clouds.solar': 'Energía solar',
+  'clouds.solarLow': 'Potencial de generación solar reducido.',
+  'clouds.solarHigh': 'Alto potencial solar.',
+
+  'dewPoint.description': 'Temperatura a la que debe enfriarse el aire para saturarse de vapor de agua.',
+  'dewPoint.comfort': 'Confort',
+  'dewPoint.oppressive': 'El aire resulta agobiante.',
+  'dewPoint.comfortable': 'El aire resulta cómodo/seco.',
+  'dewPoint.humid': 'Húmedo.',
+  'dewPoint.fogRisk': 'Riesgo de niebla',
+  'dewPoint.fogHigh': 'Alto riesgo de formación de niebla.',
+  'dewPoint.fogLow': 'Bajo riesgo de niebla.',
+
+  'sun.sunsetAt': 'Atardecer: {time}',
+  'sun.description': 'Momentos en que aparece y desaparece el borde superior del Sol.',
+  'sun.dayLength': 'Duración del día',
+  'sun.dayLengthText': 'Calculada según la latitud y la época del año.',
+  'sun.goldenHour': 'Hora dorada',
+  'sun.goldenHourText': 'La mejor luz para fotos, ~1 hora después del amanecer y antes del atardecer.',
+
+  'hourly.title': 'Pronóstico por horas',
+  'hourly.conditions': 'Condiciones: {pop}% de probabilidad de lluvia.',
+  'hourly.chance': '{pop}% de probabilidad.',
+  'hourly.trend': 'Tendencia',
+  'hourly.progression': 'Evolución por horas.',
+
+  'daily.summary': 'Pronóstico para el {day}: máxima de {max} y mínima de {min}.',
+  'daily.expectedPrecip': 'Precipitación prevista: {amount}.',
+  'daily.noPrecip': 'No se espera precipitación significativa.',
+  'daily.condition': 'Condición',
+  'daily.uv': 'Índice UV',
+  'daily.maxUv': 'UV máx.: {uv}',
+  'daily.daylight': 'Luz diurna',
+  'daily.sunTimes': 'Amanecer: {sunrise} • Atardecer: {sunset}',
+
+  // --- Fantasy creator ---
+  'fantasy.title': 'Constructor de mundos',
+  'fantasy.step': 'Paso {step} de 2',
+  'fantasy.selectMode': '1. Elige el modo de simulación',
+  'fantasy.modeFantasy': 'Mundo ficticio',
+  'fantasy.modeFantasyHint': 'Crea ciudades fieles a su historia a partir de libros, películas, juegos o tu imaginación.',
+  'fantasy.modeHistorical': 'Civilización antigua',
+  'fantasy.modeHistoricalHint': 'Reconstruye con rigor ciudades históricas, épocas y civilizaciones perdidas.',
+  'fantasy.identification': '2. Identificación del objetivo',
+  'fantasy.cityName': 'Nombre de la ciudad / lugar',
+  'fantasy.ancientCityName': 'Nombre de la ciudad antigua',
+  'fantasy.cityPlaceholder': 'p. ej. Invernalia, Gondor',
+  'fantasy.ancientCityPlaceholder': 'p. ej. Babilonia, Cartago',
+  'fantasy.universe': 'Universo / fuente',
+  'fantasy.era': 'Época histórica / civilización',
+  'fantasy.universePlaceholder': 'p. ej. Juego de Tronos, Star Wars',
+  'fantasy.eraPlaceholder': 'p. ej. Imperio romano, 300 a. C.',
+  'fantasy.description': 'Descripción detallada',
+  'fantasy.optional': '(Opcional)',
+  'fantasy.descriptionPlaceholder': 'Describe monumentos concretos, la situación actual o detalles específicos...',
+  'fantasy.historicalDescriptionPlaceholder': 'Describe la fase de construcción, un acontecimiento histórico o el ambiente...',
+  'fantasy.environment': '3. Parámetros ambientales',
+  'fantasy.weather': 'Condiciones meteorológicas',
+  'fantasy.time': 'Momento del día',
+  'fantasy.style': '4. Estilo de renderizado',
+  'fantasy.nextStep': 'Siguiente',
+  'fantasy.simulating': 'Simulando...',
+  'fantasy.reconstructing': 'Reconstruyendo...',
+  'fantasy.generateWorld': 'Generar mundo',
+  'fantasy.buildCity': 'Construir ciudad',
+
+  'option.Default': 'Predeterminado',
+  'option.Fantasy': 'Fantasía',
+  'option.Cyberpunk': 'Cyberpunk',
+  'option.Steampunk': 'Steampunk',
+  'option.Sci-Fi': 'Ciencia ficción',
+  'option.Gothic': 'Gótico',
+  'option.Minimal': 'Minimalista',
+  'option.Noir': 'Noir',
+  'option.Voxel': 'Vóxel',
+  'option.Low Poly': 'Low Poly',
+  'option.Studio Ghibli': 'Studio Ghibli',
+  'option.Synthwave': 'Synthwave',
+  'option.Post-Apocalyptic': 'Postapocalíptico',
+  'option.Watercolor': 'Acuarela',
+  'option.Retro': 'Retro',
+  'option.Realistic': 'Realista',
+  'option.Oil Painting': 'Óleo',
+  'option.Cinematic': 'Cinematográfico',
+  'option.Sepia': 'Sepia',
+  'option.Vintage': 'Vintage',
+  'option.Blueprint': 'Plano',
+  'option.Faded Fresco': 'Fresco desvaído',
+  'option.Mosaic': 'Mosaico',
+  'option.Ink Wash': 'Aguada de tinta',
+  'option.Etching': 'Grabado',
+  'option.Museum Diorama': 'Diorama de museo',
+  'option.Clear Sky': 'Cielo despejado',
+  'option.Stormy': 'Tormentoso',
+  'option.Snow Blizzard': 'Ventisca',
+  'option.Heavy Rain': 'Lluvia intensa',
+  'option.Foggy / Misty': 'Niebla / bruma',
+  'option.Sandstorm': 'Tormenta de arena',
+  'option.Toxic Rain': 'Lluvia tóxica',
+  'option.Cosmic Dust': 'Polvo cósmico',
+  'option.Meteor Shower': 'Lluvia de meteoros',
+  'option.Acid Fog': 'Niebla ácida',
+  'option.Heatwave': 'Ola de calor',
+  'option.Aurora Borealis': 'Aurora boreal',
+  'option.Ashfall': 'Lluvia de ceniza',
+  'option.Sunrise': 'Amanecer',
+  'option.High Noon': 'Mediodía',
+  'option.Sunset': 'Atardecer',
+  'option.Golden Hour': 'Hora dorada',
+  'option.Midnight': 'Medianoche',
+  'option.Blue Hour': 'Hora azul',
+  'option.Eclipse': 'Eclipse',
+  'option.Twilight': 'Crepúsculo',
+  'option.Deep Night': 'Noche cerrada',
+  'option.Blood Moon': 'Luna de sangre',
+  'option.Starry Night': 'Noche estrellada',
+};
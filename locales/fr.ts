@@ -0,0 +1,578 @@
+import { Messages } from './en';
+
+export const fr: Messages = {
+  // --- Common ---
+  'common.cancel': 'Annuler',
+  'common.close': 'Fermer',
+  'common.save': 'Enregistrer',
+  'common.add': 'Ajouter',
+  'common.back': 'Retour',
+  'common.today': "Aujourd'hui",
+
+  // --- App shell ---
+  'app.createFictional': 'Créer un monde fictif',
+  'app.preferences': 'Préférences',
+  'app.removeCard': 'Supprimer la carte',
+  'app.errorTitle': 'Oups !',
+  'app.tryAnotherCity': 'Essayer une autre ville',
+  'app.fantasyFailed': "Impossible de construire le monde imaginaire. La simulation est peut-être instable.",
+
+  // --- Search ---
+  'search.placeholder': 'Rechercher une ville ou des coordonnées...',
+  'search.noResults': 'Aucun lieu ne correspond à « {query} »',
+  'search.useMyLocation': 'Utiliser ma position',
+  'search.previousPage': 'Résultats précédents',
+  'search.nextPage': 'Plus de résultats',
+  'search.pageRange': '{from}–{to} sur {total}',
+  'search.favorites': 'Favoris',
+  'search.recent': 'Récents',
+  'search.results': 'Résultats',
+  'search.favorite': 'Ajouter aux favoris',
+  'search.unfavorite': 'Retirer des favoris',
+  'search.removeRecent': 'Retirer des recherches récentes',
+
+  // --- Weather service errors ---
+  'error.rateLimitedFor': 'Le service météo est saturé. Réessayez dans {seconds} secondes.',
+  'error.rateLimited': 'Le service météo est saturé. Patientez une minute puis réessayez.',
+  'error.serverDown': 'Le service météo est momentanément indisponible. Réessayez bientôt.',
+  'error.offline': 'Vous semblez hors ligne. Vérifiez votre connexion et réessayez.',
+  'error.network': 'Impossible de joindre le service météo. Vérifiez votre connexion et réessayez.',
+  'error.malformed': "Le service météo a envoyé des données illisibles. Réessayez ou choisissez une autre ville.",
+  'error.noResults': "Aucun résultat pour « {query} ». Essayez une autre orthographe ou une grande ville voisine.",
+  'error.locationDenied': "L'accès à la position a été refusé. Autorisez-le dans les réglages du navigateur pour utiliser Ma position.",
+  'error.locationTimeout': 'La localisation a pris trop de temps. Veuillez réessayer.',
+  'error.locationUnsupported': 'Ce navigateur ne peut pas partager votre position.',
+  'error.locationUnavailable': "Votre position n'est pas disponible pour le moment. Veuillez réessayer.",
+  'error.generic': "Une erreur s'est produite.",
+
+  // --- Loading screen ---
+  'loading.title': 'Construction du monde',
+  'loading.fetching': 'Traitement des données de localisation...',
+  'loading.constructing': 'Construction de la simulation...',
+  'loading.queued': "En attente d'un créneau de rendu (n° {position} dans la file)",
+  'loading.rendering': 'Rendu de la scène...',
+  'loading.renderingAttempt': 'Rendu de la scène (tentative {attempt} sur {max})...',
+  'loading.retrying': 'Service saturé, nouvel essai dans {seconds} s (tentative {attempt} sur {max})',
+  'loading.failed': 'Échec du rendu.',
+  'loading.finalizing': 'Finalisation de la composition...',
+  'loading.elapsed': '{seconds} s écoulées',
+
+  // --- Preferences ---
+  'prefs.title': 'Préférences',
+  'prefs.language': 'Langue',
+  'prefs.units': 'Unités',
+  'prefs.temperature': 'Température',
+  'prefs.wind': 'Vent',
+  'prefs.pressure': 'Pression',
+  'prefs.distance': 'Distance',
+  'prefs.precipitation': 'Précipitations',
+  'prefs.backgroundRefresh': 'Actualisation en arrière-plan',
+  'prefs.refreshEvery': 'Actualiser les cartes enregistrées toutes les',
+  'prefs.search': 'Recherche',
+  'prefs.searchResults': 'Résultats par recherche',
+  'prefs.searchHint': 'Accepte aussi les coordonnées (35.68, 139.69), les plus codes et les geohashes.',
+  'prefs.beaufort': 'Beaufort',
+  'prefs.knots': 'nœuds',
+  'prefs.alerts': 'Alertes météo',
+  'prefs.alertsHint': 'Seuil de vigilance. Les alertes se déclenchent à un niveau plus élevé.',
+  'prefs.off': 'Non',
+  'prefs.on': 'Oui',
+  'prefs.notifications': 'Notifications',
+  'prefs.notificationsHint': 'Vérifiées à chaque actualisation selon les règles de chaque carte.',
+  'prefs.notificationsEnabled': 'Notifications du navigateur',
+  'prefs.notificationsBlocked': 'Les notifications sont bloquées pour ce site. Autorisez-les dans les réglages du navigateur.',
+  'prefs.notificationsUnsupported': 'Ce navigateur ne prend pas en charge les notifications.',
+  'prefs.quietHours': 'Heures calmes',
+
+  // --- Units ---
+  'units.beaufortForce': 'Force {force}',
+
+  // --- Weather conditions (WMO groups) ---
+  'condition.clear': 'Ciel dégagé',
+  'condition.mainlyClear': 'Plutôt dégagé',
+  'condition.partlyCloudy': 'Partiellement nuageux',
+  'condition.overcast': 'Couvert',
+  'condition.fog': 'Brouillard',
+  'condition.drizzle': 'Bruine',
+  'condition.rain': 'Pluie',
+  'condition.snow': 'Neige',
+  'condition.showers': 'Averses',
+  'condition.thunderstorm': 'Orage',
+  'condition.unknown': 'Inconnu',
+
+  // --- Weather card ---
+  'card.return': 'Retour',
+  'card.myLocation': 'Ma position',
+  'card.liveForecast': 'Prévisions en direct',
+  'card.archived': 'Météo archivée',
+  'card.simulation': 'Simulation physique',
+  'card.changeUnits': 'Changer les unités',
+  'card.refresh': "Actualiser l'image et la météo",
+  'card.imageTimeHint': "L'image reflète la météo au moment de sa création, pas l'heure locale actuelle.",
+  'card.offlineHint': 'Vous êtes hors ligne. Affichage des dernières prévisions téléchargées.',
+  'card.staleHint': "Ces prévisions n'ont pas été actualisées récemment.",
+  'card.offlinePrefix': 'Hors ligne · ',
+  'card.updatedAt': 'Mis à jour {time}',
+  'card.refreshQueued': ' · Actualisation en attente',
+  'card.weatherIn': 'Météo à {city}',
+  'card.fullViewOf': 'Vue complète de {city}',
+  'card.uniqueToWorld': 'Propre à ce monde',
+  'card.worldEvents': 'Actualités du monde',
+  'card.readFullStory': "Lire l'article",
+
+  // Full-screen viewer / scene editing
+  'editor.saveAndClose': 'Enregistrer et fermer',
+  'editor.discard': 'Annuler les modifications',
+  'editor.redrawing': 'Redessin de la scène...',
+  'editor.queued': "En file d'attente (n° {position})",
+  'editor.retrying': 'Service saturé, nouvel essai (tentative {attempt} sur {max})',
+  'editor.adjustScene': 'Ajuster la scène',
+  'editor.adjustHint': 'Décrivez ce que vous voulez changer (ex. « Ajoute de la neige », « Passe en nuit », « Ajoute un dragon »).',
+  'editor.adjustPlaceholder': 'Saisissez vos instructions...',
+  'editor.generatePreview': "Générer l'aperçu",
+  'editor.downloadWallpaper': "Télécharger le fond d'écran",
+  'editor.generatingEdit': 'Modification en cours...',
+  'editor.describeChanges': "Décrivez les changements (ex. « Ajoute de la neige », « Passe en nuit »)",
+
+  // News modal (fictional cards)
+  'news.globalFeed': 'Fil mondial',
+  'news.breaking': 'Dernière minute',
+  'news.otherHeadlines': 'Autres titres',
+  'news.justNow': "À l'instant",
+  'news.footer': "Réseau d'information planétaire • En direct",
+
+  // Detail modal
+  'detail.trend': 'Analyse de tendance',
+  'detail.chartHint': 'Touchez ou faites glisser le graphique pour les détails',
+  'detail.about': 'À propos',
+  'detail.insights': 'Analyses et prévisions',
+  'detail.simulated': 'Simulation IA : les données sont une fiction générée.',
+  'detail.source': 'Source des données : {source}',
+  'detail.noHourlyForDay': 'Prévisions horaires indisponibles pour cette date',
+  'detail.noForecast': 'Données de prévision indisponibles',
+
+  // Sun cycle chart
+  'chart.time': 'Heure : {time}',
+  'chart.dragToScrub': 'Faites glisser pour parcourir',
+
+  // --- Weather alerts ---
+  'alerts.kind.wind': 'Vent',
+  'alerts.kind.rain': 'Fortes pluies',
+  'alerts.kind.heat': 'Chaleur',
+  'alerts.kind.cold': 'Grand froid',
+  'alerts.kind.fog': 'Brouillard',
+  'alerts.kind.uv': 'UV',
+  'alerts.severity.advisory': 'Vigilance',
+  'alerts.severity.warning': 'Alerte',
+  'alerts.title': '{severity} : {kind}',
+  'alerts.allDay': '{day}, toute la journée',
+  'alerts.peak': 'Max {value}',
+  'alerts.lowest': 'Min {value}',
+  'alerts.badge': '{count} alerte(s) météo active(s)',
+
+  // --- Notifications ---
+  'notify.title': 'Me prévenir',
+  'notify.empty': 'Aucune règle. Ajoutez-en une pour être prévenu avant que le temps ne change.',
+  'notify.disabledHint': 'Les notifications sont désactivées. Touchez pour les activer dans les Préférences.',
+  'notify.metric.pop': 'Risque de pluie',
+  'notify.metric.precipitation': 'Pluie',
+  'notify.metric.aqi': 'IQA',
+  'notify.threshold': 'Seuil',
+  'notify.within': 'd\'ici',
+  'notify.window': 'Fenêtre de prévision',
+  'notify.hours': '{hours} h',
+  'notify.perHour': '{amount}/h',
+  'notify.pause': 'Suspendre la règle',
+  'notify.resume': 'Réactiver la règle',
+  'notify.remove': 'Supprimer la règle',
+  'notify.rainTitle': 'Pluie attendue à {city}',
+  'notify.popBody': '{pop} % de risque de pluie à partir de {time}.',
+  'notify.precipitationBody': '{amount} de pluie attendus vers {time}.',
+  'notify.aqiTitle': 'Mauvaise qualité de l\'air à {city}',
+  'notify.aqiBody': 'L\'IQA pourrait atteindre {aqi} vers {time}.',
+
+  // --- Past weather ---
+  'history.title': 'Météo passée',
+  'history.hint': 'Consultez les conditions relevées ici n\'importe quel jour depuis 1940 et redessinez la scène.',
+  'history.date': 'Date',
+  'history.show': 'Afficher',
+  'history.backToLive': 'Revenir aux prévisions en direct',
+
+  // --- Forecast scenes ---
+  'scenes.title': 'Scènes',
+  'scenes.now': 'Maintenant',
+  'scenes.draw': 'Dessiner ce moment',
+  'scenes.show': 'Voir la scène',
+  'scenes.remove': 'Supprimer la scène',
+  'scenes.forecastFor': 'Prévision · {moment}',
+
+  // --- Timelapse ---
+  'timelapse.title': 'Timelapse',
+  'timelapse.hint': 'Redessine cette scène sur les prochaines 24 heures : lever du soleil, midi, coucher du soleil, nuit et chaque changement de temps.',
+  'timelapse.generate': 'Dessiner le timelapse',
+  'timelapse.regenerate': 'Redessiner',
+  'timelapse.progress': 'Image {done} sur {total} en cours...',
+  'timelapse.frames': '{count} images',
+  'timelapse.play': 'Lecture',
+  'timelapse.pause': 'Pause',
+  'timelapse.scrub': 'Position dans le timelapse',
+  'timelapse.exportWebp': 'WebP animé',
+  'timelapse.exportVideo': 'Vidéo',
+  'timelapse.exporting': 'Export en cours...',
+  'timelapse.exportFailed': "L'export a échoué. Essayez l'autre format.",
+  'timelapse.reason.now': 'Maintenant',
+  'timelapse.reason.sunrise': 'Lever du soleil',
+  'timelapse.reason.midday': 'Midi',
+  'timelapse.reason.sunset': 'Coucher du soleil',
+  'timelapse.reason.night': 'Nuit',
+  'timelapse.reason.change': 'Changement de temps',
+
+  // --- Version gallery ---
+  'versions.title': 'Versions',
+  'versions.count': '{count} versions',
+  'versions.hint': "Choisissez une version pour en faire la couverture ou continuer à la modifier. Choisissez-en deux pour les comparer.",
+  'versions.render': 'Nouveau rendu',
+  'versions.cover': 'Couverture',
+  'versions.editing': 'En cours',
+  'versions.useAsCover': 'Utiliser comme couverture',
+  'versions.branch': 'Modifier à partir d\'ici',
+  'versions.compare': 'Comparer',
+  'versions.masked': 'Retouche locale',
+
+  // --- Region mask ---
+  'mask.title': 'Modifier une zone',
+  'mask.brush': 'Pinceau',
+  'mask.lasso': 'Lasso',
+  'mask.brushSize': 'Taille du pinceau',
+  'mask.clear': 'Effacer le masque',
+  'mask.paintHint': 'Peignez la zone à modifier',
+  'mask.ready': 'Zone définie. Ajustez maintenant la scène',
+  'mask.onlyRegion': 'Seule la zone peinte sera modifiée.',
+
+  // --- Scene styles ---
+  'styles.title': 'Style des scènes',
+  'styles.hint': 'Les nouvelles scènes sont dessinées dans ce style. Les cartes gardent leur style lorsqu\'elles sont actualisées ou redessinées.',
+  'styles.preset.miniature': 'Miniature douce',
+  'styles.preset.watercolor': 'Diorama aquarelle',
+  'styles.preset.lowPoly': 'Low poly',
+  'styles.new': 'Nouveau style',
+  'styles.name': 'Nom du style',
+  'styles.landmarks': 'Monuments',
+  'styles.cameraAngle': 'Angle de vue',
+  'styles.aesthetic': 'Rendu',
+  'styles.save': 'Enregistrer le style',
+  'styles.delete': 'Supprimer le style',
+  'styles.template': 'Modèle v{version}',
+
+  // --- Scene format ---
+  'profile.title': 'Format de la scène',
+  'profile.hint': 'Choisissez une forme pour cette carte. Redessiner remplace la scène ; les versions précédentes restent dans l’historique.',
+  'profile.draftHint': 'Cette scène est un brouillon rapide. Générez-la en pleine qualité quand elle vous plaît.',
+  'profile.prefsHint': 'Forme et résolution des nouvelles cartes. Les brouillons sont bien plus rapides ; générez-les en pleine qualité depuis la carte.',
+  'profile.shape': 'Forme',
+  'profile.phone': 'Téléphone',
+  'profile.desktop': 'Bureau',
+  'profile.square': 'Carré',
+  'profile.draft': 'Brouillon',
+  'profile.draftTitle': 'Aperçu rapide en basse résolution',
+  'profile.redraw': 'Redessiner',
+  'profile.fullQuality': 'Pleine qualité',
+
+  // --- Collections ---
+  'collections.default': 'Mes cartes',
+  'collections.new': 'Nouvelle collection',
+  'collections.newPlaceholder': 'Nouvelle collection…',
+  'collections.rename': 'Renommer la collection',
+  'collections.delete': 'Supprimer la collection (ses cartes passent dans la première)',
+  'collections.arrange': 'Organiser les cartes',
+  'collections.arrangeHint': 'Faites glisser une carte par sa poignée, ou placez le focus sur la poignée et utilisez ↑/↓, pour changer l’ordre. Le bouton dossier la déplace vers une autre collection.',
+  'collections.count': '{count} cartes',
+  'collections.reorderCard': 'Déplacer {city}, position {position} sur {total}',
+  'collections.moveTo': 'Déplacer vers une collection',
+  'collections.moveCard': 'Déplacer {city} vers une autre collection',
+  'collections.empty': 'Cette collection est vide. Recherchez un lieu pour l’y ajouter.',
+
+  // --- Compare ---
+  'compare.open': 'Comparer des cartes',
+  'compare.title': 'Comparer',
+  'compare.count': '{count} cartes',
+  'compare.pickHint': 'Choisissez de deux à {max} cartes à comparer.',
+  'compare.now': 'Maintenant',
+  'compare.hoursAhead': '+{hours} h',
+  'compare.week': 'Écarts sur 7 jours',
+  'compare.weekHint': 'Les écarts de minimales / maximales sont calculés par rapport à {city}.',
+
+  // --- Bundles ---
+  'bundle.exportCollection': 'Exporter cette collection',
+  'bundle.exportAll': 'Exporter toutes les cartes',
+  'bundle.importFile': 'Importer des cartes…',
+  'bundle.importTitle': 'Importer des cartes',
+  'bundle.import': 'Importer',
+  'bundle.summary': '{cards} cartes dans {collections} collections',
+  'bundle.exportedAt': 'Exporté le {date}',
+  'bundle.conflicts': '{count} déjà enregistrées',
+  'bundle.conflictChoice': 'Lieux que vous avez déjà',
+  'bundle.keepExisting': 'Garder les miennes',
+  'bundle.keepExistingHint': 'Ignore les cartes importées des lieux que vous avez déjà.',
+  'bundle.replace': 'Utiliser les importées',
+  'bundle.replaceHint': 'Remplace vos cartes par celles importées, à la même place dans la pile.',
+  'bundle.keepBoth': 'Garder les deux',
+  'bundle.keepBothHint': 'Ajoute les cartes importées à côté des vôtres.',
+  'bundle.refreshLive': 'Actualiser la météo réelle',
+  'bundle.refreshLiveHint': 'Récupère les prévisions actuelles de {count} cartes météo réelles après l’import.',
+  'bundle.invalid': 'Ce fichier n’est pas un paquet IsoWeather, ou il est endommagé.',
+  'bundle.newerVersion': 'Ce paquet a été créé par une version plus récente d’IsoWeather. Mettez l’application à jour pour l’importer.',
+
+  // --- Accessibility ---
+  'a11y.stack': 'pile de cartes',
+  'a11y.stackHint': 'Utilisez les flèches gauche et droite pour parcourir les cartes, et Entrée pour en ouvrir une.',
+  'a11y.stackPosition': '{city}, carte {position} sur {total}',
+  'a11y.updating': 'Mise à jour de la météo à {city}…',
+  'a11y.openFullView': 'Ouvrir la vue complète de {city}',
+  'a11y.chartData': 'Données du graphique',
+  'a11y.chartTime': 'Heure',
+  'a11y.chartValue': 'Valeur',
+
+  // Metric names
+  'metric.temperature': 'Température',
+  'metric.feelsLike': 'Ressenti',
+  'metric.humidity': 'Humidité',
+  'metric.uvIndex': 'Indice UV',
+  'metric.visibility': 'Visibilité',
+  'metric.precipitation': 'Précipitations',
+  'metric.precipShort': 'Précip.',
+  'metric.cloudCover': 'Couverture nuageuse',
+  'metric.clouds': 'Nuages',
+  'metric.pressure': 'Pression',
+  'metric.dewPoint': 'Point de rosée',
+  'metric.wind': 'Vent',
+  'metric.airQuality': "Qualité de l'air",
+  'metric.sunrise': 'Lever',
+  'metric.sunset': 'Coucher',
+  'metric.sunriseSunset': 'Lever et coucher du soleil',
+
+  // Short summaries on the metric tiles
+  'summary.feelsSame': 'Le ressenti correspond à la température.',
+  'summary.feelsWarmer': "L'humidité rend l'air plus chaud.",
+  'summary.feelsColder': 'Le vent rend l’air plus frais.',
+  'summary.humidityDry': "L'air est plutôt sec ; pensez à boire.",
+  'summary.humidityHigh': 'Il fait un peu lourd et humide.',
+  'summary.humidityOk': "Taux d'humidité agréable en ce moment.",
+  'summary.uvHigh': "N'oubliez pas la crème solaire si vous sortez !",
+  'summary.uvModerate': "UV modéré ; cherchez l'ombre à midi.",
+  'summary.uvLow': 'Aucune protection solaire nécessaire.',
+  'summary.visibilityClear': 'Vue dégagée sur des kilomètres.',
+  'summary.visibilityFog': 'Il y a du brouillard, conduisez prudemment.',
+  'summary.visibilityHazy': 'La vue est légèrement brumeuse.',
+  'summary.raining': "N'oubliez pas le parapluie, il pleut.",
+  'summary.dry': 'Temps sec, pas de pluie pour le moment.',
+  'summary.overcast': 'Le ciel est entièrement couvert.',
+  'summary.clearSkies': 'Un beau ciel dégagé aujourd’hui.',
+  'summary.someClouds': 'Quelques nuages passent.',
+  'summary.highPressure': 'La haute pression apporte du beau temps.',
+  'summary.lowPressure': 'La basse pression pourrait amener des nuages.',
+  'summary.dewMuggy': "L'air est tropical et étouffant.",
+  'summary.dewCrisp': "L'air est vif et rafraîchissant.",
+  'summary.dewPleasant': 'Il fait agréable dehors.',
+  'summary.windy': 'Ça souffle fort, tenez votre chapeau !',
+  'summary.breeze': 'Juste une légère brise.',
+  'summary.aqiPoor': "La qualité de l'air est mauvaise, pensez au masque.",
+  'summary.aqiGood': "L'air est frais et pur.",
+
+  // Detail descriptions + insights
+  'feelsLike.description': "La température ressentie indique la chaleur ou le froid réellement perçus en tenant compte de l'humidité, du vent et du rayonnement.",
+  'feelsLike.comfort': 'Niveau de confort',
+  'feelsLike.similar': 'Proche de la température réelle.',
+  'feelsLike.warmer': "Semble plus chaud à cause de l'humidité.",
+  'feelsLike.colder': 'Semble plus froid à cause du vent.',
+  'feelsLike.clothing': 'Tenue',
+  'feelsLike.coat': 'Manteau conseillé.',
+  'feelsLike.light': 'Vêtements légers conseillés.',
+  'feelsLike.sweater': 'Pull ou veste légère.',
+
+  'humidity.dewPoint': 'Point de rosée : {value}',
+  'humidity.description': "L'humidité relative mesure la vapeur d'eau dans l'air par rapport au maximum possible à la température actuelle.",
+  'humidity.dewContext': 'Point de rosée',
+  'humidity.muggy': "L'air est lourd et inconfortable.",
+  'humidity.dryCrisp': "L'air est sec et vif.",
+  'humidity.comfortable': "Taux d'humidité confortable.",
+  'humidity.health': 'Santé',
+  'humidity.dryAir': "L'air sec peut irriter la peau et les yeux.",
+  'humidity.mold': "Une forte humidité favorise les moisissures.",
+  'humidity.ideal': 'Plage idéale pour la santé.',
+
+  'wind.description': 'Vitesse du vent à 10 mètres au-dessus du sol.',
+  'wind.gusts': 'Rafales',
+  'wind.gustsUpTo': "Rafales occasionnelles jusqu'à {speed}.",
+  'wind.impact': 'Impact',
+  'wind.strong': 'Marche difficile ; des branches peuvent tomber.',
+  'wind.breezy': 'Venteux ; les petits arbres se balancent.',
+  'wind.calm': 'Calme à brise légère.',
+
+  'uv.low': 'Faible',
+  'uv.moderate': 'Modéré',
+  'uv.high': 'Élevé',
+  'uv.veryHigh': 'Très élevé',
+  'uv.extreme': 'Extrême',
+  'uv.description': 'Intensité du rayonnement ultraviolet responsable des coups de soleil au midi solaire.',
+  'uv.protection': 'Protection',
+  'uv.sunscreen': 'Crème solaire et chapeau conseillés.',
+  'uv.noProtection': 'Aucune protection nécessaire.',
+  'uv.burnTime': "Temps d'exposition",
+  'uv.burnFast': 'Coup de soleil possible en < 20 min.',
+  'uv.burnMedium': 'Coup de soleil en ~30-45 min.',
+  'uv.burnSafe': 'Sans risque pour une exposition prolongée.',
+
+  'visibility.description': "Plus grande distance à laquelle un objet sombre bien visible peut être vu et reconnu sur fond d'horizon.",
+  'visibility.condition': 'Conditions',
+  'visibility.clear': 'Vue dégagée.',
+  'visibility.fog': 'Brouillard ; conduisez prudemment.',
+  'visibility.hazy': 'Brume ou voile.',
+  'visibility.flight': 'Impact sur les vols',
+  'visibility.vfr': 'Peut gêner les vols VFR.',
+  'visibility.goodFlying': 'Bonnes conditions de vol.',
+
+  'pressure.description': 'Pression atmosphérique au niveau de la mer.',
+  'pressure.system': 'Système',
+  'pressure.high': 'Anticyclone (généralement beau temps).',
+  'pressure.low': 'Dépression (amène souvent pluie/nuages).',
+  'pressure.trend': 'Tendance',
+  'pressure.trendText': "Les variations de pression peuvent annoncer l'arrivée de fronts.",
+
+  'precip.chance': '{pop} % de probabilité',
+  'precip.description': "Quantité totale d'eau tombée (pluie, neige, etc.) au cours de la dernière heure.",
+  'precip.forecast': 'Prévision',
+  'precip.occurring': 'Des précipitations sont en cours.',
+  'precip.chanceOfRain': 'Probabilité de pluie : {pop} %.',
+  'precip.dailyTotal': 'Total journalier',
+  'precip.expectedToday': "{amount} attendus aujourd'hui.",
+
+  'aqi.description': "Indice de qualité de l'air américain (AQI). Mesure le niveau de pollution.",
+  'aqi.health': 'Santé',
+  'aqi.basis': "Basé sur les niveaux de PM2,5 et d'ozone.",
+  'aqi.advice': 'Conseil',
+  'aqi.sensitive': 'Les personnes sensibles devraient limiter les efforts en extérieur.',
+  'aqi.satisfactory': "La qualité de l'air est satisfaisante.",
+
+  'clouds.description': "Part du ciel masquée par les nuages, observée depuis un lieu donné.",
+  'clouds.condition': 'Conditions',
+  'clouds.overcast': 'Ciel couvert.',
+  'clouds.clear': 'Ciel plutôt dégagé.',
+  'clouds.partly': 'Partiellement nuageux.',
+  'clouds.solar': 'Énergie solaire',
+  'clouds.solarLow': 'Production solaire réduite.',
+  'clouds.solarHigh': 'Fort potentiel solaire.',
+
+  'dewPoint.description': "Température à laquelle l'air doit être refroidi pour être saturé en vapeur d'eau.",
+  'dewPoint.comfort': 'Confort',
+  'dewPoint.oppressive': "L'air est oppressant.",
+  'dewPoint.comfortable': "L'air est confortable/sec.",
+  'dewPoint.humid': 'Humide.',
+  'dewPoint.fogRisk': 'Risque de brouillard',
+  'dewPoint.fogHigh': 'Risque élevé de formation de brouillard.',
+  'dewPoint.fogLow': 'Faible risque de brouillard.',
+
+  'sun.sunsetAt': 'Coucher : {time}',
+  'sun.description': 'Heures d’apparition et de disparition du bord supérieur du Soleil.',
+  'sun.dayLength': 'Durée du jour',
+  'sun.dayLengthText': "Calculée selon la latitude et la période de l'année.",
+  'sun.goldenHour': 'Heure dorée',
+  'sun.goldenHourText': 'Meilleure lumière pour la photo ~1 h après le lever et avant le coucher.',
+
+  'hourly.title': 'Prévisions horaires',
+  'hourly.conditions': 'Conditions : {pop} % de risque de pluie.',
+  'hourly.chance': '{pop} % de probabilité.',
+  'hourly.trend': 'Tendance',
+  'hourly.progression': 'Évolution heure par heure.',
+
+  'daily.summary': 'Prévisions pour {day} : max. {max} et min. {min}.',
+  'daily.expectedPrecip': 'Précipitations attendues : {amount}.',
+  'daily.noPrecip': 'Pas de précipitations significatives attendues.',
+  'daily.condition': 'Conditions',
+  'daily.uv': 'Indice UV',
+  'daily.maxUv': 'UV max : {uv}',
+  'daily.daylight': 'Ensoleillement',
+  'daily.sunTimes': 'Lever : {sunrise} • Coucher : {sunset}',
+
+  // --- Fantasy creator ---
+  'fantasy.title': 'Créateur de mondes',
+  'fantasy.step': 'Étape {step} sur 2',
+  'fantasy.selectMode': '1. Choisir le mode de simulation',
+  'fantasy.modeFantasy': 'Monde fictif',
+  'fantasy.modeFantasyHint': "Créez des villes fidèles à l'univers de livres, films, jeux ou de votre imagination.",
+  'fantasy.modeHistorical': 'Civilisation antique',
+  'fantasy.modeHistoricalHint': 'Reconstituez avec précision des villes historiques, des époques et des civilisations disparues.',
+  'fantasy.identification': '2. Identification de la cible',
+  'fantasy.cityName': 'Nom de la ville / du lieu',
+  'fantasy.ancientCityName': 'Nom de la cité antique',
+  'fantasy.cityPlaceholder': 'ex. Winterfell, Gondor',
+  'fantasy.ancientCityPlaceholder': 'ex. Babylone, Carthage',
+  'fantasy.universe': 'Univers / source',
+  'fantasy.era': 'Époque / civilisation',
+  'fantasy.universePlaceholder': 'ex. Game of Thrones, Star Wars',
+  'fantasy.eraPlaceholder': 'ex. Empire romain, 300 av. J.-C.',
+  'fantasy.description': 'Description détaillée',
+  'fantasy.optional': '(Facultatif)',
+  'fantasy.descriptionPlaceholder': 'Décrivez des lieux précis, la situation actuelle ou des détails particuliers...',
+  'fantasy.historicalDescriptionPlaceholder': "Décrivez la phase de construction, un événement historique ou l'ambiance...",
+  'fantasy.environment': '3. Paramètres environnementaux',
+  'fantasy.weather': 'Conditions météo',
+  'fantasy.time': 'Moment de la journée',
+  'fantasy.style': '4. Style de rendu',
+  'fantasy.nextStep': 'Étape suivante',
+  'fantasy.simulating': 'Simulation...',
+  'fantasy.reconstructing': 'Reconstitution...',
+  'fantasy.generateWorld': 'Générer le monde',
+  'fantasy.buildCity': 'Bâtir la ville',
+
+  'option.Default': 'Par défaut',
+  'option.Fantasy': 'Fantasy',
+  'option.Cyberpunk': 'Cyberpunk',
+  'option.Steampunk': 'Steampunk',
+  'option.Sci-Fi': 'Science-fiction',
+  'option.Gothic': 'Gothique',
+  'option.Minimal': 'Minimaliste',
+  'option.Noir': 'Noir',
+  'option.Voxel': 'Voxel',
+  'option.Low Poly': 'Low Poly',
+  'option.Studio Ghibli': 'Studio Ghibli',
+  'option.Synthwave': 'Synthwave',
+  'option.Post-Apocalyptic': 'Post-apocalyptique',
+  'option.Watercolor': 'Aquarelle',
+  'option.Retro': 'Rétro',
+  'option.Realistic': 'Réaliste',
+  'option.Oil Painting': "Peinture à l'huile",
+  'option.Cinematic': 'Cinématographique',
+  'option.Sepia': 'Sépia',
+  'option.Vintage': 'Vintage',
+  'option.Blueprint': 'Plan technique',
+  'option.Faded Fresco': 'Fresque délavée',
+  'option.Mosaic': 'Mosaïque',
+  'option.Ink Wash': "Lavis d'encre",
+  'option.Etching': 'Gravure',
+  'option.Museum Diorama': 'Diorama de musée',
+  'option.Clear Sky': 'Ciel dégagé',
+  'option.Stormy': 'Orageux',
+  'option.Snow Blizzard': 'Blizzard',
+  'option.Heavy Rain': 'Pluie battante',
+  'option.Foggy / Misty': 'Brouillard / brume',
+  'option.Sandstorm': 'Tempête de sable',
+  'option.Toxic Rain': 'Pluie toxique',
+  'option.Cosmic Dust': 'Poussière cosmique',
+  'option.Meteor Shower': "Pluie d'étoiles filantes",
+  'option.Acid Fog': 'Brouillard acide',
+  'option.Heatwave': 'Canicule',
+  'option.Aurora Borealis': 'Aurore boréale',
+  'option.Ashfall': 'Pluie de cendres',
+  'option.Sunrise': 'Lever du soleil',
+  'option.High Noon': 'Plein midi',
+  'option.Sunset': 'Coucher du soleil',
+  'option.Golden Hour': 'Heure dorée',
+  'option.Midnight': 'Minuit',
+  'option.Blue Hour': 'Heure bleue',
+  'option.Eclipse': 'Éclipse',
+  'option.Twilight': 'Crépuscule',
+  'option.Deep Night': 'Nuit noire',
+  'option.Blood Moon': 'Lune de sang',
+  'option.Starry Night': 'Nuit étoilée',
+};
@@ -0,0 +1,578 @@
+import { Messages } from './en';
+
+export const ja: Messages = {
+  // --- Common ---
+  'common.cancel': 'キャンセル',
+  'common.close': '閉じる',
+  'common.save': '保存',
+  'common.add': '追加',
+  'common.back': '戻る',
+  'common.today': '今日',
+
+  // --- App shell ---
+  'app.createFictional': '架空の世界を作成',
+  'app.preferences': '設定',
+  'app.removeCard': 'カードを削除',
+  'app.errorTitle': 'エラー',
+  'app.tryAnotherCity': '別の都市を試す',
+  'app.fantasyFailed': 'ファンタジー世界を構築できませんでした。シミュレーションが不安定な可能性があります。',
+
+  // --- Search ---
+  'search.placeholder': '都市名または座標で検索...',
+  'search.noResults': '「{query}」に一致する場所はありません',
+  'search.useMyLocation': '現在地を使う',
+  'search.previousPage': '前の結果',
+  'search.nextPage': '次の結果',
+  'search.pageRange': '{total}件中 {from}–{to}',
+  'search.favorites': 'お気に入り',
+  'search.recent': '最近の検索',
+  'search.results': '検索結果',
+  'search.favorite': 'お気に入りに追加',
+  'search.unfavorite': 'お気に入りから削除',
+  'search.removeRecent': '最近の検索から削除',
+
+  // --- Weather service errors ---
+  'error.rateLimitedFor': '気象サービスが混み合っています。{seconds}秒後にもう一度お試しください。',
+  'error.rateLimited': '気象サービスが混み合っています。1分ほど待ってからもう一度お試しください。',
+  'error.serverDown': '気象サービスは一時的に利用できません。しばらくしてからお試しください。',
+  'error.offline': 'オフラインのようです。接続を確認してもう一度お試しください。',
+  'error.network': '気象サービスに接続できませんでした。接続を確認してもう一度お試しください。',
+  'error.malformed': '気象サービスから読み取れないデータが返されました。もう一度試すか、別の都市を選んでください。',
+  'error.noResults': '「{query}」は見つかりませんでした。別の綴りか、近くの大きな都市をお試しください。',
+  'error.locationDenied': '位置情報へのアクセスが拒否されました。現在地を使うにはブラウザの設定で許可してください。',
+  'error.locationTimeout': '位置情報の取得に時間がかかりすぎました。もう一度お試しください。',
+  'error.locationUnsupported': 'このブラウザは位置情報を共有できません。',
+  'error.locationUnavailable': '現在地を取得できません。もう一度お試しください。',
+  'error.generic': '問題が発生しました。',
+
+  // --- Loading screen ---
+  'loading.title': '世界を構築中',
+  'loading.fetching': '位置情報を処理中...',
+  'loading.constructing': 'シミュレーションを構築中...',
+  'loading.queued': 'レンダリング待ち（{position}番目）',
+  'loading.rendering': 'シーンをレンダリング中...',
+  'loading.renderingAttempt': 'シーンをレンダリング中（{attempt}/{max}回目）...',
+  'loading.retrying': 'サービス混雑中、{seconds}秒後に再試行（{attempt}/{max}回目）',
+  'loading.failed': 'レンダリングに失敗しました。',
+  'loading.finalizing': 'シーンを仕上げています...',
+  'loading.elapsed': '経過 {seconds}秒',
+
+  // --- Preferences ---
+  'prefs.title': '設定',
+  'prefs.language': '言語',
+  'prefs.units': '単位',
+  'prefs.temperature': '気温',
+  'prefs.wind': '風速',
+  'prefs.pressure': '気圧',
+  'prefs.distance': '距離',
+  'prefs.precipitation': '降水量',
+  'prefs.backgroundRefresh': 'バックグラウンド更新',
+  'prefs.refreshEvery': '保存したカードの更新間隔',
+  'prefs.search': '検索',
+  'prefs.searchResults': '1回の検索結果数',
+  'prefs.searchHint': '座標（35.68, 139.69）、プラスコード、ジオハッシュにも対応しています。',
+  'prefs.beaufort': 'ビューフォート',
+  'prefs.knots': 'ノット',
+  'prefs.alerts': '気象警報',
+  'prefs.alertsHint': '注意報の発令レベル。警報はより高いレベルで発令されます。',
+  'prefs.off': 'オフ',
+  'prefs.on': 'オン',
+  'prefs.notifications': '通知',
+  'prefs.notificationsHint': '更新のたびに各カードのルールで確認します。',
+  'prefs.notificationsEnabled': 'ブラウザ通知',
+  'prefs.notificationsBlocked': 'このサイトの通知はブロックされています。ブラウザの設定で許可してください。',
+  'prefs.notificationsUnsupported': 'このブラウザは通知に対応していません。',
+  'prefs.quietHours': 'おやすみ時間',
+
+  // --- Units ---
+  'units.beaufortForce': '風力{force}',
+
+  // --- Weather conditions (WMO groups) ---
+  'condition.clear': '快晴',
+  'condition.mainlyClear': '晴れ',
+  'condition.partlyCloudy': '晴れ時々曇り',
+  'condition.overcast': '曇り',
+  'condition.fog': '霧',
+  'condition.drizzle': '霧雨',
+  'condition.rain': '雨',
+  'condition.snow': '雪',
+  'condition.showers': 'にわか雨',
+  'condition.thunderstorm': '雷雨',
+  'condition.unknown': '不明',
+
+  // --- Weather card ---
+  'card.return': '戻る',
+  'card.myLocation': '現在地',
+  'card.liveForecast': 'ライブ予報',
+  'card.archived': '過去の天気',
+  'card.simulation': '物理シミュレーション',
+  'card.changeUnits': '単位を変更',
+  'card.refresh': '画像と天気を更新',
+  'card.imageTimeHint': '画像は生成時点の天気を表しており、現在の現地時刻ではありません。',
+  'card.offlineHint': 'オフラインです。最後にダウンロードした予報を表示しています。',
+  'card.staleHint': 'この予報はしばらく更新されていません。',
+  'card.offlinePrefix': 'オフライン · ',
+  'card.updatedAt': '{time} 更新',
+  'card.refreshQueued': ' · 更新待ち',
+  'card.weatherIn': '{city}の天気',
+  'card.fullViewOf': '{city}の全体表示',
+  'card.uniqueToWorld': 'この世界だけの指標',
+  'card.worldEvents': '世界の出来事',
+  'card.readFullStory': '記事を読む',
+
+  // Full-screen viewer / scene editing
+  'editor.saveAndClose': '保存して閉じる',
+  'editor.discard': '変更を破棄',
+  'editor.redrawing': 'シーンを再描画中...',
+  'editor.queued': '順番待ち（{position}番目）',
+  'editor.retrying': 'サービス混雑中、再試行しています（{attempt}/{max}回目）',
+  'editor.adjustScene': 'シーンを調整',
+  'editor.adjustHint': '変更したい内容を入力してください（例：「雪を追加」「夜にする」「ドラゴンを追加」）。',
+  'editor.adjustPlaceholder': '指示を入力...',
+  'editor.generatePreview': 'プレビューを生成',
+  'editor.downloadWallpaper': '壁紙をダウンロード',
+  'editor.generatingEdit': '編集を生成中...',
+  'editor.describeChanges': '変更内容を入力（例：「雪を追加」「夜にする」）',
+
+  // News modal (fictional cards)
+  'news.globalFeed': 'グローバルフィード',
+  'news.breaking': '速報',
+  'news.otherHeadlines': 'その他のニュース',
+  'news.justNow': 'たった今',
+  'news.footer': '惑星ニュースネットワーク • ライブ配信',
+
+  // Detail modal
+  'detail.trend': '傾向分析',
+  'detail.chartHint': 'グラフをタップまたはドラッグして詳細を表示',
+  'detail.about': '概要',
+  'detail.insights': '分析と予報',
+  'detail.simulated': 'AIシミュレーション：データは生成された設定です。',
+  'detail.source': 'データ提供：{source}',
+  'detail.noHourlyForDay': 'この日の時間別予報はありません',
+  'detail.noForecast': '予報データがありません',
+
+  // Sun cycle chart
+  'chart.time': '時刻：{time}',
+  'chart.dragToScrub': 'ドラッグして時刻を確認',
+
+  // --- Weather alerts ---
+  'alerts.kind.wind': '強風',
+  'alerts.kind.rain': '大雨',
+  'alerts.kind.heat': '高温',
+  'alerts.kind.cold': '低温',
+  'alerts.kind.fog': '濃霧',
+  'alerts.kind.uv': '紫外線',
+  'alerts.severity.advisory': '注意報',
+  'alerts.severity.warning': '警報',
+  'alerts.title': '{kind}{severity}',
+  'alerts.allDay': '{day} 終日',
+  'alerts.peak': '最大 {value}',
+  'alerts.lowest': '最小 {value}',
+  'alerts.badge': '有効な気象警報 {count} 件',
+
+  // --- Notifications ---
+  'notify.title': '通知ルール',
+  'notify.empty': 'ルールはまだありません。追加すると天気が変わる前にお知らせします。',
+  'notify.disabledHint': '通知はオフです。タップして設定で有効にしてください。',
+  'notify.metric.pop': '降水確率',
+  'notify.metric.precipitation': '降水量',
+  'notify.metric.aqi': 'AQI',
+  'notify.threshold': 'しきい値',
+  'notify.within': '範囲',
+  'notify.window': '予報の範囲',
+  'notify.hours': '{hours}時間',
+  'notify.perHour': '{amount}/時',
+  'notify.pause': 'ルールを一時停止',
+  'notify.resume': 'ルールを再開',
+  'notify.remove': 'ルールを削除',
+  'notify.rainTitle': '{city}で雨の予報',
+  'notify.popBody': '{time}から降水確率{pop}%。',
+  'notify.precipitationBody': '{time}ごろ{amount}の雨が予想されます。',
+  'notify.aqiTitle': '{city}の大気質が悪化',
+  'notify.aqiBody': '{time}ごろAQIが{aqi}に達する見込みです。',
+
+  // --- Past weather ---
+  'history.title': '過去の天気',
+  'history.hint': '1940年以降の任意の日の観測データを表示し、その日のシーンを描き直します。',
+  'history.date': '日付',
+  'history.show': '表示',
+  'history.backToLive': 'ライブ予報に戻る',
+
+  // --- Forecast scenes ---
+  'scenes.title': 'シーン',
+  'scenes.now': '現在',
+  'scenes.draw': 'この時間を描く',
+  'scenes.show': 'シーンを表示',
+  'scenes.remove': 'シーンを削除',
+  'scenes.forecastFor': '予報 · {moment}',
+
+  // --- Timelapse ---
+  'timelapse.title': 'タイムラプス',
+  'timelapse.hint': 'このシーンを今後24時間にわたって描き直します：日の出、正午、日の入り、夜、そして天気の変わり目。',
+  'timelapse.generate': 'タイムラプスを描く',
+  'timelapse.regenerate': '描き直す',
+  'timelapse.progress': 'フレーム {done} / {total} を描画中...',
+  'timelapse.frames': '{count} フレーム',
+  'timelapse.play': '再生',
+  'timelapse.pause': '一時停止',
+  'timelapse.scrub': 'タイムラプスの位置',
+  'timelapse.exportWebp': 'アニメーションWebP',
+  'timelapse.exportVideo': '動画',
+  'timelapse.exporting': '書き出し中...',
+  'timelapse.exportFailed': '書き出しに失敗しました。別の形式をお試しください。',
+  'timelapse.reason.now': '現在',
+  'timelapse.reason.sunrise': '日の出',
+  'timelapse.reason.midday': '正午',
+  'timelapse.reason.sunset': '日の入り',
+  'timelapse.reason.night': '夜',
+  'timelapse.reason.change': '天気の変化',
+
+  // --- Version gallery ---
+  'versions.title': 'バージョン',
+  'versions.count': '{count} 件のバージョン',
+  'versions.hint': 'バージョンを選んでカバーにするか、そこから編集を続けます。2つ選ぶと比較できます。',
+  'versions.render': '新規レンダリング',
+  'versions.cover': 'カバー',
+  'versions.editing': '編集中',
+  'versions.useAsCover': 'カバーにする',
+  'versions.branch': 'ここから編集',
+  'versions.compare': '比較',
+  'versions.masked': '部分編集',
+
+  // --- Region mask ---
+  'mask.title': '範囲を編集',
+  'mask.brush': 'ブラシ',
+  'mask.lasso': 'なげなわ',
+  'mask.brushSize': 'ブラシのサイズ',
+  'mask.clear': 'マスクを消去',
+  'mask.paintHint': '変更したい部分を塗ってください',
+  'mask.ready': '範囲を設定しました。シーンを調整してください',
+  'mask.onlyRegion': '塗った範囲だけが変更されます。',
+
+  // --- Scene styles ---
+  'styles.title': 'シーンのスタイル',
+  'styles.hint': '新しいシーンはこのスタイルで描かれます。カードは更新や再描画のときも描かれたときのスタイルを保ちます。',
+  'styles.preset.miniature': 'やわらかミニチュア',
+  'styles.preset.watercolor': '水彩ジオラマ',
+  'styles.preset.lowPoly': 'ローポリ',
+  'styles.new': '新しいスタイル',
+  'styles.name': 'スタイル名',
+  'styles.landmarks': 'ランドマーク',
+  'styles.cameraAngle': 'カメラアングル',
+  'styles.aesthetic': '見た目',
+  'styles.save': 'スタイルを保存',
+  'styles.delete': 'スタイルを削除',
+  'styles.template': 'テンプレート v{version}',
+
+  // --- Scene format ---
+  'profile.title': 'シーンの形式',
+  'profile.hint': 'このカードの形を選びます。再描画するとシーンが置き換わりますが、以前のバージョンは履歴に残ります。',
+  'profile.draftHint': 'このシーンは簡易ドラフトです。気に入ったら高画質で描き直してください。',
+  'profile.prefsHint': '新しいカードの形と解像度です。ドラフトはずっと速く、カードから高画質で描き直せます。',
+  'profile.shape': '形',
+  'profile.phone': 'スマホ',
+  'profile.desktop': 'デスクトップ',
+  'profile.square': '正方形',
+  'profile.draft': 'ドラフト',
+  'profile.draftTitle': '低解像度の簡易プレビュー',
+  'profile.redraw': '再描画',
+  'profile.fullQuality': '高画質',
+
+  // --- Collections ---
+  'collections.default': 'マイカード',
+  'collections.new': '新しいコレクション',
+  'collections.newPlaceholder': '新しいコレクション…',
+  'collections.rename': 'コレクション名を変更',
+  'collections.delete': 'コレクションを削除（カードは最初のコレクションに移動）',
+  'collections.arrange': 'カードを並べ替え',
+  'collections.arrangeHint': 'ハンドルをドラッグするか、ハンドルにフォーカスして ↑/↓ で順番を変えます。フォルダボタンで別のコレクションに移動できます。',
+  'collections.count': '{count} 枚',
+  'collections.reorderCard': '{city} を並べ替え（{total} 枚中 {position} 番目）',
+  'collections.moveTo': 'コレクションに移動',
+  'collections.moveCard': '{city} を別のコレクションに移動',
+  'collections.empty': 'このコレクションは空です。場所を検索して追加しましょう。',
+
+  // --- Compare ---
+  'compare.open': 'カードを比較',
+  'compare.title': '比較',
+  'compare.count': '{count}枚のカード',
+  'compare.pickHint': '比較するカードを2〜{max}枚選んでください。',
+  'compare.now': '現在',
+  'compare.hoursAhead': '+{hours}時間',
+  'compare.week': '7日間の気温幅',
+  'compare.weekHint': '最低 / 最高気温の差は{city}との比較です。',
+
+  // --- Bundles ---
+  'bundle.exportCollection': 'このコレクションを書き出す',
+  'bundle.exportAll': 'すべてのカードを書き出す',
+  'bundle.importFile': 'カードを読み込む…',
+  'bundle.importTitle': 'カードの読み込み',
+  'bundle.import': '読み込む',
+  'bundle.summary': '{collections}個のコレクションに{cards}枚のカード',
+  'bundle.exportedAt': '{date}に書き出し',
+  'bundle.conflicts': '{count}件は保存済み',
+  'bundle.conflictChoice': 'すでにある場所',
+  'bundle.keepExisting': '手元のカードを残す',
+  'bundle.keepExistingHint': 'すでにある場所の読み込みカードはスキップします。',
+  'bundle.replace': '読み込んだカードを使う',
+  'bundle.replaceHint': '手元のカードを読み込んだカードで置き換えます（スタック内の位置はそのまま）。',
+  'bundle.keepBoth': '両方残す',
+  'bundle.keepBothHint': '読み込んだカードを手元のカードの横に追加します。',
+  'bundle.refreshLive': '実際の天気を更新',
+  'bundle.refreshLiveHint': '読み込み後、実際の天気のカード{count}枚の最新予報を取得します。',
+  'bundle.invalid': 'このファイルはIsoWeatherのバンドルではないか、破損しています。',
+  'bundle.newerVersion': 'このバンドルは新しいバージョンのIsoWeatherで作成されました。読み込むにはアプリを更新してください。',
+
+  // --- Accessibility ---
+  'a11y.stack': 'カードスタック',
+  'a11y.stackHint': '左右の矢印キーでカードを移動し、Enter キーで開きます。',
+  'a11y.stackPosition': '{city}、{total} 枚中 {position} 枚目',
+  'a11y.updating': '{city} の天気を更新しています…',
+  'a11y.openFullView': '{city} を全画面で表示',
+  'a11y.chartData': 'グラフのデータ',
+  'a11y.chartTime': '時刻',
+  'a11y.chartValue': '値',
+
+  // Metric names
+  'metric.temperature': '気温',
+  'metric.feelsLike': '体感温度',
+  'metric.humidity': '湿度',
+  'metric.uvIndex': 'UV指数',
+  'metric.visibility': '視程',
+  'metric.precipitation': '降水量',
+  'metric.precipShort': '降水',
+  'metric.cloudCover': '雲量',
+  'metric.clouds': '雲',
+  'metric.pressure': '気圧',
+  'metric.dewPoint': '露点',
+  'metric.wind': '風',
+  'metric.airQuality': '大気質',
+  'metric.sunrise': '日の出',
+  'metric.sunset': '日の入り',
+  'metric.sunriseSunset': '日の出と日の入り',
+
+  // Short summaries on the metric tiles
+  'summary.feelsSame': '見た目どおりの体感です。',
+  'summary.feelsWarmer': '湿気で暑く感じます。',
+  'summary.feelsColder': '風で肌寒く感じます。',
+  'summary.humidityDry': '空気がかなり乾燥しています。水分補給を。',
+  'summary.humidityHigh': '少し蒸し暑く感じます。',
+  'summary.humidityOk': '今は快適な湿度です。',
+  'summary.uvHigh': '外出時は日焼け止めを忘れずに！',
+  'summary.uvModerate': 'UVは中程度。正午は日陰へ。',
+  'summary.uvLow': '今は日焼け対策は不要です。',
+  'summary.visibilityClear': '遠くまでくっきり見渡せます。',
+  'summary.visibilityFog': '霧が出ています。運転に注意してください。',
+  'summary.visibilityHazy': '少しかすんでいます。',
+  'summary.raining': '雨が降っています。傘をお忘れなく。',
+  'summary.dry': '乾いた天気で、今は雨は降っていません。',
+  'summary.overcast': '空は一面の曇りです。',
+  'summary.clearSkies': '今日はきれいな青空です。',
+  'summary.someClouds': '雲が少し流れています。',
+  'summary.highPressure': '高気圧で天気は安定しています。',
+  'summary.lowPressure': '低気圧で雲が出るかもしれません。',
+  'summary.dewMuggy': '熱帯のように蒸し暑く感じます。',
+  'summary.dewCrisp': '空気がさわやかで気持ちいいです。',
+  'summary.dewPleasant': '外は過ごしやすいです。',
+  'summary.windy': '風が強いので帽子に注意！',
+  'summary.breeze': 'そよ風が吹いています。',
+  'summary.aqiPoor': '大気質が悪いです。マスクの着用を検討してください。',
+  'summary.aqiGood': '空気はきれいで新鮮です。',
+
+  // Detail descriptions + insights
+  'feelsLike.description': '体感温度は、湿度・風速・日射を考慮して実際にどれくらい暑い・寒いと感じるかを示します。',
+  'feelsLike.comfort': '快適度',
+  'feelsLike.similar': '実際の気温とほぼ同じです。',
+  'feelsLike.warmer': '湿気で暑く感じます。',
+  'feelsLike.colder': '風で寒く感じます。',
+  'feelsLike.clothing': '服装',
+  'feelsLike.coat': 'コートがおすすめです。',
+  'feelsLike.light': '軽装がおすすめです。',
+  'feelsLike.sweater': 'セーターか薄手の上着を。',
+
+  'humidity.dewPoint': '露点：{value}',
+  'humidity.description': '相対湿度は、現在の気温で含みうる最大量に対する空気中の水蒸気の割合です。',
+  'humidity.dewContext': '露点から見ると',
+  'humidity.muggy': '蒸し暑く不快に感じます。',
+  'humidity.dryCrisp': '乾燥してさわやかです。',
+  'humidity.comfortable': '快適な湿度です。',
+  'humidity.health': '健康',
+  'humidity.dryAir': '乾燥した空気は肌や目を刺激することがあります。',
+  'humidity.mold': '高い湿度はカビの原因になります。',
+  'humidity.ideal': '健康に理想的な範囲です。',
+
+  'wind.description': '地上10メートルの風速です。',
+  'wind.gusts': '突風',
+  'wind.gustsUpTo': '時折最大{speed}の突風があります。',
+  'wind.impact': '影響',
+  'wind.strong': '歩きにくく、枝が落ちることがあります。',
+  'wind.breezy': 'やや強い風。小さな木が揺れます。',
+  'wind.calm': '穏やか〜弱い風。',
+
+  'uv.low': '弱い',
+  'uv.moderate': '中程度',
+  'uv.high': '強い',
+  'uv.veryHigh': '非常に強い',
+  'uv.extreme': '極端に強い',
+  'uv.description': '太陽南中時に日焼けを引き起こす紫外線の強さです。',
+  'uv.protection': '対策',
+  'uv.sunscreen': '日焼け止めと帽子がおすすめです。',
+  'uv.noProtection': '対策は不要です。',
+  'uv.burnTime': '日焼けまでの時間',
+  'uv.burnFast': '20分未満で日焼けすることがあります。',
+  'uv.burnMedium': '約30〜45分で日焼けします。',
+  'uv.burnSafe': '長時間でも安全です。',
+
+  'visibility.description': '地平線の空を背景に、目立つ黒い物体を見分けられる最大距離です。',
+  'visibility.condition': '状況',
+  'visibility.clear': '見通し良好。',
+  'visibility.fog': '霧。運転に注意してください。',
+  'visibility.hazy': 'もや・かすみ。',
+  'visibility.flight': '航空への影響',
+  'visibility.vfr': '有視界飛行に影響する可能性があります。',
+  'visibility.goodFlying': '飛行に適しています。',
+
+  'pressure.description': '海面気圧です。',
+  'pressure.system': '気圧配置',
+  'pressure.high': '高気圧（おおむね晴れ）。',
+  'pressure.low': '低気圧（雨や雲をもたらしやすい）。',
+  'pressure.trend': '傾向',
+  'pressure.trendText': '気圧の変化は前線の接近を示すことがあります。',
+
+  'precip.chance': '降水確率 {pop}%',
+  'precip.description': '過去1時間に雨や雪などで降った水の総量です。',
+  'precip.forecast': '予報',
+  'precip.occurring': '現在降水があります。',
+  'precip.chanceOfRain': '降水確率：{pop}%。',
+  'precip.dailyTotal': '1日の合計',
+  'precip.expectedToday': '今日は{amount}の見込みです。',
+
+  'aqi.description': '米国大気質指数（AQI）。大気汚染の度合いを示します。',
+  'aqi.health': '健康',
+  'aqi.basis': 'PM2.5とオゾンの濃度に基づきます。',
+  'aqi.advice': 'アドバイス',
+  'aqi.sensitive': '影響を受けやすい方は屋外での激しい運動を控えてください。',
+  'aqi.satisfactory': '大気質は良好です。',
+
+  'clouds.description': 'ある地点から見て空が雲に覆われている割合です。',
+  'clouds.condition': '状況',
+  'clouds.overcast': '曇り空。',
+  'clouds.clear': 'ほぼ晴れ。',
+  'clouds.partly': '晴れ時々曇り。',
+  'clouds.solar': '太陽光発電',
+  'clouds.solarLow': '発電量は少なめです。',
+  'clouds.solarHigh': '発電に適しています。',
+
+  'dewPoint.description': '空気を冷やしたときに水蒸気で飽和する温度です。',
+  'dewPoint.comfort': '快適度',
+  'dewPoint.oppressive': '空気が重苦しく感じます。',
+  'dewPoint.comfortable': '快適で乾いた空気です。',
+  'dewPoint.humid': '湿っぽいです。',
+  'dewPoint.fogRisk': '霧の可能性',
+  'dewPoint.fogHigh': '霧が発生しやすい状態です。',
+  'dewPoint.fogLow': '霧の可能性は低いです。',
+
+  'sun.sunsetAt': '日の入り：{time}',
+  'sun.description': '太陽の上端が現れる時刻と沈む時刻です。',
+  'sun.dayLength': '昼の長さ',
+  'sun.dayLengthText': '緯度と季節から計算されます。',
+  'sun.goldenHour': 'ゴールデンアワー',
+  'sun.goldenHourText': '日の出後と日の入り前の約1時間が撮影に最適です。',
+
+  'hourly.title': '時間別予報',
+  'hourly.conditions': '状況：降水確率{pop}%。',
+  'hourly.chance': '確率{pop}%。',
+  'hourly.trend': '傾向',
+  'hourly.progression': '1時間ごとの推移。',
+
+  'daily.summary': '{day}の予報：最高{max}、最低{min}。',
+  'daily.expectedPrecip': '予想降水量：{amount}。',
+  'daily.noPrecip': 'まとまった降水は予想されていません。',
+  'daily.condition': '天気',
+  'daily.uv': 'UV指数',
+  'daily.maxUv': '最大UV：{uv}',
+  'daily.daylight': '日照',
+  'daily.sunTimes': '日の出：{sunrise} • 日の入り：{sunset}',
+
+  // --- Fantasy creator ---
+  'fantasy.title': 'ワールドビルダー',
+  'fantasy.step': 'ステップ {step}/2',
+  'fantasy.selectMode': '1. シミュレーションモードを選択',
+  'fantasy.modeFantasy': '架空の世界',
+  'fantasy.modeFantasyHint': '本や映画、ゲーム、あなたの想像から設定どおりの都市を作成します。',
+  'fantasy.modeHistorical': '古代文明',
+  'fantasy.modeHistoricalHint': '歴史上の都市や時代、失われた文明を正確に再現します。',
+  'fantasy.identification': '2. 対象の指定',
+  'fantasy.cityName': '都市・場所の名前',
+  'fantasy.ancientCityName': '古代都市の名前',
+  'fantasy.cityPlaceholder': '例：ウィンターフェル、ゴンドール',
+  'fantasy.ancientCityPlaceholder': '例：バビロン、カルタゴ',
+  'fantasy.universe': '作品・出典',
+  'fantasy.era': '時代・文明',
+  'fantasy.universePlaceholder': '例：ゲーム・オブ・スローンズ、スター・ウォーズ',
+  'fantasy.eraPlaceholder': '例：ローマ帝国、紀元前300年',
+  'fantasy.description': '詳しい説明',
+  'fantasy.optional': '（任意）',
+  'fantasy.descriptionPlaceholder': '特定の名所や現在の情勢、細かな設定を記述してください...',
+  'fantasy.historicalDescriptionPlaceholder': '建設段階や特定の歴史的出来事、雰囲気を記述してください...',
+  'fantasy.environment': '3. 環境パラメーター',
+  'fantasy.weather': '天候',
+  'fantasy.time': '時間帯',
+  'fantasy.style': '4. 描画スタイル',
+  'fantasy.nextStep': '次へ',
+  'fantasy.simulating': 'シミュレーション中...',
+  'fantasy.reconstructing': '再現中...',
+  'fantasy.generateWorld': '世界を生成',
+  'fantasy.buildCity': '都市を構築',
+
+  'option.Default': 'デフォルト',
+  'option.Fantasy': 'ファンタジー',
+  'option.Cyberpunk': 'サイバーパンク',
+  'option.Steampunk': 'スチームパンク',
+  'option.Sci-Fi': 'SF',
+  'option.Gothic': 'ゴシック',
+  'option.Minimal': 'ミニマル',
+  'option.Noir': 'ノワール',
+  'option.Voxel': 'ボクセル',
+  'option.Low Poly': 'ローポリ',
+  'option.Studio Ghibli': 'ジブリ風',
+  'option.Synthwave': 'シンセウェーブ',
+  'option.Post-Apocalyptic': 'ポストアポカリプス',
+  'option.Watercolor': '水彩',
+  'option.Retro': 'レトロ',
+  'option.Realistic': 'リアル',
+  'option.Oil Painting': '油絵',
+  'option.Cinematic': 'シネマティック',
+  'option.Sepia': 'セピア',
+  'option.Vintage': 'ヴィンテージ',
+  'option.Blueprint': '設計図',
+  'option.Faded Fresco': '色あせたフレスコ',
+  'option.Mosaic': 'モザイク',
+  'option.Ink Wash': '水墨画',
+  'option.Etching': 'エッチング',
+  'option.Museum Diorama': '博物館のジオラマ',
+  'option.Clear Sky': '快晴',
+  'option.Stormy': '嵐',
+  'option.Snow Blizzard': '吹雪',
+  'option.Heavy Rain': '大雨',
+  'option.Foggy / Misty': '霧・もや',
+  'option.Sandstorm': '砂嵐',
+  'option.Toxic Rain': '有毒な雨',
+  'option.Cosmic Dust': '宇宙塵',
+  'option.Meteor Shower': '流星群',
+  'option.Acid Fog': '酸性の霧',
+  'option.Heatwave': '熱波',
+  'option.Aurora Borealis': 'オーロラ',
+  'option.Ashfall': '降灰',
+  'option.Sunrise': '日の出',
+  'option.High Noon': '正午',
+  'option.Sunset': '日没',
+  'option.Golden Hour': 'ゴールデンアワー',
+  'option.Midnight': '真夜中',
+  'option.Blue Hour': 'ブルーアワー',
+  'option.Eclipse': '日食',
+  'option.Twilight': '薄明',
+  'option.Deep Night': '深夜',
+  'option.Blood Moon': 'ブラッドムーン',
+  'option.Starry Night': '星空の夜',
+};
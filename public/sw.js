@@ -0,0 +1,94 @@
+// IsoWeather service worker.
+// Keeps the app shell and its CDN dependencies (import map modules, Tailwind, fonts) cached so
+// the app still opens offline. Saved cards - forecast data and scene renders - live in
+// IndexedDB (see services/storageService.ts), so once the shell loads they are available too.
+// Weather and Gemini API calls are never cached here: the app decides what to do with them
+// when offline (show the last known data, queue refreshes).
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `isoweather-shell-${CACHE_VERSION}`;
+const CDN_CACHE = `isoweather-cdn-${CACHE_VERSION}`;
+
+const SHELL_URLS = ['/', '/index.html'];
+
+// Third-party hosts serving immutable, versioned assets
+const CDN_HOSTS = [
+  'aistudiocdn.com',
+  'cdn.tailwindcss.com',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  // Drop caches from previous versions
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('isoweather-') && key !== SHELL_CACHE && key !== CDN_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// --- Strategies ---
+
+// Same-origin files change with every deploy (and during development), so always try the
+// network first and only fall back to the cached copy when offline.
+const networkFirst = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+    if (cached) return cached;
+    // Any unknown route of the SPA boots from index.html
+    if (request.mode === 'navigate') {
+      const shell = await cache.match('/index.html');
+      if (shell) return shell;
+    }
+    throw error;
+  }
+};
+
+// CDN assets are versioned by URL: serve from cache and refresh it in the background
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(CDN_CACHE);
+  const cached = await cache.match(event.request);
+  const update = fetch(event.request)
+    .then((response) => {
+      // Opaque responses (no-cors scripts/stylesheets) report status 0 but are still usable
+      if (response.ok || response.type === 'opaque') cache.put(event.request, response.clone());
+      return response;
+    });
+
+  if (cached) {
+    event.waitUntil(update.catch(() => undefined));
+    return cached;
+  }
+  return update;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  } else if (CDN_HOSTS.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`))) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+  // Everything else (Open-Meteo, Gemini) goes straight to the network
+});
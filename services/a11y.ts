@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+// Accessibility helpers shared by the stack, the expanded card, dialogs and animations
+
+// --- Reduced motion ---
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && !!window.matchMedia?.(REDUCED_MOTION_QUERY).matches;
+
+// Follows the system "reduce motion" setting, including changes while the app is open
+export const useReducedMotion = () => {
+  const [reduced, setReduced] = useState(prefersReducedMotion);
+
+  useEffect(() => {
+    const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+    if (!query) return;
+    const update = () => setReduced(query.matches);
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  }, []);
+
+  return reduced;
+};
+
+// --- Dialog focus ---
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Open dialogs in the order they opened. Only the top one handles Tab and Escape: the latest
+// to open, skipping any that contain another open dialog (a child's effects run before its
+// parent's, so a detail opened together with its card registers first).
+const openDialogs: HTMLElement[] = [];
+
+const isTopDialog = (node: HTMLElement) => {
+  const innermost = openDialogs.filter(d => !openDialogs.some(other => other !== d && d.contains(other)));
+  return innermost[innermost.length - 1] === node;
+};
+
+// Focus handling for an overlay: moves focus inside when it opens, keeps Tab within it, closes it
+// on Escape and gives focus back to whatever opened it. Attach the ref to the overlay's root,
+// which needs tabIndex={-1}.
+export const useDialogFocus = <T extends HTMLElement>(onClose?: () => void, active = true) => {
+  const ref = useRef<T>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const node = ref.current;
+    if (!active || !node) return;
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    openDialogs.push(node);
+
+    // Controls with autoFocus already took focus
+    if (!node.contains(document.activeElement)) {
+      (node.querySelector<HTMLElement>(FOCUSABLE) || node).focus();
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!isTopDialog(node)) return;
+      if (e.key === 'Escape' && onCloseRef.current) {
+        e.preventDefault();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+      const items: HTMLElement[] = [];
+      node.querySelectorAll<HTMLElement>(FOCUSABLE).forEach(el => {
+        if (el.getClientRects().length > 0) items.push(el);
+      });
+      if (items.length === 0) {
+        e.preventDefault();
+        node.focus();
+        return;
+      }
+      const first = items[0];
+      const last = items[items.length - 1];
+      const inside = node.contains(document.activeElement);
+      if (e.shiftKey && (!inside || document.activeElement === first || document.activeElement === node)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (!inside || document.activeElement === last)) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      openDialogs.splice(openDialogs.indexOf(node), 1);
+      if (opener && document.contains(opener)) opener.focus();
+    };
+  }, [active]);
+
+  return ref;
+};
+
+// --- Keyboard activation ---
+
+// Enter/Space handler for non-button elements acting as buttons (role="button" tabIndex={0})
+export const onActivateKey = (handler: () => void) => (e: React.KeyboardEvent) => {
+  if (e.key !== 'Enter' && e.key !== ' ') return;
+  e.preventDefault();
+  handler();
+};
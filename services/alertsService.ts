@@ -0,0 +1,174 @@
+import { AlertKind, AlertSeverity, AlertThreshold, AlertThresholds, HourlyForecast, UnitPreferences, WeatherAlert, WeatherData } from '../types';
+import { formatDistance, formatPrecipitation, formatTemperature, formatWind } from './units';
+import { formatNumber } from './i18n';
+
+// Scans a card's forecast series for hazardous stretches. Thresholds are metric (km/h, mm,
+// °C, km, UV index) like the rest of the stored data; display units are applied when shown.
+
+export const ALERT_KINDS: AlertKind[] = ['wind', 'rain', 'heat', 'cold', 'fog', 'uv'];
+
+// Selectable sensitivity levels per kind, most sensitive first
+export const ALERT_PRESETS: Record<AlertKind, AlertThreshold[]> = {
+  wind: [ // Gusts, km/h
+    { advisory: 50, warning: 75 },
+    { advisory: 60, warning: 90 },
+    { advisory: 75, warning: 110 },
+  ],
+  rain: [ // Daily total, mm
+    { advisory: 15, warning: 35 },
+    { advisory: 25, warning: 50 },
+    { advisory: 40, warning: 80 },
+  ],
+  heat: [ // Feels-like, °C
+    { advisory: 30, warning: 35 },
+    { advisory: 32, warning: 38 },
+    { advisory: 35, warning: 41 },
+  ],
+  cold: [ // Feels-like, °C (at or below)
+    { advisory: -5, warning: -15 },
+    { advisory: -10, warning: -20 },
+    { advisory: -15, warning: -28 },
+  ],
+  fog: [ // Visibility, km (at or below)
+    { advisory: 2, warning: 0.5 },
+    { advisory: 1, warning: 0.2 },
+    { advisory: 0.5, warning: 0.1 },
+  ],
+  uv: [ // UV index
+    { advisory: 6, warning: 8 },
+    { advisory: 8, warning: 11 },
+    { advisory: 10, warning: 12 },
+  ],
+};
+
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  wind: ALERT_PRESETS.wind[1],
+  rain: ALERT_PRESETS.rain[1],
+  heat: ALERT_PRESETS.heat[1],
+  cold: ALERT_PRESETS.cold[1],
+  fog: ALERT_PRESETS.fog[1],
+  uv: ALERT_PRESETS.uv[1],
+};
+
+// Kinds that fire when the value drops below the threshold rather than rising above it
+const FALLING: AlertKind[] = ['cold', 'fog'];
+
+const isThreshold = (value: unknown): value is AlertThreshold =>
+  !!value && typeof value === 'object' &&
+  typeof (value as AlertThreshold).advisory === 'number' &&
+  typeof (value as AlertThreshold).warning === 'number';
+
+// Keeps stored thresholds that look valid (null = switched off), defaults for anything else
+export const normalizeAlertThresholds = (stored: Partial<Record<AlertKind, unknown>> | undefined): AlertThresholds => {
+  const result = { ...DEFAULT_ALERT_THRESHOLDS };
+  for (const kind of ALERT_KINDS) {
+    const value = stored?.[kind];
+    if (value === null) result[kind] = null;
+    else if (isThreshold(value)) result[kind] = { advisory: value.advisory, warning: value.warning };
+  }
+  return result;
+};
+
+// --- Evaluation ---
+
+const severityOf = (kind: AlertKind, value: number, threshold: AlertThreshold): AlertSeverity | null => {
+  const exceeds = (limit: number) => (FALLING.includes(kind) ? value <= limit : value >= limit);
+  if (exceeds(threshold.warning)) return 'warning';
+  if (exceeds(threshold.advisory)) return 'advisory';
+  return null;
+};
+
+// Value each hourly kind is judged on; gusts and feels-like fall back to the base series
+const HOURLY_VALUES: Partial<Record<AlertKind, (hour: HourlyForecast) => number>> = {
+  wind: h => h.windGusts ?? h.windSpeed,
+  heat: h => h.feelsLike ?? h.temp,
+  cold: h => h.feelsLike ?? h.temp,
+  fog: h => h.visibility / 1000,
+  uv: h => h.uvIndex,
+};
+
+const HOUR_MS = 3600000;
+
+const toLocalIso = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const addHours = (iso: string, hours: number) => toLocalIso(new Date(new Date(iso).getTime() + hours * HOUR_MS));
+
+// Groups consecutive hours over the threshold into one alert per stretch
+const scanHourly = (kind: AlertKind, hours: HourlyForecast[], threshold: AlertThreshold): WeatherAlert[] => {
+  const valueOf = HOURLY_VALUES[kind]!;
+  const falling = FALLING.includes(kind);
+  const alerts: WeatherAlert[] = [];
+  let current: WeatherAlert | null = null;
+
+  for (const hour of hours) {
+    const value = valueOf(hour);
+    const severity = severityOf(kind, value, threshold);
+    if (!severity) {
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = { id: `${kind}-${hour.rawTime}`, kind, severity, start: hour.rawTime, end: addHours(hour.rawTime, 1), peak: value };
+      alerts.push(current);
+      continue;
+    }
+    current.end = addHours(hour.rawTime, 1);
+    if (severity === 'warning') current.severity = 'warning';
+    current.peak = falling ? Math.min(current.peak, value) : Math.max(current.peak, value);
+  }
+  return alerts;
+};
+
+// Derives the active alerts for a card. Fictional and archived cards have no forecast to check.
+export const deriveAlerts = (weather: WeatherData, thresholds: AlertThresholds): WeatherAlert[] => {
+  if (weather.isFictional || weather.historicalDate) return [];
+
+  const now = Date.now();
+  const upcoming = weather.allHourly.filter(h => new Date(h.rawTime).getTime() >= now - HOUR_MS);
+  const alerts: WeatherAlert[] = [];
+
+  for (const kind of ALERT_KINDS) {
+    const threshold = thresholds[kind];
+    if (!threshold) continue;
+
+    if (kind === 'rain') {
+      const today = toLocalIso(new Date(now)).slice(0, 10);
+      for (const day of weather.forecast) {
+        if (day.rawDate < today) continue;
+        const severity = severityOf(kind, day.rainSum, threshold);
+        if (!severity) continue;
+        const start = `${day.rawDate}T00:00`;
+        alerts.push({ id: `${kind}-${start}`, kind, severity, start, end: addHours(start, 24), peak: day.rainSum });
+      }
+      continue;
+    }
+
+    alerts.push(...scanHourly(kind, upcoming, threshold));
+  }
+
+  return alerts.sort((a, b) => a.start.localeCompare(b.start));
+};
+
+// Highest severity in a list, used for the stack badge colour
+export const topSeverity = (alerts: WeatherAlert[]): AlertSeverity | null =>
+  alerts.length === 0 ? null : alerts.some(a => a.severity === 'warning') ? 'warning' : 'advisory';
+
+// --- Display ---
+
+// Shows a metric alert value (threshold or peak) in the user's units
+export const formatAlertValue = (kind: AlertKind, value: number, units: UnitPreferences): string => {
+  switch (kind) {
+    case 'wind': return formatWind(value, units);
+    case 'rain': return formatPrecipitation(value, units);
+    case 'heat':
+    case 'cold': return formatTemperature(value, units);
+    case 'fog': return formatDistance(value, units);
+    default: return formatNumber(Math.round(value));
+  }
+};
+
+// Comparison sign for a threshold label, e.g. "≥ 60 km/h" or "≤ 1 km"
+export const thresholdSign = (kind: AlertKind) => (FALLING.includes(kind) ? '≤' : '≥');
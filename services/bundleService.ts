@@ -0,0 +1,206 @@
+import { BundledCard, BundledImage, CardBundle, Collection, GeneratedImage, ImportConflictPolicy, WeatherCardData, WeatherData } from '../types';
+import { DEFAULT_COLLECTION_ID, getCollectionId, isCollection } from './collectionsService';
+import { array, number, object, optional, string } from './providers/schema';
+
+// Portable bundles of saved cards, for moving a stack to another browser or sharing it. A bundle
+// is a single JSON file with every image embedded as base64, so it can be imported offline.
+//
+// Version history:
+//  1: cards (weather, images with variants/timelapse/history, rules, profile, collection) + collections
+// Bump BUNDLE_VERSION when the shape changes and upgrade older bundles in parseBundle().
+
+export const BUNDLE_FORMAT = 'isoweather-bundle';
+export const BUNDLE_VERSION = 1;
+
+export type BundleErrorKind = 'invalid' | 'unsupported-version';
+
+export class BundleError extends Error {
+  readonly kind: BundleErrorKind;
+
+  constructor(kind: BundleErrorKind, message: string) {
+    super(message);
+    this.name = 'BundleError';
+    this.kind = kind;
+  }
+}
+
+// --- Export ---
+
+const toBundledImage = ({ url, ...image }: GeneratedImage): BundledImage =>
+  image.base64 ? image : { ...image, url };
+
+const toBundledCard = (card: WeatherCardData): BundledCard => ({
+  weather: card.weather,
+  image: toBundledImage(card.image),
+  variants: card.variants?.map(toBundledImage),
+  timelapse: card.timelapse?.map(toBundledImage),
+  imageHistory: card.imageHistory && {
+    coverId: card.imageHistory.coverId,
+    versions: card.imageHistory.versions.map(version => ({ ...version, image: toBundledImage(version.image) })),
+  },
+  notificationRules: card.notificationRules,
+  profile: card.profile,
+  collectionId: getCollectionId(card),
+});
+
+// Bundles the given cards together with the collections they belong to
+export const createBundle = (cards: WeatherCardData[], collections: Collection[]): CardBundle => {
+  const used = new Set(cards.map(getCollectionId));
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    collections: collections.filter(c => used.has(c.id)),
+    cards: cards.map(toBundledCard),
+  };
+};
+
+export const downloadBundle = (bundle: CardBundle, name: string) => {
+  const blob = new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `isoweather-${name.replace(/\s+/g, '-').toLowerCase()}-${Date.now()}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// --- Import ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The parts of a card the app reads without checking. object() returns only the keys it lists,
+// so these only check a card; the card itself is kept as bundled.
+const bundledImage = object({ generatedAt: string, prompt: string });
+const hourly = object({ rawTime: string, temp: number, code: number });
+const bundledCard = object({
+  weather: object({
+    id: string,
+    city: string,
+    country: string,
+    temperature: number,
+    weatherCode: number,
+    isDay: number,
+    location: object({ id: number, latitude: number, longitude: number }),
+    forecast: array(object({ rawDate: string, max: number, min: number, code: number })),
+    hourlyForecast: array(hourly),
+    allHourly: array(hourly),
+    hourlyAqi: optional(array(number)),
+  }),
+  image: bundledImage,
+  variants: optional(array(bundledImage)),
+  timelapse: optional(array(bundledImage)),
+  imageHistory: optional(object({ coverId: string, versions: array(object({ id: string, image: bundledImage })) })),
+});
+
+// Cards that fail are dropped rather than failing the whole bundle
+const isBundledCard = (value: unknown, index: number): value is BundledCard => {
+  try {
+    bundledCard(value, `cards[${index}]`);
+    return true;
+  } catch (err) {
+    console.warn('Skipping invalid card in bundle', err);
+    return false;
+  }
+};
+
+export const parseBundle = (text: string): CardBundle => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BundleError('invalid', "Bundle is not valid JSON");
+  }
+  if (!isRecord(data) || data.format !== BUNDLE_FORMAT || typeof data.version !== 'number') {
+    throw new BundleError('invalid', "Not an IsoWeather bundle");
+  }
+  if (data.version > BUNDLE_VERSION) {
+    throw new BundleError('unsupported-version', `Bundle version ${data.version} is newer than this app supports (${BUNDLE_VERSION})`);
+  }
+  const cards = Array.isArray(data.cards) ? data.cards.filter(isBundledCard) : [];
+  if (cards.length === 0) {
+    throw new BundleError('invalid', "Bundle contains no cards");
+  }
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    collections: Array.isArray(data.collections) ? data.collections.filter(isCollection) : [],
+    cards,
+  };
+};
+
+export const readBundleFile = async (file: File): Promise<CardBundle> => parseBundle(await file.text());
+
+const fromBundledImage = ({ url, ...image }: BundledImage): GeneratedImage => ({
+  ...image,
+  base64: image.base64 || '',
+  url: image.base64 ? `data:image/png;base64,${image.base64}` : (url || ''),
+});
+
+const fromBundledCard = (card: BundledCard): WeatherCardData => ({
+  weather: card.weather,
+  image: fromBundledImage(card.image),
+  variants: card.variants?.map(fromBundledImage),
+  timelapse: card.timelapse?.map(fromBundledImage),
+  imageHistory: card.imageHistory && {
+    coverId: card.imageHistory.coverId,
+    versions: card.imageHistory.versions.map(version => ({ ...version, image: fromBundledImage(version.image) })),
+  },
+  notificationRules: card.notificationRules,
+  profile: card.profile,
+  collectionId: card.collectionId,
+});
+
+// Cards conflict when they show the same place (location.id). Archived days of a place are
+// separate cards, as in search, so the day has to match too.
+const isSamePlace = (a: WeatherData, b: WeatherData) =>
+  a.location.id === b.location.id && a.historicalDate === b.historicalDate;
+
+// Imported cards whose place is already saved
+export const findImportConflicts = (cards: WeatherCardData[], bundle: CardBundle): BundledCard[] =>
+  bundle.cards.filter(imported => cards.some(card => isSamePlace(card.weather, imported.weather)));
+
+interface ImportResult {
+  cards: WeatherCardData[];
+  collections: Collection[];
+  importedIds: string[]; // Saved ids of the cards that were added or replaced
+}
+
+// Merges a bundle into the saved stack. Collections are matched by id (the default collection
+// always maps onto the local one); new cards go to the end of the stack, replaced ones keep their
+// position, id and My Location pin.
+export const importBundle = (
+  cards: WeatherCardData[],
+  collections: Collection[],
+  bundle: CardBundle,
+  policy: ImportConflictPolicy
+): ImportResult => {
+  const nextCollections = [...collections, ...bundle.collections.filter(c => !collections.some(local => local.id === c.id))];
+  const knownIds = new Set(nextCollections.map(c => c.id));
+  const next = [...cards];
+  const importedIds: string[] = [];
+
+  for (const bundled of bundle.cards) {
+    const card = fromBundledCard(bundled);
+    const collectionId = knownIds.has(getCollectionId(card)) ? getCollectionId(card) : DEFAULT_COLLECTION_ID;
+    const existingIndex = next.findIndex(c => isSamePlace(c.weather, card.weather));
+
+    if (existingIndex !== -1 && policy === 'keepExisting') continue;
+    if (existingIndex !== -1 && policy === 'replace') {
+      const existing = next[existingIndex];
+      next[existingIndex] = { ...card, collectionId, pinned: existing.pinned, weather: { ...card.weather, id: existing.weather.id } };
+      importedIds.push(existing.weather.id);
+      continue;
+    }
+    // Importing the same bundle twice (or keeping both copies) would otherwise reuse a saved id
+    const id = next.some(c => c.weather.id === card.weather.id) ? crypto.randomUUID() : card.weather.id;
+    next.push({ ...card, collectionId, weather: { ...card.weather, id } });
+    importedIds.push(id);
+  }
+
+  return { cards: next, collections: nextCollections, importedIds };
+};
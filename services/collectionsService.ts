@@ -0,0 +1,77 @@
+import { Collection, WeatherCardData } from '../types';
+import { t } from './i18n';
+
+// Named card stacks, persisted in localStorage. Cards record the collection they belong to and
+// stay in one saved list; a collection's order is the order of its cards in that list.
+
+const COLLECTIONS_KEY = 'iso_collections';
+const ACTIVE_COLLECTION_KEY = 'iso_active_collection';
+
+export const DEFAULT_COLLECTION_ID = 'default';
+
+const DEFAULT_COLLECTION: Collection = { id: DEFAULT_COLLECTION_ID, name: '' };
+
+export const isCollection = (value: unknown): value is Collection =>
+  !!value && typeof value === 'object' &&
+  typeof (value as Collection).id === 'string' && typeof (value as Collection).name === 'string';
+
+// The default collection always exists and comes first
+export const loadCollections = (): Collection[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(COLLECTIONS_KEY) || '[]');
+    const collections: Collection[] = Array.isArray(stored) ? stored.filter(isCollection) : [];
+    const saved = collections.find(c => c.id === DEFAULT_COLLECTION_ID);
+    return [saved || DEFAULT_COLLECTION, ...collections.filter(c => c.id !== DEFAULT_COLLECTION_ID)];
+  } catch {
+    return [DEFAULT_COLLECTION];
+  }
+};
+
+export const saveCollections = (collections: Collection[]) => {
+  localStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+};
+
+export const loadActiveCollectionId = (collections: Collection[]): string => {
+  const stored = localStorage.getItem(ACTIVE_COLLECTION_KEY);
+  return collections.some(c => c.id === stored) ? stored! : DEFAULT_COLLECTION_ID;
+};
+
+export const saveActiveCollectionId = (id: string) => {
+  localStorage.setItem(ACTIVE_COLLECTION_KEY, id);
+};
+
+export const createCollection = (name: string): Collection => ({
+  id: `collection-${Date.now().toString(36)}`,
+  name: name.trim(),
+});
+
+export const getCollectionName = (collection: Collection) =>
+  collection.name || t('collections.default');
+
+export const getCollectionId = (card: WeatherCardData) => card.collectionId || DEFAULT_COLLECTION_ID;
+
+export const getCollectionCards = (cards: WeatherCardData[], collectionId: string) =>
+  cards.filter(card => getCollectionId(card) === collectionId);
+
+// Moves a card to the end of another collection
+export const moveCardToCollection = (cards: WeatherCardData[], cardId: string, collectionId: string): WeatherCardData[] => {
+  const card = cards.find(c => c.weather.id === cardId);
+  if (!card || getCollectionId(card) === collectionId) return cards;
+  return [...cards.filter(c => c !== card), { ...card, collectionId }];
+};
+
+// Moves the card at `from` to `to` (both indices within the collection). Cards of other
+// collections keep their positions in the saved list.
+export const reorderCollection = (cards: WeatherCardData[], collectionId: string, from: number, to: number): WeatherCardData[] => {
+  const members = getCollectionCards(cards, collectionId);
+  if (from === to || !members[from] || !members[to]) return cards;
+  const reordered = [...members];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  let next = 0;
+  return cards.map(card => (getCollectionId(card) === collectionId ? reordered[next++] : card));
+};
+
+// Deleting a collection keeps its cards; they go back to the default collection
+export const releaseCollectionCards = (cards: WeatherCardData[], collectionId: string): WeatherCardData[] =>
+  cards.map(card => (getCollectionId(card) === collectionId ? { ...card, collectionId: DEFAULT_COLLECTION_ID } : card));
@@ -0,0 +1,104 @@
+import { Coordinates } from '../types';
+
+// Plain coordinate math shared by the providers and geolocation (no imports from either,
+// so both can use it without a cycle).
+
+// Great-circle distance (haversine)
+export const distanceKm = (a: Coordinates, b: Coordinates) => {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+};
+
+// Stable id for places that only have coordinates (no geocoder id). Negative, so it can
+// never collide with a GeoNames id; ~1 km grid so small GPS jitter keeps the same id.
+export const coordinateId = ({ latitude, longitude }: Coordinates) =>
+  -(Math.round((latitude + 90) * 100) * 100000 + Math.round((longitude + 180) * 100));
+
+// "35.6895°N, 139.6917°E", used as a name when a place has nothing better
+export const formatCoordinates = ({ latitude, longitude }: Coordinates) =>
+  `${Math.abs(latitude).toFixed(4)}°${latitude >= 0 ? 'N' : 'S'}, ${Math.abs(longitude).toFixed(4)}°${longitude >= 0 ? 'E' : 'W'}`;
+
+// --- Coordinate Queries ---
+// Search accepts places written as coordinates. Each parser returns null when the text
+// isn't in its format, so a normal city name falls through to the name search.
+
+// "35.68, 139.69", "35.68 139.69", "35.68°N, 139.69°E", "33.9 S 151.2 E"
+const LAT_LON = /^(-?\d{1,2}(?:\.\d+)?)\s*°?\s*([NS])?\s*[,;\s]\s*(-?\d{1,3}(?:\.\d+)?)\s*°?\s*([EW])?$/i;
+
+export const parseLatLon = (text: string): Coordinates | null => {
+  const match = LAT_LON.exec(text.trim());
+  if (!match) return null;
+  let latitude = parseFloat(match[1]);
+  let longitude = parseFloat(match[3]);
+  if (match[2]?.toUpperCase() === 'S') latitude = -Math.abs(latitude);
+  if (match[4]?.toUpperCase() === 'W') longitude = -Math.abs(longitude);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Geohashes are 5-12 base32 characters. Requiring at least one digit keeps ordinary
+// words (which can be valid base32, e.g. "bergen") going to the name search.
+export const parseGeohash = (text: string): Coordinates | null => {
+  const hash = text.trim().toLowerCase();
+  if (!/^[0-9b-hjkmnp-z]{5,12}$/.test(hash) || !/\d/.test(hash)) return null;
+
+  const lat = [-90, 90];
+  const lon = [-180, 180];
+  let even = true; // Bits alternate longitude, latitude, starting with longitude
+  for (const char of hash) {
+    const value = GEOHASH_ALPHABET.indexOf(char);
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = even ? lon : lat;
+      const mid = (range[0] + range[1]) / 2;
+      if ((value >> bit) & 1) range[0] = mid;
+      else range[1] = mid;
+      even = !even;
+    }
+  }
+  return { latitude: (lat[0] + lat[1]) / 2, longitude: (lon[0] + lon[1]) / 2 };
+};
+
+const PLUS_CODE_ALPHABET = '23456789CFGHJMPQRVWX';
+
+// Full Open Location Codes ("8Q7XMQCQ+PQ", padded "8Q7X0000+"). Short codes need a
+// reference locality to resolve and aren't supported.
+const FULL_PLUS_CODE = /^[23456789CFGHJMPQRVWX]{2,8}0*\+[23456789CFGHJMPQRVWX]*$/;
+
+export const parsePlusCode = (text: string): Coordinates | null => {
+  const code = text.trim().toUpperCase();
+  if (!FULL_PLUS_CODE.test(code)) return null;
+  const [head, tail] = code.split('+');
+  if (head.length !== 8) return null;
+  const digits = head.replace(/0+$/, '');
+  if (digits.length % 2 !== 0 || (digits.length < 8 && tail.length > 0)) return null;
+  if (PLUS_CODE_ALPHABET.indexOf(digits[0]) > 8 || PLUS_CODE_ALPHABET.indexOf(digits[1]) > 17) return null;
+
+  // Pairs refine both axes by 20x (20°, 1°, 0.05°, ...); later digits split a 4x5 grid
+  const pairs = digits + tail.slice(0, 2);
+  let latitude = -90;
+  let longitude = -180;
+  let latSize = 400;
+  let lonSize = 400;
+  for (let i = 0; i < pairs.length; i += 2) {
+    latSize /= 20;
+    lonSize /= 20;
+    latitude += PLUS_CODE_ALPHABET.indexOf(pairs[i]) * latSize;
+    longitude += PLUS_CODE_ALPHABET.indexOf(pairs[i + 1]) * lonSize;
+  }
+  for (const char of tail.slice(2)) {
+    const value = PLUS_CODE_ALPHABET.indexOf(char);
+    latSize /= 5;
+    lonSize /= 4;
+    latitude += Math.floor(value / 4) * latSize;
+    longitude += (value % 4) * lonSize;
+  }
+  return { latitude: latitude + latSize / 2, longitude: longitude + lonSize / 2 };
+};
+
+export const parseCoordinateQuery = (text: string): Coordinates | null =>
+  parseLatLon(text) || parsePlusCode(text) || parseGeohash(text);
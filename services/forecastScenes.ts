@@ -0,0 +1,79 @@
+import { WeatherData, GeneratedImage, SceneMoment, SceneConditions } from '../types';
+import { mapWmoCode } from './weatherService';
+import { formatHour, formatWeekday, formatFullDate } from './i18n';
+
+// Scenes for forecast moments ("tomorrow 3 PM", "Saturday") kept as variants on a card,
+// next to the scene for the current conditions.
+
+export interface MomentConditions extends SceneConditions {
+  condition: string; // English, for the image prompt
+  temperature: number; // Celsius: the hour's temperature, or the day's high
+}
+
+// Daytime window used for day scenes (local hours, inclusive start / exclusive end)
+const DAY_SCENE_HOURS = [12, 18];
+
+// Stable identity of a moment; a card keeps at most one variant per key
+export const momentKey = (moment: SceneMoment) => `${moment.kind}:${moment.time}`;
+
+const hourOf = (rawTime: string) => parseInt(rawTime.split('T')[1] || '12', 10);
+
+// Typical sky for a WMO code, for days without hourly cloud data
+const cloudCoverForCode = (code: number) => (code <= 1 ? 10 : code === 2 ? 50 : 90);
+
+// What the forecast says for `moment`, or null once it is no longer part of the forecast
+export const getMomentConditions = (weather: WeatherData, moment: SceneMoment): MomentConditions | null => {
+  if (moment.kind === 'hour') {
+    const hour = weather.allHourly.find(h => h.rawTime === moment.time);
+    if (!hour) return null;
+    const day = weather.forecast.find(d => moment.time.startsWith(d.rawDate));
+    const clock = moment.time.split('T')[1] || '';
+    const isDay = day ? clock >= day.sunrise && clock < day.sunset : hourOf(moment.time) >= 6 && hourOf(moment.time) < 20;
+    return {
+      condition: mapWmoCode(hour.code),
+      weatherCode: hour.code,
+      isDay: isDay ? 1 : 0,
+      cloudCover: Math.round(hour.cloudCover),
+      temperature: hour.temp,
+    };
+  }
+
+  const day = weather.forecast.find(d => d.rawDate === moment.time);
+  if (!day) return null;
+  const afternoon = weather.allHourly.filter(h =>
+    h.rawTime.startsWith(day.rawDate) && hourOf(h.rawTime) >= DAY_SCENE_HOURS[0] && hourOf(h.rawTime) < DAY_SCENE_HOURS[1]);
+  const cloudCover = afternoon.length > 0
+    ? afternoon.reduce((sum, h) => sum + h.cloudCover, 0) / afternoon.length
+    : cloudCoverForCode(day.code);
+  return {
+    condition: mapWmoCode(day.code),
+    weatherCode: day.code,
+    isDay: 1,
+    cloudCover: Math.round(cloudCover),
+    temperature: day.max,
+  };
+};
+
+// English description for the image prompt ("Tuesday at 3 PM", "Saturday, June 8")
+export const describeMomentForPrompt = (moment: SceneMoment): string => {
+  const date = new Date(moment.kind === 'day' ? `${moment.time}T12:00` : moment.time);
+  return moment.kind === 'hour'
+    ? `${date.toLocaleDateString('en-US', { weekday: 'long' })} at ${date.toLocaleTimeString('en-US', { hour: 'numeric' })}`
+    : date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+};
+
+// Label in the active locale ("Tue 3 PM", "Saturday, June 8")
+export const formatMoment = (moment: SceneMoment): string =>
+  moment.kind === 'hour' ? `${formatWeekday(moment.time)} ${formatHour(moment.time)}` : formatFullDate(moment.time);
+
+// Adds or replaces the variant for the image's moment, keeping variants in time order
+export const upsertVariant = (variants: GeneratedImage[], image: GeneratedImage): GeneratedImage[] => {
+  if (!image.moment) return variants;
+  const key = momentKey(image.moment);
+  return [...variants.filter(v => v.moment && momentKey(v.moment) !== key), image]
+    .sort((a, b) => a.moment!.time.localeCompare(b.moment!.time));
+};
+
+// Drops variants whose moment has fallen out of the (refreshed) forecast
+export const pruneVariants = (variants: GeneratedImage[] | undefined, weather: WeatherData): GeneratedImage[] | undefined =>
+  variants?.filter(v => v.moment && getMomentConditions(weather, v.moment) !== null);
@@ -1,6 +1,13 @@
 
 import { GoogleGenAI } from "@google/genai";
-import { WeatherData, GeneratedImage, FantasyConfig, HourlyForecast, DailyForecast, LocationData } from "../types";
+import { WeatherData, GeneratedImage, FantasyConfig, HourlyForecast, DailyForecast, LocationData, GenerationOptions, SceneMoment, SceneConditions, SceneStyle, OutputProfile } from "../types";
+import { enqueueGeneration, isAbortError } from "./generationQueue";
+import { formatHourLabel, formatDayLabels } from "./providers/formatters";
+import { formatShortDate } from "./i18n";
+import { getMomentConditions, describeMomentForPrompt } from "./forecastScenes";
+import { confineToMask } from "./maskService";
+import { renderPrompt, describeAspectRatio, getImageStyle, SCENE_TEMPLATE, EDIT_TEMPLATE, MASKED_EDIT_TEMPLATE } from "./promptTemplates";
+import { DEFAULT_OUTPUT_PROFILE, getImageProfile, getImageSize } from "./outputProfiles";
 
 // Initialize Gemini client
 const getClient = () => {
@@ -73,7 +80,9 @@ export const generateHomeBackground = async (): Promise<string> => {
   }
 };
 
-export const generateFantasyScene = async (config: FantasyConfig): Promise<GeneratedImage> => {
+// `style` defaults to how pre-template scenes were drawn; callers pass the user's preset for new
+// cards and the previous image's style for redraws. `profile` sets the shape and resolution.
+export const generateFantasyScene = async (config: FantasyConfig, options?: GenerationOptions, style = getImageStyle(undefined), profile: OutputProfile = DEFAULT_OUTPUT_PROFILE): Promise<GeneratedImage> => {
   const ai = getClient();
   // UPGRADED MODEL FOR 4K SUPPORT
   const modelId = "gemini-3-pro-image-preview";
@@ -86,31 +95,30 @@ export const generateFantasyScene = async (config: FantasyConfig): Promise<Gener
     ? `Retrieve internal historical knowledge about "${config.cityName}" during the "${config.universe}" era. Ensure rigorous historical accuracy in architecture, clothing, and environment.`
     : `Retrieve internal knowledge about the universe of "${config.universe}" to ensure strict architectural and environmental accuracy.`;
 
-  // EXACT PROMPT STRUCTURE REQUESTED with Lore Research Instruction
-  const prompt = `${researchPrompt}
-  Present a clear, 45° top-down view of a vertical (9:16) isometric miniature 3D cartoon scene of ${config.cityName} from ${config.universe}, highlighting iconic landmarks centered in the composition to showcase precise and delicate modeling.
-  
-  IMPORTANT: Ensure the entire scene is fully visible within the frame. Zoom out slightly to leave ample negative space around the edges. Do not cut off any corners or sides of the main subject. Center the subject perfectly.
-
-  Scene context: ${config.weather}, ${config.time}${aestheticStyle}. ${config.description}.
-
-  The scene features soft, refined textures with realistic PBR materials and gentle, lifelike lighting and shadow effects. Weather elements are creatively integrated into the urban architecture, establishing a dynamic interaction between the city's landscape and atmospheric conditions, creating an immersive weather ambiance.
-
-  Use a clean, unified composition with minimalistic aesthetics and a soft, solid-colored background that highlights the main content. The overall visual style is fresh and soothing.`;
+  // Lore research goes ahead of the scene description
+  const { prompt, template } = renderPrompt(SCENE_TEMPLATE, {
+    ...style.slots,
+    context: researchPrompt,
+    city: `${config.cityName} from ${config.universe}`,
+    weather: `${config.weather}${aestheticStyle}. ${config.description}.`,
+    time: config.time,
+    aspectRatio: describeAspectRatio(profile.aspectRatio),
+  }, style, style.version);
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await enqueueGeneration(`Rendering ${config.cityName}`, (signal) => ai.models.generateContent({
       model: modelId,
       contents: {
         parts: [{ text: prompt }]
       },
       config: {
+        abortSignal: signal,
         imageConfig: { 
-            aspectRatio: "9:16",
-            imageSize: "4K" // Requesting highest fidelity
+            aspectRatio: profile.aspectRatio,
+            imageSize: getImageSize(profile) // 4K, or 1K for drafts
         }
       }
-    });
+    }), options);
 
     let base64Image = '';
     if (response.candidates?.[0]?.content?.parts) {
@@ -129,20 +137,22 @@ export const generateFantasyScene = async (config: FantasyConfig): Promise<Gener
         url,
         base64: base64Image,
         prompt: prompt,
-        generatedAt: new Date().toISOString()
+        generatedAt: new Date().toISOString(),
+        template,
+        profile
     };
   } catch (error) {
-    console.error("Failed to generate fantasy scene", error);
+    if (!isAbortError(error)) console.error("Failed to generate fantasy scene", error);
     throw error;
   }
 };
 
-export const regenerateFantasyScene = async (weather: WeatherData): Promise<GeneratedImage> => {
+export const regenerateFantasyScene = async (weather: WeatherData, options?: GenerationOptions, style?: SceneStyle, profile?: OutputProfile): Promise<GeneratedImage> => {
     if (!weather.fantasyConfig) {
         throw new Error("Cannot regenerate: Missing fantasy configuration.");
     }
     // Call the generation function again with the saved config
-    return generateFantasyScene(weather.fantasyConfig);
+    return generateFantasyScene(weather.fantasyConfig, options, style, profile);
 };
 
 export const generateCreativeWeatherData = async (config: FantasyConfig): Promise<WeatherData> => {
@@ -252,7 +262,7 @@ export const generateCreativeWeatherData = async (config: FantasyConfig): Promis
             const randomFlux = (Math.random() - 0.5) * 2;
             
             allHourly.push({
-                time: time.toLocaleTimeString('en-US', { hour: 'numeric', hour12: true }),
+                time: formatHourLabel(time.toISOString()),
                 rawTime: time.toISOString(),
                 temp: Math.round(baseTemp + tempOffset + randomFlux),
                 code: getFictionalCode(data.condition), // Map string to nearest WMO code for icons
@@ -272,10 +282,10 @@ export const generateCreativeWeatherData = async (config: FantasyConfig): Promis
             const d = new Date();
             d.setDate(d.getDate() + i);
             const isToday = i === 0;
+            const rawDate = d.toISOString().split('T')[0];
             return {
-                date: d.toLocaleDateString('en-US', { weekday: 'short' }),
-                fullDate: d.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' }),
-                rawDate: d.toISOString().split('T')[0],
+                ...formatDayLabels(rawDate),
+                rawDate,
                 max: isToday ? data.dailyHigh : Math.round(data.dailyHigh + (Math.random() - 0.5) * 5),
                 min: isToday ? data.dailyLow : Math.round(data.dailyLow + (Math.random() - 0.5) * 5),
                 code: getFictionalCode(data.condition),
@@ -311,7 +321,7 @@ export const generateCreativeWeatherData = async (config: FantasyConfig): Promis
             temperature: data.temperature,
             condition: data.condition,
             weatherCode: getFictionalCode(data.condition),
-            date: new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+            date: formatShortDate(new Date()),
             isDay: config.time.toLowerCase().includes('night') || config.time.toLowerCase().includes('midnight') ? 0 : 1,
             isFictional: true,
             fantasyConfig: config, // Persist config for regeneration
@@ -362,36 +372,50 @@ const getFictionalCode = (condition: string): number => {
     return 3; // Default to cloudy/unknown
 };
 
-export const generateWeatherScene = async (weather: WeatherData): Promise<GeneratedImage> => {
+// Renders the current conditions, or with `moment` the forecast for that hour/day
+export const generateWeatherScene = async (weather: WeatherData, options?: GenerationOptions, moment?: SceneMoment, style = getImageStyle(undefined), profile: OutputProfile = DEFAULT_OUTPUT_PROFILE): Promise<GeneratedImage> => {
   const ai = getClient();
   
   // High-Quality Image Generation Model (Nano Banana Pro)
   const modelId = "gemini-3-pro-image-preview";
 
-  const prompt = `
-  Present a clear, 45° top-down view of a vertical (9:16) isometric miniature 3D cartoon scene of ${weather.city}, ${weather.country}, highlighting iconic landmarks centered in the composition to showcase precise and delicate modeling.
-  
-  IMPORTANT: Ensure the entire scene is fully visible within the frame. Zoom out slightly to leave ample negative space around the edges. Do not cut off any corners or sides of the main subject. Center the subject perfectly.
-
-  Scene context: Current weather is ${weather.condition}. Time is ${weather.isDay ? 'Day' : 'Night'}. Cloud cover is ${weather.cloudCover}%.
-
-  The scene features soft, refined textures with realistic PBR materials and gentle, lifelike lighting and shadow effects. Weather elements are creatively integrated into the urban architecture, establishing a dynamic interaction between the city's landscape and atmospheric conditions, creating an immersive weather ambiance.
-
-  Use a clean, unified composition with minimalistic aesthetics and a soft, solid-colored background that highlights the main content. The overall visual style is fresh and soothing.`;
+  const forecast = moment ? getMomentConditions(weather, moment) : null;
+  if (moment && !forecast) throw new Error("That moment is no longer part of the forecast.");
+
+  const conditions: SceneConditions = forecast
+    ? { weatherCode: forecast.weatherCode, isDay: forecast.isDay, cloudCover: forecast.cloudCover }
+    : { weatherCode: weather.weatherCode, isDay: weather.isDay, cloudCover: weather.cloudCover };
+  const timeOfDay = conditions.isDay ? 'Day' : 'Night';
+
+  // Archived days are drawn as they were on that date (the conditions come from midday)
+  const sceneWeather = forecast
+    ? `Forecast weather for ${describeMomentForPrompt(moment!)} is ${forecast.condition}. Cloud cover is ${forecast.cloudCover}%.`
+    : weather.historicalDate
+      ? `This is ${weather.city} on ${weather.historicalDate}, shown as it looked on that day. The weather was ${weather.condition}. Cloud cover is ${weather.cloudCover}%.`
+      : `Current weather is ${weather.condition}. Cloud cover is ${weather.cloudCover}%.`;
+
+  const { prompt, template } = renderPrompt(SCENE_TEMPLATE, {
+    ...style.slots,
+    city: `${weather.city}, ${weather.country}`,
+    weather: sceneWeather,
+    time: timeOfDay,
+    aspectRatio: describeAspectRatio(profile.aspectRatio),
+  }, style, style.version);
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await enqueueGeneration(`Rendering ${weather.city}`, (signal) => ai.models.generateContent({
       model: modelId,
       contents: {
         parts: [{ text: prompt }]
       },
       config: {
+        abortSignal: signal,
         imageConfig: { 
-            aspectRatio: "9:16",
-            imageSize: "4K" // Highest fidelity requested
+            aspectRatio: profile.aspectRatio,
+            imageSize: getImageSize(profile) // Highest fidelity, unless this is a draft
         }
       }
-    });
+    }), options);
 
     let base64Image = '';
     if (response.candidates?.[0]?.content?.parts) {
@@ -410,43 +434,49 @@ export const generateWeatherScene = async (weather: WeatherData): Promise<Genera
         url,
         base64: base64Image,
         prompt: prompt,
-        generatedAt: new Date().toISOString()
+        generatedAt: new Date().toISOString(),
+        conditions,
+        moment,
+        template,
+        profile
     };
   } catch (error) {
-    console.error("Failed to generate weather scene", error);
-    // Return a fallback or placeholder only on strict error
-    const color = '1e293b'; // slate-800
-    const url = `https://placehold.co/1080x1920/${color}/fff.png?text=${encodeURIComponent(weather.city + "\nGeneration Failed")}&font=montserrat`;
-    return {
-        url,
-        base64: "",
-        prompt: "Error Fallback",
-        generatedAt: new Date().toISOString()
-    };
+    // The queue has already retried transient failures; surface the error instead of a placeholder
+    if (!isAbortError(error)) console.error("Failed to generate weather scene", error);
+    throw error;
   }
 };
 
-export const editWeatherScene = async (base64Image: string, instructions: string): Promise<GeneratedImage> => {
+// `mask` (base64 PNG, white = editable) confines the edit to a painted region: the model gets it as
+// a second image, and the result is composited so nothing outside the region changes.
+// The edit keeps the style and format of the image it was made from, so later redraws of the card match it.
+export const editWeatherScene = async (source: GeneratedImage, instructions: string, options?: GenerationOptions, mask?: string): Promise<GeneratedImage> => {
     const ai = getClient();
     // UPGRADED to Pro for better instruction following (Nano Banana Pro)
     const modelId = "gemini-3-pro-image-preview";
+    const base64Image = source.base64;
+    const profile = getImageProfile(source);
+
+    const { prompt: text, template } = renderPrompt(mask ? MASKED_EDIT_TEMPLATE : EDIT_TEMPLATE, { instructions }, getImageStyle(source));
 
     try {
-        const response = await ai.models.generateContent({
+        const response = await enqueueGeneration("Redrawing scene", (signal) => ai.models.generateContent({
             model: modelId,
             contents: {
                 parts: [
-                    { text: instructions },
+                    { text },
                     { inlineData: { mimeType: 'image/png', data: base64Image } },
+                    ...(mask ? [{ inlineData: { mimeType: 'image/png', data: mask } }] : []),
                 ],
             },
             config: {
+                abortSignal: signal,
                 imageConfig: { 
-                    aspectRatio: "9:16",
-                    imageSize: "4K" // Ensure 4K resolution for edits
+                    aspectRatio: profile.aspectRatio,
+                    imageSize: getImageSize(profile) // Same resolution as the source (4K unless it is a draft)
                 } 
             }
-        });
+        }), options);
 
         let newBase64 = '';
         if (response.candidates?.[0]?.content?.parts) {
@@ -459,15 +489,19 @@ export const editWeatherScene = async (base64Image: string, instructions: string
         }
 
         if (!newBase64) throw new Error("No edited image generated.");
+        if (mask) newBase64 = await confineToMask(base64Image, newBase64, mask);
         
         return {
             url: `data:image/png;base64,${newBase64}`,
             base64: newBase64,
             prompt: instructions,
-            generatedAt: new Date().toISOString()
+            generatedAt: new Date().toISOString(),
+            mask,
+            template,
+            profile
         };
     } catch (error) {
-        console.error("Failed to edit scene", error);
+        if (!isAbortError(error)) console.error("Failed to edit scene", error);
         throw error;
     }
 };
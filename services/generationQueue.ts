@@ -0,0 +1,165 @@
+import { GenerationProgress, GenerationOptions } from '../types';
+
+// Central queue for Gemini image generations.
+// - At most MAX_CONCURRENT requests run at once; the rest wait in FIFO order, with jobs the user
+//   is waiting on ahead of background ones. Background jobs never take the last free slot.
+// - Rate-limit and server errors are retried with exponential backoff + jitter.
+// - Every job can be cancelled through an AbortSignal, whether queued, running or backing off.
+// - Progress events (queue position, attempts, retry delay) go to the job's onProgress callback.
+
+const MAX_CONCURRENT = 2;
+const MAX_BACKGROUND = MAX_CONCURRENT - 1;
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 30000;
+
+interface Job {
+  id: string;
+  label: string;
+  run: (signal?: AbortSignal) => Promise<unknown>;
+  options: GenerationOptions;
+  attempt: number;
+  resolve: (value: unknown) => void; // Typed at the enqueueGeneration boundary
+  reject: (error: unknown) => void;
+}
+
+const pending: Job[] = [];
+let activeCount = 0;
+let activeBackground = 0;
+
+const isBackground = (job: Job) => !!job.options.background;
+
+// Pending jobs in the order they will start
+const queueOrder = () => [...pending.filter(job => !isBackground(job)), ...pending.filter(isBackground)];
+
+const takeNext = (): Job | undefined => {
+  const job = pending.find(j => !isBackground(j)) || (activeBackground < MAX_BACKGROUND ? pending.find(isBackground) : undefined);
+  if (job) pending.splice(pending.indexOf(job), 1);
+  return job;
+};
+const emit = (job: Job, update: Pick<GenerationProgress, 'stage'> & Partial<GenerationProgress>) => {
+  const progress: GenerationProgress = {
+    jobId: job.id,
+    label: job.label,
+    attempt: job.attempt,
+    maxAttempts: MAX_ATTEMPTS,
+    ...update,
+  };
+  job.options.onProgress?.(progress);
+};
+
+const createAbortError = () => new DOMException("Generation cancelled", "AbortError");
+
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+
+// 429 / 5xx from the Gemini API (ApiError carries `status`); fall back to message sniffing
+const isRetryable = (error: unknown): boolean => {
+  const status = (error as { status?: number })?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(message);
+};
+
+const getBackoffDelay = (attempt: number) => {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(exponential * (0.8 + Math.random() * 0.4)); // +/-20% jitter
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const execute = async (job: Job) => {
+  const { signal } = job.options;
+  while (true) {
+    job.attempt++;
+    try {
+      if (signal?.aborted) throw createAbortError();
+      emit(job, { stage: 'running' });
+      const result = await job.run(signal);
+      emit(job, { stage: 'done' });
+      job.resolve(result);
+      return;
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) {
+        emit(job, { stage: 'cancelled' });
+        job.reject(createAbortError());
+        return;
+      }
+      if (job.attempt >= MAX_ATTEMPTS || !isRetryable(error)) {
+        emit(job, { stage: 'failed', error: error instanceof Error ? error.message : String(error) });
+        job.reject(error);
+        return;
+      }
+
+      const delay = getBackoffDelay(job.attempt);
+      console.warn(`${job.label}: attempt ${job.attempt} failed, retrying in ${delay}ms`, error);
+      emit(job, { stage: 'retrying', retryInMs: delay });
+      try {
+        await sleep(delay, signal);
+      } catch {
+        emit(job, { stage: 'cancelled' });
+        job.reject(createAbortError());
+        return;
+      }
+    }
+  }
+};
+
+const pump = () => {
+  while (activeCount < MAX_CONCURRENT) {
+    const job = takeNext();
+    if (!job) break;
+    const background = isBackground(job);
+    activeCount++;
+    if (background) activeBackground++;
+    execute(job).finally(() => {
+      activeCount--;
+      if (background) activeBackground--;
+      pump();
+    });
+  }
+  queueOrder().forEach((job, i) => emit(job, { stage: 'queued', queuePosition: i + 1 }));
+};
+
+// Queues `run` and resolves with its result. `run` receives the job's AbortSignal and should
+// forward it to the underlying request so an in-flight call is cancelled too.
+export const enqueueGeneration = <T>(
+  label: string,
+  run: (signal?: AbortSignal) => Promise<T>,
+  options: GenerationOptions = {}
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const { signal } = options;
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const job: Job = { id: crypto.randomUUID(), label, run, options, attempt: 0, resolve: value => resolve(value as T), reject };
+
+    // Drop the job straight away if it is cancelled before it gets a slot
+    signal?.addEventListener('abort', () => {
+      const index = pending.indexOf(job);
+      if (index !== -1) {
+        pending.splice(index, 1);
+        emit(job, { stage: 'cancelled' });
+        reject(createAbortError());
+        pump();
+      }
+    }, { once: true });
+
+    pending.push(job);
+    pump();
+  });
@@ -0,0 +1,64 @@
+import { Coordinates, LocationData } from '../types';
+import { distanceKm } from './coordinates';
+import { GeolocationError } from './weatherErrors';
+import { reverseGeocode } from './weatherService';
+
+// Device location for the pinned "My Location" card. The browser reports raw coordinates;
+// the active weather provider turns them into a LocationData via reverse geocoding.
+
+// The pinned card only moves when the device has travelled at least this far
+export const SIGNIFICANT_MOVE_KM = 5;
+
+const POSITION_OPTIONS: PositionOptions = {
+  enableHighAccuracy: false, // City-level is plenty for a forecast
+  maximumAge: 5 * 60 * 1000,
+  timeout: 15000,
+};
+
+const toGeolocationError = (error: GeolocationPositionError) => {
+  switch (error.code) {
+    case error.PERMISSION_DENIED: return new GeolocationError('denied', error.message);
+    case error.TIMEOUT: return new GeolocationError('timeout', error.message);
+    default: return new GeolocationError('unavailable', error.message);
+  }
+};
+
+const isSupported = () => typeof navigator !== 'undefined' && 'geolocation' in navigator;
+
+export const getCurrentPosition = (): Promise<Coordinates> =>
+  new Promise((resolve, reject) => {
+    if (!isSupported()) {
+      reject(new GeolocationError('unsupported'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ latitude: coords.latitude, longitude: coords.longitude }),
+      error => reject(toGeolocationError(error)),
+      POSITION_OPTIONS
+    );
+  });
+
+// Where the device is right now, as a place the weather provider can forecast
+export const locateDevice = async (): Promise<LocationData> => {
+  const { latitude, longitude } = await getCurrentPosition();
+  return reverseGeocode(latitude, longitude);
+};
+
+// Watches the device and calls `onMove` whenever it ends up SIGNIFICANT_MOVE_KM or more away
+// from `origin` (the last place reported). Returns a function that stops watching.
+export const watchSignificantMoves = (origin: Coordinates, onMove: (position: Coordinates) => void) => {
+  if (!isSupported()) return () => {};
+  let last = origin;
+  const watchId = navigator.geolocation.watchPosition(
+    ({ coords }) => {
+      const position = { latitude: coords.latitude, longitude: coords.longitude };
+      if (distanceKm(last, position) < SIGNIFICANT_MOVE_KM) return;
+      last = position;
+      onMove(position);
+    },
+    // Losing the fix (tunnel, permission revoked) just means the card stays where it is
+    error => console.warn("Location watch failed", error),
+    POSITION_OPTIONS
+  );
+  return () => navigator.geolocation.clearWatch(watchId);
+};
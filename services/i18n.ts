@@ -0,0 +1,110 @@
+import { Locale } from '../types';
+import { en, MessageKey, Messages } from '../locales/en';
+import { es } from '../locales/es';
+import { fr } from '../locales/fr';
+import { ja } from '../locales/ja';
+
+// Lightweight i18n layer: message catalogs live in /locales (English is the source of truth and
+// defines the keys), the active locale is module state owned by App via preferences, and all
+// number/date/time formatting goes through Intl with the matching BCP 47 tag.
+
+export const SUPPORTED_LOCALES: { code: Locale; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+  { code: 'ja', label: '日本語' },
+];
+
+const CATALOGS: Record<Locale, Messages> = { en, es, fr, ja };
+
+// Region used for Intl formatting (decides 12h vs 24h clocks, separators, etc.)
+const INTL_TAGS: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  ja: 'ja-JP',
+};
+
+const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && SUPPORTED_LOCALES.some(l => l.code === value);
+
+// Best match for the browser's language list, falling back to English
+export const detectLocale = (): Locale => {
+  const languages = typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : [];
+  for (const language of languages) {
+    const base = language?.split('-')[0].toLowerCase();
+    if (isLocale(base)) return base;
+  }
+  return 'en';
+};
+
+export const normalizeLocale = (value: unknown): Locale => (isLocale(value) ? value : detectLocale());
+
+let currentLocale: Locale = detectLocale();
+
+export const getLocale = () => currentLocale;
+
+export const getIntlLocale = () => INTL_TAGS[currentLocale];
+
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+  if (typeof document !== 'undefined') document.documentElement.lang = locale;
+};
+
+// --- Messages ---
+
+export const hasMessage = (key: string): key is MessageKey => key in en;
+
+// Looks up `key` in the active catalog and fills `{name}` placeholders from `params`
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const template = CATALOGS[currentLocale][key] ?? en[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(typeof params[name] === 'number' ? formatNumber(params[name] as number) : params[name]) : match
+  );
+};
+
+// --- Formatting ---
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(getIntlLocale(), { maximumFractionDigits: 2, ...options }).format(value);
+
+// "YYYY-MM-DD" is parsed as UTC by Date(); pin it to local midnight so the weekday doesn't shift
+const parseDate = (value: string | Date) =>
+  value instanceof Date ? value : new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00` : value);
+
+// "3 PM" / "15 h" / "15時"
+export const formatHour = (value: string | Date) =>
+  parseDate(value).toLocaleTimeString(getIntlLocale(), { hour: 'numeric' });
+
+// "Mon"
+export const formatWeekday = (value: string | Date) =>
+  parseDate(value).toLocaleDateString(getIntlLocale(), { weekday: 'short' });
+
+// "Monday, May 6"
+export const formatFullDate = (value: string | Date) =>
+  parseDate(value).toLocaleDateString(getIntlLocale(), { weekday: 'long', month: 'long', day: 'numeric' });
+
+// "May 6"
+export const formatShortDate = (value: string | Date) =>
+  parseDate(value).toLocaleDateString(getIntlLocale(), { month: 'short', day: 'numeric' });
+
+// "May 6, 2024"
+export const formatLongDate = (value: string | Date) =>
+  parseDate(value).toLocaleDateString(getIntlLocale(), { year: 'numeric', month: 'long', day: 'numeric' });
+
+// "3:05 PM"
+export const formatClockTime = (value: string | Date) =>
+  parseDate(value).toLocaleTimeString(getIntlLocale(), { hour: '2-digit', minute: '2-digit' });
+
+// "May 6, 3:05 PM"
+export const formatDateTime = (value: string | Date) =>
+  parseDate(value).toLocaleString(getIntlLocale(), { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Sunrise/sunset are stored as "HH:MM" local to the city. Fictional cards may hold free text.
+export const formatTimeOfDay = (hhmm: string) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(hhmm);
+  if (!match) return hhmm;
+  const date = new Date(2000, 0, 1, Number(match[1]), Number(match[2]));
+  return date.toLocaleTimeString(getIntlLocale(), { hour: 'numeric', minute: '2-digit' });
+};
@@ -0,0 +1,76 @@
+import { GeneratedImage, ImageHistory, ImageVersion, WeatherCardData } from '../types';
+
+// The edit history of a card's "now" scene, kept as a tree of versions. Versions never carry a
+// pan/zoom; that stays with the card so switching the cover keeps the framing.
+
+// Oldest versions beyond this are dropped (never the cover)
+export const MAX_IMAGE_VERSIONS = 20;
+
+const toVersion = ({ viewConfig, ...image }: GeneratedImage, parentId?: string): ImageVersion => ({
+  id: image.generatedAt,
+  parentId,
+  kind: parentId ? 'edit' : 'render',
+  image,
+});
+
+// The card's history, with its current image as the cover. Renders that replaced the image
+// outside the editor (refreshes, regenerations) are adopted as new roots, and cards that were
+// never edited start with their image as the only version.
+export const getImageHistory = (card: Pick<WeatherCardData, 'image' | 'imageHistory'>): ImageHistory => {
+  const history = card.imageHistory;
+  if (!history) return { versions: [toVersion(card.image)], coverId: card.image.generatedAt };
+  if (history.coverId === card.image.generatedAt) return history;
+  const known = history.versions.some(v => v.id === card.image.generatedAt);
+  return {
+    versions: known ? history.versions : [...history.versions, toVersion(card.image)],
+    coverId: card.image.generatedAt,
+  };
+};
+
+export const findVersion = (history: ImageHistory, id: string | null | undefined) =>
+  history.versions.find(v => v.id === id);
+
+// Edits don't report the conditions they show; they inherit them from the version they came from
+export const addVersion = (history: ImageHistory, parentId: string, image: GeneratedImage): ImageHistory => {
+  const parent = findVersion(history, parentId);
+  const version = toVersion({ ...image, conditions: image.conditions || parent?.image.conditions }, parentId);
+  return { ...history, versions: [...history.versions, version] };
+};
+
+export const getChildren = (history: ImageHistory, id: string) => history.versions.filter(v => v.parentId === id);
+
+// Depth-first order with each version's depth, for drawing the tree as an indented list
+export const flattenHistory = (history: ImageHistory): { version: ImageVersion; depth: number }[] => {
+  const ids = new Set(history.versions.map(v => v.id));
+  const out: { version: ImageVersion; depth: number }[] = [];
+  const visit = (version: ImageVersion, depth: number) => {
+    out.push({ version, depth });
+    getChildren(history, version.id).forEach(child => visit(child, depth + 1));
+  };
+  history.versions.filter(v => !v.parentId || !ids.has(v.parentId)).forEach(root => visit(root, 0));
+  return out;
+};
+
+// Drops the oldest versions until the history fits; children of a dropped version move up to its parent
+export const pruneHistory = (history: ImageHistory, max = MAX_IMAGE_VERSIONS): ImageHistory => {
+  let versions = history.versions;
+  while (versions.length > max) {
+    const oldest = versions.find(v => v.id !== history.coverId);
+    if (!oldest) break;
+    versions = versions
+      .filter(v => v !== oldest)
+      .map(v => (v.parentId === oldest.id ? { ...v, parentId: oldest.parentId } : v));
+  }
+  return versions === history.versions ? history : { ...history, versions };
+};
+
+// Stores the history on the card; when the cover changed, the card shows the new cover (keeping
+// its pan/zoom)
+export const applyImageHistory = (card: WeatherCardData, history: ImageHistory): WeatherCardData => {
+  const imageHistory = pruneHistory(history);
+  const cover = findVersion(imageHistory, imageHistory.coverId);
+  const image = cover && cover.id !== card.image.generatedAt
+    ? { ...cover.image, viewConfig: card.image.viewConfig }
+    : card.image;
+  return { ...card, image, imageHistory };
+};
@@ -0,0 +1,83 @@
+// Region masks for scene edits. The user paints on a canvas laid over the image; the painted area
+// is sent to the model as a black/white mask and, because the model may still touch the rest of
+// the picture, the result is composited so only the painted area actually changes.
+
+export type MaskTool = 'brush' | 'lasso';
+
+// Masks are painted at this width (height follows the image); plenty for region edits and small to store
+export const MASK_WIDTH = 720;
+export const MASK_COLOR = 'rgb(168, 85, 247)'; // Only the alpha matters; the color is what the user sees
+
+// Soft edge of the composited region, as a share of the image width
+const FEATHER = 1 / 300;
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image for masking"));
+    img.src = url;
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+const toPng = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/png').split(',')[1] || '';
+
+export const isMaskEmpty = (canvas: HTMLCanvasElement): boolean => {
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+// Painted canvas -> base64 PNG, white where painted and black elsewhere
+export const exportMask = (painted: HTMLCanvasElement): string => {
+  const { canvas, ctx } = createCanvas(painted.width, painted.height);
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data: alpha } = painted.getContext('2d')!.getImageData(0, 0, painted.width, painted.height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    const value = alpha[i + 3] > 0 ? 255 : 0;
+    image.data[i] = image.data[i + 1] = image.data[i + 2] = value;
+  }
+  ctx.putImageData(image, 0, 0);
+  return toPng(canvas);
+};
+
+// Keeps the edit inside the white area of the mask and the original everywhere else.
+// Returns the composited image as base64 PNG, at the edited image's resolution.
+export const confineToMask = async (originalBase64: string, editedBase64: string, maskBase64: string): Promise<string> => {
+  const [original, edited, mask] = await Promise.all([
+    loadImage(`data:image/png;base64,${originalBase64}`),
+    loadImage(`data:image/png;base64,${editedBase64}`),
+    loadImage(`data:image/png;base64,${maskBase64}`),
+  ]);
+
+  // Mask luminance -> alpha, at mask resolution
+  const alpha = createCanvas(mask.naturalWidth, mask.naturalHeight);
+  alpha.ctx.drawImage(mask, 0, 0);
+  const pixels = alpha.ctx.getImageData(0, 0, alpha.canvas.width, alpha.canvas.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = pixels.data[i];
+  }
+  alpha.ctx.putImageData(pixels, 0, 0);
+
+  const width = edited.naturalWidth;
+  const height = edited.naturalHeight;
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(edited, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.filter = `blur(${Math.max(1, Math.round(width * FEATHER))}px)`;
+  ctx.drawImage(alpha.canvas, 0, 0, width, height);
+  ctx.filter = 'none';
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.drawImage(original, 0, 0, width, height);
+  return toPng(canvas);
+};
@@ -0,0 +1,188 @@
+import { NotificationMetric, NotificationRule, NotificationSettings, QuietHours, UnitPreferences, WeatherCardData } from '../types';
+import { formatPrecipitation } from './units';
+import { formatHour, t } from './i18n';
+
+const NOTIFICATION_LOG_KEY = 'iso_notification_log';
+
+// Notified events are forgotten this long after they end
+const LOG_RETENTION_MS = 24 * 3600000;
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  quietHours: { start: 22, end: 7 },
+};
+
+export const QUIET_HOURS_OPTIONS: QuietHours[] = [
+  { start: 21, end: 7 },
+  { start: 22, end: 7 },
+  { start: 23, end: 8 },
+];
+
+export const WITHIN_HOURS_OPTIONS = [1, 2, 3, 6, 12];
+
+// Thresholds are picked from fixed steps so precipitation needs no reverse unit conversion
+export const THRESHOLD_OPTIONS: Record<NotificationMetric, number[]> = {
+  pop: [30, 50, 60, 70, 80, 90], // %
+  precipitation: [0.5, 1, 2, 5, 10], // mm per hour
+  aqi: [50, 100, 150, 200, 300], // US AQI
+};
+
+// Starting point offered when a rule is added for each metric
+export const RULE_DEFAULTS: Record<NotificationMetric, { threshold: number; withinHours: number }> = {
+  pop: { threshold: 60, withinHours: 2 },
+  precipitation: { threshold: 2, withinHours: 3 },
+  aqi: { threshold: 100, withinHours: 6 },
+};
+
+const isQuietHours = (value: unknown): value is QuietHours =>
+  !!value && typeof value === 'object' &&
+  Number.isInteger((value as QuietHours).start) && Number.isInteger((value as QuietHours).end);
+
+export const normalizeNotificationSettings = (stored: Partial<Record<keyof NotificationSettings, unknown>> | undefined): NotificationSettings => ({
+  enabled: typeof stored?.enabled === 'boolean' ? stored.enabled : DEFAULT_NOTIFICATION_SETTINGS.enabled,
+  quietHours: stored?.quietHours === null ? null : isQuietHours(stored?.quietHours) ? stored.quietHours : DEFAULT_NOTIFICATION_SETTINGS.quietHours,
+});
+
+export const createNotificationRule = (metric: NotificationMetric): NotificationRule => ({
+  id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  metric,
+  ...RULE_DEFAULTS[metric],
+  enabled: true,
+});
+
+// --- Permission ---
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  notificationsSupported() ? Notification.permission : 'unsupported';
+
+// Must be called from a user gesture (e.g. the toggle in Preferences)
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!notificationsSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// --- De-duplication Log ---
+// Per location + rule: the last hour of the event that was notified. An event is a run of
+// consecutive hours at or over the threshold; while upcoming matches still fall inside that
+// run (the same rain, seen again on the next refresh) nothing new is shown.
+
+interface LoggedEvent {
+  until: string; // rawTime of the last hour of the notified run
+  firedAt: number;
+}
+
+const loadLog = (): Record<string, LoggedEvent> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(NOTIFICATION_LOG_KEY) || '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveLog = (log: Record<string, LoggedEvent>) => {
+  const cutoff = Date.now() - LOG_RETENTION_MS;
+  const kept = Object.fromEntries(Object.entries(log).filter(([, event]) => new Date(event.until).getTime() > cutoff));
+  localStorage.setItem(NOTIFICATION_LOG_KEY, JSON.stringify(kept));
+};
+
+// --- Evaluation ---
+
+export const isWithinQuietHours = (quietHours: QuietHours | null, date = new Date()) => {
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+  const hour = date.getHours();
+  return quietHours.start < quietHours.end
+    ? hour >= quietHours.start && hour < quietHours.end
+    : hour >= quietHours.start || hour < quietHours.end;
+};
+
+interface RuleMatch {
+  time: string; // rawTime of the first hour at or over the threshold
+  until: string; // rawTime of the last consecutive hour still over it
+  value: number;
+}
+
+// First upcoming hour inside the rule's window that reaches the threshold, plus how long it lasts
+const findMatch = (card: WeatherCardData, rule: NotificationRule, now: number): RuleMatch | null => {
+  const { weather } = card;
+  const horizon = now + rule.withinHours * 3600000;
+  // hourlyAqi is aligned with hourlyForecast (both start at the hour the data was fetched)
+  const hours = weather.hourlyForecast.map((hour, i) => ({
+    time: hour.rawTime,
+    value: rule.metric === 'pop' ? hour.pop : rule.metric === 'precipitation' ? hour.precipitation : weather.hourlyAqi[i],
+  }));
+  const exceeds = (value: number | undefined) => typeof value === 'number' && value >= rule.threshold;
+
+  const start = hours.findIndex(({ time, value }) => {
+    const at = new Date(time).getTime();
+    // Include the hour in progress
+    return at >= now - 3600000 && at <= horizon && exceeds(value);
+  });
+  if (start === -1) return null;
+
+  let end = start;
+  while (end + 1 < hours.length && exceeds(hours[end + 1].value)) end++;
+  return { time: hours[start].time, until: hours[end].time, value: hours[start].value };
+};
+
+const describeMatch = (card: WeatherCardData, rule: NotificationRule, match: RuleMatch, units: UnitPreferences) => {
+  const city = card.weather.city;
+  const time = formatHour(match.time);
+  switch (rule.metric) {
+    case 'pop':
+      return { title: t('notify.rainTitle', { city }), body: t('notify.popBody', { pop: match.value, time }) };
+    case 'precipitation':
+      return { title: t('notify.rainTitle', { city }), body: t('notify.precipitationBody', { amount: formatPrecipitation(match.value, units), time }) };
+    default:
+      return { title: t('notify.aqiTitle', { city }), body: t('notify.aqiBody', { aqi: match.value, time }) };
+  }
+};
+
+// Checks every saved real-weather card's rules and shows a notification for each new event.
+// Runs on the refresh schedule; events that arrive during quiet hours are held back (not
+// logged), so they still fire afterwards if the forecast keeps them in the window.
+export const checkNotificationRules = (cards: WeatherCardData[], settings: NotificationSettings, units: UnitPreferences) => {
+  if (!settings.enabled || getNotificationPermission() !== 'granted') return;
+  if (isWithinQuietHours(settings.quietHours)) return;
+
+  const now = Date.now();
+  const log = loadLog();
+  let changed = false;
+
+  for (const card of cards) {
+    if (card.weather.isFictional || card.weather.historicalDate) continue;
+    for (const rule of card.notificationRules || []) {
+      if (!rule.enabled) continue;
+      const match = findMatch(card, rule, now);
+      if (!match) continue;
+
+      const key = `${card.weather.id}:${rule.id}`;
+      const previous = log[key];
+      if (previous && match.time <= previous.until) {
+        // Same event as last time; remember if it now runs longer
+        if (match.until > previous.until) {
+          log[key] = { ...previous, until: match.until };
+          changed = true;
+        }
+        continue;
+      }
+
+      const { title, body } = describeMatch(card, rule, match, units);
+      try {
+        new Notification(title, { body, tag: key });
+      } catch {
+        // Some mobile browsers only allow notifications through a service worker registration
+        navigator.serviceWorker?.ready
+          .then(reg => reg.showNotification(title, { body, tag: key }))
+          .catch(err => console.warn(`Couldn't show notification for ${card.weather.city}`, err));
+      }
+      log[key] = { until: match.until, firedAt: now };
+      changed = true;
+    }
+  }
+
+  if (changed) saveLog(log);
+};
@@ -0,0 +1,78 @@
+import { WeatherData } from '../types';
+import { getRefreshInterval } from './refreshService';
+
+const REFRESH_QUEUE_KEY = 'iso_offline_refresh_queue';
+
+// --- Service Worker ---
+
+// The worker lives in public/sw.js so it is served from the site root and controls every page.
+export const registerServiceWorker = () => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.warn("Service worker registration failed; offline mode unavailable", error);
+    });
+  });
+};
+
+// --- Connectivity ---
+
+export const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// Calls `listener` whenever the browser goes on/offline. Returns an unsubscribe function.
+export const subscribeToConnectivity = (listener: (online: boolean) => void) => {
+  const handleOnline = () => listener(true);
+  const handleOffline = () => listener(false);
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+};
+
+// --- Staleness ---
+
+// Forecast data counts as stale once it has missed two scheduled background refreshes
+export const isWeatherStale = (weather: WeatherData, now = Date.now()): boolean => {
+  if (weather.isFictional || !weather.updatedAt) return false;
+  return now - new Date(weather.updatedAt).getTime() > getRefreshInterval() * 2 * 60 * 1000;
+};
+
+// --- Offline Refresh Queue ---
+// Card ids whose refresh was requested while offline. Persisted so a reload doesn't lose them;
+// App replays the queue once the connection comes back.
+
+export const getQueuedRefreshes = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(REFRESH_QUEUE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(id => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveQueuedRefreshes = (ids: string[]) => {
+  if (ids.length === 0) localStorage.removeItem(REFRESH_QUEUE_KEY);
+  else localStorage.setItem(REFRESH_QUEUE_KEY, JSON.stringify(ids));
+};
+
+export const queueOfflineRefresh = (cardId: string): string[] => {
+  const ids = getQueuedRefreshes();
+  if (!ids.includes(cardId)) ids.push(cardId);
+  saveQueuedRefreshes(ids);
+  return ids;
+};
+
+// Returns the queued ids and clears the queue; failed replays should be re-queued by the caller
+export const takeQueuedRefreshes = (): string[] => {
+  const ids = getQueuedRefreshes();
+  saveQueuedRefreshes([]);
+  return ids;
+};
+
+export const removeQueuedRefresh = (cardId: string): string[] => {
+  const ids = getQueuedRefreshes().filter(id => id !== cardId);
+  saveQueuedRefreshes(ids);
+  return ids;
+};
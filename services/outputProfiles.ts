@@ -0,0 +1,38 @@
+import { GeneratedImage, OutputProfile, SceneAspectRatio, WeatherCardData } from '../types';
+
+// Formats a scene can be drawn in. The card's profile decides how its next scenes are generated;
+// each image records the profile it was drawn with, and layouts follow the image on screen.
+
+export const ASPECT_RATIOS: SceneAspectRatio[] = ['9:16', '16:9', '1:1'];
+
+export const DEFAULT_OUTPUT_PROFILE: OutputProfile = { aspectRatio: '9:16', draft: false };
+
+// Gemini image sizes; drafts render in a fraction of the time of a full 4K scene
+const FULL_IMAGE_SIZE = '4K';
+const DRAFT_IMAGE_SIZE = '1K';
+
+export const getImageSize = (profile: OutputProfile): string =>
+  profile.draft ? DRAFT_IMAGE_SIZE : FULL_IMAGE_SIZE;
+
+export const normalizeOutputProfile = (stored: Partial<Record<keyof OutputProfile, unknown>> | undefined): OutputProfile => ({
+  aspectRatio: ASPECT_RATIOS.find(ratio => ratio === stored?.aspectRatio) || DEFAULT_OUTPUT_PROFILE.aspectRatio,
+  draft: typeof stored?.draft === 'boolean' ? stored.draft : DEFAULT_OUTPUT_PROFILE.draft,
+});
+
+export const getCardProfile = (card: Pick<WeatherCardData, 'profile'>): OutputProfile =>
+  card.profile || DEFAULT_OUTPUT_PROFILE;
+
+export const getImageProfile = (image: Pick<GeneratedImage, 'profile'>): OutputProfile =>
+  image.profile || DEFAULT_OUTPUT_PROFILE;
+
+export const isSameProfile = (a: OutputProfile, b: OutputProfile) =>
+  a.aspectRatio === b.aspectRatio && a.draft === b.draft;
+
+// Width over height, e.g. 0.5625 for 9:16
+export const getAspectValue = (ratio: SceneAspectRatio): number => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+// For the CSS aspect-ratio property
+export const toCssAspectRatio = (ratio: SceneAspectRatio) => ratio.replace(':', ' / ');
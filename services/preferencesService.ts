@@ -0,0 +1,41 @@
+import { UserPreferences } from '../types';
+import { normalizeUnits } from './units';
+import { normalizeLocale } from './i18n';
+import { normalizeAlertThresholds } from './alertsService';
+import { normalizeNotificationSettings } from './notificationService';
+import { normalizeSearchResults } from './weatherService';
+import { normalizeStylePresetId } from './promptTemplates';
+import { normalizeOutputProfile } from './outputProfiles';
+
+const PREFERENCES_KEY = 'iso_preferences';
+
+// App-wide display preferences, persisted in localStorage. Cards don't keep their own copy;
+// App owns the current value and passes it down.
+export const loadPreferences = (): UserPreferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREFERENCES_KEY) || '{}');
+    return {
+      units: normalizeUnits(stored?.units),
+      locale: normalizeLocale(stored?.locale),
+      alerts: normalizeAlertThresholds(stored?.alerts),
+      notifications: normalizeNotificationSettings(stored?.notifications),
+      searchResults: normalizeSearchResults(stored?.searchResults),
+      stylePresetId: normalizeStylePresetId(stored?.stylePresetId),
+      outputProfile: normalizeOutputProfile(stored?.outputProfile),
+    };
+  } catch {
+    return {
+      units: normalizeUnits(undefined),
+      locale: normalizeLocale(undefined),
+      alerts: normalizeAlertThresholds(undefined),
+      notifications: normalizeNotificationSettings(undefined),
+      searchResults: normalizeSearchResults(undefined),
+      stylePresetId: normalizeStylePresetId(undefined),
+      outputProfile: normalizeOutputProfile(undefined),
+    };
+  }
+};
+
+export const savePreferences = (preferences: UserPreferences) => {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+};
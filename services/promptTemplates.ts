@@ -0,0 +1,170 @@
+import { GeneratedImage, PromptSlots, PromptTemplateRef, SceneStyle, StylePreset, StyleSlot } from '../types';
+import { t } from './i18n';
+
+// Prompts for scene generation and edits, built from versioned templates with named {slot}s.
+// A published template version is never changed: a new wording gets a new version, and every
+// image records the version and slots it was drawn with, so redrawing a card reproduces its prompt.
+
+interface PromptTemplate {
+  id: string;
+  version: number;
+  body: string;
+}
+
+export const SCENE_TEMPLATE = 'isometric-scene';
+export const EDIT_TEMPLATE = 'scene-edit';
+export const MASKED_EDIT_TEMPLATE = 'masked-scene-edit';
+
+const TEMPLATES: PromptTemplate[] = [
+  {
+    id: SCENE_TEMPLATE,
+    version: 1,
+    body: `{context}
+Present a clear, {cameraAngle} view of a {aspectRatio} isometric miniature 3D cartoon scene of {city}, highlighting {landmarks} centered in the composition to showcase precise and delicate modeling.
+
+IMPORTANT: Ensure the entire scene is fully visible within the frame. Zoom out slightly to leave ample negative space around the edges. Do not cut off any corners or sides of the main subject. Center the subject perfectly.
+
+Scene context: {weather} Time is {time}.
+
+{aesthetic}
+
+Use a clean, unified composition with minimalistic aesthetics and a soft, solid-colored background that highlights the main content. The overall visual style is fresh and soothing.`,
+  },
+  {
+    id: EDIT_TEMPLATE,
+    version: 1,
+    body: `{instructions}`,
+  },
+  {
+    id: MASKED_EDIT_TEMPLATE,
+    version: 1,
+    body: `{instructions}
+
+The second image is a mask for the first one. Apply the change only inside the white area of the mask and keep everything in the black area exactly as it is.`,
+  },
+];
+
+const latestVersion = (templateId: string) =>
+  Math.max(...TEMPLATES.filter(t => t.id === templateId).map(t => t.version));
+
+// A version that is no longer known (e.g. from a newer build) falls back to the latest
+const findTemplate = (templateId: string, version?: number): PromptTemplate => {
+  const candidates = TEMPLATES.filter(t => t.id === templateId);
+  if (candidates.length === 0) throw new Error(`Unknown prompt template "${templateId}"`);
+  return candidates.find(t => t.version === version) || candidates.find(t => t.version === latestVersion(templateId))!;
+};
+
+// Fills the template's {slot}s; empty slots leave no stray blank lines behind
+export const renderPrompt = (
+  templateId: string,
+  slots: PromptSlots,
+  style: SceneStyle,
+  version?: number
+): { prompt: string; template: PromptTemplateRef } => {
+  const template = findTemplate(templateId, version);
+  const prompt = template.body
+    .replace(/\{(\w+)\}/g, (_, name: keyof PromptSlots) => slots[name] ?? '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return { prompt, template: { templateId, version: template.version, slots, style } };
+};
+
+export const describeAspectRatio = (ratio: string): string => {
+  const [w, h] = ratio.split(':').map(Number);
+  const shape = w === h ? 'square' : w < h ? 'vertical' : 'horizontal';
+  return `${shape} (${ratio})`;
+};
+
+// --- Style presets ---
+
+const PRESETS_KEY = 'iso_style_presets';
+
+export type BuiltInStyleId = 'miniature' | 'watercolor' | 'lowPoly';
+export const DEFAULT_STYLE_PRESET: BuiltInStyleId = 'miniature';
+
+const BUILT_IN_PRESETS: (StylePreset & { id: BuiltInStyleId })[] = [
+  {
+    id: 'miniature',
+    name: 'Soft miniature',
+    builtIn: true,
+    slots: {
+      landmarks: 'iconic landmarks',
+      cameraAngle: '45° top-down',
+      aesthetic: "The scene features soft, refined textures with realistic PBR materials and gentle, lifelike lighting and shadow effects. Weather elements are creatively integrated into the urban architecture, establishing a dynamic interaction between the city's landscape and atmospheric conditions, creating an immersive weather ambiance.",
+    },
+  },
+  {
+    id: 'watercolor',
+    name: 'Watercolor diorama',
+    builtIn: true,
+    slots: {
+      landmarks: 'iconic landmarks',
+      cameraAngle: '45° top-down',
+      aesthetic: 'The scene is painted in delicate watercolor with visible paper grain, soft bleeding edges and muted pastel tones. Weather is drawn with loose, translucent washes that flow over the rooftops and streets.',
+    },
+  },
+  {
+    id: 'lowPoly',
+    name: 'Low poly',
+    builtIn: true,
+    slots: {
+      landmarks: 'iconic landmarks',
+      cameraAngle: '30° high-angle',
+      aesthetic: 'The scene is built from low-poly models with flat-shaded facets, crisp geometric shapes and a limited, bold color palette. Weather is shown with stylized geometric particles and simple gradient lighting.',
+    },
+  },
+];
+
+const isStylePreset = (value: unknown): value is StylePreset => {
+  if (!value || typeof value !== 'object') return false;
+  const { id, name, slots } = value as Partial<Record<keyof StylePreset, unknown>>;
+  return typeof id === 'string' && typeof name === 'string' && !!slots && typeof slots === 'object' &&
+    (['landmarks', 'aesthetic', 'cameraAngle'] as StyleSlot[]).every(slot => typeof (slots as Partial<Record<StyleSlot, unknown>>)[slot] === 'string');
+};
+
+const loadCustomPresets = (): StylePreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isStylePreset).map(p => ({ ...p, builtIn: false })) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Built-ins first, then the user's own in the order they were saved
+export const getStylePresets = (): StylePreset[] => [...BUILT_IN_PRESETS, ...loadCustomPresets()];
+
+export const findStylePreset = (id: string | undefined): StylePreset | undefined =>
+  getStylePresets().find(p => p.id === id);
+
+// Built-ins are named in the UI language; undefined once a custom preset was deleted
+export const getStylePresetLabel = (id: string | undefined): string | undefined => {
+  const preset = findStylePreset(id);
+  if (!preset) return undefined;
+  return preset.builtIn ? t(`styles.preset.${preset.id as BuiltInStyleId}`) : preset.name;
+};
+
+export const saveStylePreset = (name: string, slots: Record<StyleSlot, string>): StylePreset => {
+  const preset: StylePreset = { id: `custom-${Date.now().toString(36)}`, name: name.trim(), slots };
+  localStorage.setItem(PRESETS_KEY, JSON.stringify([...loadCustomPresets(), preset]));
+  return preset;
+};
+
+// Built-ins can't be deleted. Images drawn with a deleted preset keep their style; it is stored on the image.
+export const deleteStylePreset = (id: string) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(loadCustomPresets().filter(p => p.id !== id)));
+};
+
+export const normalizeStylePresetId = (value: unknown): string =>
+  typeof value === 'string' && findStylePreset(value) ? value : DEFAULT_STYLE_PRESET;
+
+// Style for new scenes: the preset on the latest scene template
+export const getPresetStyle = (presetId: string): SceneStyle => {
+  const preset = findStylePreset(presetId) || findStylePreset(DEFAULT_STYLE_PRESET)!;
+  return { version: latestVersion(SCENE_TEMPLATE), presetId: preset.id, slots: { ...preset.slots } };
+};
+
+// Style to redraw an image with. Images from before templates were drawn with what is now the
+// default preset on the first template version.
+export const getImageStyle = (image: GeneratedImage | undefined): SceneStyle =>
+  image?.template?.style || { ...getPresetStyle(DEFAULT_STYLE_PRESET), version: 1 };
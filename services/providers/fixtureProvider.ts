@@ -0,0 +1,160 @@
+import { WeatherProvider, LocationData, ProviderForecast, HourlyForecast, DailyForecast, CurrentConditions } from '../../types';
+import { formatHourLabel, formatDayLabels } from './formatters';
+import { NoResultsError } from '../weatherErrors';
+import { distanceKm } from '../coordinates';
+
+// Offline provider backed by fixtures/weather.json.
+// Each fixture city stores one 24-hour profile (index = local hour) plus 8 daily entries;
+// the profile is replayed for every day so the data always lines up with "now".
+
+interface FixtureForecast {
+  current: CurrentConditions;
+  hourly: {
+    temp: number[];
+    code: number[];
+    pop: number[];
+    precipitation: number[];
+    humidity: number[];
+    windSpeed: number[];
+    windGusts?: number[];
+    feelsLike?: number[];
+    uvIndex: number[];
+    pressure: number[];
+    cloudCover: number[];
+    visibility: number[];
+    aqi: number[];
+  };
+  daily: Omit<DailyForecast, 'date' | 'fullDate' | 'rawDate'>[];
+}
+
+interface FixtureFile {
+  locations: LocationData[];
+  forecasts: Record<string, FixtureForecast>;
+}
+
+// Lazy import keeps the fixture out of the main bundle when the live provider is used
+const loadFixture = async (): Promise<FixtureFile> => (await import('../../fixtures/weather.json')).default as FixtureFile;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Local "YYYY-MM-DD", matching what Open-Meteo returns with timezone=auto
+const toLocalDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const isDaylight = (hour: number, sunrise: string, sunset: string) =>
+  hour >= parseInt(sunrise, 10) && hour < parseInt(sunset, 10);
+
+const searchCities = async (query: string, count: number): Promise<LocationData[]> => {
+  if (query.length < 2) return [];
+  const { locations } = await loadFixture();
+  const needle = query.toLowerCase();
+  const matches = locations.filter(loc => loc.name.toLowerCase().includes(needle)).slice(0, count);
+  if (matches.length === 0) {
+    throw new NoResultsError(query, `No fixture city matches "${query}"`);
+  }
+  return matches;
+};
+
+// Local stand-in for a reverse geocoder: the closest fixture city, so the offline
+// provider can still serve a forecast for "My Location"
+const reverseGeocode = async (latitude: number, longitude: number): Promise<LocationData> => {
+  const { locations } = await loadFixture();
+  const here = { latitude, longitude };
+  return locations.reduce((nearest, loc) => (distanceKm(here, loc) < distanceKm(here, nearest) ? loc : nearest));
+};
+
+const loadCityFixture = async (location: LocationData): Promise<FixtureForecast> => {
+  const { forecasts } = await loadFixture();
+  const fixture = forecasts[String(location.id)];
+  if (!fixture) {
+    throw new NoResultsError(location.name, `No fixture data for ${location.name}`);
+  }
+  return fixture;
+};
+
+// Replays the 24-hour profile once for every day in `days`
+const replayProfile = (h: FixtureForecast['hourly'], days: string[]) => {
+  const hourly: HourlyForecast[] = [];
+  const aqiHourly: { time: string; value: number }[] = [];
+  days.forEach(day => {
+    for (let hour = 0; hour < 24; hour++) {
+      const rawTime = `${day}T${pad(hour)}:00`;
+      hourly.push({
+        time: formatHourLabel(rawTime),
+        rawTime,
+        temp: Math.round(h.temp[hour]),
+        code: h.code[hour],
+        pop: h.pop[hour],
+        precipitation: h.precipitation[hour],
+        humidity: h.humidity[hour],
+        windSpeed: h.windSpeed[hour],
+        windGusts: h.windGusts?.[hour],
+        feelsLike: h.feelsLike?.[hour],
+        uvIndex: h.uvIndex[hour],
+        pressure: h.pressure[hour],
+        cloudCover: h.cloudCover[hour],
+        visibility: h.visibility[hour]
+      });
+      aqiHourly.push({ time: rawTime, value: h.aqi[hour] });
+    }
+  });
+  return { hourly, aqiHourly };
+};
+
+const getForecast = async (location: LocationData): Promise<ProviderForecast> => {
+  const fixture = await loadCityFixture(location);
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const days = fixture.daily.map((_, i) => {
+    const d = new Date(today);
+    d.setDate(d.getDate() + i);
+    return toLocalDate(d);
+  });
+
+  const h = fixture.hourly;
+  const { hourly, aqiHourly } = replayProfile(h, days);
+
+  const daily: DailyForecast[] = fixture.daily.map((entry, i) => ({
+    ...entry,
+    ...formatDayLabels(days[i]),
+    rawDate: days[i]
+  }));
+
+  const nowHour = new Date().getHours();
+  return {
+    current: {
+      ...fixture.current,
+      isDay: isDaylight(nowHour, daily[0].sunrise, daily[0].sunset) ? 1 : 0
+    },
+    hourly,
+    daily,
+    aqi: {
+      current: h.aqi[nowHour],
+      hourly: aqiHourly
+    }
+  };
+};
+
+// Any past day replays the same profile, with today's first daily entry, seen at midday
+const getHistorical = async (location: LocationData, date: string): Promise<ProviderForecast> => {
+  const fixture = await loadCityFixture(location);
+  const { hourly } = replayProfile(fixture.hourly, [date]);
+  const day: DailyForecast = { ...fixture.daily[0], ...formatDayLabels(date), rawDate: date };
+  return {
+    current: {
+      ...fixture.current,
+      isDay: isDaylight(12, day.sunrise, day.sunset) ? 1 : 0
+    },
+    hourly,
+    daily: [day]
+  };
+};
+
+export const fixtureProvider: WeatherProvider = {
+  id: 'fixture',
+  name: 'Local Fixtures',
+  searchCities,
+  reverseGeocode,
+  getForecast,
+  getHistorical,
+};
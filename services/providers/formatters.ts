@@ -0,0 +1,14 @@
+import { formatHour, formatWeekday, formatFullDate } from '../i18n';
+
+// Shared label formatting so every provider renders hours and days the same way.
+// Labels follow the active locale at fetch time; cards re-format from rawTime/rawDate when shown.
+
+export const formatHourLabel = (isoTime: string): string => formatHour(isoTime);
+
+export const formatDayLabels = (rawDate: string): { date: string; fullDate: string } => ({
+  date: formatWeekday(rawDate),
+  fullDate: formatFullDate(rawDate),
+});
+
+// "2024-05-01T05:12" -> "05:12"
+export const toClockTime = (isoTime: string): string => isoTime.split('T')[1] || isoTime;
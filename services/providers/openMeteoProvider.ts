@@ -0,0 +1,341 @@
+import { WeatherProvider, LocationData, ProviderForecast, HourlyForecast, DailyForecast } from '../../types';
+import { formatHourLabel, formatDayLabels, toClockTime } from './formatters';
+import { number, string, nullable, optional, array, object, assertSameLength, fetchJson } from './schema';
+import { NoResultsError } from '../weatherErrors';
+import { getLocale } from '../i18n';
+import { coordinateId, formatCoordinates } from '../coordinates';
+
+const GEO_API = "https://geocoding-api.open-meteo.com/v1/search";
+const WEATHER_API = "https://api.open-meteo.com/v1/forecast";
+const AQI_API = "https://air-quality-api.open-meteo.com/v1/air-quality";
+// Any Open-Meteo-archive-compatible endpoint can be set with WEATHER_ARCHIVE_URL in .env.local
+const ARCHIVE_API = process.env.WEATHER_ARCHIVE_URL || "https://archive-api.open-meteo.com/v1/archive";
+// Open-Meteo has no reverse geocoder; BigDataCloud's client endpoint is free and needs no key
+const REVERSE_GEO_API = "https://api.bigdatacloud.net/data/reverse-geocode-client";
+
+// --- Response Schemas ---
+
+const geocodingSchema = object({
+  results: optional(array(object({
+    id: number,
+    name: string,
+    country: optional(string),
+    admin1: optional(string),
+    latitude: number,
+    longitude: number,
+  }))),
+});
+
+const reverseGeocodingSchema = object({
+  city: optional(string),
+  locality: optional(string),
+  principalSubdivision: optional(string),
+  countryName: optional(string),
+});
+
+const series = array(nullable(number));
+
+const forecastSchema = object({
+  current: object({
+    temperature_2m: number,
+    relative_humidity_2m: number,
+    apparent_temperature: number,
+    precipitation: number,
+    weather_code: number,
+    wind_speed_10m: number,
+    wind_direction_10m: number,
+    wind_gusts_10m: number,
+    pressure_msl: number,
+    cloud_cover: number,
+    dew_point_2m: number,
+    is_day: number,
+  }),
+  hourly: object({
+    time: array(string),
+    temperature_2m: series,
+    weather_code: series,
+    precipitation_probability: series,
+    precipitation: series,
+    visibility: optional(series),
+    relative_humidity_2m: series,
+    wind_speed_10m: series,
+    wind_gusts_10m: optional(series),
+    apparent_temperature: optional(series),
+    uv_index: series,
+    pressure_msl: series,
+    cloud_cover: series,
+  }),
+  daily: object({
+    time: array(string),
+    weather_code: series,
+    temperature_2m_max: series,
+    temperature_2m_min: series,
+    uv_index_max: series,
+    precipitation_sum: series,
+    sunrise: array(string),
+    sunset: array(string),
+  }),
+});
+
+// The archive only has observed/reanalysis variables: no precipitation probability, UV or visibility
+const archiveSchema = object({
+  hourly: object({
+    time: array(string),
+    temperature_2m: series,
+    apparent_temperature: series,
+    relative_humidity_2m: series,
+    dew_point_2m: series,
+    precipitation: series,
+    weather_code: series,
+    pressure_msl: series,
+    cloud_cover: series,
+    wind_speed_10m: series,
+    wind_direction_10m: series,
+    wind_gusts_10m: series,
+  }),
+  daily: object({
+    time: array(string),
+    weather_code: series,
+    temperature_2m_max: series,
+    temperature_2m_min: series,
+    precipitation_sum: series,
+    sunrise: array(string),
+    sunset: array(string),
+  }),
+});
+
+const aqiSchema = object({
+  current: optional(object({ us_aqi: nullable(number) })),
+  hourly: optional(object({
+    time: array(string),
+    us_aqi: series,
+  })),
+});
+
+const searchCities = async (query: string, count: number): Promise<LocationData[]> => {
+  if (query.length < 2) return [];
+  // The geocoder caps `count` at 100
+  const url = `${GEO_API}?name=${encodeURIComponent(query)}&count=${Math.min(count, 100)}&language=${getLocale()}&format=json`;
+  const data = geocodingSchema(await fetchJson(url, 'Geocoding'), 'geocoding');
+
+  if (!data.results || data.results.length === 0) {
+    throw new NoResultsError(query, `No places match "${query}"`);
+  }
+
+  return data.results.map(item => ({
+    id: item.id,
+    name: item.name,
+    country: item.country,
+    admin1: item.admin1,
+    latitude: item.latitude,
+    longitude: item.longitude,
+  }));
+};
+
+// Coordinates -> nearest named place. The result has no GeoNames id, so it gets a
+// coordinate-derived one; the forecast is always fetched for the exact coordinates.
+const reverseGeocode = async (latitude: number, longitude: number): Promise<LocationData> => {
+  const url = `${REVERSE_GEO_API}?latitude=${latitude}&longitude=${longitude}&localityLanguage=${getLocale()}`;
+  const data = reverseGeocodingSchema(await fetchJson(url, 'Reverse geocoding'), 'reverseGeocoding');
+  return {
+    id: coordinateId({ latitude, longitude }),
+    name: data.city || data.locality || formatCoordinates({ latitude, longitude }),
+    country: data.countryName || undefined,
+    admin1: data.principalSubdivision || undefined,
+    latitude,
+    longitude,
+  };
+};
+
+// Air quality is a nice-to-have: if it fails we still show the forecast, just without AQI
+const getAirQuality = async (url: string) => {
+  try {
+    return aqiSchema(await fetchJson(url, 'Air quality'), 'airQuality');
+  } catch (error) {
+    console.warn("Air quality unavailable, continuing without it", error);
+    return null;
+  }
+};
+
+const getForecast = async (location: LocationData): Promise<ProviderForecast> => {
+  // 1. Prepare Weather API Params
+  // Added: precipitation to hourly
+  const weatherParams = new URLSearchParams({
+    latitude: location.latitude.toString(),
+    longitude: location.longitude.toString(),
+    current: "temperature_2m,relative_humidity_2m,apparent_temperature,precipitation,weather_code,wind_speed_10m,wind_direction_10m,wind_gusts_10m,pressure_msl,cloud_cover,dew_point_2m,is_day",
+    hourly: "temperature_2m,apparent_temperature,weather_code,precipitation_probability,precipitation,visibility,relative_humidity_2m,wind_speed_10m,wind_gusts_10m,uv_index,pressure_msl,cloud_cover",
+    daily: "weather_code,temperature_2m_max,temperature_2m_min,uv_index_max,precipitation_sum,sunrise,sunset",
+    timezone: "auto",
+    forecast_days: "8"
+  });
+
+  // 2. Prepare Air Quality API Params
+  // Requesting hourly forecast for graph
+  const aqiParams = new URLSearchParams({
+    latitude: location.latitude.toString(),
+    longitude: location.longitude.toString(),
+    current: "us_aqi",
+    hourly: "us_aqi",
+    timezone: "auto",
+    forecast_days: "2" // Get enough data for a trend
+  });
+
+  // 3. Fetch in parallel
+  const [weatherRaw, aqiData] = await Promise.all([
+    fetchJson(`${WEATHER_API}?${weatherParams.toString()}`, 'Forecast'),
+    getAirQuality(`${AQI_API}?${aqiParams.toString()}`)
+  ]);
+
+  const { current, daily, hourly } = forecastSchema(weatherRaw, 'forecast');
+  assertSameLength(hourly, hourly.time, 'forecast.hourly');
+  assertSameLength(daily, daily.time, 'forecast.daily');
+  if (hourly.time.length === 0 || daily.time.length === 0) {
+    throw new NoResultsError(location.name, `No forecast available for ${location.name}`);
+  }
+
+  // --- Process All Hourly Forecast Data ---
+  const allHourly: HourlyForecast[] = hourly.time.map((t, i) => ({
+      time: formatHourLabel(t),
+      rawTime: t, // Keep ISO string for easy date matching
+      temp: Math.round(hourly.temperature_2m[i] ?? 0),
+      code: hourly.weather_code[i] ?? 0,
+      pop: hourly.precipitation_probability[i] || 0,
+      precipitation: hourly.precipitation[i] || 0,
+      humidity: hourly.relative_humidity_2m[i] || 0,
+      windSpeed: hourly.wind_speed_10m[i] || 0,
+      windGusts: hourly.wind_gusts_10m?.[i] ?? undefined,
+      feelsLike: hourly.apparent_temperature?.[i] ?? undefined,
+      uvIndex: hourly.uv_index[i] || 0,
+      pressure: hourly.pressure_msl[i] || 1013,
+      cloudCover: hourly.cloud_cover[i] || 0,
+      visibility: hourly.visibility?.[i] ?? 10000
+  }));
+
+  // --- Process Daily Forecast ---
+  const forecast: DailyForecast[] = daily.time.map((t, i) => ({
+    ...formatDayLabels(t),
+    rawDate: t, // YYYY-MM-DD
+    max: Math.round(daily.temperature_2m_max[i] ?? 0),
+    min: Math.round(daily.temperature_2m_min[i] ?? 0),
+    code: daily.weather_code[i] ?? 0,
+    uvIndex: daily.uv_index_max[i] ?? 0,
+    rainSum: daily.precipitation_sum[i] ?? 0,
+    sunrise: toClockTime(daily.sunrise[i]),
+    sunset: toClockTime(daily.sunset[i])
+  })).slice(0, 8);
+
+  // --- Process Hourly AQI ---
+  const aqiHourly = aqiData?.hourly
+    ? aqiData.hourly.time.map((t, i) => ({ time: t, value: aqiData.hourly!.us_aqi[i] ?? 0 }))
+    : [];
+
+  return {
+    current: {
+      temperature: current.temperature_2m,
+      feelsLike: current.apparent_temperature,
+      humidity: current.relative_humidity_2m,
+      precipitation: current.precipitation,
+      weatherCode: current.weather_code,
+      windSpeed: current.wind_speed_10m,
+      windDirectionDeg: current.wind_direction_10m,
+      windGusts: current.wind_gusts_10m,
+      pressure: current.pressure_msl,
+      cloudCover: current.cloud_cover,
+      dewPoint: current.dew_point_2m,
+      isDay: current.is_day
+    },
+    hourly: allHourly,
+    daily: forecast,
+    aqi: {
+      current: aqiData?.current?.us_aqi ?? undefined,
+      hourly: aqiHourly
+    }
+  };
+};
+
+// Midday of the requested day stands in for "current" conditions
+const HISTORICAL_HOUR = 'T12:00';
+
+const getHistorical = async (location: LocationData, date: string): Promise<ProviderForecast> => {
+  const params = new URLSearchParams({
+    latitude: location.latitude.toString(),
+    longitude: location.longitude.toString(),
+    start_date: date,
+    end_date: date,
+    hourly: "temperature_2m,apparent_temperature,relative_humidity_2m,dew_point_2m,precipitation,weather_code,pressure_msl,cloud_cover,wind_speed_10m,wind_direction_10m,wind_gusts_10m",
+    daily: "weather_code,temperature_2m_max,temperature_2m_min,precipitation_sum,sunrise,sunset",
+    timezone: "auto",
+  });
+
+  const { hourly, daily } = archiveSchema(await fetchJson(`${ARCHIVE_API}?${params.toString()}`, 'Archive'), 'archive');
+  assertSameLength(hourly, hourly.time, 'archive.hourly');
+  assertSameLength(daily, daily.time, 'archive.daily');
+
+  // Recent days show up as nulls until the reanalysis catches up
+  const midday = Math.max(hourly.time.indexOf(`${date}${HISTORICAL_HOUR}`), 0);
+  if (hourly.temperature_2m[midday] == null || daily.time.length === 0) {
+    throw new NoResultsError(location.name, `No archived weather for ${location.name} on ${date}`);
+  }
+
+  const allHourly: HourlyForecast[] = hourly.time.map((t, i) => ({
+      time: formatHourLabel(t),
+      rawTime: t,
+      temp: Math.round(hourly.temperature_2m[i] ?? 0),
+      code: hourly.weather_code[i] ?? 0,
+      pop: (hourly.precipitation[i] || 0) > 0 ? 100 : 0, // Observed, so it either rained or it didn't
+      precipitation: hourly.precipitation[i] || 0,
+      humidity: hourly.relative_humidity_2m[i] || 0,
+      windSpeed: hourly.wind_speed_10m[i] || 0,
+      windGusts: hourly.wind_gusts_10m[i] ?? undefined,
+      feelsLike: hourly.apparent_temperature[i] ?? undefined,
+      uvIndex: 0,
+      pressure: hourly.pressure_msl[i] || 1013,
+      cloudCover: hourly.cloud_cover[i] || 0,
+      visibility: 10000
+  }));
+
+  const forecast: DailyForecast[] = daily.time.map((t, i) => ({
+    ...formatDayLabels(t),
+    rawDate: t,
+    max: Math.round(daily.temperature_2m_max[i] ?? 0),
+    min: Math.round(daily.temperature_2m_min[i] ?? 0),
+    code: daily.weather_code[i] ?? 0,
+    uvIndex: 0,
+    rainSum: daily.precipitation_sum[i] ?? 0,
+    sunrise: toClockTime(daily.sunrise[i]),
+    sunset: toClockTime(daily.sunset[i])
+  }));
+
+  // Same "YYYY-MM-DDTHH:MM" format, so plain string comparison works
+  const middayTime = hourly.time[midday];
+  const isDay = middayTime >= daily.sunrise[0] && middayTime < daily.sunset[0] ? 1 : 0;
+
+  return {
+    current: {
+      temperature: hourly.temperature_2m[midday] ?? 0,
+      feelsLike: hourly.apparent_temperature[midday] ?? hourly.temperature_2m[midday] ?? 0,
+      humidity: hourly.relative_humidity_2m[midday] ?? 0,
+      precipitation: hourly.precipitation[midday] ?? 0,
+      weatherCode: hourly.weather_code[midday] ?? 0,
+      windSpeed: hourly.wind_speed_10m[midday] ?? 0,
+      windDirectionDeg: hourly.wind_direction_10m[midday] ?? 0,
+      windGusts: hourly.wind_gusts_10m[midday] ?? 0,
+      pressure: hourly.pressure_msl[midday] ?? 1013,
+      cloudCover: hourly.cloud_cover[midday] ?? 0,
+      dewPoint: hourly.dew_point_2m[midday] ?? 0,
+      isDay
+    },
+    hourly: allHourly,
+    daily: forecast
+  };
+};
+
+export const openMeteoProvider: WeatherProvider = {
+  id: 'open-meteo',
+  name: 'Open-Meteo',
+  searchCities,
+  reverseGeocode,
+  getForecast,
+  getHistorical,
+};
@@ -0,0 +1,76 @@
+import { MalformedPayloadError, NetworkError, RateLimitError } from '../weatherErrors';
+
+// Minimal runtime validators for API payloads. Each validator checks the value at `path`
+// and returns it typed, or throws MalformedPayloadError pointing at the offending field.
+
+export type Validator<T> = (value: unknown, path: string) => T;
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+export const number: Validator<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new MalformedPayloadError(path, 'number');
+  return value;
+};
+
+export const string: Validator<string> = (value, path) => {
+  if (typeof value !== 'string') throw new MalformedPayloadError(path, 'string');
+  return value;
+};
+
+export const nullable = <T>(inner: Validator<T>): Validator<T | null> => (value, path) =>
+  value === null || value === undefined ? null : inner(value, path);
+
+export const optional = <T>(inner: Validator<T>): Validator<T | undefined> => (value, path) =>
+  value === undefined ? undefined : inner(value, path);
+
+export const array = <T>(item: Validator<T>): Validator<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw new MalformedPayloadError(path, 'array');
+  return value.map((v, i) => item(v, `${path}[${i}]`));
+};
+
+export const object = <S extends Record<string, Validator<unknown>>>(shape: S): Validator<{ [K in keyof S]: Infer<S[K]> }> =>
+  (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new MalformedPayloadError(path, 'object');
+    }
+    const result = {} as { [K in keyof S]: Infer<S[K]> };
+    for (const key of Object.keys(shape) as (keyof S)[]) {
+      // Each validator returns its own Infer<>; the loop over keys can't see that
+      result[key] = shape[key]((value as Record<string, unknown>)[key as string], `${path}.${String(key)}`) as Infer<S[typeof key]>;
+    }
+    return result;
+  };
+
+// Column-oriented series (Open-Meteo style) must all line up with the time axis
+export const assertSameLength = (series: Record<string, unknown[] | undefined>, reference: unknown[], path: string) => {
+  for (const [key, values] of Object.entries(series)) {
+    if (values && values.length !== reference.length) {
+      throw new MalformedPayloadError(`${path}.${key}`, `${reference.length} entries, got ${values.length}`);
+    }
+  }
+};
+
+// Fetches JSON and maps transport failures onto the weather error taxonomy
+export const fetchJson = async (url: string, label: string): Promise<unknown> => {
+  let res: Response;
+  try {
+    res = await fetch(url);
+  } catch (error) {
+    throw new NetworkError(`${label} request failed: ${(error as Error).message}`);
+  }
+
+  if (res.status === 429) {
+    const retryAfter = parseInt(res.headers.get('Retry-After') || '', 10);
+    throw new RateLimitError(`${label} rate limit reached`, Number.isFinite(retryAfter) ? retryAfter : undefined);
+  }
+  if (!res.ok) {
+    // Open-Meteo explains 4xx errors in a { reason } body
+    const reason = await res.json().then(body => body?.reason).catch(() => undefined);
+    throw new NetworkError(`${label} responded ${res.status}${reason ? `: ${reason}` : ''}`, res.status);
+  }
+
+  try {
+    return await res.json();
+  } catch {
+    throw new MalformedPayloadError(label, 'JSON body');
+  }
+};
@@ -0,0 +1,177 @@
+import { WeatherCardData, WeatherData, SceneConditions, LocationData, GeneratedImage } from '../types';
+import { getWeatherData } from './weatherService';
+import { generateWeatherScene, getCityNativeName } from './geminiService';
+import { getImageStyle } from './promptTemplates';
+import { getCardProfile } from './outputProfiles';
+import { pruneVariants } from './forecastScenes';
+
+const REFRESH_INTERVAL_KEY = 'iso_refresh_interval_min';
+export const DEFAULT_REFRESH_INTERVAL_MIN = 30;
+export const REFRESH_INTERVAL_OPTIONS = [15, 30, 60, 180]; // Minutes
+
+// Cloud cover bands (%). A scene is only redrawn when the sky moves into a different band,
+// so 42% -> 47% keeps the old image while 15% -> 70% gets a new one.
+const CLOUD_BANDS = [20, 60, 85];
+
+export const getRefreshInterval = (): number => {
+  const stored = parseInt(localStorage.getItem(REFRESH_INTERVAL_KEY) || '', 10);
+  return stored > 0 ? stored : DEFAULT_REFRESH_INTERVAL_MIN;
+};
+
+export const setRefreshInterval = (minutes: number) => {
+  localStorage.setItem(REFRESH_INTERVAL_KEY, minutes.toString());
+};
+
+// Groups WMO codes into visually distinct scenes (e.g. "Clear Sky" and "Mainly Clear" look the same)
+export const getSceneCategory = (code: number): string => {
+  if (code <= 1) return 'clear';
+  if (code <= 3) return 'cloudy';
+  if (code === 45 || code === 48) return 'fog';
+  if (code >= 51 && code <= 57) return 'drizzle';
+  if ((code >= 61 && code <= 67) || (code >= 80 && code <= 82)) return 'rain';
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return 'snow';
+  if (code >= 95) return 'storm';
+  return 'other';
+};
+
+const getCloudBand = (cloudCover: number) => CLOUD_BANDS.filter(limit => cloudCover >= limit).length;
+
+export const needsNewScene = (rendered: SceneConditions, next: WeatherData): boolean => {
+  if (rendered.isDay !== next.isDay) return true;
+  if (getSceneCategory(rendered.weatherCode) !== getSceneCategory(next.weatherCode)) return true;
+  return getCloudBand(rendered.cloudCover) !== getCloudBand(next.cloudCover);
+};
+
+// What a weather refresh changes on a card. Refreshes can take minutes (scene generation with
+// retries), so they report a patch that is merged into the latest card rather than a whole card.
+export interface CardRefresh {
+  weather: WeatherData;
+  image?: GeneratedImage; // Only when the scene was redrawn
+}
+
+// Applies a refresh to the current state of the card: the card keeps its id, native name and
+// view config, and forecast scenes for moments that have dropped out of the forecast are discarded
+export const applyCardRefresh = (card: WeatherCardData, { weather, image }: CardRefresh): WeatherCardData => {
+  const next: WeatherData = { ...weather, id: card.weather.id, nativeCity: card.weather.nativeCity };
+  return {
+    ...card,
+    weather: next,
+    variants: pruneVariants(card.variants, next),
+    image: image ? { ...image, viewConfig: card.image.viewConfig } : card.image,
+  };
+};
+
+// Re-fetches the forecast for a real-weather card. The scene is only regenerated when conditions
+// changed enough.
+export const refreshCardWeather = async (card: WeatherCardData): Promise<CardRefresh> => {
+  const weather = await getWeatherData(card.weather.location, card.weather.historicalDate);
+
+  // Older images don't record what they were rendered for; assume the previous metrics
+  const rendered = card.image.conditions || {
+    weatherCode: card.weather.weatherCode,
+    isDay: card.weather.isDay,
+    cloudCover: card.weather.cloudCover,
+  };
+
+  if (!needsNewScene(rendered, weather)) {
+    return { weather };
+  }
+
+  try {
+    // Redrawn with the template version and style of the scene it replaces, in the card's format
+    const image = await generateWeatherScene(weather, { background: true }, undefined, getImageStyle(card.image), getCardProfile(card));
+    return { weather, image };
+  } catch (error) {
+    // Generation failed even after the queue's retries; keep the existing scene and retry next cycle
+    console.warn(`Scene refresh failed for ${weather.city}, keeping the previous image`, error);
+    return { weather };
+  }
+};
+
+// The fields a move replaces; the rest of the card (collection, rules, profile, pin) is left as is
+export type CardRelocation = Pick<WeatherCardData, 'weather' | 'image' | 'variants' | 'timelapse' | 'imageHistory'>;
+
+// Moves a card to a different place (the pinned "My Location" card after the device travelled).
+// Everything is fetched fresh (forecast scenes, timelapse and edit history of the old place are
+// dropped), but the card keeps its id so an open detail view stays open. Spread the result over
+// the latest card, not the one passed in.
+export const relocateCard = async (card: WeatherCardData, location: LocationData): Promise<CardRelocation> => {
+  const fresh = await getWeatherData(location);
+  const [image, nativeCity] = await Promise.all([
+    generateWeatherScene(fresh, { background: true }, undefined, getImageStyle(card.image), getCardProfile(card)),
+    getCityNativeName(fresh.city, fresh.country),
+  ]);
+  return { weather: { ...fresh, id: card.weather.id, nativeCity }, image, variants: undefined, timelapse: undefined, imageHistory: undefined };
+};
+
+interface RefreshSchedulerOptions {
+  intervalMin: number;
+  getCards: () => WeatherCardData[];
+  onCardRefreshed: (cardId: string, refresh: CardRefresh) => void;
+  isBusy?: (cardId: string) => boolean; // Skip cards that are being refreshed by hand
+  onTick?: () => void; // Runs after every tick, including ones where the refresh itself is skipped
+}
+
+// Periodically refreshes every saved live-weather card (archived days never change). Cards are
+// processed one at a time to avoid bursts against the weather/image APIs, and ticks are skipped
+// while the tab is hidden.
+export const createRefreshScheduler = ({ intervalMin, getCards, onCardRefreshed, isBusy, onTick }: RefreshSchedulerOptions) => {
+  const intervalMs = intervalMin * 60 * 1000;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running = false;
+  let current: string | null = null; // Card being refreshed right now
+  let lastRun = Date.now();
+
+  const runNow = async () => {
+    if (running) return;
+    running = true;
+    lastRun = Date.now();
+    try {
+      const targets = getCards().filter(c => !c.weather.isFictional && !c.weather.historicalDate);
+      for (const card of targets) {
+        if (isBusy?.(card.weather.id)) continue;
+        // Card may have been removed while an earlier one was refreshing
+        if (!getCards().some(c => c.weather.id === card.weather.id)) continue;
+        current = card.weather.id;
+        try {
+          onCardRefreshed(card.weather.id, await refreshCardWeather(card));
+        } catch (error) {
+          console.warn(`Background refresh failed for ${card.weather.city}`, error);
+        }
+      }
+    } finally {
+      running = false;
+      current = null;
+    }
+  };
+
+  const tick = async () => {
+    // Offline ticks would only fail; the app replays refreshes when the connection returns
+    if (document.visibilityState !== 'hidden' && navigator.onLine) await runNow();
+    // Hidden tabs still get the tick so time-based checks (e.g. notifications) use the cached forecast
+    onTick?.();
+  };
+
+  // Catch up right away when returning to a tab that missed a refresh
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible' && Date.now() - lastRun >= intervalMs) {
+      runNow();
+    }
+  };
+
+  return {
+    start: () => {
+      if (timer) return;
+      timer = setInterval(tick, intervalMs);
+      document.addEventListener('visibilitychange', handleVisibility);
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+      document.removeEventListener('visibilitychange', handleVisibility);
+    },
+    runNow,
+    // Lets manual refreshes skip the card the scheduler is already working on
+    isRefreshing: (cardId: string) => current === cardId,
+  };
+};
@@ -0,0 +1,122 @@
+import { FantasyConfig, WeatherCardData } from '../types';
+
+// URL routes for the app's overlays, so places, worlds and open cards can be bookmarked and shared:
+//   /                                   the stack
+//   /city/<lat>,<lon>[/<YYYY-MM-DD>]    a place (on a past day), opened as a preview card
+//   /fantasy                            the fictional world creator
+//   /fantasy/<code>                     a fictional world, rebuilt from its encoded FantasyConfig
+//   /card/<id>[/detail/<metric>]        a saved card, optionally with a metric's detail open
+// The app is served from the site root; hosts need to serve index.html for these paths.
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'city'; latitude: number; longitude: number; date?: string }
+  | { name: 'fantasy'; config?: FantasyConfig }
+  | { name: 'card'; cardId: string; metric?: string };
+
+// Stored with each history entry: how deep the entry is (overlays open), how many entries the app
+// pushed below it, and whether an unrouted modal (e.g. preferences) is open on top
+export interface RouteEntry {
+  depth: number;
+  steps: number;
+  modal: boolean;
+}
+
+// Metric details as named by WeatherCard, keyed by their URL slug
+const DETAIL_METRICS = ['Feels Like', 'Humidity', 'UV Index', 'Visibility', 'Precipitation', 'Cloud Cover', 'Pressure', 'Dew Point', 'Wind', 'Air Quality', 'Sunrise', 'Sunset'];
+
+const toSlug = (metric: string) => metric.toLowerCase().replace(/\s+/g, '-');
+
+const fromSlug = (slug: string) => DETAIL_METRICS.find(metric => toSlug(metric) === slug);
+
+// --- Fantasy worlds ---
+
+// Config values in a fixed order, JSON-encoded and base64url'd behind a format version digit
+const FANTASY_CODE_VERSION = '1';
+const FANTASY_FIELDS = ['mode', 'cityName', 'universe', 'weather', 'time', 'aesthetic', 'description'] as const;
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (code: string) => {
+  const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const encodeFantasyConfig = (config: FantasyConfig) =>
+  FANTASY_CODE_VERSION + toBase64Url(JSON.stringify(FANTASY_FIELDS.map(field => config[field])));
+
+export const decodeFantasyConfig = (code: string): FantasyConfig | null => {
+  if (!code.startsWith(FANTASY_CODE_VERSION)) return null;
+  try {
+    const values = JSON.parse(fromBase64Url(code.slice(FANTASY_CODE_VERSION.length)));
+    if (!Array.isArray(values) || values.length !== FANTASY_FIELDS.length || !values.every(v => typeof v === 'string')) return null;
+    if (values[0] !== 'fantasy' && values[0] !== 'historical') return null;
+    return Object.fromEntries(FANTASY_FIELDS.map((field, i) => [field, values[i]])) as unknown as FantasyConfig;
+  } catch {
+    return null;
+  }
+};
+
+// --- Paths ---
+
+const formatCoordinate = (value: number) => String(Number(value.toFixed(4)));
+
+const CITY_PATH = /^\/city\/(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)(?:\/(\d{4}-\d{2}-\d{2}))?\/?$/;
+const FANTASY_PATH = /^\/fantasy(?:\/([A-Za-z0-9_-]+))?\/?$/;
+const CARD_PATH = /^\/card\/([^/]+)(?:\/detail\/([a-z-]+))?\/?$/;
+
+// Unknown or malformed paths fall back to the stack
+export const parseRoute = (pathname: string): Route => {
+  const city = pathname.match(CITY_PATH);
+  if (city) {
+    const latitude = Number(city[1]);
+    const longitude = Number(city[2]);
+    if (Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) {
+      return { name: 'city', latitude, longitude, date: city[3] };
+    }
+  }
+  const fantasy = pathname.match(FANTASY_PATH);
+  if (fantasy) {
+    if (!fantasy[1]) return { name: 'fantasy' };
+    const config = decodeFantasyConfig(fantasy[1]);
+    if (config) return { name: 'fantasy', config };
+  }
+  const card = pathname.match(CARD_PATH);
+  if (card) {
+    return { name: 'card', cardId: decodeURIComponent(card[1]), metric: card[2] ? fromSlug(card[2]) : undefined };
+  }
+  return { name: 'home' };
+};
+
+export const routePath = (route: Route): string => {
+  switch (route.name) {
+    case 'city':
+      return `/city/${formatCoordinate(route.latitude)},${formatCoordinate(route.longitude)}${route.date ? `/${route.date}` : ''}`;
+    case 'fantasy':
+      return route.config ? `/fantasy/${encodeFantasyConfig(route.config)}` : '/fantasy';
+    case 'card':
+      return `/card/${encodeURIComponent(route.cardId)}${route.metric ? `/detail/${toSlug(route.metric)}` : ''}`;
+    default:
+      return '/';
+  }
+};
+
+// Overlays stacked on the stack: a card, place or world is one level, a metric detail another
+export const routeDepth = (route: Route) =>
+  route.name === 'home' ? 0 : route.name === 'card' && route.metric ? 2 : 1;
+
+// Route of an unsaved preview card: its world for fictional cards, otherwise its place
+export const previewRoute = (card: WeatherCardData): Route =>
+  card.weather.isFictional && card.weather.fantasyConfig
+    ? { name: 'fantasy', config: card.weather.fantasyConfig }
+    : {
+        name: 'city',
+        latitude: card.weather.location.latitude,
+        longitude: card.weather.location.longitude,
+        date: card.weather.historicalDate,
+      };
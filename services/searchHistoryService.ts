@@ -0,0 +1,105 @@
+import { LocationData } from '../types';
+
+// Places the user picked from search (recent) or starred (favorites), persisted in localStorage
+// and offered in the search dropdown. Both lists are capped; when full, the entry used least
+// recently is evicted.
+
+const RECENT_KEY = 'iso_recent_searches';
+const FAVORITES_KEY = 'iso_favorite_places';
+
+export const RECENT_LIMIT = 10;
+export const FAVORITES_LIMIT = 20;
+
+export interface SavedPlace {
+  location: LocationData;
+  usedAt: number; // Last time it was picked (or starred); drives ordering and eviction
+}
+
+const isSavedPlace = (value: unknown): value is SavedPlace => {
+  if (!value || typeof value !== 'object') return false;
+  const { usedAt, location } = value as Partial<Record<keyof SavedPlace, unknown>>;
+  return typeof usedAt === 'number' && !!location && typeof location === 'object' &&
+    typeof (location as LocationData).id === 'number' && typeof (location as LocationData).name === 'string';
+};
+
+const load = (key: string): SavedPlace[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(stored) ? stored.filter(isSavedPlace) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Most recent first, trimmed to `limit` (the tail is the least recently used)
+const save = (key: string, places: SavedPlace[], limit: number): SavedPlace[] => {
+  const kept = [...places].sort((a, b) => b.usedAt - a.usedAt).slice(0, limit);
+  localStorage.setItem(key, JSON.stringify(kept));
+  return kept;
+};
+
+const upsert = (places: SavedPlace[], location: LocationData, usedAt = Date.now()) =>
+  [{ location, usedAt }, ...places.filter(p => p.location.id !== location.id)];
+
+export const getRecentSearches = (): SavedPlace[] => load(RECENT_KEY);
+
+export const getFavoritePlaces = (): SavedPlace[] => load(FAVORITES_KEY);
+
+// Call when a place is picked. Moves it to the front of recents and refreshes its favorite entry.
+export const recordSearch = (location: LocationData) => {
+  const recent = save(RECENT_KEY, upsert(getRecentSearches(), location), RECENT_LIMIT);
+  const favorites = getFavoritePlaces();
+  const isFavorite = favorites.some(p => p.location.id === location.id);
+  return {
+    recent,
+    favorites: isFavorite ? save(FAVORITES_KEY, upsert(favorites, location), FAVORITES_LIMIT) : favorites,
+  };
+};
+
+export const removeRecentSearch = (id: number): SavedPlace[] =>
+  save(RECENT_KEY, getRecentSearches().filter(p => p.location.id !== id), RECENT_LIMIT);
+
+export const toggleFavorite = (location: LocationData): SavedPlace[] => {
+  const favorites = getFavoritePlaces();
+  return favorites.some(p => p.location.id === location.id)
+    ? save(FAVORITES_KEY, favorites.filter(p => p.location.id !== location.id), FAVORITES_LIMIT)
+    : save(FAVORITES_KEY, upsert(favorites, location), FAVORITES_LIMIT);
+};
+
+// --- Fuzzy Matching ---
+
+// Lowercase without accents, so "sao" finds "São Paulo"
+const fold = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Scores `text` against `query` as an in-order subsequence ("nyc" -> "New York City").
+// Consecutive letters and letters at word starts score higher; null when it doesn't match.
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = fold(query).replace(/\s+/g, '');
+  const target = fold(text);
+  if (!q) return 0;
+
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+  for (const char of q) {
+    const found = target.indexOf(char, position);
+    if (found === -1) return null;
+    score += 1;
+    if (found === previous + 1) score += 2;
+    if (found === 0 || /[\s,\-']/.test(target[found - 1])) score += 3;
+    previous = found;
+    position = found + 1;
+  }
+  // Prefer tighter matches and shorter names
+  return score - (previous - q.length) * 0.1 - target.length * 0.01;
+};
+
+const placeLabel = ({ name, admin1, country }: LocationData) => [name, admin1, country].filter(Boolean).join(', ');
+
+// Places matching `query`, best first
+export const filterPlaces = (places: SavedPlace[], query: string): SavedPlace[] =>
+  places
+    .map(place => ({ place, score: fuzzyScore(query, placeLabel(place.location)) }))
+    .filter((entry): entry is { place: SavedPlace; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.place);
@@ -0,0 +1,360 @@
+import { WeatherCardData, GeneratedImage, WeatherData, NotificationRule, ImageVersion, OutputProfile } from '../types';
+import { momentKey } from './forecastScenes';
+
+// IndexedDB layout:
+//  - "cards":  one record per saved card (weather data + image metadata + stack order)
+//  - "images": the raw PNG for each card as a Blob, keyed by the card id
+//              (forecast scene variants by "<card id>:<moment key>", timelapse frames by
+//              "<card id>:timelapse:<moment key>", edit history versions by "<card id>:history:<version id>")
+// Splitting the blobs out keeps reading/re-ordering the stack cheap; the heavy 4K renders are
+// only rewritten when the image actually changes.
+const DB_NAME = 'isoweather';
+const DB_VERSION = 1;
+const CARD_STORE = 'cards';
+const IMAGE_STORE = 'images';
+
+// Bump when the shape of WeatherCardData changes; upgradeRecord() fills in the gaps.
+const CARD_SCHEMA_VERSION = 2;
+
+// Start evicting once the origin uses more than this share of its quota
+const QUOTA_HIGH_WATER = 0.85;
+
+type StoredImage = Omit<GeneratedImage, 'url' | 'base64'> & { url?: string }; // url only kept for non-blob images (e.g. fallbacks)
+
+interface StoredVariant { // A forecast scene, timelapse frame or history version
+  key: string; // Blob key in the images store
+  image: StoredImage;
+  signature: string;
+  bytes: number;
+}
+
+interface StoredCard {
+  id: string;
+  schemaVersion: number;
+  order: number;
+  savedAt: string;
+  weather: WeatherData;
+  image: StoredImage;
+  imageSignature: string;
+  imageBytes: number;
+  notificationRules?: NotificationRule[];
+  pinned?: boolean;
+  profile?: OutputProfile;
+  collectionId?: string;
+  variants?: StoredVariant[];
+  timelapse?: StoredVariant[];
+  imageHistory?: {
+    versions: (StoredVariant & Omit<ImageVersion, 'image'>)[];
+    coverId: string;
+  };
+}
+
+// Schema migrations, applied in order from the old version up to DB_VERSION.
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    const cards = db.createObjectStore(CARD_STORE, { keyPath: 'id' });
+    cards.createIndex('savedAt', 'savedAt');
+    db.createObjectStore(IMAGE_STORE);
+  },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let v = event.oldVersion + 1; v <= DB_VERSION; v++) {
+        MIGRATIONS[v]?.(db, tx);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn("Card storage upgrade blocked by another open tab");
+  });
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException("Transaction aborted", "AbortError"));
+  });
+
+// --- Blob <-> base64 helpers ---
+
+const base64ToBlob = (base64: string, mimeType = 'image/png'): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Cheap fingerprint so unchanged images are not rewritten on every sync
+const getImageSignature = (image: GeneratedImage) => `${image.generatedAt}:${image.base64.length}:${image.url.length}`;
+
+const variantBlobKey = (prefix: string, image: GeneratedImage) => `${prefix}:${image.moment ? momentKey(image.moment) : image.generatedAt}`;
+
+const toStoredImage = ({ url, base64, ...meta }: GeneratedImage): StoredImage => (base64 ? meta : { ...meta, url });
+
+const restoreImage = async (stored: StoredImage, blob: Blob | undefined): Promise<GeneratedImage> => {
+  const base64 = blob ? await blobToBase64(blob) : '';
+  const { url, ...meta } = stored;
+  return {
+    ...meta,
+    base64,
+    url: base64 ? `data:${blob!.type || 'image/png'};base64,${base64}` : (url || ''),
+  };
+};
+
+// Everything stored next to the scene: forecast variants, timelapse frames and history versions
+const extraImages = (record: StoredCard) =>
+  [...(record.variants || []), ...(record.timelapse || []), ...(record.imageHistory?.versions || [])];
+
+// Scene plus extra images, as counted against the quota
+const storedBytes = (record: StoredCard) => record.imageBytes + extraImages(record).reduce((sum, v) => sum + v.bytes, 0);
+
+// Stores a list of extra images (variants, timelapse frames, versions) the same way as the scene itself:
+// blobs are only written when new or changed, and blobs of images no longer listed are deleted.
+const storeImageList = (prefix: string, images: GeneratedImage[] | undefined, prevList: StoredVariant[] | undefined) => {
+  const blobs: { key: string; blob: Blob | null }[] = [];
+  const stored = (images || []).map((image): StoredVariant => {
+    const key = variantBlobKey(prefix, image);
+    const prev = prevList?.find(v => v.key === key);
+    const signature = getImageSignature(image);
+    const changed = !prev || prev.signature !== signature;
+    const blob = changed && image.base64 ? base64ToBlob(image.base64) : null;
+    if (changed) blobs.push({ key, blob });
+    return {
+      key,
+      image: toStoredImage(image),
+      signature,
+      bytes: changed ? (blob?.size || 0) : prev!.bytes,
+    };
+  });
+  const keptKeys = new Set(stored.map(v => v.key));
+  const staleKeys = (prevList || []).map(v => v.key).filter(key => !keptKeys.has(key));
+  return { stored: stored.length > 0 ? stored : undefined, blobs, staleKeys };
+};
+
+// Fill in fields that older records may be missing
+const upgradeRecord = (record: StoredCard): StoredCard => {
+  if (record.schemaVersion === CARD_SCHEMA_VERSION) return record;
+  const weather = record.weather;
+  return {
+    ...record,
+    schemaVersion: CARD_SCHEMA_VERSION,
+    weather: {
+      ...weather,
+      hourlyAqi: weather.hourlyAqi || [],
+      allHourly: weather.allHourly || weather.hourlyForecast || [],
+      // v2: forecast fetch time. Older cards were fetched right before their scene was rendered
+      updatedAt: weather.updatedAt || record.image.generatedAt,
+    },
+  };
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// --- Quota Management ---
+
+// Deletes the oldest saved cards until `bytesNeeded` fits under the high-water mark.
+// Cards listed in `keepIds` are never evicted. Returns the ids that were removed.
+const evictOldest = async (db: IDBDatabase, bytesNeeded: number, keepIds: Set<string>): Promise<string[]> => {
+  const tx = db.transaction([CARD_STORE, IMAGE_STORE], 'readwrite');
+  const cardStore = tx.objectStore(CARD_STORE);
+  const records = await promisify<StoredCard[]>(cardStore.index('savedAt').getAll());
+
+  let freed = 0;
+  const evicted: string[] = [];
+  for (const record of records) {
+    if (freed >= bytesNeeded) break;
+    if (keepIds.has(record.id)) continue;
+    cardStore.delete(record.id);
+    tx.objectStore(IMAGE_STORE).delete(record.id);
+    extraImages(record).forEach(v => tx.objectStore(IMAGE_STORE).delete(v.key));
+    freed += storedBytes(record);
+    evicted.push(record.id);
+  }
+  await transactionDone(tx);
+
+  if (evicted.length > 0) {
+    console.warn(`Storage quota low: evicted ${evicted.length} old card(s)`, evicted);
+  }
+  return evicted;
+};
+
+const ensureQuotaHeadroom = async (db: IDBDatabase, incomingBytes: number, keepIds: Set<string>): Promise<string[]> => {
+  if (!navigator.storage?.estimate) return [];
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  if (!quota) return [];
+  const limit = quota * QUOTA_HIGH_WATER;
+  if (usage + incomingBytes <= limit) return [];
+  return evictOldest(db, usage + incomingBytes - limit, keepIds);
+};
+
+// --- Public API ---
+
+export const loadSavedCards = async (): Promise<WeatherCardData[]> => {
+  const db = await openDb();
+  const tx = db.transaction([CARD_STORE, IMAGE_STORE], 'readonly');
+  // Issue every request up front; the transaction closes once it has nothing pending
+  const [records, blobs, blobKeys] = await Promise.all([
+    promisify<StoredCard[]>(tx.objectStore(CARD_STORE).getAll()),
+    promisify<Blob[]>(tx.objectStore(IMAGE_STORE).getAll()),
+    promisify(tx.objectStore(IMAGE_STORE).getAllKeys()),
+  ]);
+  const blobById = new Map(blobKeys.map((key, i) => [key as string, blobs[i]]));
+
+  const cards = await Promise.all(
+    records
+      .map(upgradeRecord)
+      .sort((a, b) => a.order - b.order)
+      .map(async (record): Promise<WeatherCardData> => ({
+        weather: record.weather,
+        notificationRules: record.notificationRules,
+        pinned: record.pinned,
+        profile: record.profile,
+        collectionId: record.collectionId,
+        image: await restoreImage(record.image, blobById.get(record.id)),
+        variants: record.variants
+          ? await Promise.all(record.variants.map(v => restoreImage(v.image, blobById.get(v.key))))
+          : undefined,
+        timelapse: record.timelapse
+          ? await Promise.all(record.timelapse.map(v => restoreImage(v.image, blobById.get(v.key))))
+          : undefined,
+        imageHistory: record.imageHistory
+          ? {
+              coverId: record.imageHistory.coverId,
+              versions: await Promise.all(record.imageHistory.versions.map(async v => ({
+                id: v.id,
+                parentId: v.parentId,
+                kind: v.kind,
+                image: await restoreImage(v.image, blobById.get(v.key)),
+              }))),
+            }
+          : undefined,
+      }))
+  );
+  return cards;
+};
+
+// Mirrors the given stack into IndexedDB: writes new/changed cards, updates order, removes deleted ones.
+// When the quota runs low the oldest cards are evicted to make room for the new renders;
+// their ids are returned so the caller can drop them from the in-memory stack as well.
+export const syncSavedCards = async (cards: WeatherCardData[]): Promise<string[]> => {
+  const db = await openDb();
+  const existing = await promisify<StoredCard[]>(
+    db.transaction(CARD_STORE, 'readonly').objectStore(CARD_STORE).getAll()
+  );
+  const existingById = new Map(existing.map(r => [r.id, r]));
+  const currentIds = new Set(cards.map(c => c.weather.id));
+
+  const now = new Date().toISOString();
+  const writes = cards.map((card, order) => {
+    const id = card.weather.id;
+    const prev = existingById.get(id);
+    const signature = getImageSignature(card.image);
+    const imageChanged = !prev || prev.imageSignature !== signature;
+    const blob = imageChanged && card.image.base64 ? base64ToBlob(card.image.base64) : null;
+
+    const variants = storeImageList(id, card.variants, prev?.variants);
+    const timelapse = storeImageList(`${id}:timelapse`, card.timelapse, prev?.timelapse);
+    const versions = storeImageList(`${id}:history`, card.imageHistory?.versions.map(v => v.image), prev?.imageHistory?.versions);
+    const variantBlobs = [...variants.blobs, ...timelapse.blobs, ...versions.blobs];
+    const staleVariantKeys = [...variants.staleKeys, ...timelapse.staleKeys, ...versions.staleKeys];
+
+    const record: StoredCard = {
+      id,
+      schemaVersion: CARD_SCHEMA_VERSION,
+      order,
+      savedAt: prev?.savedAt || now,
+      weather: card.weather,
+      image: toStoredImage(card.image),
+      imageSignature: signature,
+      imageBytes: imageChanged ? (blob?.size || 0) : prev!.imageBytes,
+      notificationRules: card.notificationRules,
+      pinned: card.pinned,
+      profile: card.profile,
+      collectionId: card.collectionId,
+      variants: variants.stored,
+      timelapse: timelapse.stored,
+      imageHistory: card.imageHistory && versions.stored
+        ? {
+            coverId: card.imageHistory.coverId,
+            versions: versions.stored.map((stored, i) => {
+              const { image, ...version } = card.imageHistory!.versions[i];
+              return { ...stored, ...version };
+            }),
+          }
+        : undefined,
+    };
+    return { record, blob, imageChanged, variantBlobs, staleVariantKeys };
+  });
+
+  // Never evict the renders we are about to write
+  const incoming = new Set(writes.filter(w => w.imageChanged || w.variantBlobs.length > 0).map(w => w.record.id));
+  const incomingBytes = writes.reduce((sum, w) =>
+    sum + (w.blob?.size || 0) + w.variantBlobs.reduce((bytes, v) => bytes + (v.blob?.size || 0), 0), 0);
+  const evicted = new Set(await ensureQuotaHeadroom(db, incomingBytes, incoming));
+
+  const commit = async () => {
+    const tx = db.transaction([CARD_STORE, IMAGE_STORE], 'readwrite');
+    const cardStore = tx.objectStore(CARD_STORE);
+    const imageStore = tx.objectStore(IMAGE_STORE);
+    for (const { record, blob, imageChanged, variantBlobs, staleVariantKeys } of writes) {
+      if (evicted.has(record.id)) continue;
+      cardStore.put(record);
+      if (blob) imageStore.put(blob, record.id);
+      else if (imageChanged) imageStore.delete(record.id);
+      for (const variant of variantBlobs) {
+        if (variant.blob) imageStore.put(variant.blob, variant.key);
+        else imageStore.delete(variant.key);
+      }
+      staleVariantKeys.forEach(key => imageStore.delete(key));
+    }
+    for (const prev of existing) {
+      if (!currentIds.has(prev.id)) {
+        cardStore.delete(prev.id);
+        imageStore.delete(prev.id);
+        extraImages(prev).forEach(v => imageStore.delete(v.key));
+      }
+    }
+    await transactionDone(tx);
+  };
+
+  try {
+    await commit();
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    // Estimate was too optimistic; make room for everything we tried to write and retry once
+    (await evictOldest(db, incomingBytes, incoming)).forEach(id => evicted.add(id));
+    await commit();
+  }
+  return Array.from(evicted);
+};
@@ -0,0 +1,154 @@
+// Turns timelapse frames into a shareable file, entirely in the browser:
+//  - animated WebP: every frame is encoded as a still WebP by the canvas, then the image chunks are
+//    wrapped into an animated WebP container (RIFF/VP8X/ANIM/ANMF)
+//  - video: the frames are played onto a canvas and recorded with MediaRecorder (WebM, or MP4 where
+//    that is all the browser records)
+
+export const TIMELAPSE_FRAME_MS = 900;
+
+// Exports are scaled down from the 4K renders; plenty for sharing and far quicker to encode
+const EXPORT_WIDTH = 1080;
+const WEBP_QUALITY = 0.9;
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm', 'video/mp4'];
+
+// --- Canvas ---
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load a timelapse frame"));
+    img.src = url;
+  });
+
+const prepareCanvas = async (urls: string[]) => {
+  const images = await Promise.all(urls.map(loadImage));
+  const first = images[0];
+  const scale = Math.min(1, EXPORT_WIDTH / first.naturalWidth);
+  const canvas = document.createElement('canvas');
+  // Even dimensions keep video encoders happy
+  canvas.width = Math.round(first.naturalWidth * scale / 2) * 2;
+  canvas.height = Math.round(first.naturalHeight * scale / 2) * 2;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+  const draw = (img: HTMLImageElement) => ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return { canvas, images, draw };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`))), type, quality);
+  });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// --- Animated WebP ---
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+const uint24 = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff];
+const uint32 = (n: number) => [...uint24(n), (n >>> 24) & 0xff];
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// RIFF chunk: fourCC, little-endian size, payload padded to an even length
+const riffChunk = (fourCC: string, payload: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(8 + payload.length + (payload.length % 2));
+  out.set(ascii(fourCC));
+  out.set(uint32(payload.length), 4);
+  out.set(payload, 8);
+  return out;
+};
+
+// The image chunks (ALPH, VP8, VP8L) of a still WebP, which is what an ANMF frame carries
+const extractImageChunks = (webp: Uint8Array): { data: Uint8Array; hasAlpha: boolean } => {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const parts: Uint8Array[] = [];
+  let hasAlpha = false;
+  for (let offset = 12; offset + 8 <= webp.length;) {
+    const fourCC = String.fromCharCode(...webp.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (fourCC === 'ALPH' || fourCC === 'VP8 ' || fourCC === 'VP8L') {
+      parts.push(webp.subarray(offset, Math.min(end, webp.length)));
+      if (fourCC !== 'VP8 ') hasAlpha = true;
+    }
+    offset = end;
+  }
+  if (parts.length === 0) throw new Error("Unexpected WebP output from the canvas");
+  return { data: concatBytes(parts), hasAlpha };
+};
+
+// Browsers without a WebP encoder silently fall back to PNG
+export const canExportWebp = (): boolean =>
+  typeof document !== 'undefined' && document.createElement('canvas').toDataURL('image/webp').startsWith('data:image/webp');
+
+export const exportAnimatedWebp = async (urls: string[], frameMs = TIMELAPSE_FRAME_MS): Promise<Blob> => {
+  if (urls.length === 0) throw new Error("Nothing to export");
+  const { canvas, images, draw } = await prepareCanvas(urls);
+
+  let hasAlpha = false;
+  const frames: Uint8Array[] = [];
+  for (const img of images) {
+    draw(img);
+    const still = new Uint8Array(await (await canvasToBlob(canvas, 'image/webp', WEBP_QUALITY)).arrayBuffer());
+    const chunks = extractImageChunks(still);
+    hasAlpha = hasAlpha || chunks.hasAlpha;
+    const header = new Uint8Array([
+      ...uint24(0), ...uint24(0), // Frame offset (x/2, y/2)
+      ...uint24(canvas.width - 1), ...uint24(canvas.height - 1),
+      ...uint24(frameMs),
+      0b10, // Don't blend with the previous frame, don't dispose
+    ]);
+    frames.push(riffChunk('ANMF', concatBytes([header, chunks.data])));
+  }
+
+  const vp8x = riffChunk('VP8X', new Uint8Array([
+    0b10 | (hasAlpha ? 0b10000 : 0), 0, 0, 0, // Animation (+ alpha) flags, reserved
+    ...uint24(canvas.width - 1), ...uint24(canvas.height - 1),
+  ]));
+  const anim = riffChunk('ANIM', new Uint8Array([0, 0, 0, 0xff, 0, 0])); // Black background, loop forever
+  const body = concatBytes([new Uint8Array(ascii('WEBP')), vp8x, anim, ...frames]);
+  const file = concatBytes([new Uint8Array(ascii('RIFF')), new Uint8Array(uint32(body.length)), body]);
+  return new Blob([file], { type: 'image/webp' });
+};
+
+// --- Video ---
+
+export const getVideoMimeType = (): string | undefined =>
+  typeof MediaRecorder === 'undefined' ? undefined : VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+// Records in real time, so this takes about as long as one loop of the timelapse
+export const exportVideo = async (urls: string[], frameMs = TIMELAPSE_FRAME_MS): Promise<Blob> => {
+  const mimeType = getVideoMimeType();
+  if (!mimeType) throw new Error("Video recording is not supported in this browser");
+  if (urls.length === 0) throw new Error("Nothing to export");
+  const { canvas, images, draw } = await prepareCanvas(urls);
+
+  draw(images[0]);
+  const stream = canvas.captureStream(30);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>((resolve, reject) => {
+    recorder.onstop = () => resolve();
+    recorder.onerror = () => reject(new Error("Video recording failed"));
+  });
+
+  recorder.start();
+  for (const img of images) {
+    draw(img);
+    await sleep(frameMs);
+  }
+  recorder.stop();
+  stream.getTracks().forEach(track => track.stop());
+  await stopped;
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
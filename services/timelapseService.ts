@@ -0,0 +1,115 @@
+import { WeatherData, GeneratedImage, SceneMoment, GenerationOptions } from '../types';
+import { editWeatherScene } from './geminiService';
+import { getMomentConditions, describeMomentForPrompt, MomentConditions } from './forecastScenes';
+import { getSceneCategory } from './refreshService';
+
+// A timelapse is a short series of scenes across the next 24 hours. The first frame is the card's
+// current scene; every later frame is an edit of the one before it, so the city, camera and
+// composition stay put while the light and weather move.
+
+export type TimelapseReason = 'now' | 'sunrise' | 'midday' | 'sunset' | 'night' | 'change';
+
+export interface TimelapseKeyframe {
+  moment: SceneMoment; // Always an hour of hourlyForecast
+  reasons: TimelapseReason[]; // Why the hour was picked (a change can coincide with sunset)
+}
+
+export const MAX_TIMELAPSE_FRAMES = 8;
+const MIDDAY_HOUR = 12;
+const NIGHT_DELAY_HOURS = 3; // Night frame: this long after sunset, once it is properly dark
+
+// Light for each kind of keyframe; weather changes keep whatever light the hour has
+const LIGHTING: Record<TimelapseReason, string> = {
+  now: '',
+  sunrise: 'Early sunrise light: low, warm sun on one side, long soft shadows and a pastel sky.',
+  midday: 'Bright midday light: sun high above, short crisp shadows.',
+  sunset: 'Golden-hour sunset light: long warm shadows and a glowing orange sky.',
+  night: 'Night: dark sky, lit windows, glowing street lights and signs.',
+  change: '',
+};
+
+const hourOf = (rawTime: string) => parseInt(rawTime.split('T')[1] || '0', 10);
+
+// "06:42" -> 6.7
+const clockHours = (clock: string) => {
+  const [h, m] = clock.split(':').map(n => parseInt(n, 10));
+  return h + (m || 0) / 60;
+};
+
+// Picks the hours worth drawing: now, sunrise, midday, sunset and night, plus every hour where the
+// weather turns into a visibly different scene (rain starts, skies clear...). Transitions are
+// dropped once the frame budget is used up; the fixed points of the day always make it in.
+export const pickTimelapseKeyframes = (weather: WeatherData): TimelapseKeyframe[] => {
+  const hours = weather.hourlyForecast;
+  const reasonsByTime = new Map<string, TimelapseReason[]>();
+  const add = (time: string, reason: TimelapseReason) => reasonsByTime.set(time, [...(reasonsByTime.get(time) || []), reason]);
+  const transitions: string[] = [];
+
+  hours.forEach((hour, i) => {
+    if (i === 0) add(hour.rawTime, 'now');
+    const h = hourOf(hour.rawTime);
+    const day = weather.forecast.find(d => hour.rawTime.startsWith(d.rawDate));
+    // Polar days/nights have no sunrise or sunset
+    if (day?.sunrise && day.sunset) {
+      const sunset = Math.floor(clockHours(day.sunset));
+      if (h === Math.ceil(clockHours(day.sunrise))) add(hour.rawTime, 'sunrise');
+      if (h === sunset) add(hour.rawTime, 'sunset');
+      if (h === Math.min(sunset + NIGHT_DELAY_HOURS, 23)) add(hour.rawTime, 'night');
+    }
+    if (h === MIDDAY_HOUR) add(hour.rawTime, 'midday');
+    if (i > 0 && getSceneCategory(hour.code) !== getSceneCategory(hours[i - 1].code)) transitions.push(hour.rawTime);
+  });
+
+  for (const time of transitions) {
+    if (reasonsByTime.has(time) || reasonsByTime.size < MAX_TIMELAPSE_FRAMES) add(time, 'change');
+  }
+
+  return Array.from(reasonsByTime.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([time, reasons]) => ({ moment: { kind: 'hour', time }, reasons }));
+};
+
+const buildFrameInstructions = (weather: WeatherData, keyframe: TimelapseKeyframe, conditions: MomentConditions): string => {
+  const lighting = keyframe.reasons.map(reason => LIGHTING[reason]).filter(Boolean).join(' ')
+    || (conditions.isDay ? 'Daylight matching the weather.' : 'Night: dark sky, lit windows and street lights.');
+  const change = keyframe.reasons.includes('change') ? ` The weather has just turned to ${conditions.condition}.` : '';
+
+  return `This image is one frame of a timelapse of ${weather.city}, ${weather.country}. Redraw it as the same scene on ${describeMomentForPrompt(keyframe.moment)}.${change}
+  Weather: ${conditions.condition}, cloud cover ${conditions.cloudCover}%. ${lighting}
+  Keep the city, landmarks, buildings, camera angle, zoom, framing and background color exactly as they are in the input image. Only change the sky, lighting, shadows and weather effects, so consecutive frames line up.`;
+};
+
+interface TimelapseOptions extends GenerationOptions {
+  onFrame?: (frames: GeneratedImage[]) => void; // Called after every frame, starting with the opening one
+}
+
+// Draws the frames one after another. Each frame waits for the previous one, so cancelling via the
+// signal stops the chain; frames reported through onFrame so far remain valid.
+export const generateTimelapse = async (
+  weather: WeatherData,
+  start: GeneratedImage,
+  keyframes: TimelapseKeyframe[],
+  options: TimelapseOptions = {}
+): Promise<GeneratedImage[]> => {
+  if (!start.base64) throw new Error("This scene can't be redrawn.");
+  const { onFrame, ...generation } = options;
+
+  const frames: GeneratedImage[] = [];
+  for (const keyframe of keyframes) {
+    const conditions = getMomentConditions(weather, keyframe.moment);
+    if (!conditions) continue;
+    const previous = frames[frames.length - 1];
+
+    const frame = previous
+      ? await editWeatherScene(previous, buildFrameInstructions(weather, keyframe, conditions), generation)
+      : { ...start, viewConfig: undefined };
+
+    frames.push({
+      ...frame,
+      moment: keyframe.moment,
+      conditions: { weatherCode: conditions.weatherCode, isDay: conditions.isDay, cloudCover: conditions.cloudCover },
+    });
+    onFrame?.([...frames]);
+  }
+  return frames;
+};
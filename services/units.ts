@@ -0,0 +1,128 @@
+import { UnitPreferences, TemperatureUnit, WindUnit, PressureUnit, DistanceUnit, PrecipitationUnit } from '../types';
+import { formatNumber, t } from './i18n';
+
+// Shared unit conversion + formatting. Weather data is always stored in metric
+// (°C, km/h, hPa, km, mm); everything on screen goes through these helpers so a
+// single preference change re-renders cards, charts and insight text consistently.
+
+export const DEFAULT_UNITS: UnitPreferences = {
+  temperature: 'C',
+  wind: 'kmh',
+  pressure: 'hPa',
+  distance: 'km',
+  precipitation: 'mm',
+};
+
+export const UNIT_OPTIONS: { [K in keyof UnitPreferences]: { value: UnitPreferences[K]; label: string }[] } = {
+  temperature: [
+    { value: 'C', label: '°C' },
+    { value: 'F', label: '°F' },
+  ],
+  wind: [
+    { value: 'kmh', label: 'km/h' },
+    { value: 'mph', label: 'mph' },
+    { value: 'ms', label: 'm/s' },
+    { value: 'kn', label: 'knots' },
+    { value: 'bft', label: 'Beaufort' },
+  ],
+  pressure: [
+    { value: 'hPa', label: 'hPa' },
+    { value: 'inHg', label: 'inHg' },
+    { value: 'mmHg', label: 'mmHg' },
+  ],
+  distance: [
+    { value: 'km', label: 'km' },
+    { value: 'mi', label: 'mi' },
+  ],
+  precipitation: [
+    { value: 'mm', label: 'mm' },
+    { value: 'in', label: 'in' },
+  ],
+};
+
+// Short suffixes shown next to values and on chart tooltips
+const WIND_LABELS: Record<WindUnit, string> = { kmh: 'km/h', mph: 'mph', ms: 'm/s', kn: 'kn', bft: 'Bft' };
+
+export const unitLabel = {
+  temperature: (_unit: TemperatureUnit) => '°',
+  wind: (unit: WindUnit) => WIND_LABELS[unit],
+  pressure: (unit: PressureUnit) => unit,
+  distance: (unit: DistanceUnit) => unit,
+  precipitation: (unit: PrecipitationUnit) => unit,
+};
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+// Lower bound (km/h) of Beaufort forces 1-12
+const BEAUFORT_LIMITS = [1, 6, 12, 20, 29, 39, 50, 62, 75, 89, 103, 118];
+
+export const toBeaufort = (kmh: number) => BEAUFORT_LIMITS.filter(limit => kmh >= limit).length;
+
+// --- Conversions (metric in, display unit out) ---
+
+export const convertTemperature = (celsius: number, unit: TemperatureUnit) =>
+  unit === 'F' ? Math.round((celsius * 9 / 5) + 32) : Math.round(celsius);
+
+export const convertWind = (kmh: number, unit: WindUnit) => {
+  switch (unit) {
+    case 'mph': return Math.round(kmh * 0.621371);
+    case 'ms': return roundTo(kmh / 3.6, 1);
+    case 'kn': return Math.round(kmh * 0.539957);
+    case 'bft': return toBeaufort(kmh);
+    default: return Math.round(kmh);
+  }
+};
+
+export const convertPressure = (hpa: number, unit: PressureUnit) => {
+  switch (unit) {
+    case 'inHg': return roundTo(hpa * 0.02953, 2);
+    case 'mmHg': return Math.round(hpa * 0.750062);
+    default: return Math.round(hpa);
+  }
+};
+
+export const convertDistance = (km: number, unit: DistanceUnit) =>
+  unit === 'mi' ? roundTo(km * 0.621371, 1) : roundTo(km, 1);
+
+export const convertPrecipitation = (mm: number, unit: PrecipitationUnit) =>
+  unit === 'in' ? roundTo(mm * 0.0393701, 2) : roundTo(mm, 1);
+
+// --- Formatting ---
+
+// Symbols hug the number ("21°", "40%"); word-like units get a space ("12 km/h").
+// Numbers use the active locale's separators ("29,92 inHg" in French).
+export const formatWithUnit = (value: number | string, label = '') => {
+  const text = typeof value === 'number' ? formatNumber(value) : value;
+  return !label || label.startsWith('°') || label === '%' ? `${text}${label}` : `${text} ${label}`;
+};
+
+export const formatTemperature = (celsius: number, units: UnitPreferences) =>
+  formatWithUnit(convertTemperature(celsius, units.temperature), unitLabel.temperature(units.temperature));
+
+export const formatWind = (kmh: number, units: UnitPreferences) =>
+  units.wind === 'bft'
+    ? t('units.beaufortForce', { force: toBeaufort(kmh) })
+    : formatWithUnit(convertWind(kmh, units.wind), unitLabel.wind(units.wind));
+
+export const formatPressure = (hpa: number, units: UnitPreferences) =>
+  formatWithUnit(convertPressure(hpa, units.pressure), unitLabel.pressure(units.pressure));
+
+export const formatDistance = (km: number, units: UnitPreferences) =>
+  formatWithUnit(convertDistance(km, units.distance), unitLabel.distance(units.distance));
+
+export const formatPrecipitation = (mm: number, units: UnitPreferences) =>
+  formatWithUnit(convertPrecipitation(mm, units.precipitation), unitLabel.precipitation(units.precipitation));
+
+// Drops unknown values (e.g. from an older build) back to the defaults
+export const normalizeUnits = (stored: Partial<Record<keyof UnitPreferences, unknown>> | undefined): UnitPreferences => {
+  const result = { ...DEFAULT_UNITS };
+  if (!stored) return result;
+  (Object.keys(UNIT_OPTIONS) as (keyof UnitPreferences)[]).forEach(key => {
+    const match = UNIT_OPTIONS[key].find(option => option.value === stored[key]);
+    if (match) (result as Record<keyof UnitPreferences, string>)[key] = match.value;
+  });
+  return result;
+};
@@ -0,0 +1,107 @@
+import { t } from './i18n';
+
+// Error taxonomy for weather lookups. Providers throw these so the UI can tell the user
+// what went wrong and what to do about it, instead of a generic failure message.
+
+export type WeatherErrorKind = 'network' | 'rate-limit' | 'malformed-payload' | 'no-results' | 'geolocation';
+
+export class WeatherServiceError extends Error {
+  readonly kind: WeatherErrorKind;
+
+  constructor(kind: WeatherErrorKind, message: string) {
+    super(message);
+    this.name = 'WeatherServiceError';
+    this.kind = kind;
+  }
+}
+
+// Request never completed, or the service answered with a non-OK status
+export class NetworkError extends WeatherServiceError {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super('network', message);
+    this.name = 'NetworkError';
+    this.status = status;
+  }
+}
+
+// HTTP 429 from the upstream API
+export class RateLimitError extends WeatherServiceError {
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, retryAfterSeconds?: number) {
+    super('rate-limit', message);
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// Response parsed but did not match the expected shape
+export class MalformedPayloadError extends WeatherServiceError {
+  readonly path: string;
+
+  constructor(path: string, expected: string) {
+    super('malformed-payload', `Unexpected weather payload at "${path}": expected ${expected}`);
+    this.name = 'MalformedPayloadError';
+    this.path = path;
+  }
+}
+
+// Valid response without anything to show (unknown place, no data for location)
+export class NoResultsError extends WeatherServiceError {
+  readonly query: string;
+
+  constructor(query: string, message = `No results for "${query}"`) {
+    super('no-results', message);
+    this.name = 'NoResultsError';
+    this.query = query;
+  }
+}
+
+export type GeolocationFailure = 'denied' | 'unavailable' | 'timeout' | 'unsupported';
+
+// The browser could not (or was not allowed to) tell us where the device is
+export class GeolocationError extends WeatherServiceError {
+  readonly reason: GeolocationFailure;
+
+  constructor(reason: GeolocationFailure, message = `Geolocation failed: ${reason}`) {
+    super('geolocation', message);
+    this.name = 'GeolocationError';
+    this.reason = reason;
+  }
+}
+
+// Human-readable, actionable message (in the active locale) for any error thrown while loading weather
+export const describeWeatherError = (error: unknown): string => {
+  if (error instanceof RateLimitError) {
+    return error.retryAfterSeconds
+      ? t('error.rateLimitedFor', { seconds: error.retryAfterSeconds })
+      : t('error.rateLimited');
+  }
+  if (error instanceof NetworkError) {
+    if (error.status && error.status >= 500) {
+      return t('error.serverDown');
+    }
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      return t('error.offline');
+    }
+    return t('error.network');
+  }
+  if (error instanceof MalformedPayloadError) {
+    return t('error.malformed');
+  }
+  if (error instanceof GeolocationError) {
+    switch (error.reason) {
+      case 'denied': return t('error.locationDenied');
+      case 'timeout': return t('error.locationTimeout');
+      case 'unsupported': return t('error.locationUnsupported');
+      default: return t('error.locationUnavailable');
+    }
+  }
+  if (error instanceof NoResultsError) {
+    return t('error.noResults', { query: error.query });
+  }
+  if (error instanceof Error && error.message) return error.message;
+  return t('error.generic');
+};
@@ -1,171 +1,137 @@
+import { WeatherData, LocationData, WeatherProvider } from '../types';
+import { openMeteoProvider } from './providers/openMeteoProvider';
+import { fixtureProvider } from './providers/fixtureProvider';
+import { formatShortDate, formatLongDate, t } from './i18n';
+import { NoResultsError } from './weatherErrors';
+import { parseCoordinateQuery } from './coordinates';
+import { en, MessageKey } from '../locales/en';
+
+// --- Provider Registry ---
+// Pick the provider with WEATHER_PROVIDER in .env.local (e.g. "fixture" to run offline).
+const providers: Record<string, WeatherProvider> = {
+  [openMeteoProvider.id]: openMeteoProvider,
+  [fixtureProvider.id]: fixtureProvider,
+};
 
-import { WeatherData, LocationData, DailyForecast, HourlyForecast } from '../types';
+let activeProvider: WeatherProvider = providers[process.env.WEATHER_PROVIDER || ''] || openMeteoProvider;
 
-const GEO_API = "https://geocoding-api.open-meteo.com/v1/search";
-const WEATHER_API = "https://api.open-meteo.com/v1/forecast";
-const AQI_API = "https://air-quality-api.open-meteo.com/v1/air-quality";
+export const getWeatherProvider = (): WeatherProvider => activeProvider;
 
-export const searchCities = async (query: string): Promise<LocationData[]> => {
-  if (query.length < 2) return [];
-  try {
-    const url = `${GEO_API}?name=${encodeURIComponent(query)}&count=3&language=en&format=json`;
-    const res = await fetch(url);
-    const data = await res.json();
-    
-    if (!data.results) return [];
-    
-    return data.results.map((item: any) => ({
-      id: item.id,
-      name: item.name,
-      country: item.country,
-      admin1: item.admin1,
-      latitude: item.latitude,
-      longitude: item.longitude,
-    }));
-  } catch (error) {
-    console.error("Error searching cities:", error);
-    return [];
-  }
+export const setWeatherProvider = (provider: WeatherProvider) => {
+  providers[provider.id] = provider;
+  activeProvider = provider;
+};
+
+export const SEARCH_RESULT_OPTIONS = [5, 10, 20, 50];
+export const DEFAULT_SEARCH_RESULTS = 10;
+
+export const normalizeSearchResults = (value: unknown): number =>
+  typeof value === 'number' && SEARCH_RESULT_OPTIONS.includes(value) ? value : DEFAULT_SEARCH_RESULTS;
+
+// Coordinates, plus codes and geohashes resolve to the single place they point at;
+// anything else is a name search returning up to `count` matches.
+export const searchCities = async (query: string, count = DEFAULT_SEARCH_RESULTS): Promise<LocationData[]> => {
+  const coordinates = parseCoordinateQuery(query);
+  if (coordinates) return [await activeProvider.reverseGeocode(coordinates.latitude, coordinates.longitude)];
+  return activeProvider.searchCities(query, count);
+};
+
+export const reverseGeocode = (latitude: number, longitude: number): Promise<LocationData> =>
+  activeProvider.reverseGeocode(latitude, longitude);
+
+// Index of the first entry at or after the current hour (allowing the hour in progress)
+const findCurrentIndex = (times: string[]): number => {
+  const now = new Date().getTime();
+  const index = times.findIndex(t => new Date(t).getTime() >= now - 3600000);
+  return index !== -1 ? index : 0;
 };
 
-export const getWeatherData = async (location: LocationData): Promise<WeatherData> => {
+// --- Historical Weather ---
+// Archived days run from the start of the reanalysis record up to yesterday
+export const HISTORY_START_DATE = '1940-01-01';
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Yesterday as local "YYYY-MM-DD" (the latest day that can have archived observations)
+export const latestHistoricalDate = (): string => {
+  const d = new Date();
+  d.setDate(d.getDate() - 1);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+export const isValidHistoricalDate = (date: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(date) && !Number.isNaN(new Date(date).getTime()) &&
+  date >= HISTORY_START_DATE && date <= latestHistoricalDate();
+
+// Live forecast for `location`, or, with `historicalDate` (YYYY-MM-DD), the archived
+// observations for that day shaped the same way: the day's 24 hours and a single daily entry.
+export const getWeatherData = async (location: LocationData, historicalDate?: string): Promise<WeatherData> => {
   try {
-    // 1. Prepare Weather API Params
-    // Added: precipitation to hourly
-    const weatherParams = new URLSearchParams({
-      latitude: location.latitude.toString(),
-      longitude: location.longitude.toString(),
-      current: "temperature_2m,relative_humidity_2m,apparent_temperature,precipitation,weather_code,wind_speed_10m,wind_direction_10m,wind_gusts_10m,pressure_msl,cloud_cover,dew_point_2m,is_day",
-      hourly: "temperature_2m,weather_code,precipitation_probability,precipitation,visibility,relative_humidity_2m,wind_speed_10m,uv_index,pressure_msl,cloud_cover",
-      daily: "weather_code,temperature_2m_max,temperature_2m_min,uv_index_max,precipitation_sum,sunrise,sunset",
-      timezone: "auto",
-      forecast_days: "8" 
-    });
-
-    // 2. Prepare Air Quality API Params
-    // Requesting hourly forecast for graph
-    const aqiParams = new URLSearchParams({
-      latitude: location.latitude.toString(),
-      longitude: location.longitude.toString(),
-      current: "us_aqi",
-      hourly: "us_aqi",
-      timezone: "auto",
-      forecast_days: "2" // Get enough data for a trend
-    });
-
-    // 3. Fetch in parallel
-    const [weatherRes, aqiRes] = await Promise.all([
-      fetch(`${WEATHER_API}?${weatherParams.toString()}`),
-      fetch(`${AQI_API}?${aqiParams.toString()}`)
-    ]);
-
-    const weatherData = await weatherRes.json();
-    const aqiData = await aqiRes.json();
-
-    if (!weatherData.current || !weatherData.daily || !weatherData.hourly) {
-      throw new Error("Incomplete weather data received");
+    const provider = activeProvider;
+    if (historicalDate && !isValidHistoricalDate(historicalDate)) {
+      throw new NoResultsError(location.name, `No archived weather for ${historicalDate}`);
     }
-
-    const current = weatherData.current;
-    const daily = weatherData.daily;
-    const hourly = weatherData.hourly;
-    const currentAqi = aqiData.current?.us_aqi;
-
-    // --- Process All Hourly Forecast Data ---
-    const allHourly: HourlyForecast[] = hourly.time.map((t: string, i: number) => {
-        const date = new Date(t);
-        return {
-            time: date.toLocaleTimeString('en-US', { hour: 'numeric', hour12: true }),
-            rawTime: t, // Keep ISO string for easy date matching
-            temp: Math.round(hourly.temperature_2m[i]),
-            code: hourly.weather_code[i],
-            pop: hourly.precipitation_probability[i] || 0,
-            precipitation: hourly.precipitation[i] || 0,
-            humidity: hourly.relative_humidity_2m[i] || 0,
-            windSpeed: hourly.wind_speed_10m[i] || 0,
-            uvIndex: hourly.uv_index[i] || 0,
-            pressure: hourly.pressure_msl[i] || 1013,
-            cloudCover: hourly.cloud_cover[i] || 0,
-            visibility: hourly.visibility ? hourly.visibility[i] : 10000
-        };
-    });
+    const { current, hourly: allHourly, daily: forecast, aqi } = historicalDate
+      ? await provider.getHistorical(location, historicalDate)
+      : await provider.getForecast(location);
 
     // --- Process "Next 24 Hours" Slice ---
-    const currentHourIndex = hourly.time.findIndex((t: string) => {
-        const time = new Date(t).getTime();
-        const now = new Date().getTime();
-        return time >= now - 3600000; 
-    });
-    
-    const startIndex = currentHourIndex !== -1 ? currentHourIndex : 0;
+    // A past day has no "now": show it from midnight
+    const startIndex = historicalDate ? 0 : findCurrentIndex(allHourly.map(h => h.rawTime));
     const hourlyForecast = allHourly.slice(startIndex, startIndex + 24);
 
     // --- Process Hourly AQI ---
     let hourlyAqi: number[] = [];
-    if (aqiData.hourly && aqiData.hourly.us_aqi) {
-        const aqiStart = aqiData.hourly.time.findIndex((t: string) => {
-            const time = new Date(t).getTime();
-            const now = new Date().getTime();
-            return time >= now - 3600000;
-        });
-        const idx = aqiStart !== -1 ? aqiStart : 0;
-        hourlyAqi = aqiData.hourly.us_aqi.slice(idx, idx + 24);
+    if (aqi && aqi.hourly.length > 0) {
+        const idx = findCurrentIndex(aqi.hourly.map(a => a.time));
+        hourlyAqi = aqi.hourly.slice(idx, idx + 24).map(a => a.value);
     }
 
-    // --- Process Daily Forecast ---
-    const forecast: DailyForecast[] = daily.time.map((t: string, i: number) => ({
-      date: new Date(t).toLocaleDateString('en-US', { weekday: 'short' }),
-      fullDate: new Date(t).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' }),
-      rawDate: t, // YYYY-MM-DD
-      max: Math.round(daily.temperature_2m_max[i]),
-      min: Math.round(daily.temperature_2m_min[i]),
-      code: daily.weather_code[i],
-      uvIndex: daily.uv_index_max[i],
-      rainSum: daily.precipitation_sum[i],
-      sunrise: daily.sunrise[i].split('T')[1],
-      sunset: daily.sunset[i].split('T')[1]
-    })).slice(0, 8); 
-
     // Current Visibility
-    const currentVisibilityKm = hourly.visibility ? hourly.visibility[startIndex] / 1000 : 10;
+    const currentVisibilityKm = allHourly[startIndex] ? allHourly[startIndex].visibility / 1000 : 10;
 
     // Format AQI
+    const currentAqi = aqi?.current;
     let aqiString = "--";
     if (currentAqi !== undefined && currentAqi !== null) {
         const label = getAqiLabel(currentAqi);
         aqiString = `${currentAqi} (${label})`;
     }
 
-    const dateStr = new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    const dateStr = historicalDate ? formatLongDate(historicalDate) : formatShortDate(new Date());
 
     return {
       id: crypto.randomUUID(),
       city: location.name,
       nativeCity: location.name,
       country: location.country || "",
-      temperature: Math.round(current.temperature_2m),
-      condition: mapWmoCode(current.weather_code),
-      weatherCode: current.weather_code,
+      temperature: Math.round(current.temperature),
+      condition: mapWmoCode(current.weatherCode),
+      weatherCode: current.weatherCode,
       date: dateStr,
-      isDay: current.is_day,
-      
-      humidity: current.relative_humidity_2m,
-      windSpeed: Math.round(current.wind_speed_10m),
-      windDirection: getWindDirection(current.wind_direction_10m),
-      windDirectionDeg: current.wind_direction_10m, // Raw degrees
-      windGusts: Math.round(current.wind_gusts_10m),
-      feelsLike: Math.round(current.apparent_temperature),
+      isDay: current.isDay,
+      source: provider.name,
+      // Archived days never go stale, so they carry no fetch time
+      updatedAt: historicalDate ? undefined : new Date().toISOString(),
+      historicalDate,
+
+      humidity: current.humidity,
+      windSpeed: Math.round(current.windSpeed),
+      windDirection: getWindDirection(current.windDirectionDeg),
+      windDirectionDeg: current.windDirectionDeg, // Raw degrees
+      windGusts: Math.round(current.windGusts),
+      feelsLike: Math.round(current.feelsLike),
       precipitation: current.precipitation,
-      pressure: Math.round(current.pressure_msl),
+      pressure: Math.round(current.pressure),
       visibility: Math.round(currentVisibilityKm * 10) / 10,
-      cloudCover: current.cloud_cover,
-      uvIndex: daily.uv_index_max[0] || 0,
-      dewPoint: Math.round(current.dew_point_2m),
+      cloudCover: current.cloudCover,
+      uvIndex: forecast[0]?.uvIndex || 0,
+      dewPoint: Math.round(current.dewPoint),
       airQuality: aqiString,
       hourlyAqi, // Pass the trend data
-      
-      sunrise: daily.sunrise[0].split('T')[1],
-      sunset: daily.sunset[0].split('T')[1],
+
+      sunrise: forecast[0]?.sunrise || "--:--",
+      sunset: forecast[0]?.sunset || "--:--",
 
       hourlyForecast,
       allHourly, // Store full dataset
@@ -193,16 +159,22 @@ const getAqiLabel = (aqi: number): string => {
     return "Hazardous";
 };
 
-export const mapWmoCode = (code: number): string => {
-  if (code === 0) return "Clear Sky";
-  if (code === 1) return "Mainly Clear";
-  if (code === 2) return "Partly Cloudy";
-  if (code === 3) return "Overcast";
-  if (code === 45 || code === 48) return "Foggy";
-  if (code >= 51 && code <= 57) return "Drizzle";
-  if (code >= 61 && code <= 67) return "Rain";
-  if (code >= 71 && code <= 77) return "Snow";
-  if (code >= 80 && code <= 82) return "Showers";
-  if (code >= 95 && code <= 99) return "Thunderstorm";
-  return "Unknown";
+const wmoConditionKey = (code: number): MessageKey => {
+  if (code === 0) return 'condition.clear';
+  if (code === 1) return 'condition.mainlyClear';
+  if (code === 2) return 'condition.partlyCloudy';
+  if (code === 3) return 'condition.overcast';
+  if (code === 45 || code === 48) return 'condition.fog';
+  if (code >= 51 && code <= 57) return 'condition.drizzle';
+  if (code >= 61 && code <= 67) return 'condition.rain';
+  if (code >= 71 && code <= 77) return 'condition.snow';
+  if (code >= 80 && code <= 82) return 'condition.showers';
+  if (code >= 95 && code <= 99) return 'condition.thunderstorm';
+  return 'condition.unknown';
 };
+
+// Always English: the condition is stored on the card and fed into image prompts
+export const mapWmoCode = (code: number): string => en[wmoConditionKey(code)];
+
+// Condition in the active locale, for display
+export const getConditionLabel = (code: number): string => t(wmoConditionKey(code));
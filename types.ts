@@ -1,4 +1,9 @@
 
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
 export interface LocationData {
   id: number;
   name: string;
@@ -30,6 +35,8 @@ export interface HourlyForecast {
   precipitation: number; // Amount in mm
   humidity: number; // %
   windSpeed: number; // km/h
+  windGusts?: number; // km/h, when the provider reports it
+  feelsLike?: number; // Celsius, when the provider reports it
   uvIndex: number;
   pressure: number; // hPa
   cloudCover: number; // %
@@ -63,7 +70,10 @@ export interface WeatherData {
   date: string;
   isDay: number; // 1 for Day, 0 for Night
   isFictional?: boolean; // Flag for fantasy cities
+  source?: string; // Name of the WeatherProvider that produced the data
+  updatedAt?: string; // ISO time the forecast was fetched; shown as "last updated" when stale/offline
   fantasyConfig?: FantasyConfig; // Persisted config for regeneration
+  historicalDate?: string; // YYYY-MM-DD when the card shows archived observations for a past day instead of the live forecast
   
   // Indicators
   humidity: number; // %
@@ -102,12 +112,267 @@ export interface ViewConfig {
     scale: number;
 }
 
+// Weather state a scene was rendered for, used to decide when it is out of date
+export interface SceneConditions {
+  weatherCode: number;
+  isDay: number;
+  cloudCover: number; // %
+}
+
+// A forecast moment a scene can be drawn for: one hour of allHourly or one day of the forecast
+export interface SceneMoment {
+  kind: 'hour' | 'day';
+  time: string; // rawTime for hours, rawDate for days
+}
+
+export interface TimelapseProgress {
+  done: number; // Frames drawn so far (the opening frame counts)
+  total: number;
+}
+
 export interface GeneratedImage {
   url: string; // Data URL
   base64: string; // Raw base64 for editing
   prompt: string;
   generatedAt: string;
   viewConfig?: ViewConfig; // User's custom pan/zoom state
+  conditions?: SceneConditions; // Set for real-weather scenes
+  moment?: SceneMoment; // Set for forecast scenes; "now" scenes have none
+  mask?: string; // Set for edits confined to a painted region: base64 PNG, white where the edit applied
+  template?: PromptTemplateRef; // Prompt template and slots that produced it (absent on images from before templates)
+  profile?: OutputProfile; // Format it was drawn in; images from before profiles are full-size 9:16
+}
+
+// Shapes a scene can be drawn in: phone/lock screen, desktop wallpaper, square post
+export type SceneAspectRatio = '9:16' | '16:9' | '1:1';
+
+export interface OutputProfile {
+  aspectRatio: SceneAspectRatio;
+  draft: boolean; // Quick low-resolution preview instead of the full 4K render
+}
+
+// One node of a card's edit history. Renders (first draw, refreshes) are roots; every "Adjust
+// Scene" edit hangs off the version it was made from, so the history is a tree.
+export interface ImageVersion {
+  id: string; // The image's generatedAt, unique within a card
+  parentId?: string; // Version this one was edited from (may be gone once old versions are pruned)
+  kind: 'render' | 'edit';
+  image: GeneratedImage; // prompt holds the edit instructions for edited versions
+}
+
+export interface ImageHistory {
+  versions: ImageVersion[]; // Oldest first
+  coverId: string; // Version shown on the card
+}
+
+// --- Weather Providers ---
+
+export interface CurrentConditions {
+  temperature: number; // Celsius
+  feelsLike: number; // Celsius
+  humidity: number; // %
+  precipitation: number; // mm
+  weatherCode: number; // WMO code
+  windSpeed: number; // km/h
+  windDirectionDeg: number; // Degrees 0-360
+  windGusts: number; // km/h
+  pressure: number; // hPa
+  cloudCover: number; // %
+  dewPoint: number; // Celsius
+  isDay: number; // 1 for Day, 0 for Night
+}
+
+// Vendor-neutral forecast returned by a WeatherProvider.
+// weatherService turns this into WeatherData (24h slice, AQI label, etc.)
+export interface ProviderForecast {
+  current: CurrentConditions;
+  hourly: HourlyForecast[]; // Every hour the provider returned, oldest first
+  daily: DailyForecast[];
+  aqi?: {
+    current?: number; // US AQI
+    hourly: { time: string; value: number }[];
+  };
+}
+
+export interface WeatherProvider {
+  id: string;
+  name: string; // Shown as the data source attribution
+  searchCities: (query: string, count: number) => Promise<LocationData[]>; // Up to `count` matches, best first
+  reverseGeocode: (latitude: number, longitude: number) => Promise<LocationData>;
+  getForecast: (location: LocationData) => Promise<ProviderForecast>;
+  // Archived observations for one past day (YYYY-MM-DD, local to the place). `current` is taken at midday.
+  getHistorical: (location: LocationData, date: string) => Promise<ProviderForecast>;
+}
+
+// --- Prompt Templates ---
+
+// Named values a prompt template is filled with. `context` carries extra lines for a scene (lore
+// research, archive notes); `instructions` is the user's request for edits.
+export type PromptSlot = 'city' | 'landmarks' | 'weather' | 'time' | 'aesthetic' | 'cameraAngle' | 'aspectRatio' | 'context' | 'instructions';
+export type PromptSlots = Partial<Record<PromptSlot, string>>;
+
+// The slots a style preset fixes; the rest come from the card
+export type StyleSlot = 'landmarks' | 'aesthetic' | 'cameraAngle';
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  slots: Record<StyleSlot, string>;
+  builtIn?: boolean; // Shipped with the app; can't be deleted
+}
+
+// How a scene should be drawn: a template version plus the style slots, taken from a preset for new
+// cards and from the previous image when a card is redrawn
+export interface SceneStyle {
+  version: number; // Version of the scene template
+  presetId?: string;
+  slots: Record<StyleSlot, string>;
+}
+
+export interface PromptTemplateRef {
+  templateId: string;
+  version: number;
+  slots: PromptSlots; // As filled in for that image, so the exact prompt can be rebuilt
+  style: SceneStyle; // Style in effect; edits carry the style of the image they were made from
+}
+
+// --- Collections ---
+
+// A named stack of cards. Membership lives on the cards; a card's place in its collection follows
+// its position in the saved card list.
+export interface Collection {
+  id: string;
+  name: string; // Empty for the default collection until the user renames it
+}
+
+// --- Bundles ---
+
+// Images travel with their pixels; the data URL is rebuilt on import. `url` is only kept for
+// images that have no base64 (e.g. fallbacks).
+export type BundledImage = Omit<GeneratedImage, 'url'> & { url?: string };
+
+// A saved card as written to a bundle. WeatherData carries the FantasyConfig of fictional cards
+// and each image its ViewConfig. Pinned ("My Location") cards are exported as regular cards.
+export interface BundledCard {
+  weather: WeatherData;
+  image: BundledImage;
+  variants?: BundledImage[];
+  timelapse?: BundledImage[];
+  imageHistory?: {
+    versions: (Omit<ImageVersion, 'image'> & { image: BundledImage })[];
+    coverId: string;
+  };
+  notificationRules?: NotificationRule[];
+  profile?: OutputProfile;
+  collectionId?: string;
+}
+
+export interface CardBundle {
+  format: 'isoweather-bundle';
+  version: number; // Bundle format version, see services/bundleService.ts
+  exportedAt: string;
+  collections: Collection[]; // Collections the cards belong to
+  cards: BundledCard[]; // In stack order
+}
+
+// What to do with an imported card whose place is already saved
+export type ImportConflictPolicy = 'keepExisting' | 'replace' | 'keepBoth';
+
+// --- Image Generation Queue ---
+
+export type GenerationStage = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface GenerationProgress {
+  jobId: string;
+  label: string; // e.g. "Rendering Tokyo"
+  stage: GenerationStage;
+  attempt: number; // 1-based
+  maxAttempts: number;
+  queuePosition?: number; // 1-based, only while queued
+  retryInMs?: number; // Only while waiting to retry
+  error?: string; // Only when failed
+}
+
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: GenerationProgress) => void;
+  background?: boolean; // Scheduled/automatic work: waits behind anything the user asked for
+}
+
+// --- Preferences ---
+
+export type TemperatureUnit = 'C' | 'F';
+export type WindUnit = 'kmh' | 'mph' | 'ms' | 'kn' | 'bft';
+export type PressureUnit = 'hPa' | 'inHg' | 'mmHg';
+export type DistanceUnit = 'km' | 'mi';
+export type PrecipitationUnit = 'mm' | 'in';
+
+// Display units only; WeatherData always stores metric values (°C, km/h, hPa, km, mm)
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  wind: WindUnit;
+  pressure: PressureUnit;
+  distance: DistanceUnit;
+  precipitation: PrecipitationUnit;
+}
+
+export type Locale = 'en' | 'es' | 'fr' | 'ja';
+
+// --- Weather Alerts ---
+
+export type AlertKind = 'wind' | 'rain' | 'heat' | 'cold' | 'fog' | 'uv';
+export type AlertSeverity = 'advisory' | 'warning';
+
+// Metric trigger values for one alert kind. For cold and fog the alert fires when the
+// value drops BELOW the threshold (feels-like °C, visibility km); for the rest, above.
+export interface AlertThreshold {
+  advisory: number;
+  warning: number;
+}
+
+// null disables that kind of alert
+export type AlertThresholds = Record<AlertKind, AlertThreshold | null>;
+
+export interface WeatherAlert {
+  id: string; // Stable per kind + start time, so re-derived alerts keep their identity
+  kind: AlertKind;
+  severity: AlertSeverity;
+  start: string; // ISO local time of the first affected hour (or day start for rain)
+  end: string; // ISO local time the window ends (exclusive)
+  peak: number; // Most extreme metric value inside the window
+}
+
+// --- Notifications ---
+
+export type NotificationMetric = 'pop' | 'precipitation' | 'aqi';
+
+// Per-card rule: notify when `metric` reaches `threshold` within the next `withinHours`
+export interface NotificationRule {
+  id: string;
+  metric: NotificationMetric;
+  threshold: number; // % for pop, mm per hour for precipitation, US AQI for aqi
+  withinHours: number;
+  enabled: boolean;
+}
+
+export interface QuietHours {
+  start: number; // Hour of day (0-23) notifications are held back from
+  end: number; // Hour of day they resume; may be earlier than start (overnight)
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  quietHours: QuietHours | null;
+}
+
+export interface UserPreferences {
+  units: UnitPreferences;
+  locale: Locale;
+  alerts: AlertThresholds;
+  notifications: NotificationSettings;
+  searchResults: number; // How many matches a name search fetches (paged in SearchInput)
+  stylePresetId: string; // Style preset new scenes are drawn with
+  outputProfile: OutputProfile; // Format new cards start with
 }
 
 export enum AppState {
@@ -122,4 +387,11 @@ export enum AppState {
 export interface WeatherCardData {
     weather: WeatherData;
     image: GeneratedImage;
+    notificationRules?: NotificationRule[];
+    pinned?: boolean; // "My Location" card: follows the device instead of a searched place
+    variants?: GeneratedImage[]; // Forecast scenes, at most one per moment, shown next to the "now" image
+    timelapse?: GeneratedImage[]; // Frames across the next 24 hours in time order, each redrawn from the previous one
+    imageHistory?: ImageHistory; // Every version of the "now" scene; missing until the first edit
+    profile?: OutputProfile; // Format new scenes for this card are drawn in; defaults to full-size 9:16
+    collectionId?: string; // Collection the card belongs to; missing means the default one
 }
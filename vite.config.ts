@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.WEATHER_PROVIDER': JSON.stringify(env.WEATHER_PROVIDER || ''),
+        'process.env.WEATHER_ARCHIVE_URL': JSON.stringify(env.WEATHER_ARCHIVE_URL || '')
       },
       resolve: {
         alias: {